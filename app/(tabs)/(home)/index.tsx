@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,15 +7,38 @@ import {
   TouchableOpacity,
   Animated,
   RefreshControl,
+  Alert,
 } from 'react-native';
-import { useRouter } from 'expo-router';
-import { Plus, CheckCircle2, Clock, AlertCircle, Calendar } from 'lucide-react-native';
+import { Stack, useRouter } from 'expo-router';
+import {
+  Plus,
+  CheckCircle2,
+  Clock,
+  AlertCircle,
+  Calendar,
+  Search,
+  ListFilter,
+  LayoutList,
+  Columns3,
+  Brain,
+} from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
 import { useApp } from '@/providers/AppProvider';
 import TaskCard from '@/components/TaskCard';
 import EmptyState from '@/components/EmptyState';
+import GuestImportBanner from '@/components/GuestImportBanner';
+import ProjectSwitcher from '@/components/ProjectSwitcher';
+import TagFilterBar from '@/components/TagFilterBar';
+import TaskBoard from '@/components/TaskBoard';
+import QuickAddBar from '@/components/QuickAddBar';
+import { BOARD_GROUPINGS, BoardColumn, buildBoardColumns } from '@/lib/board';
+import { DEFAULT_CATEGORY_SLUG } from '@/lib/categoryService';
+import { ProjectService } from '@/lib/projectService';
+import { QuickAddResult } from '@/lib/quickAdd';
+import { groupEntriesByTask } from '@/lib/timeTracking';
+import { Task } from '@/types';
 
 type TabType = 'today' | 'upcoming' | 'completed' | 'overdue';
 
@@ -29,34 +52,88 @@ const tabs: { key: TabType; label: string; icon: React.ReactNode }[] = [
 export default function HomeScreen() {
   const router = useRouter();
   const {
+    tasks: allTasks,
     todayTasks,
     upcomingTasks,
     completedTasks,
     overdueTasks,
+    addTask,
+    updateTask,
     toggleTaskComplete,
+    pendingSyncTaskIds,
+    syncPendingOperations,
+    guestTasks,
+    importGuestTasks,
+    discardGuestTasks,
+    activeProjects,
+    categories,
+    allTags,
+    openBlockersByTaskId,
+    smartLists,
+    smartListTasks,
+    boardPreferences,
+    updateBoardPreferences,
+    friends,
+    timeEntries,
+    startTimer,
+    stopTimer,
+    unreadCommentCounts,
   } = useApp();
-  const [activeTab, setActiveTab] = useState<TabType>('today');
+  // A fixed tab, or the id of a pinned smart list
+  const [activeTab, setActiveTab] = useState<string>('today');
   const [refreshing, setRefreshing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [hideGuestImport, setHideGuestImport] = useState(false);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const fabScale = useRef(new Animated.Value(1)).current;
 
-  const getTasksForTab = () => {
-    switch (activeTab) {
+  const entriesByTaskId = useMemo(() => groupEntriesByTask(timeEntries), [timeEntries]);
+
+  // Drop a selection that points at a project that was archived or deleted
+  const selectedProject = activeProjects.find(p => p.id === selectedProjectId);
+  const projectFilter = selectedProject ? selectedProject.id : null;
+  // New tasks go into the selected project unless it's shared view-only
+  const newTaskProjectId =
+    selectedProject && ProjectService.canAddTasks(selectedProject) ? selectedProject.id : undefined;
+
+  // Ignore selected tags that no task uses any more (e.g. after a rename)
+  const tagFilter = selectedTags.filter(tag => allTags.some(t => t.tag === tag));
+
+  const applyFilters = (list: Task[]) =>
+    list.filter(t =>
+      (!projectFilter || t.projectId === projectFilter) &&
+      tagFilter.every(tag => t.tags?.includes(tag))
+    );
+
+  // Fall back to Today if the selected smart list was unpinned or deleted
+  const pinnedLists = smartLists.filter(l => l.isPinned);
+  const activeSmartList = pinnedLists.find(l => l.id === activeTab);
+  const currentTab = activeSmartList || tabs.some(t => t.key === activeTab) ? activeTab : 'today';
+
+  const getTasksForTab = (tab: string) => {
+    switch (tab) {
       case 'today':
-        return todayTasks;
+        return applyFilters(todayTasks);
       case 'upcoming':
-        return upcomingTasks;
+        return applyFilters(upcomingTasks);
       case 'completed':
-        return completedTasks;
+        return applyFilters(completedTasks);
       case 'overdue':
-        return overdueTasks;
+        return applyFilters(overdueTasks);
       default:
-        return [];
+        return applyFilters(smartListTasks.get(tab) ?? []);
     }
   };
 
-  const tasks = getTasksForTab();
+  const tasks = getTasksForTab(currentTab);
+
+  const isBoardView = boardPreferences.view === 'board';
+  const boardColumns = isBoardView
+    ? buildBoardColumns(applyFilters(allTasks), boardPreferences.groupBy, { projects: activeProjects, categories })
+    : [];
 
-  const handleTabPress = (tab: TabType) => {
+  const handleTabPress = (tab: string) => {
     Haptics.selectionAsync();
     setActiveTab(tab);
   };
@@ -65,9 +142,67 @@ export default function HomeScreen() {
     router.push(`/task/${taskId}`);
   };
 
+  const handleStartTimer = async (taskId: string) => {
+    if (!(await startTimer(taskId))) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Couldn't start timer", 'Check your connection and try again. Tasks added offline can be timed once they have synced.');
+    }
+  };
+
+  const handleToggleView = () => {
+    Haptics.selectionAsync();
+    updateBoardPreferences({ view: isBoardView ? 'list' : 'board' });
+  };
+
+  const handleMoveTask = (task: Task, column: BoardColumn) => {
+    if (column.key.startsWith('status:')) {
+      // Completing goes through the toggle so recurring tasks schedule their next occurrence
+      const toCompleted = column.updates?.status === 'completed';
+      if (toCompleted !== (task.status === 'completed')) {
+        toggleTaskComplete(task.id);
+      }
+      return;
+    }
+    if (column.updates) {
+      updateTask(task.id, column.updates);
+    }
+  };
+
+  const handleToggleColumn = (columnKey: string) => {
+    const collapsed = boardPreferences.collapsedColumns;
+    updateBoardPreferences({
+      collapsedColumns: collapsed.includes(columnKey)
+        ? collapsed.filter(key => key !== columnKey)
+        : [...collapsed, columnKey],
+    });
+  };
+
+  const handleSetWipLimit = (columnKey: string, limit: number | null) => {
+    const { [columnKey]: _previous, ...wipLimits } = boardPreferences.wipLimits;
+    updateBoardPreferences({ wipLimits: limit ? { ...wipLimits, [columnKey]: limit } : wipLimits });
+  };
+
+  const handleQuickAdd = (result: QuickAddResult) => {
+    const category = result.category ?? DEFAULT_CATEGORY_SLUG;
+    addTask({
+      title: result.title,
+      priority: result.priority ?? 'medium',
+      // Fall back to the first category if the default one was deleted
+      category: categories.some(c => c.slug === category) ? category : categories[0]?.slug ?? category,
+      status: 'pending',
+      dueDate: result.dueDate,
+      dueTime: result.dueTime,
+      isRecurring: !!result.recurringPattern,
+      recurringPattern: result.recurringPattern,
+      projectId: newTaskProjectId,
+      tags: result.tags.length > 0 ? result.tags : undefined,
+      assignedTo: result.assignedTo.length > 0 ? result.assignedTo : undefined,
+    });
+  };
+
   const handleNewTask = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    router.push('/new-task');
+    router.push(newTaskProjectId ? { pathname: '/new-task', params: { projectId: newTaskProjectId } } : '/new-task');
   };
 
   const handleFabPressIn = () => {
@@ -85,14 +220,56 @@ export default function HomeScreen() {
     }).start();
   };
 
+  const handleImportGuestTasks = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsImporting(true);
+    const result = await importGuestTasks();
+    setIsImporting(false);
+    if (!result) return;
+
+    if (result.failed.length > 0) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        'Import incomplete',
+        `${result.failed.length} ${result.failed.length === 1 ? 'task' : 'tasks'} couldn't be imported. They are still on this device, so you can try again.`
+      );
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const skippedNote = result.skipped > 0
+      ? ` ${result.skipped} already in your account ${result.skipped === 1 ? 'was' : 'were'} skipped.`
+      : '';
+    Alert.alert('Tasks imported', `Imported ${result.imported} ${result.imported === 1 ? 'task' : 'tasks'}.${skippedNote}`);
+  };
+
+  const handleDismissGuestImport = () => {
+    Alert.alert(
+      'Skip import?',
+      'Tasks created before you signed in stay on this device until you import or delete them.',
+      [
+        { text: 'Not Now', style: 'cancel', onPress: () => setHideGuestImport(true) },
+        { text: 'Delete from Device', style: 'destructive', onPress: () => discardGuestTasks() },
+      ]
+    );
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await syncPendingOperations();
     setRefreshing(false);
   };
 
   const getEmptyStateConfig = () => {
-    switch (activeTab) {
+    if (activeSmartList) {
+      return {
+        icon: <ListFilter size={64} color={Colors.primaryLight} />,
+        title: `Nothing in ${activeSmartList.name}`,
+        description: "No tasks match this smart list right now.",
+      };
+    }
+
+    switch (currentTab) {
       case 'today':
         return {
           icon: <Clock size={64} color={Colors.primaryLight} />,
@@ -128,85 +305,172 @@ export default function HomeScreen() {
 
   const emptyConfig = getEmptyStateConfig();
 
-  const getTabCount = (tab: TabType) => {
-    switch (tab) {
-      case 'today':
-        return todayTasks.length;
-      case 'upcoming':
-        return upcomingTasks.length;
-      case 'completed':
-        return completedTasks.length;
-      case 'overdue':
-        return overdueTasks.length;
-      default:
-        return 0;
-    }
-  };
+  const getTabCount = (tab: string) => getTasksForTab(tab).length;
+
+  const allTabs = [
+    ...tabs,
+    ...pinnedLists.map(list => ({
+      key: list.id,
+      label: list.name,
+      icon: <ListFilter size={16} color={Colors.primary} />,
+    })),
+  ];
 
   return (
     <View style={styles.container}>
-      <View style={styles.tabContainer}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.tabScroll}
-        >
-          {tabs.map((tab) => {
-            const isActive = activeTab === tab.key;
-            const count = getTabCount(tab.key);
-            return (
-              <TouchableOpacity
-                key={tab.key}
-                style={[styles.tab, isActive && styles.tabActive]}
-                onPress={() => handleTabPress(tab.key)}
-                activeOpacity={0.7}
-              >
-                {tab.icon}
-                <Text style={[styles.tabLabel, isActive && styles.tabLabelActive]}>
-                  {tab.label}
-                </Text>
-                {count > 0 && (
-                  <View style={[styles.tabBadge, isActive && styles.tabBadgeActive]}>
-                    <Text style={[styles.tabBadgeText, isActive && styles.tabBadgeTextActive]}>
-                      {count}
-                    </Text>
-                  </View>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <TouchableOpacity onPress={handleToggleView}>
+                {isBoardView ? (
+                  <LayoutList size={22} color={Colors.primary} />
+                ) : (
+                  <Columns3 size={22} color={Colors.primary} />
                 )}
               </TouchableOpacity>
-            );
-          })}
-        </ScrollView>
-      </View>
-
-      <ScrollView
-        style={styles.content}
-        contentContainerStyle={styles.contentContainer}
-        showsVerticalScrollIndicator={false}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            tintColor={Colors.primary}
-          />
-        }
-      >
-        {tasks.length === 0 ? (
-          <EmptyState
-            icon={emptyConfig.icon}
-            title={emptyConfig.title}
-            description={emptyConfig.description}
+              <TouchableOpacity onPress={() => router.push('/focus')}>
+                <Brain size={22} color={Colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => router.push('/search')}>
+                <Search size={22} color={Colors.primary} />
+              </TouchableOpacity>
+            </View>
+          ),
+        }}
+      />
+      <View style={styles.tabContainer}>
+        <QuickAddBar categories={categories} friends={friends} onSubmit={handleQuickAdd} />
+        <ProjectSwitcher
+          projects={activeProjects}
+          selectedProjectId={projectFilter}
+          onSelect={setSelectedProjectId}
+          onManage={() => router.push('/projects')}
+        />
+        {allTags.length > 0 && (
+          <TagFilterBar
+            tags={allTags}
+            selectedTags={tagFilter}
+            onChange={setSelectedTags}
+            onManage={() => router.push('/tags')}
           />
+        )}
+        {isBoardView ? (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.tabScroll}
+          >
+            {BOARD_GROUPINGS.map((grouping) => {
+              const isActive = boardPreferences.groupBy === grouping.value;
+              return (
+                <TouchableOpacity
+                  key={grouping.value}
+                  style={[styles.tab, isActive && styles.tabActive]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    updateBoardPreferences({ groupBy: grouping.value });
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.tabLabel, isActive && styles.tabLabelActive]}>
+                    {grouping.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
         ) : (
-          tasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              onPress={() => handleTaskPress(task.id)}
-              onToggleComplete={() => toggleTaskComplete(task.id)}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.tabScroll}
+          >
+            {allTabs.map((tab) => {
+              const isActive = currentTab === tab.key;
+              const count = getTabCount(tab.key);
+              return (
+                <TouchableOpacity
+                  key={tab.key}
+                  style={[styles.tab, isActive && styles.tabActive]}
+                  onPress={() => handleTabPress(tab.key)}
+                  activeOpacity={0.7}
+                >
+                  {tab.icon}
+                  <Text style={[styles.tabLabel, isActive && styles.tabLabelActive]}>
+                    {tab.label}
+                  </Text>
+                  {count > 0 && (
+                    <View style={[styles.tabBadge, isActive && styles.tabBadgeActive]}>
+                      <Text style={[styles.tabBadgeText, isActive && styles.tabBadgeTextActive]}>
+                        {count}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+
+      {isBoardView ? (
+        <TaskBoard
+          columns={boardColumns}
+          collapsedColumns={boardPreferences.collapsedColumns}
+          wipLimits={boardPreferences.wipLimits}
+          openBlockersByTaskId={openBlockersByTaskId}
+          onMoveTask={handleMoveTask}
+          onPressTask={handleTaskPress}
+          onToggleCollapse={handleToggleColumn}
+          onSetWipLimit={handleSetWipLimit}
+        />
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={Colors.primary}
             />
-          ))
+          }
+        >
+          {guestTasks.length > 0 && !hideGuestImport && (
+            <GuestImportBanner
+              count={guestTasks.length}
+              isImporting={isImporting}
+              onImport={handleImportGuestTasks}
+              onDismiss={handleDismissGuestImport}
+            />
+          )}
+
+          {tasks.length === 0 ? (
+            <EmptyState
+              icon={emptyConfig.icon}
+              title={emptyConfig.title}
+              description={emptyConfig.description}
+            />
+        ) : (
+            tasks.map((task) => (
+              <TaskCard
+                key={task.id}
+                task={task}
+                onPress={() => handleTaskPress(task.id)}
+                onToggleComplete={() => toggleTaskComplete(task.id)}
+                isPendingSync={pendingSyncTaskIds.has(task.id)}
+                blockers={openBlockersByTaskId.get(task.id)}
+                timeEntries={entriesByTaskId.get(task.id)}
+                onStartTimer={() => handleStartTimer(task.id)}
+                onStopTimer={stopTimer}
+                unreadComments={unreadCommentCounts[task.id]}
+              />
+            ))
         )}
       </ScrollView>
+      )}
 
       <Animated.View style={[styles.fabContainer, { transform: [{ scale: fabScale }] }]}>
         <TouchableOpacity
@@ -228,6 +492,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.lg,
+  },
   tabContainer: {
     backgroundColor: Colors.background,
     borderBottomWidth: 1,
@@ -1,5 +1,5 @@
 import { Tabs } from "expo-router";
-import { Home, MessageCircle, Users, Bell, Settings } from "lucide-react-native";
+import { Home, CalendarDays, MessageCircle, Users, Bell, Settings } from "lucide-react-native";
 import React from "react";
 import { View, StyleSheet } from "react-native";
 import Colors from "@/constants/colors";
@@ -28,6 +28,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color, size }) => <Home size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          title: "Calendar",
+          tabBarIcon: ({ color, size }) => <CalendarDays size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="chat"
         options={{
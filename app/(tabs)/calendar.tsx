@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import CalendarMonth from '@/components/CalendarMonth';
+import CalendarTimeline from '@/components/CalendarTimeline';
+import {
+  CALENDAR_VIEWS,
+  CalendarView,
+  getCalendarTitle,
+  getWeekDates,
+  groupTasksByDate,
+  stepCalendar,
+} from '@/lib/calendar';
+import { getTodayDateString } from '@/lib/dateUtils';
+import { Task } from '@/types';
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const { tasks, rescheduleTask } = useApp();
+  const [view, setView] = useState<CalendarView>('month');
+  // The selected day; month and week pages are the ones containing it
+  const [selectedDate, setSelectedDate] = useState(getTodayDateString());
+
+  const tasksByDate = groupTasksByDate(tasks);
+
+  const handleViewChange = (next: CalendarView) => {
+    Haptics.selectionAsync();
+    setView(next);
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    Haptics.selectionAsync();
+    setSelectedDate(stepCalendar(selectedDate, view, direction));
+  };
+
+  const handleToday = () => {
+    Haptics.selectionAsync();
+    setSelectedDate(getTodayDateString());
+  };
+
+  const handlePressTask = (taskId: string) => {
+    router.push(`/task/${taskId}`);
+  };
+
+  const handleAddTask = (dueDate: string, dueTime?: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({ pathname: '/new-task', params: dueTime ? { dueDate, dueTime } : { dueDate } });
+  };
+
+  const handleMoveTask = (task: Task, dueDate: string, dueTime?: string) => {
+    rescheduleTask(task.id, dueDate, dueTime);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title} numberOfLines={1}>{getCalendarTitle(selectedDate, view)}</Text>
+        <View style={styles.navigation}>
+          <TouchableOpacity style={styles.navButton} onPress={() => handleStep(-1)}>
+            <ChevronLeft size={22} color={Colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.todayButton} onPress={handleToday}>
+            <Text style={styles.todayText}>Today</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.navButton} onPress={() => handleStep(1)}>
+            <ChevronRight size={22} color={Colors.text} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.segments}>
+        {CALENDAR_VIEWS.map(option => {
+          const isActive = option.value === view;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.segment, isActive && styles.segmentActive]}
+              onPress={() => handleViewChange(option.value)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {view === 'month' ? (
+        <CalendarMonth
+          anchorDate={selectedDate}
+          selectedDate={selectedDate}
+          tasksByDate={tasksByDate}
+          onSelectDate={setSelectedDate}
+          onMoveTask={(task, date) => handleMoveTask(task, date, task.dueTime)}
+          onPressTask={handlePressTask}
+          onAddTask={date => handleAddTask(date)}
+        />
+      ) : (
+        <CalendarTimeline
+          // Remount when switching between week and day so the timeline starts at the morning again
+          key={view}
+          dates={view === 'week' ? getWeekDates(selectedDate) : [selectedDate]}
+          tasksByDate={tasksByDate}
+          onMoveTask={handleMoveTask}
+          onPressSlot={handleAddTask}
+          onPressTask={handlePressTask}
+          onSelectDate={date => {
+            Haptics.selectionAsync();
+            setSelectedDate(date);
+            setView('day');
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  title: {
+    ...Typography.title2,
+    color: Colors.text,
+    flex: 1,
+  },
+  navigation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  navButton: {
+    padding: Spacing.xs,
+  },
+  todayButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  todayText: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '500' as const,
+  },
+  segments: {
+    flexDirection: 'row',
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+    padding: 2,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md - 2,
+  },
+  segmentActive: {
+    backgroundColor: Colors.surface,
+  },
+  segmentText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  segmentTextActive: {
+    color: Colors.text,
+    fontWeight: '600' as const,
+  },
+});
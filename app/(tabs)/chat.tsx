@@ -21,7 +21,7 @@ import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
 import { useApp } from '@/providers/AppProvider';
 import { useAuth } from '@/providers/AuthProvider';
-import { useTaskAI, transcribeAudio } from '@/lib/rorkAI';
+import { useTaskAI, transcribeAudio, parseToolOutput } from '@/lib/rorkAI';
 import ChatTaskCard from '@/components/ChatTaskCard';
 import { Task } from '@/types';
 
@@ -33,9 +33,23 @@ export default function ChatScreen() {
     overdueTasks, 
     completedTasks,
     addTask, 
+    addTasks,
     updateTask, 
     deleteTask, 
-    toggleTaskComplete 
+    toggleTaskComplete,
+    activeProjects,
+    categories,
+    allTags,
+    smartLists,
+    smartListTasks,
+    timeEntries,
+    templates,
+    applyTemplate,
+    focusSession,
+    startFocus,
+    searchTasks,
+    places,
+    addLocationReminder,
   } = useApp();
   const { user } = useAuth();
   const [inputText, setInputText] = useState('');
@@ -56,10 +70,25 @@ export default function ChatScreen() {
     upcomingTasks,
     overdueTasks,
     completedTasks,
-    onAddTask: addTask,
-    onUpdateTask: updateTask,
-    onDeleteTask: deleteTask,
-    onToggleComplete: toggleTaskComplete,
+    projects: activeProjects,
+    categories,
+    allTags,
+    smartLists,
+    smartListTasks,
+    timeEntries,
+    templates,
+    focusSession,
+    places,
+    searchTasks,
+    // The assistant's changes show up as "via assistant" in task history
+    onAddTask: task => addTask(task, 'assistant'),
+    onUpdateTask: (taskId, updates) => updateTask(taskId, updates, 'assistant'),
+    onDeleteTask: taskId => deleteTask(taskId, 'assistant'),
+    onToggleComplete: taskId => toggleTaskComplete(taskId, undefined, 'assistant'),
+    onStartFocus: startFocus,
+    onApplyTemplate: (templateId, anchorDate, projectId) => applyTemplate(templateId, anchorDate, projectId, 'assistant'),
+    onAddTasks: newTasks => addTasks(newTasks, 'assistant'),
+    onAddLocationReminder: addLocationReminder,
   });
 
   const { messages, error, sendMessage, setMessages } = agent;
@@ -378,13 +407,14 @@ export default function ChatScreen() {
             
             case 'tool':
               if (part.state === 'output-available' && part.output) {
-                const customRender = renderToolOutput(part.toolName, part.output);
+                const output = parseToolOutput(part.output);
+                const customRender = renderToolOutput(part.toolName, output);
                 if (customRender) {
                   return <View key={partKey}>{customRender}</View>;
                 }
                 
-                if (typeof part.output === 'object' && 'success' in (part.output as object)) {
-                  const result = part.output as { success: boolean; message: string };
+                if (output && typeof output === 'object' && 'success' in output) {
+                  const result = output as { success: boolean; message: string };
                   return (
                     <View key={partKey} style={styles.toolResultCard}>
                       {result.success ? (
@@ -16,16 +16,26 @@ import {
   ChevronRight,
   Crown,
   Bell,
+  BellRing,
   Shield,
   HelpCircle,
   Info,
   LogOut,
   Moon,
   Palette,
+  FolderKanban,
+  Shapes,
+  Hash,
+  ListFilter,
+  Timer,
+  ClipboardList,
+  Trash2,
+  MapPin,
 } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
 import { useAuth } from '@/providers/AuthProvider';
+import { useApp } from '@/providers/AppProvider';
 
 interface SettingItemProps {
   icon: React.ReactNode;
@@ -66,6 +76,7 @@ function SettingItem({
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, signOut, isSigningOut } = useAuth();
+  const { activeProjects, categories, allTags, smartLists, templates, activeTimeEntry, trashedTasks, places, defaultReminderOffsets } = useApp();
   const [notificationsEnabled, setNotificationsEnabled] = React.useState(true);
   const [darkMode, setDarkMode] = React.useState(false);
   const [versionPressCount, setVersionPressCount] = React.useState(0);
@@ -124,6 +135,60 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         )}
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Organize</Text>
+          <View style={styles.sectionContent}>
+            <SettingItem
+              icon={<FolderKanban size={20} color={Colors.primary} />}
+              title="Projects"
+              subtitle={activeProjects.length > 0 ? `${activeProjects.length} active` : 'Group tasks into lists'}
+              onPress={() => router.push('/projects')}
+            />
+            <SettingItem
+              icon={<Shapes size={20} color={Colors.primary} />}
+              title="Categories"
+              subtitle={`${categories.length} ${categories.length === 1 ? 'category' : 'categories'}`}
+              onPress={() => router.push('/categories')}
+            />
+            <SettingItem
+              icon={<Hash size={20} color={Colors.primary} />}
+              title="Tags"
+              subtitle={allTags.length > 0 ? `${allTags.length} in use` : 'Rename and merge tags'}
+              onPress={() => router.push('/tags')}
+            />
+            <SettingItem
+              icon={<ListFilter size={20} color={Colors.primary} />}
+              title="Smart Lists"
+              subtitle={smartLists.length > 0 ? `${smartLists.length} saved` : 'Save filters as lists'}
+              onPress={() => router.push('/smart-lists')}
+            />
+            <SettingItem
+              icon={<ClipboardList size={20} color={Colors.primary} />}
+              title="Templates"
+              subtitle={templates.length > 0 ? `${templates.length} saved` : 'Reusable bundles of tasks'}
+              onPress={() => router.push('/templates')}
+            />
+            <SettingItem
+              icon={<Timer size={20} color={Colors.primary} />}
+              title="Time Tracking"
+              subtitle={activeTimeEntry ? 'Timer running' : 'Totals by day, category and task'}
+              onPress={() => router.push('/time-tracking')}
+            />
+            <SettingItem
+              icon={<MapPin size={20} color={Colors.primary} />}
+              title="Places"
+              subtitle={places.length > 0 ? `${places.length} saved` : 'Reminders when you arrive or leave'}
+              onPress={() => router.push('/places')}
+            />
+            <SettingItem
+              icon={<Trash2 size={20} color={Colors.primary} />}
+              title="Trash"
+              subtitle={trashedTasks.length > 0 ? `${trashedTasks.length} deleted` : 'Restore deleted tasks'}
+              onPress={() => router.push('/trash')}
+            />
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Preferences</Text>
           <View style={styles.sectionContent}>
@@ -141,6 +206,12 @@ export default function SettingsScreen() {
                 />
               }
             />
+            <SettingItem
+              icon={<BellRing size={20} color={Colors.primary} />}
+              title="Default Reminders"
+              subtitle={defaultReminderOffsets.length > 0 ? `${defaultReminderOffsets.length} per task` : 'None'}
+              onPress={() => router.push('/reminders')}
+            />
             <SettingItem
               icon={<Moon size={20} color={Colors.primary} />}
               title="Dark Mode"
@@ -7,6 +7,7 @@ import { View, ActivityIndicator, StyleSheet } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { AppProvider, useApp } from "@/providers/AppProvider";
 import { AuthProvider, useAuth } from "@/providers/AuthProvider";
+import UndoSnackbar from "@/components/UndoSnackbar";
 import Colors from "@/constants/colors";
 
 SplashScreen.preventAutoHideAsync();
@@ -77,6 +78,90 @@ function RootLayoutNav() {
           presentation: "modal",
         }}
       />
+      <Stack.Screen
+        name="projects"
+        options={{
+          title: "Projects",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="categories"
+        options={{
+          title: "Categories",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="tags"
+        options={{
+          title: "Tags",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="search"
+        options={{
+          title: "Search",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="smart-lists"
+        options={{
+          title: "Smart Lists",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="templates"
+        options={{
+          title: "Templates",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="template/[id]"
+        options={{
+          title: "Template",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="time-tracking"
+        options={{
+          title: "Time Tracking",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="focus"
+        options={{
+          title: "Focus",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="trash"
+        options={{
+          title: "Trash",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="places"
+        options={{
+          title: "Places",
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="reminders"
+        options={{
+          title: "Default Reminders",
+          presentation: "card",
+        }}
+      />
       <Stack.Screen
         name="pricing"
         options={{
@@ -108,6 +193,7 @@ export default function RootLayout() {
             <StatusBar style="dark" />
             <AuthGate>
               <RootLayoutNav />
+              <UndoSnackbar />
             </AuthGate>
           </AppProvider>
         </AuthProvider>
@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { GitMerge, Pencil, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import Button from '@/components/Button';
+import { PROJECT_COLORS } from '@/components/ProjectIcon';
+import { Category } from '@/types';
+
+type RemoveMode = 'delete' | 'merge';
+
+function RemoveCategoryPanel({
+  category,
+  mode,
+  onClose,
+}: {
+  category: Category;
+  mode: RemoveMode;
+  onClose: () => void;
+}) {
+  const { categories, tasks, deleteCategory } = useApp();
+  const targets = categories.filter(c => c.id !== category.id);
+  const [targetSlug, setTargetSlug] = useState(targets[0]?.slug);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const taskCount = tasks.filter(t => t.category === category.slug).length;
+  const target = targets.find(c => c.slug === targetSlug);
+
+  const handleConfirm = async () => {
+    if (!target) return;
+    setIsSaving(true);
+    const ok = await deleteCategory(category.id, target.slug);
+    setIsSaving(false);
+
+    if (ok) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Something went wrong', 'Your tasks were not moved. Please try again.');
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>
+          {mode === 'merge' ? `Merge “${category.name}” into…` : `Delete “${category.name}”`}
+        </Text>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        {taskCount === 0
+          ? 'No tasks use this category.'
+          : `Its ${taskCount} ${taskCount === 1 ? 'task moves' : 'tasks move'} to the category you pick.`}
+      </Text>
+
+      <View style={styles.swatches}>
+        {targets.map(option => {
+          const isSelected = option.slug === targetSlug;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.targetChip,
+                isSelected && { backgroundColor: option.color + '20', borderColor: option.color },
+              ]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setTargetSlug(option.slug);
+              }}
+            >
+              <View style={[styles.dot, { backgroundColor: option.color }]} />
+              <Text style={[styles.targetText, isSelected && { color: option.color }]}>{option.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Button
+        title={mode === 'merge' ? `Merge into ${target?.name ?? '…'}` : 'Delete Category'}
+        onPress={handleConfirm}
+        disabled={!target}
+        loading={isSaving}
+      />
+    </View>
+  );
+}
+
+export default function CategoriesScreen() {
+  const { categories, tasks, addCategory, updateCategory } = useApp();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [removing, setRemoving] = useState<{ id: string; mode: RemoveMode } | null>(null);
+
+  const removingCategory = categories.find(c => c.id === removing?.id);
+
+  const countTasks = (slug: string) =>
+    tasks.filter(t => t.category === slug && t.status !== 'completed').length;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setColor(PROJECT_COLORS[0]);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (categories.some(c => c.id !== editingId && c.name.toLowerCase() === trimmed.toLowerCase())) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Name taken', 'You already have a category with that name.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (editingId) {
+      updateCategory(editingId, { name: trimmed, color });
+    } else {
+      await addCategory({ name: trimmed, color });
+    }
+    resetForm();
+  };
+
+  const handleEdit = (category: Category) => {
+    Haptics.selectionAsync();
+    setEditingId(category.id);
+    setName(category.name);
+    setColor(category.color);
+  };
+
+  const handleRemove = (category: Category, mode: RemoveMode) => {
+    if (categories.length <= 1) {
+      Alert.alert('Keep one category', 'Every task needs a category, so you can’t remove the last one.');
+      return;
+    }
+    Haptics.selectionAsync();
+    if (editingId === category.id) resetForm();
+    setRemoving({ id: category.id, mode });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Categories' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>{editingId ? 'Edit Category' : 'New Category'}</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Category name"
+            placeholderTextColor={Colors.textTertiary}
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+
+          <View style={styles.swatches}>
+            {PROJECT_COLORS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchSelected]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setColor(option);
+                }}
+              />
+            ))}
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <Button title="Cancel" variant="outline" onPress={resetForm} style={styles.formButton} />
+            )}
+            <Button
+              title={editingId ? 'Save' : 'Add Category'}
+              onPress={handleSave}
+              disabled={!name.trim()}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+
+        {removingCategory && removing && (
+          <RemoveCategoryPanel
+            key={`${removing.id}-${removing.mode}`}
+            category={removingCategory}
+            mode={removing.mode}
+            onClose={() => setRemoving(null)}
+          />
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Categories</Text>
+          <View style={styles.sectionContent}>
+            {categories.map(category => (
+              <View key={category.id} style={styles.categoryRow}>
+                <View style={[styles.categoryIcon, { backgroundColor: category.color + '20' }]}>
+                  <View style={[styles.dot, styles.dotLarge, { backgroundColor: category.color }]} />
+                </View>
+                <View style={styles.categoryInfo}>
+                  <Text style={styles.categoryName} numberOfLines={1}>{category.name}</Text>
+                  <Text style={styles.categoryMeta}>
+                    {countTasks(category.slug)} open {countTasks(category.slug) === 1 ? 'task' : 'tasks'}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(category)}>
+                  <Pencil size={18} color={Colors.textTertiary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(category, 'merge')}>
+                  <GitMerge size={18} color={Colors.textTertiary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(category, 'delete')}>
+                  <Trash2 size={18} color={Colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  cardTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+    flex: 1,
+  },
+  cardLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  nameInput: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: BorderRadius.full,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: Colors.surface,
+    shadowColor: Colors.text,
+    shadowOpacity: 0.3,
+    shadowRadius: 3,
+    shadowOffset: { width: 0, height: 1 },
+    elevation: 3,
+  },
+  targetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  targetText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: BorderRadius.full,
+  },
+  dotLarge: {
+    width: 14,
+    height: 14,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  formButton: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  categoryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.md,
+  },
+  categoryInfo: {
+    flex: 1,
+  },
+  categoryName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  categoryMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+});
@@ -0,0 +1,467 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Check, Minus, Pause, Play, Plus, Search, SkipForward, Square } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import Button from '@/components/Button';
+import { FOCUS_PHASE_LABELS, FocusSettings, getPhaseMinutes, getRemainingSeconds } from '@/lib/focus';
+import { getTodayDateString } from '@/lib/dateUtils';
+import { formatDuration, formatTimer, getEntriesSince, getTrackedSeconds } from '@/lib/timeTracking';
+
+const MAX_TASK_OPTIONS = 8;
+
+const SETTING_FIELDS: { key: keyof FocusSettings; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'workMinutes', label: 'Focus', unit: 'min', min: 5, max: 90, step: 5 },
+  { key: 'shortBreakMinutes', label: 'Short break', unit: 'min', min: 1, max: 30, step: 1 },
+  { key: 'longBreakMinutes', label: 'Long break', unit: 'min', min: 5, max: 60, step: 5 },
+  { key: 'cyclesBeforeLongBreak', label: 'Long break every', unit: 'sessions', min: 2, max: 8, step: 1 },
+];
+
+export default function FocusScreen() {
+  const params = useLocalSearchParams<{ taskId?: string }>();
+  const router = useRouter();
+  const {
+    tasks,
+    timeEntries,
+    focusSettings,
+    updateFocusSettings,
+    focusSession,
+    startFocus,
+    pauseFocus,
+    resumeFocus,
+    skipFocusPhase,
+    stopFocus,
+  } = useApp();
+  const [selectedTaskId, setSelectedTaskId] = useState(params.taskId);
+  const [query, setQuery] = useState('');
+  const [now, setNow] = useState(new Date());
+
+  const isPaused = focusSession?.pausedRemaining !== undefined;
+
+  useEffect(() => {
+    if (!focusSession || isPaused) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [focusSession, isPaused]);
+
+  const todayFocus = getEntriesSince(timeEntries, getTodayDateString()).filter(e => e.source === 'focus');
+
+  if (focusSession) {
+    const task = tasks.find(t => t.id === focusSession.taskId);
+    const remaining = getRemainingSeconds(focusSession, now);
+    const total = getPhaseMinutes(focusSession.settings, focusSession.phase) * 60;
+    const isWork = focusSession.phase === 'work';
+    const cycles = focusSession.settings.cyclesBeforeLongBreak;
+    // Work phases finished in the current round of cycles
+    const doneInRound = (focusSession.cycle - (isWork ? 1 : 0)) % cycles || (isWork ? 0 : cycles);
+    const taskFocus = todayFocus.filter(e => e.taskId === focusSession.taskId);
+
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Focus' }} />
+        <ScrollView contentContainerStyle={styles.sessionContainer}>
+          <Text style={[styles.phaseLabel, !isWork && styles.phaseLabelBreak]}>
+            {FOCUS_PHASE_LABELS[focusSession.phase]}
+          </Text>
+
+          <View style={[styles.clock, !isWork && styles.clockBreak]}>
+            <Text style={styles.clockText}>{formatTimer(remaining)}</Text>
+            {isPaused && <Text style={styles.clockMeta}>Paused</Text>}
+          </View>
+
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                !isWork && styles.progressFillBreak,
+                { width: `${Math.min(100, ((total - remaining) / total) * 100)}%` },
+              ]}
+            />
+          </View>
+
+          <View style={styles.cycleDots}>
+            {Array.from({ length: cycles }, (_, index) => (
+              <View key={index} style={[styles.cycleDot, index < doneInRound && styles.cycleDotDone]} />
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={styles.sessionTask}
+            onPress={() => task && router.push(`/task/${task.id}`)}
+            disabled={!task}
+          >
+            <Text style={styles.sessionTaskLabel}>Working on</Text>
+            <Text style={styles.sessionTaskTitle} numberOfLines={2}>{task?.title ?? 'Deleted task'}</Text>
+            <Text style={styles.sessionTaskMeta}>
+              {taskFocus.length} {taskFocus.length === 1 ? 'session' : 'sessions'} today
+              {taskFocus.length > 0 ? ` · ${formatDuration(getTrackedSeconds(taskFocus))}` : ''}
+            </Text>
+          </TouchableOpacity>
+
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                stopFocus();
+              }}
+            >
+              <Square size={22} color={Colors.error} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.controlButtonPrimary]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                if (isPaused) resumeFocus();
+                else pauseFocus();
+              }}
+            >
+              {isPaused ? (
+                <Play size={30} color={Colors.textInverse} fill={Colors.textInverse} />
+              ) : (
+                <Pause size={30} color={Colors.textInverse} fill={Colors.textInverse} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => {
+                Haptics.selectionAsync();
+                skipFocusPhase();
+              }}
+            >
+              <SkipForward size={22} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.controlsHint}>
+            {isWork ? 'Skipping ends this focus session without logging it.' : 'Skip to start the next focus session now.'}
+          </Text>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  const needle = query.trim().toLowerCase();
+  const openTasks = tasks.filter(t => t.status !== 'completed');
+  const selectedTask = openTasks.find(t => t.id === selectedTaskId);
+  const options = openTasks
+    .filter(t => t.id !== selectedTaskId && (!needle || t.title.toLowerCase().includes(needle)))
+    .slice(0, MAX_TASK_OPTIONS);
+
+  const handleStart = () => {
+    if (!selectedTask) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    startFocus(selectedTask.id);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Focus' }} />
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.sectionTitle}>Task</Text>
+        <View style={styles.card}>
+          {selectedTask && (
+            <View style={[styles.taskRow, styles.taskRowSelected]}>
+              <Check size={18} color={Colors.primary} />
+              <Text style={[styles.taskTitle, styles.taskTitleSelected]} numberOfLines={1}>{selectedTask.title}</Text>
+            </View>
+          )}
+          <View style={styles.searchRow}>
+            <Search size={16} color={Colors.textTertiary} />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder={selectedTask ? 'Pick a different task...' : 'Pick a task to focus on...'}
+              placeholderTextColor={Colors.textTertiary}
+              returnKeyType="done"
+            />
+          </View>
+          {options.map(task => (
+            <TouchableOpacity
+              key={task.id}
+              style={styles.taskRow}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelectedTaskId(task.id);
+                setQuery('');
+              }}
+            >
+              <Text style={styles.taskTitle} numberOfLines={1}>{task.title}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Cycle</Text>
+        <View style={styles.card}>
+          {SETTING_FIELDS.map(field => {
+            const value = focusSettings[field.key];
+            const change = (delta: number) => {
+              const next = Math.min(field.max, Math.max(field.min, value + delta));
+              if (next === value) return;
+              Haptics.selectionAsync();
+              updateFocusSettings({ [field.key]: next });
+            };
+            return (
+              <View key={field.key} style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{field.label}</Text>
+                <TouchableOpacity style={styles.stepButton} onPress={() => change(-field.step)} disabled={value <= field.min}>
+                  <Minus size={16} color={value <= field.min ? Colors.textTertiary : Colors.primary} />
+                </TouchableOpacity>
+                <Text style={styles.settingValue}>{value} {field.unit}</Text>
+                <TouchableOpacity style={styles.stepButton} onPress={() => change(field.step)} disabled={value >= field.max}>
+                  <Plus size={16} color={value >= field.max ? Colors.textTertiary : Colors.primary} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+
+        {todayFocus.length > 0 && (
+          <Text style={styles.todaySummary}>
+            {todayFocus.length} focus {todayFocus.length === 1 ? 'session' : 'sessions'} today · {formatDuration(getTrackedSeconds(todayFocus))}
+          </Text>
+        )}
+
+        <Button
+          title="Start Focus"
+          onPress={handleStart}
+          disabled={!selectedTask}
+          icon={<Play size={20} color={Colors.textInverse} fill={Colors.textInverse} />}
+          size="large"
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+    marginBottom: Spacing.xl,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  searchInput: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.md,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  taskRowSelected: {
+    backgroundColor: Colors.primaryMuted,
+  },
+  taskTitle: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+  },
+  taskTitleSelected: {
+    color: Colors.primaryDark,
+    fontWeight: '600' as const,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  settingLabel: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+  },
+  settingValue: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '600' as const,
+    minWidth: 88,
+    textAlign: 'center',
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.primaryMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  todaySummary: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  sessionContainer: {
+    alignItems: 'center',
+    padding: Spacing.xl,
+    paddingBottom: 60,
+  },
+  phaseLabel: {
+    ...Typography.headline,
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.lg,
+  },
+  phaseLabelBreak: {
+    color: Colors.info,
+  },
+  clock: {
+    width: 240,
+    height: 240,
+    borderRadius: 120,
+    borderWidth: 8,
+    borderColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+  },
+  clockBreak: {
+    borderColor: Colors.info,
+  },
+  clockText: {
+    ...Typography.largeTitle,
+    fontSize: 56,
+    lineHeight: 64,
+    color: Colors.text,
+    fontVariant: ['tabular-nums'],
+  },
+  clockMeta: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 6,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.borderLight,
+    overflow: 'hidden',
+    marginTop: Spacing.xl,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+  },
+  progressFillBreak: {
+    backgroundColor: Colors.info,
+  },
+  cycleDots: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  cycleDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.border,
+  },
+  cycleDotDone: {
+    backgroundColor: Colors.primary,
+  },
+  sessionTask: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginTop: Spacing.xl,
+  },
+  sessionTaskLabel: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+  },
+  sessionTaskTitle: {
+    ...Typography.title3,
+    color: Colors.text,
+    textAlign: 'center',
+    marginTop: Spacing.xs,
+  },
+  sessionTaskMeta: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xl,
+    marginTop: Spacing.xxl,
+  },
+  controlButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  controlButtonPrimary: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  controlsHint: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: Spacing.md,
+    textAlign: 'center',
+  },
+});
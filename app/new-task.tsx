@@ -8,12 +8,15 @@ import {
   TouchableOpacity,
   Platform,
 } from 'react-native';
-import { useRouter, Stack } from 'expo-router';
+import { useRouter, useLocalSearchParams, Stack } from 'expo-router';
 import {
   Calendar,
-  Clock,
   Flag,
   Folder,
+  FolderKanban,
+  Repeat,
+  Sparkles,
+  Tag,
   X,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
@@ -21,7 +24,14 @@ import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
 import { useApp } from '@/providers/AppProvider';
 import Button from '@/components/Button';
+import ProjectIcon from '@/components/ProjectIcon';
+import TagEditor from '@/components/TagEditor';
+import DateTimePicker from '@/components/DateTimePicker';
 import { Priority, TaskCategory } from '@/types';
+import { DEFAULT_CATEGORY_SLUG } from '@/lib/categoryService';
+import { addDaysToDateString, getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+import { describeNaturalDate, parseNaturalDate } from '@/lib/naturalDate';
+import { describeRecurrence, parseRecurrence } from '@/lib/recurrence';
 
 const priorities: { value: Priority; label: string; color: string }[] = [
   { value: 'high', label: 'High', color: Colors.priority.high },
@@ -30,24 +40,23 @@ const priorities: { value: Priority; label: string; color: string }[] = [
   { value: 'none', label: 'None', color: Colors.priority.none },
 ];
 
-const categories: { value: TaskCategory; label: string }[] = [
-  { value: 'work', label: 'Work' },
-  { value: 'personal', label: 'Personal' },
-  { value: 'health', label: 'Health' },
-  { value: 'shopping', label: 'Shopping' },
-  { value: 'other', label: 'Other' },
-];
-
 export default function NewTaskScreen() {
   const router = useRouter();
-  const { addTask } = useApp();
+  // The calendar opens this screen prefilled with the day (and time) that was tapped
+  const params = useLocalSearchParams<{ projectId?: string; dueDate?: string; dueTime?: string }>();
+  const { addTask, editableProjects, categories, allTags } = useApp();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<Priority>('medium');
-  const [category, setCategory] = useState<TaskCategory>('personal');
-  const [dueDate, setDueDate] = useState('');
-  const [dueTime, setDueTime] = useState(''); // Stored as 24-hour format (HH:MM)
-  const [timeDisplay, setTimeDisplay] = useState(''); // Display as 12-hour format with AM/PM
+  const [category, setCategory] = useState<TaskCategory>(DEFAULT_CATEGORY_SLUG);
+  const [dueDate, setDueDate] = useState(params.dueDate ?? '');
+  const [dueTime, setDueTime] = useState(params.dueTime ?? ''); // Stored as 24-hour format (HH:MM)
+  const [recurringPattern, setRecurringPattern] = useState<string | undefined>();
+  const [dateText, setDateText] = useState('');
+  const [projectId, setProjectId] = useState<string | undefined>(
+    editableProjects.some(p => p.id === params.projectId) ? params.projectId : undefined
+  );
+  const [tags, setTags] = useState<string[]>([]);
 
   const handleClose = () => {
     router.back();
@@ -65,10 +74,15 @@ export default function NewTaskScreen() {
       title: title.trim(),
       description: description.trim() || undefined,
       priority,
-      category,
+      // Fall back to the first category if the default one was deleted
+      category: categories.some(c => c.slug === category) ? category : categories[0]?.slug ?? category,
       status: 'pending',
       dueDate: dueDate || undefined,
       dueTime: dueTime || undefined,
+      isRecurring: !!recurringPattern,
+      recurringPattern,
+      projectId,
+      tags: tags.length > 0 ? tags : undefined,
     });
 
     router.back();
@@ -84,22 +98,30 @@ export default function NewTaskScreen() {
     setCategory(c);
   };
 
-  const getTomorrowDate = () => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow.toISOString().split('T')[0];
-  };
+  const getTodayDate = () => getTodayDateString();
+
+  const getTomorrowDate = () => addDaysToDateString(getTodayDate(), 1);
 
-  const getNextWeekDate = () => {
-    const nextWeek = new Date();
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    return nextWeek.toISOString().split('T')[0];
+  const getNextWeekDate = () => addDaysToDateString(getTodayDate(), 7);
+
+  const parsedDate = dateText.trim() ? parseNaturalDate(dateText) : null;
+  const recurrenceRule = parseRecurrence(recurringPattern);
+
+  const handleApplyDateText = () => {
+    if (!parsedDate) return;
+    Haptics.selectionAsync();
+    if (parsedDate.dueDate) setDueDate(parsedDate.dueDate);
+    if (parsedDate.dueTime) setDueTime(parsedDate.dueTime);
+    if (parsedDate.recurringPattern) setRecurringPattern(parsedDate.recurringPattern);
+    // "Pay rent every month on the 1st" also gives the title
+    if (!title.trim() && parsedDate.remainder) setTitle(parsedDate.remainder);
+    setDateText('');
   };
 
 
   const formatDisplayDate = (dateStr: string) => {
     if (!dateStr) return 'Select date';
-    const date = new Date(dateStr);
+    const date = parseLocalDate(dateStr);
     return date.toLocaleDateString('en-US', {
       weekday: 'short',
       month: 'short',
@@ -108,34 +130,6 @@ export default function NewTaskScreen() {
     });
   };
 
-  const formatTimeTo12Hour = (time24: string): string => {
-    if (!time24) return '';
-    const [hours, minutes] = time24.split(':');
-    const hour = parseInt(hours, 10);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const hour12 = hour % 12 || 12;
-    return `${hour12}:${minutes || '00'} ${ampm}`;
-  };
-
-  const formatTimeTo24Hour = (time12: string): string => {
-    if (!time12) return '';
-    // Handle formats like "9:30 AM", "09:30 PM", "9:30AM", etc.
-    const cleanTime = time12.trim().toUpperCase();
-    const hasAM = cleanTime.includes('AM');
-    const hasPM = cleanTime.includes('PM');
-    const timePart = cleanTime.replace(/\s*(AM|PM)/i, '');
-    const [hours, minutes = '00'] = timePart.split(':');
-    let hour24 = parseInt(hours, 10);
-    
-    if (hasPM && hour24 !== 12) {
-      hour24 += 12;
-    } else if (hasAM && hour24 === 12) {
-      hour24 = 0;
-    }
-    
-    return `${hour24.toString().padStart(2, '0')}:${minutes.padStart(2, '0')}`;
-  };
-
   return (
     <View style={styles.container}>
       <Stack.Screen
@@ -186,23 +180,52 @@ export default function NewTaskScreen() {
             <Text style={styles.label}>Due Date & Time</Text>
           </View>
           
+          {/* Natural-language entry, e.g. "next Friday 3pm" or "every other Monday" */}
+          <View style={styles.naturalInputRow}>
+            <Sparkles size={18} color={Colors.primary} />
+            <TextInput
+              style={styles.naturalInput}
+              placeholder="Type a date, e.g. next Friday 3pm"
+              placeholderTextColor={Colors.textTertiary}
+              value={dateText}
+              onChangeText={setDateText}
+              onSubmitEditing={handleApplyDateText}
+              returnKeyType="done"
+              autoCorrect={false}
+            />
+            {parsedDate && (
+              <TouchableOpacity onPress={handleApplyDateText}>
+                <Text style={styles.naturalApply}>Set</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {dateText.trim() !== '' && (!parsedDate || parsedDate.matches.length > 0) && (
+            <Text style={[styles.naturalPreview, !parsedDate && styles.naturalPreviewError]}>
+              {parsedDate ? describeNaturalDate(parsedDate) : "Couldn't find a date in that"}
+            </Text>
+          )}
+          {parsedDate && parsedDate.unparsed.length > 0 && (
+            <Text style={[styles.naturalPreview, styles.naturalPreviewError]}>
+              {`Couldn't read the repeat in ${parsedDate.unparsed.map(m => `"${m.text}"`).join(', ')}`}
+            </Text>
+          )}
+
           {/* Quick Date Buttons */}
           <View style={styles.quickDates}>
             <TouchableOpacity
               style={[
                 styles.quickDateButton,
-                dueDate === new Date().toISOString().split('T')[0] && styles.quickDateButtonActive,
+                dueDate === getTodayDate() && styles.quickDateButtonActive,
               ]}
               onPress={() => {
-                const today = new Date().toISOString().split('T')[0];
-                setDueDate(today);
+                setDueDate(getTodayDate());
                 Haptics.selectionAsync();
               }}
             >
               <Text
                 style={[
                   styles.quickDateText,
-                  dueDate === new Date().toISOString().split('T')[0] && styles.quickDateTextActive,
+                  dueDate === getTodayDate() && styles.quickDateTextActive,
                 ]}
               >
                 Today
@@ -250,83 +273,24 @@ export default function NewTaskScreen() {
             </TouchableOpacity>
           </View>
 
-          {/* Date Input */}
-          <View style={styles.dateTimeButton}>
-            <Calendar size={18} color={Colors.primary} />
-            <TextInput
-              style={[styles.dateTimeInput, dueDate && styles.dateTimeTextActive]}
-              placeholder="YYYY-MM-DD"
-              placeholderTextColor={Colors.textTertiary}
-              value={dueDate}
-              onChangeText={(text) => {
-                // Simple validation for YYYY-MM-DD format
-                const formatted = text.replace(/[^0-9-]/g, '');
-                if (formatted.length <= 10) {
-                  setDueDate(formatted);
-                }
-              }}
-              keyboardType="numbers-and-punctuation"
-              maxLength={10}
+          <View style={styles.pickerContainer}>
+            <DateTimePicker
+              date={dueDate || undefined}
+              time={dueTime || undefined}
+              onChangeDate={(date) => setDueDate(date ?? '')}
+              onChangeTime={(time) => setDueTime(time ?? '')}
             />
           </View>
 
-          {/* Time Input */}
-          <View style={styles.dateTimeButton}>
-            <Clock size={18} color={Colors.primary} />
-            <TextInput
-              style={[styles.dateTimeInput, timeDisplay && styles.dateTimeTextActive]}
-              placeholder="9:30 AM"
-              placeholderTextColor={Colors.textTertiary}
-              value={timeDisplay}
-              onChangeText={(text) => {
-                // Allow input with AM/PM
-                const upperText = text.toUpperCase();
-                // Keep only digits, colon, space, A, M, P
-                const cleaned = upperText.replace(/[^0-9:\sAPM]/g, '');
-                
-                // Update display value
-                setTimeDisplay(cleaned);
-                
-                // If it has AM/PM, convert and store as 24-hour format
-                if (cleaned.includes('AM') || cleaned.includes('PM')) {
-                  const converted = formatTimeTo24Hour(cleaned);
-                  if (converted) {
-                    setDueTime(converted);
-                  }
-                }
-              }}
-              onBlur={() => {
-                // Ensure proper format when user finishes
-                if (timeDisplay) {
-                  let finalTime = timeDisplay.trim().toUpperCase();
-                  
-                  // If it already has AM/PM, use it
-                  if (!finalTime.includes('AM') && !finalTime.includes('PM')) {
-                    // If just time without AM/PM, default to AM
-                    const timeMatch = finalTime.match(/^(\d{1,2}):(\d{0,2})$/);
-                    if (timeMatch) {
-                      finalTime = finalTime + ' AM';
-                    }
-                  }
-                  
-                  // Convert to 24-hour and store
-                  const converted = formatTimeTo24Hour(finalTime);
-                  if (converted) {
-                    setDueTime(converted);
-                    setTimeDisplay(formatTimeTo12Hour(converted));
-                  } else {
-                    setDueTime('');
-                    setTimeDisplay('');
-                  }
-                } else {
-                  setDueTime('');
-                  setTimeDisplay('');
-                }
-              }}
-              keyboardType="numbers-and-punctuation"
-              maxLength={8}
-            />
-          </View>
+          {recurrenceRule && (
+            <View style={styles.repeatRow}>
+              <Repeat size={16} color={Colors.primary} />
+              <Text style={styles.repeatText}>{describeRecurrence(recurrenceRule)}</Text>
+              <TouchableOpacity onPress={() => setRecurringPattern(undefined)} hitSlop={8}>
+                <X size={16} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         <View style={styles.inputGroup}>
@@ -366,25 +330,76 @@ export default function NewTaskScreen() {
           <View style={styles.categoryContainer}>
             {categories.map((c) => (
               <TouchableOpacity
-                key={c.value}
+                key={c.id}
                 style={[
                   styles.categoryButton,
-                  category === c.value && styles.categoryButtonActive,
+                  styles.projectButton,
+                  category === c.slug && { backgroundColor: c.color + '20', borderColor: c.color },
                 ]}
-                onPress={() => handleCategorySelect(c.value)}
+                onPress={() => handleCategorySelect(c.slug)}
               >
+                <View style={[styles.categoryDot, { backgroundColor: c.color }]} />
                 <Text
                   style={[
                     styles.categoryText,
-                    category === c.value && styles.categoryTextActive,
+                    category === c.slug && { color: c.color },
                   ]}
                 >
-                  {c.label}
+                  {c.name}
                 </Text>
               </TouchableOpacity>
             ))}
           </View>
         </View>
+
+        <View style={styles.inputGroup}>
+          <View style={styles.labelRow}>
+            <Tag size={18} color={Colors.primary} />
+            <Text style={styles.label}>Tags</Text>
+          </View>
+          <TagEditor tags={tags} allTags={allTags} onChange={setTags} />
+        </View>
+
+        {editableProjects.length > 0 && (
+          <View style={styles.inputGroup}>
+            <View style={styles.labelRow}>
+              <FolderKanban size={18} color={Colors.primary} />
+              <Text style={styles.label}>Project</Text>
+            </View>
+            <View style={styles.categoryContainer}>
+              <TouchableOpacity
+                style={[styles.categoryButton, !projectId && styles.categoryButtonActive]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setProjectId(undefined);
+                }}
+              >
+                <Text style={[styles.categoryText, !projectId && styles.categoryTextActive]}>
+                  None
+                </Text>
+              </TouchableOpacity>
+              {editableProjects.map((p) => (
+                <TouchableOpacity
+                  key={p.id}
+                  style={[
+                    styles.categoryButton,
+                    styles.projectButton,
+                    projectId === p.id && { backgroundColor: p.color + '20', borderColor: p.color },
+                  ]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setProjectId(p.id);
+                  }}
+                >
+                  <ProjectIcon icon={p.icon} color={p.color} size={14} />
+                  <Text style={[styles.categoryText, projectId === p.id && { color: p.color }]}>
+                    {p.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
       </ScrollView>
 
       <View style={styles.footer}>
@@ -523,7 +538,17 @@ const styles = StyleSheet.create({
   categoryTextActive: {
     color: Colors.primary,
   },
-  dateTimeButton: {
+  projectButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  categoryDot: {
+    width: 8,
+    height: 8,
+    borderRadius: BorderRadius.full,
+  },
+  naturalInputRow: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: Spacing.sm,
@@ -532,22 +557,42 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.lg,
     borderWidth: 1,
     borderColor: Colors.border,
-    marginTop: Spacing.sm,
+    marginBottom: Spacing.sm,
   },
-  dateTimeText: {
+  naturalInput: {
     ...Typography.body,
-    color: Colors.textTertiary,
+    color: Colors.text,
     flex: 1,
+    padding: 0,
   },
-  dateTimeInput: {
-    ...Typography.body,
+  naturalApply: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    fontWeight: '600' as const,
+  },
+  naturalPreview: {
+    ...Typography.footnote,
+    color: Colors.primary,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+  naturalPreviewError: {
     color: Colors.textTertiary,
-    flex: 1,
-    padding: 0,
   },
-  dateTimeTextActive: {
+  pickerContainer: {
+    marginTop: Spacing.sm,
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+  },
+  repeatText: {
+    ...Typography.subhead,
     color: Colors.text,
-    fontWeight: '500' as const,
+    flex: 1,
   },
   footer: {
     position: 'absolute',
@@ -0,0 +1,424 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { Briefcase, Home, LocateFixed, MapPin, Pencil, ShoppingCart, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import * as Location from 'expo-location';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import Button from '@/components/Button';
+import { PLACE_KIND_LABELS } from '@/lib/placeService';
+import { Coordinates, clampRadius } from '@/lib/geofence';
+import { PlaceKind, SavedPlace } from '@/types';
+
+const RADIUS_OPTIONS = [100, 150, 300, 500, 1000];
+const DEFAULT_RADIUS = 150;
+
+const KIND_ICONS: Record<PlaceKind, typeof MapPin> = {
+  home: Home,
+  office: Briefcase,
+  store: ShoppingCart,
+  other: MapPin,
+};
+
+const formatRadius = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+export default function PlacesScreen() {
+  const { places, locationReminders, addPlace, updatePlace, deletePlace } = useApp();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<PlaceKind>('home');
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
+  const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [address, setAddress] = useState<string | undefined>();
+  const [isLocating, setIsLocating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const countReminders = (placeId: string) =>
+    locationReminders.filter(r => r.placeId === placeId).length;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setKind('home');
+    setRadius(DEFAULT_RADIUS);
+    setCoords(null);
+    setAddress(undefined);
+  };
+
+  const handleUseCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const { granted } = await Location.requestForegroundPermissionsAsync();
+      if (!granted) {
+        Alert.alert('Location is off', 'Allow location access in Settings to save where you are.');
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      const { latitude, longitude } = position.coords;
+      setCoords({ latitude, longitude });
+
+      const [match] = await Location.reverseGeocodeAsync({ latitude, longitude }).catch(() => []);
+      setAddress(match?.formattedAddress || [match?.streetNumber, match?.street, match?.city].filter(Boolean).join(' ') || undefined);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('[Places] Error getting current location:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Couldn’t find you', 'Your location isn’t available right now. Please try again.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (places.some(p => p.id !== editingId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Name taken', 'You already have a place with that name.');
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = editingId
+      ? await updatePlace(editingId, {
+          name: trimmed,
+          kind,
+          radiusMeters: clampRadius(radius),
+          ...(coords ? { ...coords, address: address ?? '' } : {}),
+        })
+      : coords
+        ? await addPlace({ name: trimmed, kind, ...coords, radiusMeters: clampRadius(radius), address })
+        : null;
+    setIsSaving(false);
+
+    if (saved) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      resetForm();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Something went wrong', 'Your place was not saved. Please try again.');
+    }
+  };
+
+  const handleEdit = (place: SavedPlace) => {
+    Haptics.selectionAsync();
+    setEditingId(place.id);
+    setName(place.name);
+    setKind(place.kind);
+    setRadius(place.radiusMeters);
+    setCoords(null);
+    setAddress(place.address);
+  };
+
+  const handleDelete = (place: SavedPlace) => {
+    const reminderCount = countReminders(place.id);
+    Alert.alert(
+      `Delete “${place.name}”?`,
+      reminderCount > 0
+        ? `Its ${reminderCount} location ${reminderCount === 1 ? 'reminder is' : 'reminders are'} deleted too.`
+        : undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (editingId === place.id) resetForm();
+            const ok = await deletePlace(place.id);
+            Haptics.notificationAsync(
+              ok ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const canSave = !!name.trim() && (!!editingId || !!coords);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Places' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>{editingId ? 'Edit Place' : 'New Place'}</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Place name, e.g. Trader Joe’s"
+            placeholderTextColor={Colors.textTertiary}
+            returnKeyType="done"
+          />
+
+          <View style={styles.chips}>
+            {(Object.keys(PLACE_KIND_LABELS) as PlaceKind[]).map(option => {
+              const Icon = KIND_ICONS[option];
+              const isSelected = kind === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setKind(option);
+                  }}
+                >
+                  <Icon size={14} color={isSelected ? Colors.primary : Colors.textSecondary} />
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {PLACE_KIND_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={styles.locationButton}
+            onPress={handleUseCurrentLocation}
+            disabled={isLocating}
+          >
+            <LocateFixed size={18} color={Colors.primary} />
+            <Text style={styles.locationText} numberOfLines={2}>
+              {isLocating
+                ? 'Finding you…'
+                : coords
+                  ? address || `${coords.latitude.toFixed(5)}, ${coords.longitude.toFixed(5)}`
+                  : editingId
+                    ? 'Move to my current location'
+                    : 'Use my current location'}
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={styles.cardLabel}>Reminder radius</Text>
+          <View style={styles.chips}>
+            {RADIUS_OPTIONS.map(option => {
+              const isSelected = radius === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setRadius(option);
+                  }}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {formatRadius(option)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <Button title="Cancel" variant="outline" onPress={resetForm} style={styles.formButton} />
+            )}
+            <Button
+              title={editingId ? 'Save' : 'Add Place'}
+              onPress={handleSave}
+              disabled={!canSave}
+              loading={isSaving}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Places</Text>
+          {places.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Save places like home, the office or the store, then add “remind me when I arrive” to a task.
+            </Text>
+          ) : (
+            <View style={styles.sectionContent}>
+              {places.map(place => {
+                const Icon = KIND_ICONS[place.kind];
+                const reminderCount = countReminders(place.id);
+                return (
+                  <View key={place.id} style={styles.placeRow}>
+                    <View style={styles.placeIcon}>
+                      <Icon size={18} color={Colors.primary} />
+                    </View>
+                    <View style={styles.placeInfo}>
+                      <Text style={styles.placeName} numberOfLines={1}>{place.name}</Text>
+                      <Text style={styles.placeMeta} numberOfLines={1}>
+                        {[
+                          place.address,
+                          formatRadius(place.radiusMeters),
+                          reminderCount > 0 && `${reminderCount} ${reminderCount === 1 ? 'reminder' : 'reminders'}`,
+                        ].filter(Boolean).join(' · ')}
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(place)}>
+                      <Pencil size={18} color={Colors.textTertiary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(place)}>
+                      <Trash2 size={18} color={Colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+  },
+  nameInput: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary + '15',
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  locationText: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  formButton: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    marginHorizontal: Spacing.sm,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  placeIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.md,
+  },
+  placeInfo: {
+    flex: 1,
+  },
+  placeName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  placeMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+});
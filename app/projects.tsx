@@ -0,0 +1,525 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronUp,
+  LogOut,
+  Pencil,
+  Share2,
+  Trash2,
+  X,
+} from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import Button from '@/components/Button';
+import ProjectIcon, { PROJECT_COLORS, PROJECT_ICON_NAMES } from '@/components/ProjectIcon';
+import { FriendService } from '@/lib/friendService';
+import { ProjectShareService } from '@/lib/projectShareService';
+import { Project, SharePermission } from '@/types';
+
+const permissionOptions: { value: SharePermission | null; label: string }[] = [
+  { value: null, label: 'None' },
+  { value: 'view', label: 'View' },
+  { value: 'edit', label: 'Edit' },
+];
+
+function ProjectSharePanel({ project, onClose }: { project: Project; onClose: () => void }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const friendsQuery = useQuery({
+    queryKey: ['friends', user?.id],
+    queryFn: () => FriendService.getFriends(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const collaboratorsQuery = useQuery({
+    queryKey: ['projectCollaborators', project.id],
+    queryFn: () => ProjectShareService.getProjectCollaborators(project.id),
+  });
+
+  const handlePermission = async (friendId: string, permission: SharePermission | null) => {
+    if (!user?.id) return;
+    Haptics.selectionAsync();
+    const ok = permission
+      ? await ProjectShareService.shareProject(project.id, user.id, friendId, permission)
+      : await ProjectShareService.unshareProject(user.id, project.id, friendId);
+    if (!ok) {
+      Alert.alert('Sharing failed', 'Please try again.');
+    }
+    queryClient.invalidateQueries({ queryKey: ['projectCollaborators', project.id] });
+  };
+
+  const friends = friendsQuery.data ?? [];
+  const collaborators = collaboratorsQuery.data ?? [];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Share “{project.name}”</Text>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        Friends you share with see every task in this project. Editors can change them too.
+      </Text>
+
+      {friendsQuery.isLoading || collaboratorsQuery.isLoading ? (
+        <ActivityIndicator color={Colors.primary} />
+      ) : friends.length === 0 ? (
+        <Text style={styles.emptyText}>Add friends to share projects with them.</Text>
+      ) : (
+        friends.map(friend => {
+          const current = collaborators.find(c => c.id === friend.user.id)?.permission ?? null;
+          return (
+            <View key={friend.id} style={styles.shareRow}>
+              <Text style={styles.shareName} numberOfLines={1}>{friend.user.name}</Text>
+              <View style={styles.segment}>
+                {permissionOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.segmentItem, current === option.value && styles.segmentItemActive]}
+                    onPress={() => handlePermission(friend.user.id, option.value)}
+                  >
+                    <Text style={[styles.segmentText, current === option.value && styles.segmentTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+export default function ProjectsScreen() {
+  const {
+    projects,
+    tasks,
+    addProject,
+    updateProject,
+    deleteProject,
+    leaveProject,
+    reorderProjects,
+  } = useApp();
+  const { isAuthenticated } = useAuth();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [icon, setIcon] = useState(PROJECT_ICON_NAMES[0]);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+
+  const ownProjects = projects.filter(p => !p.permission);
+  const activeProjects = ownProjects.filter(p => !p.isArchived);
+  const archivedProjects = ownProjects.filter(p => p.isArchived);
+  const sharedProjects = projects.filter(p => p.permission);
+  const sharingProject = projects.find(p => p.id === sharingId);
+
+  const countTasks = (projectId: string) =>
+    tasks.filter(t => t.projectId === projectId && t.status !== 'completed').length;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setColor(PROJECT_COLORS[0]);
+    setIcon(PROJECT_ICON_NAMES[0]);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (projects.some(p => p.id !== editingId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Name taken', 'You already have a project with that name.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (editingId) {
+      updateProject(editingId, { name: trimmed, color, icon });
+    } else {
+      await addProject({ name: trimmed, color, icon });
+    }
+    resetForm();
+  };
+
+  const handleEdit = (project: Project) => {
+    Haptics.selectionAsync();
+    setEditingId(project.id);
+    setName(project.name);
+    setColor(project.color);
+    setIcon(project.icon);
+  };
+
+  const handleMoveUp = (index: number) => {
+    if (index === 0) return;
+    Haptics.selectionAsync();
+    const ids = activeProjects.map(p => p.id);
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+    reorderProjects([...ids, ...archivedProjects.map(p => p.id)]);
+  };
+
+  const handleDelete = (project: Project) => {
+    Alert.alert(
+      'Delete Project',
+      `Delete “${project.name}”? Its tasks are kept and moved out of the project.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            deleteProject(project.id);
+            if (editingId === project.id) resetForm();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLeave = (project: Project) => {
+    Alert.alert('Leave Project', `Stop seeing “${project.name}” and its tasks?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: () => leaveProject(project.id) },
+    ]);
+  };
+
+  const renderProject = (project: Project, index: number) => (
+    <View key={project.id} style={styles.projectRow}>
+      <View style={[styles.projectIcon, { backgroundColor: project.color + '20' }]}>
+        <ProjectIcon icon={project.icon} color={project.color} size={18} />
+      </View>
+      <View style={styles.projectInfo}>
+        <Text style={styles.projectName} numberOfLines={1}>{project.name}</Text>
+        <Text style={styles.projectMeta}>
+          {project.permission
+            ? `Shared with you · can ${project.permission}`
+            : `${countTasks(project.id)} open ${countTasks(project.id) === 1 ? 'task' : 'tasks'}`}
+        </Text>
+      </View>
+
+      {project.permission ? (
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleLeave(project)}>
+          <LogOut size={18} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      ) : (
+        <>
+          {!project.isArchived && index > 0 && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleMoveUp(index)}>
+              <ChevronUp size={18} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(project)}>
+            <Pencil size={18} color={Colors.textTertiary} />
+          </TouchableOpacity>
+          {isAuthenticated && !project.isArchived && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => setSharingId(project.id)}>
+              <Share2 size={18} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => {
+              Haptics.selectionAsync();
+              updateProject(project.id, { isArchived: !project.isArchived });
+            }}
+          >
+            {project.isArchived ? (
+              <ArchiveRestore size={18} color={Colors.textTertiary} />
+            ) : (
+              <Archive size={18} color={Colors.textTertiary} />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(project)}>
+            <Trash2 size={18} color={Colors.error} />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Projects' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>{editingId ? 'Edit Project' : 'New Project'}</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Project name"
+            placeholderTextColor={Colors.textTertiary}
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+
+          <View style={styles.swatches}>
+            {PROJECT_COLORS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchSelected]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setColor(option);
+                }}
+              />
+            ))}
+          </View>
+
+          <View style={styles.swatches}>
+            {PROJECT_ICON_NAMES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.iconOption, icon === option && { borderColor: color, backgroundColor: color + '20' }]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setIcon(option);
+                }}
+              >
+                <ProjectIcon icon={option} color={icon === option ? color : Colors.textSecondary} size={18} />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <Button title="Cancel" variant="outline" onPress={resetForm} style={styles.formButton} />
+            )}
+            <Button
+              title={editingId ? 'Save' : 'Add Project'}
+              onPress={handleSave}
+              disabled={!name.trim()}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+
+        {sharingProject && (
+          <ProjectSharePanel project={sharingProject} onClose={() => setSharingId(null)} />
+        )}
+
+        {activeProjects.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your Projects</Text>
+            <View style={styles.sectionContent}>{activeProjects.map(renderProject)}</View>
+          </View>
+        )}
+
+        {sharedProjects.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Shared With You</Text>
+            <View style={styles.sectionContent}>{sharedProjects.map(renderProject)}</View>
+          </View>
+        )}
+
+        {archivedProjects.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Archived</Text>
+            <View style={styles.sectionContent}>{archivedProjects.map(renderProject)}</View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  cardTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+    flex: 1,
+  },
+  cardLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+  },
+  nameInput: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: BorderRadius.full,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: Colors.surface,
+    shadowColor: Colors.text,
+    shadowOpacity: 0.3,
+    shadowRadius: 3,
+    shadowOffset: { width: 0, height: 1 },
+    elevation: 3,
+  },
+  iconOption: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  formButton: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  projectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  projectIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.md,
+  },
+  projectInfo: {
+    flex: 1,
+  },
+  projectName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  projectMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.sm,
+    gap: Spacing.md,
+  },
+  shareName: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: 2,
+  },
+  segmentItem: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  segmentItemActive: {
+    backgroundColor: Colors.surface,
+  },
+  segmentText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: Colors.primaryDark,
+    fontWeight: '600' as const,
+  },
+});
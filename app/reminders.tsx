@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Stack } from 'expo-router';
+import { Bell, Check } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import { DEFAULT_REMINDER_OFFSETS, REMINDER_OFFSET_PRESETS, formatReminderOffset } from '@/lib/reminders';
+
+export default function ReminderDefaultsScreen() {
+  const { isAuthenticated } = useAuth();
+  const { defaultReminderOffsets, updateDefaultReminders } = useApp();
+
+  const toggleOffset = (offset: number) => {
+    Haptics.selectionAsync();
+    updateDefaultReminders(
+      defaultReminderOffsets.includes(offset)
+        ? defaultReminderOffsets.filter(o => o !== offset)
+        : [...defaultReminderOffsets, offset]
+    );
+  };
+
+  const isDefault =
+    defaultReminderOffsets.length === DEFAULT_REMINDER_OFFSETS.length &&
+    DEFAULT_REMINDER_OFFSETS.every(o => defaultReminderOffsets.includes(o));
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Default Reminders' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.hint}>
+          {isAuthenticated
+            ? 'New tasks with a due date get these reminders. Tasks without a due time only get the ones a whole number of days before. You can change a task’s reminders on the task itself.'
+            : 'Sign in to get reminders for your tasks.'}
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Remind Me</Text>
+          <View style={styles.sectionContent}>
+            {REMINDER_OFFSET_PRESETS.map(offset => {
+              const isSelected = defaultReminderOffsets.includes(offset);
+              return (
+                <TouchableOpacity
+                  key={offset}
+                  style={styles.row}
+                  onPress={() => toggleOffset(offset)}
+                  disabled={!isAuthenticated}
+                >
+                  <Bell size={18} color={isSelected ? Colors.primary : Colors.textTertiary} />
+                  <Text style={styles.rowText}>{formatReminderOffset(offset)}</Text>
+                  {isSelected && <Check size={18} color={Colors.primary} />}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {isAuthenticated && !isDefault && (
+          <TouchableOpacity
+            onPress={() => {
+              Haptics.selectionAsync();
+              updateDefaultReminders(DEFAULT_REMINDER_OFFSETS);
+            }}
+          >
+            <Text style={styles.resetText}>Reset to 1 day before, 1 hour before and at due time</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.lg,
+    marginHorizontal: Spacing.sm,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowText: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+  },
+  resetText: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    textAlign: 'center',
+  },
+});
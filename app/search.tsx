@@ -0,0 +1,392 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { AlertCircle, Calendar, Clock, Flag, Search, SearchX, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import EmptyState from '@/components/EmptyState';
+import HighlightedText from '@/components/HighlightedText';
+import { TaskSearchResult } from '@/lib/search';
+import { parseLocalDate } from '@/lib/dateUtils';
+
+const SEARCH_DELAY_MS = 300;
+
+const examples = [
+  'priority:high',
+  'due:today',
+  'due:<tomorrow -completed',
+  'is:overdue',
+  'is:shared',
+  'tag:client',
+  'project:none',
+  '"exact phrase"',
+];
+
+const priorityColors = {
+  high: Colors.priority.high,
+  medium: Colors.priority.medium,
+  low: Colors.priority.low,
+  none: Colors.priority.none,
+};
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const { searchTasks, recentSearches, addRecentSearch, clearRecentSearches } = useApp();
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<TaskSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!input.trim()) {
+      setResult(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const next = await searchTasks(input);
+      if (!cancelled) {
+        setResult(next);
+        setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [input, searchTasks]);
+
+  const handleOpenTask = (taskId: string) => {
+    addRecentSearch(input);
+    router.push(`/task/${taskId}`);
+  };
+
+  const handleExample = (example: string) => {
+    Haptics.selectionAsync();
+    setInput(prev => (prev.trim() ? `${prev.trim()} ${example}` : example));
+  };
+
+  const formatDate = (dateString: string) =>
+    parseLocalDate(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const tasks = result?.tasks ?? [];
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Search' }} />
+
+      <View style={styles.searchBar}>
+        <Search size={18} color={Colors.textTertiary} />
+        <TextInput
+          style={styles.searchInput}
+          value={input}
+          onChangeText={setInput}
+          onSubmitEditing={() => addRecentSearch(input)}
+          placeholder="Search tasks"
+          placeholderTextColor={Colors.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          autoFocus
+        />
+        {isSearching && <ActivityIndicator size="small" color={Colors.primary} />}
+        {input.length > 0 && (
+          <TouchableOpacity onPress={() => setInput('')} hitSlop={8}>
+            <X size={18} color={Colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {!input.trim() ? (
+          <>
+            {recentSearches.length > 0 && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Recent</Text>
+                  <TouchableOpacity onPress={clearRecentSearches}>
+                    <Text style={styles.sectionAction}>Clear</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.sectionContent}>
+                  {recentSearches.map(search => (
+                    <TouchableOpacity
+                      key={search}
+                      style={styles.recentRow}
+                      onPress={() => setInput(search)}
+                    >
+                      <Clock size={16} color={Colors.textTertiary} />
+                      <Text style={styles.recentText} numberOfLines={1}>{search}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Filters</Text>
+              <Text style={styles.hint}>
+                Combine words with filters. Put - in front of a word or filter to exclude it.
+              </Text>
+              <View style={styles.examples}>
+                {examples.map(example => (
+                  <TouchableOpacity
+                    key={example}
+                    style={styles.exampleChip}
+                    onPress={() => handleExample(example)}
+                  >
+                    <Text style={styles.exampleText}>{example}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        ) : (
+          <>
+            {result?.query.errors.map(error => (
+              <View key={error} style={styles.errorRow}>
+                <AlertCircle size={14} color={Colors.warning} />
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ))}
+
+            {result && tasks.length === 0 && !isSearching ? (
+              <EmptyState
+                icon={<SearchX size={64} color={Colors.primaryLight} />}
+                title="No matching tasks"
+                description="Try fewer words or remove a filter."
+              />
+            ) : (
+              <>
+                {result && (
+                  <View style={styles.sectionHeader}>
+                    <Text style={styles.resultCount}>
+                      {tasks.length} {tasks.length === 1 ? 'task' : 'tasks'}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => router.push({ pathname: '/smart-lists', params: { query: input.trim() } })}
+                    >
+                      <Text style={styles.sectionAction}>Save as Smart List</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {tasks.map(task => (
+                  <TouchableOpacity
+                    key={task.id}
+                    style={styles.resultCard}
+                    onPress={() => handleOpenTask(task.id)}
+                  >
+                    <HighlightedText
+                      text={task.title}
+                      query={result!.query}
+                      style={[styles.resultTitle, task.status === 'completed' && styles.resultTitleCompleted]}
+                      numberOfLines={1}
+                    />
+                    {!!task.description && (
+                      <HighlightedText
+                        text={task.description}
+                        query={result!.query}
+                        style={styles.resultDescription}
+                        numberOfLines={2}
+                      />
+                    )}
+                    <View style={styles.resultMeta}>
+                      {task.dueDate && (
+                        <View style={styles.metaItem}>
+                          <Calendar size={12} color={task.status === 'overdue' ? Colors.error : Colors.textTertiary} />
+                          <Text style={[styles.metaText, task.status === 'overdue' && styles.metaTextOverdue]}>
+                            {formatDate(task.dueDate)}
+                          </Text>
+                        </View>
+                      )}
+                      {task.priority !== 'none' && (
+                        <View style={styles.metaItem}>
+                          <Flag size={12} color={priorityColors[task.priority]} />
+                          <Text style={[styles.metaText, { color: priorityColors[task.priority] }]}>
+                            {task.priority}
+                          </Text>
+                        </View>
+                      )}
+                      {task.tags?.map(tag => (
+                        <Text key={tag} style={styles.metaText}>#{tag}</Text>
+                      ))}
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  searchInput: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.xs,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.sm,
+  },
+  sectionAction: {
+    ...Typography.footnote,
+    color: Colors.primary,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  recentText: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+    marginHorizontal: Spacing.sm,
+  },
+  examples: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  exampleChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  exampleText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  errorText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+  resultCount: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.sm,
+  },
+  resultCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+  },
+  resultTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  resultTitleCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  resultDescription: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  resultMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+  },
+  metaTextOverdue: {
+    color: Colors.error,
+  },
+});
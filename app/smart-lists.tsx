@@ -0,0 +1,405 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { AlertCircle, ListFilter, Pencil, Pin, PinOff, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import Button from '@/components/Button';
+import { parseSearchQuery } from '@/lib/search';
+import { SMART_LIST_EXAMPLES, SMART_LIST_SORTS, getSmartListTasks } from '@/lib/smartLists';
+import { SmartList, SmartListSort } from '@/types';
+
+export default function SmartListsScreen() {
+  const params = useLocalSearchParams<{ query?: string }>();
+  const { user } = useAuth();
+  const {
+    tasks,
+    projects,
+    categories,
+    smartLists,
+    smartListTasks,
+    addSmartList,
+    updateSmartList,
+    deleteSmartList,
+  } = useApp();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState(params.query ?? '');
+  const [sort, setSort] = useState<SmartListSort>('due');
+  const [isPinned, setIsPinned] = useState(true);
+
+  const context = { projects, categories, userId: user?.id };
+  const parsed = parseSearchQuery(query, context);
+  const draft: SmartList = { id: '', name, query, sort, isPinned, sortOrder: 0, createdAt: '' };
+  const matchCount = getSmartListTasks(tasks, draft, context).length;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setQuery('');
+    setSort('due');
+    setIsPinned(true);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (smartLists.some(l => l.id !== editingId && l.name.toLowerCase() === trimmed.toLowerCase())) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Name taken', 'You already have a smart list with that name.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const list = { name: trimmed, query: query.trim(), sort, isPinned };
+    if (editingId) {
+      updateSmartList(editingId, list);
+    } else {
+      await addSmartList(list);
+    }
+    resetForm();
+  };
+
+  const handleEdit = (list: SmartList) => {
+    Haptics.selectionAsync();
+    setEditingId(list.id);
+    setName(list.name);
+    setQuery(list.query);
+    setSort(list.sort);
+    setIsPinned(list.isPinned);
+  };
+
+  const handleDelete = (list: SmartList) => {
+    Alert.alert(
+      'Delete Smart List',
+      `Delete “${list.name}”? Your tasks are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            if (editingId === list.id) resetForm();
+            deleteSmartList(list.id);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Smart Lists' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>{editingId ? 'Edit Smart List' : 'New Smart List'}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="List name"
+            placeholderTextColor={Colors.textTertiary}
+            returnKeyType="next"
+          />
+          <TextInput
+            style={styles.input}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Filter, e.g. priority:high due:<=7d -completed"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+
+          {parsed.errors.map(error => (
+            <View key={error} style={styles.errorRow}>
+              <AlertCircle size={14} color={Colors.warning} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          ))}
+          <Text style={styles.hint}>
+            Matches {matchCount} {matchCount === 1 ? 'task' : 'tasks'} right now. Filters work the same as in Search.
+          </Text>
+
+          {!editingId && !name && !query && (
+            <View style={styles.chips}>
+              {SMART_LIST_EXAMPLES.map(example => (
+                <TouchableOpacity
+                  key={example.name}
+                  style={styles.chip}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setName(example.name);
+                    setQuery(example.query);
+                    setSort(example.sort);
+                  }}
+                >
+                  <Text style={styles.chipText}>{example.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.fieldLabel}>Sort by</Text>
+          <View style={styles.chips}>
+            {SMART_LIST_SORTS.map(option => {
+              const isSelected = option.value === sort;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setSort(option.value);
+                  }}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={styles.pinRow}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setIsPinned(!isPinned);
+            }}
+          >
+            {isPinned ? (
+              <Pin size={18} color={Colors.primary} />
+            ) : (
+              <PinOff size={18} color={Colors.textTertiary} />
+            )}
+            <Text style={styles.pinText}>
+              {isPinned ? 'Pinned as a tab on the home screen' : 'Not pinned to the home screen'}
+            </Text>
+          </TouchableOpacity>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <Button title="Cancel" variant="outline" onPress={resetForm} style={styles.formButton} />
+            )}
+            <Button
+              title={editingId ? 'Save' : 'Add Smart List'}
+              onPress={handleSave}
+              disabled={!name.trim()}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+
+        {smartLists.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your Smart Lists</Text>
+            <View style={styles.sectionContent}>
+              {smartLists.map(list => {
+                const count = smartListTasks.get(list.id)?.length ?? 0;
+                return (
+                  <View key={list.id} style={styles.listRow}>
+                    <View style={styles.listIcon}>
+                      <ListFilter size={18} color={Colors.primary} />
+                    </View>
+                    <View style={styles.listInfo}>
+                      <Text style={styles.listName} numberOfLines={1}>{list.name}</Text>
+                      <Text style={styles.listMeta} numberOfLines={1}>
+                        {count} {count === 1 ? 'task' : 'tasks'}
+                        {list.query ? ` · ${list.query}` : ''}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        updateSmartList(list.id, { isPinned: !list.isPinned });
+                      }}
+                    >
+                      {list.isPinned ? (
+                        <Pin size={18} color={Colors.primary} />
+                      ) : (
+                        <PinOff size={18} color={Colors.textTertiary} />
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(list)}>
+                      <Pencil size={18} color={Colors.textTertiary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(list)}>
+                      <Trash2 size={18} color={Colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+  },
+  fieldLabel: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  errorText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primaryMuted,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+  },
+  pinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  pinText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  formButton: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  listIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.primaryMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.md,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  listMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+});
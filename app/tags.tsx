@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { Check, Hash, Pencil, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import EmptyState from '@/components/EmptyState';
+import { normalizeTag } from '@/lib/tags';
+
+export default function TagsScreen() {
+  const { allTags, renameTag } = useApp();
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const stopEditing = () => {
+    setEditingTag(null);
+    setNewName('');
+  };
+
+  const applyRename = async (from: string, to: string) => {
+    const ok = await renameTag(from, to);
+    if (ok) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      stopEditing();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Rename failed', 'Your tasks were not changed. Please try again.');
+    }
+  };
+
+  const handleSave = () => {
+    if (!editingTag) return;
+    const target = normalizeTag(newName);
+    if (!target || target === editingTag) {
+      stopEditing();
+      return;
+    }
+
+    const existing = allTags.find(t => t.tag === target);
+    if (existing) {
+      Alert.alert(
+        'Merge Tags',
+        `#${target} is already used on ${existing.count} ${existing.count === 1 ? 'task' : 'tasks'}. Merge #${editingTag} into it?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', onPress: () => applyRename(editingTag, target) },
+        ]
+      );
+      return;
+    }
+
+    applyRename(editingTag, target);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Tags' }} />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {allTags.length === 0 ? (
+          <EmptyState
+            icon={<Hash size={64} color={Colors.primaryLight} />}
+            title="No tags yet"
+            description="Add tags when creating or editing a task to filter by them here."
+          />
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.hint}>
+              Renaming a tag updates every task that uses it. Rename a tag to one you already use to merge them.
+            </Text>
+            <View style={styles.sectionContent}>
+              {allTags.map(({ tag, count }) => (
+                <View key={tag} style={styles.tagRow}>
+                  <Hash size={18} color={Colors.primary} />
+                  {editingTag === tag ? (
+                    <>
+                      <TextInput
+                        style={styles.renameInput}
+                        value={newName}
+                        onChangeText={setNewName}
+                        onSubmitEditing={handleSave}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="done"
+                        autoFocus
+                      />
+                      <TouchableOpacity style={styles.iconButton} onPress={handleSave}>
+                        <Check size={18} color={Colors.primary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.iconButton} onPress={stopEditing}>
+                        <X size={18} color={Colors.textTertiary} />
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <>
+                      <View style={styles.tagInfo}>
+                        <Text style={styles.tagName} numberOfLines={1}>{tag}</Text>
+                        <Text style={styles.tagMeta}>
+                          {count} {count === 1 ? 'task' : 'tasks'}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.iconButton}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setEditingTag(tag);
+                          setNewName(tag);
+                        }}
+                      >
+                        <Pencil size={18} color={Colors.textTertiary} />
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+    marginHorizontal: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  tagInfo: {
+    flex: 1,
+  },
+  tagName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  tagMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  renameInput: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+});
@@ -18,12 +18,36 @@ import {
   Trash2,
   Check,
   Edit3,
+  Repeat,
+  FolderKanban,
+  Shapes,
+  Brain,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
 import { useTaskById, useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
 import Button from '@/components/Button';
+import SubtaskList from '@/components/SubtaskList';
+import TaskConflictCard from '@/components/TaskConflictCard';
+import ProjectIcon from '@/components/ProjectIcon';
+import TagEditor from '@/components/TagEditor';
+import BlockerList from '@/components/BlockerList';
+import TaskTimer from '@/components/TaskTimer';
+import TimeEntryList from '@/components/TimeEntryList';
+import TaskActivityTimeline from '@/components/TaskActivityTimeline';
+import TaskCommentThread from '@/components/TaskCommentThread';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskReminders from '@/components/TaskReminders';
+import LocationReminders from '@/components/LocationReminders';
+import { Subtask } from '@/types';
+import { parseRecurrence, describeRecurrence } from '@/lib/recurrence';
+import { parseLocalDate } from '@/lib/dateUtils';
+import { getBlockerCandidates } from '@/lib/dependencies';
+import { formatDuration, getTrackedSeconds, parseDuration } from '@/lib/timeTracking';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { SyncService } from '@/lib/syncService';
 
 const priorityColors = {
   high: Colors.priority.high,
@@ -43,10 +67,36 @@ export default function TaskDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const task = useTaskById(id || '');
-  const { toggleTaskComplete, deleteTask, updateTask } = useApp();
+  const {
+    toggleTaskComplete,
+    toggleSubtask,
+    deleteTask,
+    updateTask,
+    taskConflicts,
+    resolveTaskConflict,
+    projects,
+    editableProjects,
+    categories,
+    allTags,
+    tasks,
+    getTaskBlockers,
+    addTaskBlocker,
+    removeTaskBlocker,
+    timeEntries,
+    startTimer,
+    stopTimer,
+    addTimeEntry,
+    updateTimeEntry,
+    deleteTimeEntry,
+    focusSession,
+  } = useApp();
+  const { isAuthenticated } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(task?.title || '');
   const [editedDescription, setEditedDescription] = useState(task?.description || '');
+  const [estimateText, setEstimateText] = useState(
+    task?.estimatedMinutes ? formatDuration(task.estimatedMinutes * 60) : ''
+  );
 
   if (!task) {
     return (
@@ -68,11 +118,11 @@ export default function TaskDetailScreen() {
   const handleDelete = () => {
     Alert.alert(
       'Delete Task',
-      'Are you sure you want to delete this task?',
+      `This task will be moved to the trash. You can restore it within ${TRASH_RETENTION_DAYS} days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete',
+          text: 'Move to Trash',
           style: 'destructive',
           onPress: () => {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -95,9 +145,69 @@ export default function TaskDetailScreen() {
     }
   };
 
+  const handleToggleSubtask = (subtaskId: string) => {
+    const subtasks = task.subtasks || [];
+    const completesChecklist =
+      task.status !== 'completed' &&
+      subtasks.every(s => s.id === subtaskId ? !s.isCompleted : s.isCompleted);
+
+    if (!completesChecklist) {
+      toggleSubtask(task.id, subtaskId);
+      return;
+    }
+
+    Alert.alert(
+      'All steps done',
+      'Mark the whole task as complete?',
+      [
+        { text: 'Not yet', style: 'cancel', onPress: () => toggleSubtask(task.id, subtaskId) },
+        {
+          text: 'Complete Task',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            toggleSubtask(task.id, subtaskId, { completeParent: true });
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSubtasksChange = (subtasks: Subtask[]) => {
+    updateTask(task.id, { subtasks });
+  };
+
+  const handleAddBlocker = (blockerId: string) => {
+    if (addTaskBlocker(task.id, blockerId)) {
+      Haptics.selectionAsync();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Can't add blocker", 'That task already waits on this one, so linking them would create a loop.');
+    }
+  };
+
+  const handleStartTimer = async () => {
+    if (!(await startTimer(task.id))) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Couldn't start timer", 'Check your connection and try again. Tasks added offline can be timed once they have synced.');
+    }
+  };
+
+  const handleSaveEstimate = () => {
+    const minutes = estimateText.trim() ? parseDuration(estimateText) : null;
+    if (estimateText.trim() && !minutes) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setEstimateText(task.estimatedMinutes ? formatDuration(task.estimatedMinutes * 60) : '');
+      return;
+    }
+    setEstimateText(minutes ? formatDuration(minutes * 60) : '');
+    if ((minutes ?? undefined) !== task.estimatedMinutes) {
+      updateTask(task.id, { estimatedMinutes: minutes ?? undefined });
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'No due date';
-    const date = new Date(dateString);
+    const date = parseLocalDate(dateString);
     return date.toLocaleDateString('en-US', {
       weekday: 'long',
       month: 'long',
@@ -116,6 +226,17 @@ export default function TaskDetailScreen() {
   };
 
   const isCompleted = task.status === 'completed';
+  const conflict = taskConflicts[task.id];
+  const project = projects.find(p => p.id === task.projectId);
+  const category = categories.find(c => c.slug === task.category);
+  const recurrence = task.isRecurring ? parseRecurrence(task.recurringPattern) : null;
+  const subtaskCount = task.subtasks?.length ?? 0;
+  const completedSubtaskCount = task.subtasks?.filter(s => s.isCompleted).length ?? 0;
+  const blockers = getTaskBlockers(task.id);
+  const openBlockerCount = blockers.filter(b => !b.isCompleted).length;
+  const taskEntries = timeEntries.filter(e => e.taskId === task.id);
+  const trackedSeconds = getTrackedSeconds(taskEntries);
+  const estimateSeconds = (task.estimatedMinutes ?? 0) * 60;
 
   return (
     <View style={styles.container}>
@@ -134,7 +255,16 @@ export default function TaskDetailScreen() {
         style={styles.content}
         contentContainerStyle={styles.contentContainer}
         showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
       >
+        {conflict && (
+          <TaskConflictCard
+            key={conflict.remote.updatedAt}
+            conflict={conflict}
+            onResolve={(choices) => resolveTaskConflict(task.id, choices)}
+          />
+        )}
+
         <View style={styles.header}>
           <TouchableOpacity
             style={[
@@ -195,6 +325,101 @@ export default function TaskDetailScreen() {
           )}
         </View>
 
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardLabel}>Subtasks</Text>
+            {subtaskCount > 0 && (
+              <Text style={styles.cardHeaderMeta}>
+                {completedSubtaskCount}/{subtaskCount} done
+              </Text>
+            )}
+          </View>
+          <SubtaskList
+            subtasks={task.subtasks || []}
+            onToggle={handleToggleSubtask}
+            onChange={handleSubtasksChange}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardLabel}>Blocked By</Text>
+            {openBlockerCount > 0 && (
+              <Text style={styles.cardHeaderMeta}>
+                Waiting on {openBlockerCount} {openBlockerCount === 1 ? 'task' : 'tasks'}
+              </Text>
+            )}
+          </View>
+          <BlockerList
+            blockers={blockers}
+            candidates={getBlockerCandidates(tasks, task)}
+            onAdd={handleAddBlocker}
+            onRemove={blockerId => removeTaskBlocker(task.id, blockerId)}
+            onOpen={blockerId => {
+              if (tasks.some(t => t.id === blockerId)) router.push(`/task/${blockerId}`);
+            }}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardLabel}>Time</Text>
+            {(trackedSeconds > 0 || estimateSeconds > 0) && (
+              <Text style={[styles.cardHeaderMeta, estimateSeconds > 0 && trackedSeconds > estimateSeconds && styles.overEstimate]}>
+                {formatDuration(trackedSeconds)}
+                {estimateSeconds > 0 ? ` of ${formatDuration(estimateSeconds)}` : ' tracked'}
+              </Text>
+            )}
+          </View>
+          <View style={styles.timerRow}>
+            <TaskTimer entries={taskEntries} onStart={handleStartTimer} onStop={stopTimer} size="large" />
+            <View style={styles.estimateField}>
+              <Text style={styles.detailLabel}>Estimate</Text>
+              <TextInput
+                style={styles.estimateInput}
+                value={estimateText}
+                onChangeText={setEstimateText}
+                onBlur={handleSaveEstimate}
+                onSubmitEditing={handleSaveEstimate}
+                placeholder="e.g. 1h 30m"
+                placeholderTextColor={Colors.textTertiary}
+                returnKeyType="done"
+              />
+            </View>
+          </View>
+          {estimateSeconds > 0 && (
+            <View style={styles.estimateTrack}>
+              <View
+                style={[
+                  styles.estimateFill,
+                  trackedSeconds > estimateSeconds && styles.estimateFillOver,
+                  { width: `${Math.min(100, (trackedSeconds / estimateSeconds) * 100)}%` },
+                ]}
+              />
+            </View>
+          )}
+          {task.status !== 'completed' && (
+            <TouchableOpacity
+              style={styles.focusRow}
+              onPress={() => {
+                Haptics.selectionAsync();
+                router.push(`/focus?taskId=${task.id}`);
+              }}
+            >
+              <Brain size={18} color={Colors.primary} />
+              <Text style={styles.focusText}>
+                {focusSession?.taskId === task.id ? 'Focus session running' : 'Start a focus session'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TimeEntryList
+            entries={taskEntries}
+            onAdd={entry => addTimeEntry({ ...entry, taskId: task.id, source: 'manual' })}
+            onUpdate={updateTimeEntry}
+            onDelete={deleteTimeEntry}
+          />
+        </View>
+
         <View style={styles.card}>
           <View style={styles.detailRow}>
             <View style={styles.detailIcon}>
@@ -218,6 +443,88 @@ export default function TaskDetailScreen() {
             </View>
           )}
 
+          {recurrence && (
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}>
+                <Repeat size={20} color={Colors.primary} />
+              </View>
+              <View style={styles.detailContent}>
+                <Text style={styles.detailLabel}>Repeats</Text>
+                <Text style={styles.detailValue}>{describeRecurrence(recurrence)}</Text>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.detailRow}>
+            <View style={styles.detailIcon}>
+              <Shapes size={20} color={category?.color ?? Colors.primary} />
+            </View>
+            <View style={styles.detailContent}>
+              <Text style={styles.detailLabel}>Category</Text>
+              {isEditing ? (
+                <View style={styles.tagsContainer}>
+                  {categories.map(option => {
+                    const isSelected = option.slug === task.category;
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.tag, isSelected && { backgroundColor: option.color }]}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          updateTask(task.id, { category: option.slug });
+                        }}
+                      >
+                        <Text style={[styles.tagText, isSelected && styles.projectOptionTextSelected]}>
+                          {option.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Text style={styles.detailValue}>{category?.name ?? task.category}</Text>
+              )}
+            </View>
+          </View>
+
+          {(project || isEditing) && (
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}>
+                {project ? (
+                  <ProjectIcon icon={project.icon} color={project.color} size={20} />
+                ) : (
+                  <FolderKanban size={20} color={Colors.primary} />
+                )}
+              </View>
+              <View style={styles.detailContent}>
+                <Text style={styles.detailLabel}>Project</Text>
+                {isEditing ? (
+                  <View style={styles.tagsContainer}>
+                    {[undefined, ...editableProjects].map(option => {
+                      const isSelected = option?.id === task.projectId;
+                      return (
+                        <TouchableOpacity
+                          key={option?.id ?? 'none'}
+                          style={[styles.tag, isSelected && styles.projectOptionSelected]}
+                          onPress={() => {
+                            Haptics.selectionAsync();
+                            updateTask(task.id, { projectId: option?.id });
+                          }}
+                        >
+                          <Text style={[styles.tagText, isSelected && styles.projectOptionTextSelected]}>
+                            {option?.name ?? 'None'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <Text style={styles.detailValue}>{project?.name}</Text>
+                )}
+              </View>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
             <View style={styles.detailIcon}>
               <Flag size={20} color={priorityColors[task.priority]} />
@@ -235,25 +542,71 @@ export default function TaskDetailScreen() {
             </View>
           </View>
 
-          {task.tags && task.tags.length > 0 && (
+          {((task.tags && task.tags.length > 0) || isEditing) && (
             <View style={styles.detailRow}>
               <View style={styles.detailIcon}>
                 <Tag size={20} color={Colors.primary} />
               </View>
               <View style={styles.detailContent}>
                 <Text style={styles.detailLabel}>Tags</Text>
-                <View style={styles.tagsContainer}>
-                  {task.tags.map((tag, index) => (
-                    <View key={index} style={styles.tag}>
-                      <Text style={styles.tagText}>{tag}</Text>
-                    </View>
-                  ))}
-                </View>
+                {isEditing ? (
+                  <View style={styles.tagEditor}>
+                    <TagEditor
+                      tags={task.tags ?? []}
+                      allTags={allTags}
+                      onChange={(tags) => updateTask(task.id, { tags })}
+                    />
+                  </View>
+                ) : (
+                  <View style={styles.tagsContainer}>
+                    {(task.tags ?? []).map((tag) => (
+                      <View key={tag} style={styles.tag}>
+                        <Text style={styles.tagText}>#{tag}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
               </View>
             </View>
           )}
         </View>
 
+        {/* Reminders are saved against the task's server id */}
+        {isAuthenticated && !SyncService.isTemporaryId(task.id) && (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Reminders</Text>
+              <TaskReminders task={task} />
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Location Reminders</Text>
+              <LocationReminders task={task} />
+            </View>
+          </>
+        )}
+
+        {/* Files are stored on the server; ones added to a task waiting to sync upload after it */}
+        {isAuthenticated && (
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Attachments</Text>
+            <TaskAttachments task={task} />
+          </View>
+        )}
+
+        {/* Comments and history are kept on the server, so guests and tasks waiting to sync have none */}
+        {isAuthenticated && !SyncService.isTemporaryId(task.id) && (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Comments</Text>
+              <TaskCommentThread task={task} />
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>History</Text>
+              <TaskActivityTimeline task={task} />
+            </View>
+          </>
+        )}
+
         {isEditing && (
           <View style={styles.editActions}>
             <Button
@@ -368,6 +721,15 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  cardHeaderMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+  },
   cardLabel: {
     ...Typography.footnote,
     color: Colors.textTertiary,
@@ -385,6 +747,50 @@ const styles = StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  overEstimate: {
+    color: Colors.error,
+  },
+  timerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  estimateField: {
+    flex: 1,
+  },
+  estimateInput: {
+    ...Typography.body,
+    color: Colors.text,
+    paddingVertical: 2,
+  },
+  estimateTrack: {
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.borderLight,
+    overflow: 'hidden',
+    marginBottom: Spacing.sm,
+  },
+  estimateFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+  },
+  estimateFillOver: {
+    backgroundColor: Colors.error,
+  },
+  focusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  focusText: {
+    ...Typography.body,
+    color: Colors.primary,
+  },
   detailRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -430,6 +836,15 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '500' as const,
   },
+  tagEditor: {
+    marginTop: Spacing.xs,
+  },
+  projectOptionSelected: {
+    backgroundColor: Colors.primary,
+  },
+  projectOptionTextSelected: {
+    color: Colors.textInverse,
+  },
   editActions: {
     flexDirection: 'row',
     gap: Spacing.md,
@@ -0,0 +1,433 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import * as Crypto from 'expo-crypto';
+import { Plus, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import Button from '@/components/Button';
+import { DEFAULT_CATEGORY_SLUG } from '@/lib/categoryService';
+import { normalizeTime } from '@/lib/dateUtils';
+import { normalizeTag } from '@/lib/tags';
+import { formatDueOffset, parseDueOffset } from '@/lib/templates';
+import { formatDuration, parseDuration } from '@/lib/timeTracking';
+import { Priority, TaskCategory, TemplateTask } from '@/types';
+
+const priorities: { value: Priority; label: string; color: string }[] = [
+  { value: 'high', label: 'High', color: Colors.priority.high },
+  { value: 'medium', label: 'Medium', color: Colors.priority.medium },
+  { value: 'low', label: 'Low', color: Colors.priority.low },
+  { value: 'none', label: 'None', color: Colors.priority.none },
+];
+
+// Template tasks as edited: free text fields are parsed on save
+interface TaskForm {
+  key: string;
+  title: string;
+  offset: string;
+  time: string;
+  priority: Priority;
+  category: TaskCategory;
+  tags: string;
+  subtasks: string;
+  estimate: string;
+  description?: string;
+}
+
+function toForm(item: TemplateTask): TaskForm {
+  return {
+    key: Crypto.randomUUID(),
+    title: item.title,
+    offset: item.dueOffsetDays !== undefined ? formatDueOffset(item.dueOffsetDays) : '',
+    time: item.dueTime ?? '',
+    priority: item.priority,
+    category: item.category,
+    tags: (item.tags ?? []).map(tag => `#${tag}`).join(' '),
+    subtasks: (item.subtasks ?? []).join('\n'),
+    estimate: item.estimatedMinutes ? formatDuration(item.estimatedMinutes * 60) : '',
+    description: item.description,
+  };
+}
+
+export default function TemplateEditorScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { templates, categories, addTemplate, updateTemplate } = useApp();
+  const template = id === 'new' ? undefined : templates.find(t => t.id === id && !t.isShared);
+  const [name, setName] = useState(template?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [items, setItems] = useState<TaskForm[]>(() =>
+    template
+      ? template.tasks.map(toForm)
+      : [toForm({ title: '', priority: 'medium', category: DEFAULT_CATEGORY_SLUG })]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (id !== 'new' && !template) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Template' }} />
+        <Text style={styles.missingText}>This template no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const updateItem = (key: string, updates: Partial<TaskForm>) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...updates } : item)));
+  };
+
+  const handleAddItem = () => {
+    Haptics.selectionAsync();
+    const last = items[items.length - 1];
+    setItems(prev => [
+      ...prev,
+      toForm({ title: '', priority: last?.priority ?? 'medium', category: last?.category ?? DEFAULT_CATEGORY_SLUG }),
+    ]);
+  };
+
+  const handleRemoveItem = (key: string) => {
+    Haptics.selectionAsync();
+    setItems(prev => prev.filter(item => item.key !== key));
+  };
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    const filled = items.filter(item => item.title.trim());
+    if (!trimmedName || filled.length === 0) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Almost there', 'Give the template a name and at least one task.');
+      return;
+    }
+
+    const tasks: TemplateTask[] = [];
+    for (const item of filled) {
+      const dueOffsetDays = item.offset.trim() ? parseDueOffset(item.offset) : undefined;
+      const dueTime = item.time.trim() && /^\d{1,2}:\d{2}$/.test(item.time.trim()) ? normalizeTime(item.time.trim()) : undefined;
+      const estimatedMinutes = item.estimate.trim() ? parseDuration(item.estimate) : undefined;
+      if (dueOffsetDays === null || (item.time.trim() && !dueTime) || estimatedMinutes === null) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(
+          `Check “${item.title.trim()}”`,
+          'Use a due offset like +2 days or +1 week, a time like 09:30 and an estimate like 1h 30m.'
+        );
+        return;
+      }
+      const tags = item.tags
+        .split(/[\s,]+/)
+        .map(tag => normalizeTag(tag))
+        .filter((tag): tag is string => !!tag);
+      const subtasks = item.subtasks.split('\n').map(s => s.trim()).filter(Boolean);
+      tasks.push({
+        title: item.title.trim(),
+        description: item.description,
+        dueOffsetDays,
+        dueTime: dueOffsetDays !== undefined ? dueTime : undefined,
+        priority: item.priority,
+        category: item.category,
+        tags: tags.length > 0 ? [...new Set(tags)] : undefined,
+        subtasks: subtasks.length > 0 ? subtasks : undefined,
+        estimatedMinutes,
+      });
+    }
+
+    setIsSaving(true);
+    const saved = template
+      ? await updateTemplate(template.id, { name: trimmedName, description: description.trim() || undefined, tasks })
+      : await addTemplate({ name: trimmedName, description: description.trim() || undefined, tasks });
+    setIsSaving(false);
+
+    if (!saved) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Couldn't save template", 'Check your connection and try again.');
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.back();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: template ? 'Edit Template' : 'New Template' }} />
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.card}>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Template name, e.g. Client onboarding"
+            placeholderTextColor={Colors.textTertiary}
+          />
+          <TextInput
+            style={styles.descriptionInput}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What is it for? (optional)"
+            placeholderTextColor={Colors.textTertiary}
+            multiline
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Tasks</Text>
+        {items.map((item, index) => (
+          <View key={item.key} style={styles.card}>
+            <View style={styles.itemHeader}>
+              <Text style={styles.itemNumber}>{index + 1}</Text>
+              <TextInput
+                style={styles.itemTitle}
+                value={item.title}
+                onChangeText={title => updateItem(item.key, { title })}
+                placeholder="Task title"
+                placeholderTextColor={Colors.textTertiary}
+              />
+              {items.length > 1 && (
+                <TouchableOpacity onPress={() => handleRemoveItem(item.key)}>
+                  <X size={18} color={Colors.textTertiary} />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.fieldRow}>
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>Due</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={item.offset}
+                  onChangeText={offset => updateItem(item.key, { offset })}
+                  placeholder="+2 days"
+                  placeholderTextColor={Colors.textTertiary}
+                  autoCapitalize="none"
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>Time</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={item.time}
+                  onChangeText={time => updateItem(item.key, { time })}
+                  placeholder="09:00"
+                  placeholderTextColor={Colors.textTertiary}
+                  autoCapitalize="none"
+                  editable={!!item.offset.trim()}
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>Estimate</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={item.estimate}
+                  onChangeText={estimate => updateItem(item.key, { estimate })}
+                  placeholder="1h"
+                  placeholderTextColor={Colors.textTertiary}
+                  autoCapitalize="none"
+                />
+              </View>
+            </View>
+
+            <View style={styles.chips}>
+              {priorities.map(p => (
+                <TouchableOpacity
+                  key={p.value}
+                  style={[styles.chip, item.priority === p.value && { backgroundColor: p.color + '20', borderColor: p.color }]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    updateItem(item.key, { priority: p.value });
+                  }}
+                >
+                  <View style={[styles.chipDot, { backgroundColor: p.color }]} />
+                  <Text style={[styles.chipText, item.priority === p.value && { color: p.color }]}>{p.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.chips}>
+              {categories.map(c => (
+                <TouchableOpacity
+                  key={c.id}
+                  style={[styles.chip, item.category === c.slug && { backgroundColor: c.color + '20', borderColor: c.color }]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    updateItem(item.key, { category: c.slug });
+                  }}
+                >
+                  <View style={[styles.chipDot, { backgroundColor: c.color }]} />
+                  <Text style={[styles.chipText, item.category === c.slug && { color: c.color }]}>{c.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.fieldInput}
+              value={item.tags}
+              onChangeText={tags => updateItem(item.key, { tags })}
+              placeholder="Tags, e.g. #client #weekly"
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.fieldInput, styles.subtasksInput]}
+              value={item.subtasks}
+              onChangeText={subtasks => updateItem(item.key, { subtasks })}
+              placeholder="Subtasks, one per line"
+              placeholderTextColor={Colors.textTertiary}
+              multiline
+            />
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.addRow} onPress={handleAddItem}>
+          <Plus size={18} color={Colors.primary} />
+          <Text style={styles.addText}>Add task</Text>
+        </TouchableOpacity>
+
+        <Button
+          title={template ? 'Save Template' : 'Create Template'}
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving || !name.trim()}
+          size="large"
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  missingText: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xxl,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  nameInput: {
+    ...Typography.title3,
+    color: Colors.text,
+  },
+  descriptionInput: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    minHeight: 44,
+    textAlignVertical: 'top',
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  itemNumber: {
+    ...Typography.footnote,
+    color: Colors.textInverse,
+    backgroundColor: Colors.primary,
+    width: 22,
+    height: 22,
+    lineHeight: 22,
+    borderRadius: 11,
+    overflow: 'hidden',
+    textAlign: 'center',
+    fontWeight: '600' as const,
+  },
+  itemTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+    flex: 1,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    marginBottom: 2,
+  },
+  fieldInput: {
+    ...Typography.subhead,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  subtasksInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  addText: {
+    ...Typography.body,
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,531 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, ClipboardList, LogOut, Pencil, Play, Plus, Share2, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import Button from '@/components/Button';
+import EmptyState from '@/components/EmptyState';
+import ProjectIcon from '@/components/ProjectIcon';
+import { TemplateService } from '@/lib/templateService';
+import { describeTemplate, formatDueOffset } from '@/lib/templates';
+import { addDaysToDateString, getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+import { parseNaturalDate } from '@/lib/naturalDate';
+import { TaskTemplate } from '@/types';
+
+function TemplateSharePanel({ template, onClose }: { template: TaskTemplate; onClose: () => void }) {
+  const { user } = useAuth();
+  const { friends } = useApp();
+  const queryClient = useQueryClient();
+
+  const sharesQuery = useQuery({
+    queryKey: ['templateShares', template.id],
+    queryFn: () => TemplateService.getTemplateShares(template.id),
+  });
+
+  const handleToggle = async (friendId: string, isShared: boolean) => {
+    if (!user?.id) return;
+    Haptics.selectionAsync();
+    const ok = isShared
+      ? await TemplateService.unshareTemplate(template.id, friendId)
+      : await TemplateService.shareTemplate(template.id, user.id, friendId);
+    if (!ok) {
+      Alert.alert('Sharing failed', 'Please try again.');
+    }
+    queryClient.invalidateQueries({ queryKey: ['templateShares', template.id] });
+  };
+
+  const sharedWith = sharesQuery.data ?? [];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Share “{template.name}”</Text>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        Friends you share with can create tasks from this template. Only you can change it.
+      </Text>
+
+      {sharesQuery.isLoading ? (
+        <ActivityIndicator color={Colors.primary} />
+      ) : friends.length === 0 ? (
+        <Text style={styles.emptyText}>Add friends to share templates with them.</Text>
+      ) : (
+        friends.map(friend => {
+          const isShared = sharedWith.includes(friend.user.id);
+          return (
+            <TouchableOpacity
+              key={friend.id}
+              style={styles.shareRow}
+              onPress={() => handleToggle(friend.user.id, isShared)}
+            >
+              <Text style={styles.shareName} numberOfLines={1}>{friend.user.name}</Text>
+              <View style={[styles.checkbox, isShared && styles.checkboxChecked]}>
+                {isShared && <Check size={14} color={Colors.textInverse} />}
+              </View>
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+function TemplateUsePanel({ template, onClose }: { template: TaskTemplate; onClose: () => void }) {
+  const { applyTemplate, editableProjects } = useApp();
+  const [dateText, setDateText] = useState('');
+  const [anchorDate, setAnchorDate] = useState(getTodayDateString());
+  const [projectId, setProjectId] = useState<string | undefined>();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const today = getTodayDateString();
+  const quickDates = [
+    { label: 'Today', date: today },
+    { label: 'Tomorrow', date: addDaysToDateString(today, 1) },
+    { label: 'Next week', date: addDaysToDateString(today, 7) },
+  ];
+  const datedTasks = template.tasks.filter(t => t.dueOffsetDays !== undefined);
+
+  const handleDateText = (text: string) => {
+    setDateText(text);
+    const parsed = text.trim() ? parseNaturalDate(text) : null;
+    if (parsed?.dueDate) setAnchorDate(parsed.dueDate);
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const created = await applyTemplate(template.id, anchorDate, projectId);
+    setIsCreating(false);
+    if (created.length === 0) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Couldn't use template", 'Please try again.');
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    Alert.alert('Tasks created', `Added ${created.length} ${created.length === 1 ? 'task' : 'tasks'} from “${template.name}”.`);
+    onClose();
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Use “{template.name}”</Text>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>Due dates are counted from the start date.</Text>
+
+      <Text style={styles.fieldLabel}>Start date</Text>
+      <View style={styles.chips}>
+        {quickDates.map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, anchorDate === option.date && styles.chipActive]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setAnchorDate(option.date);
+              setDateText('');
+            }}
+          >
+            <Text style={[styles.chipText, anchorDate === option.date && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        style={styles.input}
+        value={dateText}
+        onChangeText={handleDateText}
+        placeholder="Or type a date, e.g. next monday"
+        placeholderTextColor={Colors.textTertiary}
+        autoCapitalize="none"
+      />
+      <Text style={styles.anchorText}>
+        {parseLocalDate(anchorDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+      </Text>
+
+      {datedTasks.length > 0 && (
+        <View style={styles.preview}>
+          {datedTasks.slice(0, 5).map((item, index) => (
+            <Text key={index} style={styles.previewRow} numberOfLines={1}>
+              {parseLocalDate(addDaysToDateString(anchorDate, item.dueOffsetDays!)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              {' · '}
+              {item.title}
+            </Text>
+          ))}
+          {datedTasks.length > 5 && (
+            <Text style={styles.previewRow}>and {datedTasks.length - 5} more</Text>
+          )}
+        </View>
+      )}
+
+      {editableProjects.length > 0 && (
+        <>
+          <Text style={styles.fieldLabel}>Project</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !projectId && styles.chipActive]}
+              onPress={() => setProjectId(undefined)}
+            >
+              <Text style={[styles.chipText, !projectId && styles.chipTextActive]}>None</Text>
+            </TouchableOpacity>
+            {editableProjects.map(project => (
+              <TouchableOpacity
+                key={project.id}
+                style={[styles.chip, projectId === project.id && { backgroundColor: project.color + '20', borderColor: project.color }]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setProjectId(project.id);
+                }}
+              >
+                <ProjectIcon icon={project.icon} color={project.color} size={14} />
+                <Text style={[styles.chipText, projectId === project.id && { color: project.color }]}>{project.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Button
+        title={`Create ${template.tasks.length} ${template.tasks.length === 1 ? 'Task' : 'Tasks'}`}
+        onPress={handleCreate}
+        loading={isCreating}
+        disabled={isCreating}
+        style={styles.useButton}
+      />
+    </View>
+  );
+}
+
+export default function TemplatesScreen() {
+  const router = useRouter();
+  const { templates, deleteTemplate } = useApp();
+  const { isAuthenticated } = useAuth();
+  const [usingId, setUsingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+
+  const ownTemplates = templates.filter(t => !t.isShared);
+  const sharedTemplates = templates.filter(t => t.isShared);
+  const usingTemplate = templates.find(t => t.id === usingId);
+  const sharingTemplate = templates.find(t => t.id === sharingId);
+
+  const handleDelete = (template: TaskTemplate) => {
+    Alert.alert(
+      template.isShared ? 'Remove Template' : 'Delete Template',
+      template.isShared
+        ? `Stop seeing “${template.name}”?`
+        : `Delete “${template.name}”? Tasks already created from it are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: template.isShared ? 'Remove' : 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            deleteTemplate(template.id);
+            if (usingId === template.id) setUsingId(null);
+            if (sharingId === template.id) setSharingId(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTemplate = (template: TaskTemplate) => {
+    const offsets = template.tasks.map(t => t.dueOffsetDays).filter((o): o is number => o !== undefined);
+    return (
+      <View key={template.id} style={styles.templateRow}>
+        <TouchableOpacity
+          style={styles.templateInfo}
+          onPress={() => {
+            Haptics.selectionAsync();
+            setSharingId(null);
+            setUsingId(template.id);
+          }}
+        >
+          <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+          <Text style={styles.templateMeta} numberOfLines={1}>
+            {template.isShared ? 'Shared with you · ' : ''}
+            {describeTemplate(template)}
+            {offsets.length > 0 && Math.max(...offsets) > 0 ? ` · last due ${formatDueOffset(Math.max(...offsets))}` : ''}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => {
+            Haptics.selectionAsync();
+            setSharingId(null);
+            setUsingId(template.id);
+          }}
+        >
+          <Play size={18} color={Colors.primary} />
+        </TouchableOpacity>
+        {!template.isShared && (
+          <>
+            <TouchableOpacity style={styles.iconButton} onPress={() => router.push(`/template/${template.id}`)}>
+              <Pencil size={18} color={Colors.textTertiary} />
+            </TouchableOpacity>
+            {isAuthenticated && (
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => {
+                  setUsingId(null);
+                  setSharingId(template.id);
+                }}
+              >
+                <Share2 size={18} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+          {template.isShared ? (
+            <LogOut size={18} color={Colors.textTertiary} />
+          ) : (
+            <Trash2 size={18} color={Colors.error} />
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Templates',
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push('/template/new')}>
+              <Plus size={22} color={Colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {templates.length === 0 ? (
+          <EmptyState
+            icon={<ClipboardList size={64} color={Colors.primaryLight} />}
+            title="No templates yet"
+            description="Save a bundle of tasks you repeat, like onboarding a client, and create them all at once."
+            action={<Button title="New Template" onPress={() => router.push('/template/new')} />}
+          />
+        ) : (
+          <>
+            {usingTemplate && (
+              <TemplateUsePanel key={usingTemplate.id} template={usingTemplate} onClose={() => setUsingId(null)} />
+            )}
+
+            {sharingTemplate && (
+              <TemplateSharePanel template={sharingTemplate} onClose={() => setSharingId(null)} />
+            )}
+
+            {ownTemplates.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Your Templates</Text>
+                <View style={styles.sectionContent}>{ownTemplates.map(renderTemplate)}</View>
+              </View>
+            )}
+
+            {sharedTemplates.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Shared With You</Text>
+                <View style={styles.sectionContent}>{sharedTemplates.map(renderTemplate)}</View>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  cardTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+    flex: 1,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+  },
+  fieldLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  chipActive: {
+    backgroundColor: Colors.primaryMuted,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primaryDark,
+    fontWeight: '600' as const,
+  },
+  input: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  anchorText: {
+    ...Typography.subhead,
+    color: Colors.primaryDark,
+    fontWeight: '600' as const,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  preview: {
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  previewRow: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+  },
+  useButton: {
+    marginTop: Spacing.sm,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  templateMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.sm,
+    gap: Spacing.md,
+  },
+  shareName: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+});
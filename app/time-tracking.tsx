@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { ChevronRight, Timer } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import EmptyState from '@/components/EmptyState';
+import { addDaysToDateString, getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+import {
+  TimeTotal,
+  formatDuration,
+  getCategoryTotals,
+  getDailyTotals,
+  getEntriesSince,
+  getTaskTotals,
+  getTrackedSeconds,
+} from '@/lib/timeTracking';
+
+type TimeRange = 'today' | 'week' | 'month' | 'all';
+
+const TIME_RANGES: { value: TimeRange; label: string; days?: number }[] = [
+  { value: 'today', label: 'Today', days: 0 },
+  { value: 'week', label: '7 Days', days: 6 },
+  { value: 'month', label: '30 Days', days: 29 },
+  { value: 'all', label: 'All Time' },
+];
+
+export default function TimeTrackingScreen() {
+  const router = useRouter();
+  const { tasks, categories, timeEntries, activeTimeEntry } = useApp();
+  const [range, setRange] = useState<TimeRange>('week');
+  const [now, setNow] = useState(new Date());
+
+  // Keep totals moving while a timer runs
+  useEffect(() => {
+    if (!activeTimeEntry) return;
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [activeTimeEntry]);
+
+  const days = TIME_RANGES.find(r => r.value === range)?.days;
+  const entries = days === undefined
+    ? timeEntries
+    : getEntriesSince(timeEntries, addDaysToDateString(getTodayDateString(now), -days));
+  const total = getTrackedSeconds(entries, now);
+  const dailyTotals = getDailyTotals(entries, now);
+  const categoryTotals = getCategoryTotals(entries, tasks, now);
+  const taskTotals = getTaskTotals(entries, now);
+  const focusEntries = entries.filter(e => e.source === 'focus');
+  const focusCountFor = (taskId: string) => focusEntries.filter(e => e.taskId === taskId).length;
+
+  const renderBar = (seconds: number, max: number, color: string = Colors.primary) => (
+    <View style={styles.barTrack}>
+      <View style={[styles.barFill, { width: `${(seconds / max) * 100}%`, backgroundColor: color }]} />
+    </View>
+  );
+
+  const renderSection = (title: string, totals: TimeTotal[], renderRow: (total: TimeTotal, max: number) => React.ReactNode) => {
+    if (totals.length === 0) return null;
+    const max = totals.reduce((largest, t) => Math.max(largest, t.seconds), 0);
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <View style={styles.sectionContent}>
+          {totals.map(t => renderRow(t, max))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Time Tracking' }} />
+
+      <View style={styles.segments}>
+        {TIME_RANGES.map(option => {
+          const isActive = option.value === range;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.segment, isActive && styles.segmentActive]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setRange(option.value);
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        {entries.length === 0 ? (
+          <EmptyState
+            icon={<Timer size={64} color={Colors.primaryLight} />}
+            title="No time tracked"
+            description="Start a timer on a task, or add time from the task's details."
+          />
+        ) : (
+          <>
+            <View style={styles.totalCard}>
+              <Text style={styles.totalLabel}>Total tracked</Text>
+              <Text style={styles.totalValue}>{formatDuration(total)}</Text>
+              {focusEntries.length > 0 && (
+                <Text style={styles.totalMeta}>
+                  {focusEntries.length} focus {focusEntries.length === 1 ? 'session' : 'sessions'} · {formatDuration(getTrackedSeconds(focusEntries))}
+                </Text>
+              )}
+            </View>
+
+            {renderSection('By Day', dailyTotals, (t, max) => (
+              <View key={t.key} style={styles.row}>
+                <Text style={styles.rowTitle}>
+                  {parseLocalDate(t.key).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                </Text>
+                {renderBar(t.seconds, max)}
+                <Text style={styles.rowValue}>{formatDuration(t.seconds)}</Text>
+              </View>
+            ))}
+
+            {renderSection('By Category', categoryTotals, (t, max) => {
+              const category = categories.find(c => c.slug === t.key);
+              return (
+                <View key={t.key} style={styles.row}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>{category?.name ?? t.key}</Text>
+                  {renderBar(t.seconds, max, category?.color)}
+                  <Text style={styles.rowValue}>{formatDuration(t.seconds)}</Text>
+                </View>
+              );
+            })}
+
+            {renderSection('By Task', taskTotals, t => {
+              const task = tasks.find(task => task.id === t.key);
+              if (!task) return null;
+              const focusCount = focusCountFor(task.id);
+              return (
+                <TouchableOpacity key={t.key} style={styles.row} onPress={() => router.push(`/task/${task.id}`)}>
+                  <View style={styles.taskInfo}>
+                    <Text style={styles.taskTitle} numberOfLines={1}>{task.title}</Text>
+                    {task.estimatedMinutes ? (
+                      <Text style={[styles.taskMeta, t.seconds > task.estimatedMinutes * 60 && styles.taskMetaOver]}>
+                        Estimate {formatDuration(task.estimatedMinutes * 60)}
+                      </Text>
+                    ) : null}
+                    {focusCount > 0 && (
+                      <Text style={styles.taskMeta}>
+                        {focusCount} focus {focusCount === 1 ? 'session' : 'sessions'}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.rowValue}>{formatDuration(t.seconds)}</Text>
+                  <ChevronRight size={18} color={Colors.textTertiary} />
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  segments: {
+    flexDirection: 'row',
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    padding: 2,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md - 2,
+  },
+  segmentActive: {
+    backgroundColor: Colors.surface,
+  },
+  segmentText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  segmentTextActive: {
+    color: Colors.text,
+    fontWeight: '600' as const,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  totalCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+    alignItems: 'center',
+  },
+  totalLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  totalValue: {
+    ...Typography.largeTitle,
+    color: Colors.text,
+    marginTop: Spacing.xs,
+  },
+  totalMeta: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowTitle: {
+    ...Typography.subhead,
+    color: Colors.text,
+    width: 110,
+  },
+  rowValue: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '600' as const,
+    fontVariant: ['tabular-nums'],
+  },
+  barTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.borderLight,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+  },
+  taskInfo: {
+    flex: 1,
+  },
+  taskTitle: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  taskMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  taskMetaOver: {
+    color: Colors.error,
+  },
+});
@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Stack } from 'expo-router';
+import { RotateCcw, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import EmptyState from '@/components/EmptyState';
+import { TRASH_RETENTION_DAYS, getDaysLeftInTrash } from '@/lib/trash';
+import { Task } from '@/types';
+
+export default function TrashScreen() {
+  const { trashedTasks, categories, restoreTask, deleteTaskForever, emptyTrash } = useApp();
+
+  const handleRestore = (task: Task) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    restoreTask(task);
+  };
+
+  const handleDeleteForever = (task: Task) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete “${task.title}”? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            deleteTaskForever(task.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trashedTasks.length} ${trashedTasks.length === 1 ? 'task' : 'tasks'}? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            emptyTrash();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTask = (task: Task) => {
+    const category = categories.find(c => c.slug === task.category);
+    const daysLeft = getDaysLeftInTrash(task);
+    return (
+      <View key={task.id} style={styles.taskRow}>
+        <View style={styles.taskInfo}>
+          <Text style={styles.taskTitle} numberOfLines={1}>{task.title}</Text>
+          <Text style={styles.taskMeta} numberOfLines={1}>
+            {category ? `${category.name} · ` : ''}
+            {daysLeft === 0 ? 'Deleted today' : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleRestore(task)}>
+          <RotateCcw size={18} color={Colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteForever(task)}>
+          <X size={18} color={Colors.error} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Trash',
+          headerRight: () =>
+            trashedTasks.length > 0 ? (
+              <TouchableOpacity onPress={handleEmptyTrash}>
+                <Text style={styles.emptyButton}>Empty</Text>
+              </TouchableOpacity>
+            ) : null,
+        }}
+      />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        {trashedTasks.length === 0 ? (
+          <EmptyState
+            icon={<Trash2 size={64} color={Colors.primaryLight} />}
+            title="Trash is empty"
+            description={`Deleted tasks stay here for ${TRASH_RETENTION_DAYS} days so you can restore them.`}
+          />
+        ) : (
+          <>
+            <Text style={styles.hint}>
+              Tasks are deleted permanently {TRASH_RETENTION_DAYS} days after they were moved to the trash.
+            </Text>
+            <View style={styles.sectionContent}>{trashedTasks.map(renderTask)}</View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    paddingBottom: 60,
+  },
+  hint: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+    marginHorizontal: Spacing.sm,
+  },
+  emptyButton: {
+    ...Typography.body,
+    color: Colors.error,
+  },
+  sectionContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    overflow: 'hidden',
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  taskInfo: {
+    flex: 1,
+  },
+  taskTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  taskMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+});
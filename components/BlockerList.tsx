@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { CheckCircle2, Lock, Plus, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Task, TaskBlocker } from '@/types';
+
+interface BlockerListProps {
+  blockers: TaskBlocker[];
+  candidates: Task[];
+  onAdd: (blockerId: string) => void;
+  onRemove: (blockerId: string) => void;
+  onOpen: (blockerId: string) => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export default function BlockerList({ blockers, candidates, onAdd, onRemove, onOpen }: BlockerListProps) {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const needle = query.trim().toLowerCase();
+  const suggestions = isFocused
+    ? candidates
+        .filter(t => !needle || t.title.toLowerCase().includes(needle))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const handleAdd = (blockerId: string) => {
+    setQuery('');
+    onAdd(blockerId);
+  };
+
+  return (
+    <View>
+      {blockers.map(blocker => (
+        <View key={blocker.id} style={styles.row}>
+          {blocker.isCompleted ? (
+            <CheckCircle2 size={18} color={Colors.success} />
+          ) : (
+            <Lock size={18} color={Colors.textTertiary} />
+          )}
+          <TouchableOpacity style={styles.titleButton} onPress={() => onOpen(blocker.id)}>
+            <Text
+              style={[styles.title, blocker.isCompleted && styles.titleCompleted]}
+              numberOfLines={2}
+            >
+              {blocker.title}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onRemove(blocker.id);
+            }}
+          >
+            <X size={18} color={Colors.textTertiary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <Plus size={18} color={Colors.primary} />
+        <TextInput
+          style={styles.addInput}
+          value={query}
+          onChangeText={setQuery}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Blocked by another task..."
+          placeholderTextColor={Colors.textTertiary}
+          returnKeyType="done"
+        />
+      </View>
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(candidate => (
+            <TouchableOpacity
+              key={candidate.id}
+              style={styles.suggestion}
+              onPress={() => handleAdd(candidate.id)}
+            >
+              <Text style={styles.suggestionText} numberOfLines={1}>
+                {candidate.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+    gap: Spacing.sm,
+  },
+  titleButton: {
+    flex: 1,
+  },
+  title: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingTop: Spacing.md,
+  },
+  addInput: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    padding: 0,
+  },
+  suggestions: {
+    marginTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  suggestion: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  suggestionText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+});
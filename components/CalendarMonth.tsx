@@ -0,0 +1,423 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+} from 'react-native';
+import { Plus } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Task } from '@/types';
+import { WEEKDAY_LABELS, getMonthGrid } from '@/lib/calendar';
+import { getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+
+interface CalendarMonthProps {
+  anchorDate: string;
+  selectedDate: string;
+  tasksByDate: Map<string, Task[]>;
+  onSelectDate: (date: string) => void;
+  onMoveTask: (task: Task, date: string) => void;
+  onPressTask: (taskId: string) => void;
+  onAddTask: (date: string) => void;
+}
+
+const MAX_DOTS = 4;
+
+export default function CalendarMonth({
+  anchorDate,
+  selectedDate,
+  tasksByDate,
+  onSelectDate,
+  onMoveTask,
+  onPressTask,
+  onAddTask,
+}: CalendarMonthProps) {
+  const [dragging, setDragging] = useState<Task | null>(null);
+  const [hoverDate, setHoverDate] = useState<string | null>(null);
+
+  const weeks = getMonthGrid(anchorDate);
+  const month = parseLocalDate(anchorDate).getMonth();
+  const today = getTodayDateString();
+  const selectedTasks = tasksByDate.get(selectedDate) ?? [];
+
+  const containerRef = useRef<View>(null);
+  const gridRef = useRef<View>(null);
+  const gridRect = useRef({ x: 0, y: 0, width: 0, height: 0 });
+  const containerOffset = useRef({ x: 0, y: 0 });
+  const dragPosition = useRef(new Animated.ValueXY()).current;
+  const draggingRef = useRef<Task | null>(null);
+  const isGranted = useRef(false);
+  const hoverRef = useRef<string | null>(null);
+
+  // The responder is created once, so it reads the grid and callback through a ref
+  const latest = useRef({ weeks, onMoveTask });
+  latest.current = { weeks, onMoveTask };
+
+  const dateAt = (pageX: number, pageY: number) => {
+    const { x, y, width, height } = gridRect.current;
+    const grid = latest.current.weeks;
+    if (pageX < x || pageX > x + width || pageY < y || pageY > y + height) return null;
+    const row = Math.min(Math.floor(((pageY - y) / height) * grid.length), grid.length - 1);
+    const column = Math.min(Math.floor(((pageX - x) / width) * 7), 6);
+    return grid[row][column];
+  };
+
+  const moveChipTo = (pageX: number, pageY: number) => {
+    dragPosition.setValue({
+      x: pageX - containerOffset.current.x - 80,
+      y: pageY - containerOffset.current.y - 20,
+    });
+    const date = dateAt(pageX, pageY);
+    if (date !== hoverRef.current) {
+      hoverRef.current = date;
+      setHoverDate(date);
+    }
+  };
+
+  const endDrag = (pageX?: number, pageY?: number) => {
+    const task = draggingRef.current;
+    draggingRef.current = null;
+    isGranted.current = false;
+    hoverRef.current = null;
+    setDragging(null);
+    setHoverDate(null);
+    if (!task || pageX === undefined || pageY === undefined) return;
+
+    const date = dateAt(pageX, pageY);
+    if (!date || date === task.dueDate) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    latest.current.onMoveTask(task, date);
+  };
+
+  const dragHandlers = useRef({ moveChipTo, endDrag });
+  dragHandlers.current = { moveChipTo, endDrag };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponderCapture: () => draggingRef.current !== null,
+        onPanResponderGrant: () => {
+          isGranted.current = true;
+        },
+        onPanResponderMove: (event) =>
+          dragHandlers.current.moveChipTo(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderRelease: (event) =>
+          dragHandlers.current.endDrag(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderTerminate: () => dragHandlers.current.endDrag(),
+      }),
+    []
+  );
+
+  const startDrag = (task: Task, event: GestureResponderEvent) => {
+    const { pageX, pageY } = event.nativeEvent;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    gridRef.current?.measureInWindow((x, y, width, height) => {
+      gridRect.current = { x, y, width, height };
+    });
+    containerRef.current?.measureInWindow((x, y) => {
+      containerOffset.current = { x, y };
+      moveChipTo(pageX, pageY);
+    });
+    draggingRef.current = task;
+    setDragging(task);
+  };
+
+  // Released after the long press without moving: the responder was never granted
+  const handleRowPressOut = () => {
+    setTimeout(() => {
+      if (draggingRef.current && !isGranted.current) endDrag();
+    }, 0);
+  };
+
+  return (
+    <View ref={containerRef} style={styles.container} {...panResponder.panHandlers}>
+      <ScrollView
+        scrollEnabled={!dragging}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.weekdays}>
+          {WEEKDAY_LABELS.map(label => (
+            <Text key={label} style={styles.weekday}>{label}</Text>
+          ))}
+        </View>
+
+        <View ref={gridRef}>
+          {weeks.map(week => (
+            <View key={week[0]} style={styles.week}>
+              {week.map(date => {
+                const dayTasks = tasksByDate.get(date) ?? [];
+                const isSelected = date === selectedDate;
+                const isOutside = parseLocalDate(date).getMonth() !== month;
+                return (
+                  <TouchableOpacity
+                    key={date}
+                    style={[
+                      styles.day,
+                      isSelected && styles.daySelected,
+                      hoverDate === date && styles.dayDropTarget,
+                    ]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      onSelectDate(date);
+                    }}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.dayNumber, date === today && styles.dayNumberToday]}>
+                      <Text
+                        style={[
+                          styles.dayText,
+                          isOutside && styles.dayTextOutside,
+                          date === today && styles.dayTextToday,
+                        ]}
+                      >
+                        {parseLocalDate(date).getDate()}
+                      </Text>
+                    </View>
+                    <View style={styles.dots}>
+                      {dayTasks.slice(0, MAX_DOTS).map(task => (
+                        <View
+                          key={task.id}
+                          style={[
+                            styles.dot,
+                            {
+                              backgroundColor:
+                                task.status === 'completed' ? Colors.border : Colors.priority[task.priority],
+                            },
+                          ]}
+                        />
+                      ))}
+                    </View>
+                    {dayTasks.length > MAX_DOTS && (
+                      <Text style={styles.moreText}>+{dayTasks.length - MAX_DOTS}</Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.dayList}>
+          <View style={styles.dayListHeader}>
+            <Text style={styles.dayListTitle}>
+              {parseLocalDate(selectedDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => onAddTask(selectedDate)}>
+              <Plus size={18} color={Colors.primary} />
+            </TouchableOpacity>
+          </View>
+          {selectedTasks.length === 0 ? (
+            <TouchableOpacity onPress={() => onAddTask(selectedDate)}>
+              <Text style={styles.emptyText}>No tasks. Tap to add one.</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              {selectedTasks.map(task => (
+                <TouchableOpacity
+                  key={task.id}
+                  style={[styles.taskRow, dragging?.id === task.id && styles.taskRowDragging]}
+                  onPress={() => onPressTask(task.id)}
+                  onLongPress={event => startDrag(task, event)}
+                  onPressOut={handleRowPressOut}
+                  delayLongPress={250}
+                  activeOpacity={0.7}
+                >
+                  <View style={[styles.taskBar, { backgroundColor: Colors.priority[task.priority] }]} />
+                  <Text style={styles.taskTime}>{task.dueTime ?? 'All day'}</Text>
+                  <Text
+                    style={[styles.taskTitle, task.status === 'completed' && styles.taskTitleCompleted]}
+                    numberOfLines={1}
+                  >
+                    {task.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.hint}>Hold a task and drag it onto another day to reschedule.</Text>
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      {dragging && (
+        <Animated.View
+          pointerEvents="none"
+          style={[styles.dragChip, { transform: dragPosition.getTranslateTransform() }]}
+        >
+          <Text style={styles.dragChipText} numberOfLines={1}>{dragging.title}</Text>
+          {hoverDate && (
+            <Text style={styles.dragChipDate}>
+              {parseLocalDate(hoverDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </Text>
+          )}
+        </Animated.View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: 40,
+  },
+  weekdays: {
+    flexDirection: 'row',
+    paddingVertical: Spacing.sm,
+  },
+  weekday: {
+    ...Typography.caption1,
+    flex: 1,
+    textAlign: 'center',
+    color: Colors.textTertiary,
+    fontWeight: '600' as const,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  day: {
+    flex: 1,
+    height: 56,
+    alignItems: 'center',
+    paddingTop: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  daySelected: {
+    backgroundColor: Colors.primaryMuted,
+  },
+  dayDropTarget: {
+    borderColor: Colors.primary,
+  },
+  dayNumber: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayNumberToday: {
+    backgroundColor: Colors.primary,
+  },
+  dayText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  dayTextOutside: {
+    color: Colors.textTertiary,
+  },
+  dayTextToday: {
+    color: Colors.textInverse,
+    fontWeight: '600' as const,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 4,
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+  },
+  moreText: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    fontSize: 9,
+  },
+  dayList: {
+    marginTop: Spacing.lg,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+  },
+  dayListHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.sm,
+  },
+  dayListTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  addButton: {
+    padding: Spacing.xs,
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+    paddingVertical: Spacing.md,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  taskRowDragging: {
+    opacity: 0.3,
+  },
+  taskBar: {
+    width: 3,
+    height: 20,
+    borderRadius: 2,
+  },
+  taskTime: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    width: 52,
+  },
+  taskTitle: {
+    ...Typography.subhead,
+    color: Colors.text,
+    flex: 1,
+  },
+  taskTitleCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  hint: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: Spacing.sm,
+  },
+  dragChip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: 160,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  dragChipText: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '500' as const,
+  },
+  dragChipDate: {
+    ...Typography.caption1,
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,476 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Pressable,
+  PanResponder,
+  GestureResponderEvent,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Task } from '@/types';
+import { TASK_BLOCK_MINUTES, layoutTimedTasks, minutesToTime, timeToMinutes } from '@/lib/calendar';
+import { getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+
+interface CalendarTimelineProps {
+  dates: string[];
+  tasksByDate: Map<string, Task[]>;
+  onMoveTask: (task: Task, date: string, time?: string) => void;
+  onPressSlot: (date: string, time: string) => void;
+  onPressTask: (taskId: string) => void;
+  onSelectDate?: (date: string) => void;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DropTarget {
+  date: string;
+  time?: string;
+}
+
+const HOUR_HEIGHT = 48;
+const GUTTER_WIDTH = 48;
+const MAX_ALL_DAY_CHIPS = 2;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  if (hour === 0) return '12 AM';
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+}
+
+export default function CalendarTimeline({
+  dates,
+  tasksByDate,
+  onMoveTask,
+  onPressSlot,
+  onPressTask,
+  onSelectDate,
+}: CalendarTimelineProps) {
+  const [dragging, setDragging] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const allDayRef = useRef<View>(null);
+  const timelineRef = useRef<View>(null);
+  const allDayRect = useRef<Rect>({ x: 0, y: 0, width: 0, height: 0 });
+  const timelineRect = useRef<Rect>({ x: 0, y: 0, width: 0, height: 0 });
+  const scrollY = useRef(8 * HOUR_HEIGHT);
+  const grabOffsetMinutes = useRef(0);
+  const draggingRef = useRef<Task | null>(null);
+  const dropTargetRef = useRef<DropTarget | null>(null);
+  const isGranted = useRef(false);
+
+  // The responder is created once, so it reads the days and callback through a ref
+  const latest = useRef({ dates, onMoveTask });
+  latest.current = { dates, onMoveTask };
+
+  const today = getTodayDateString();
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const targetAt = (pageX: number, pageY: number): DropTarget | null => {
+    const days = latest.current.dates;
+    const timeline = timelineRect.current;
+    const dayWidth = (timeline.width - GUTTER_WIDTH) / days.length;
+    const dayIndex = Math.floor((pageX - timeline.x - GUTTER_WIDTH) / dayWidth);
+    if (dayIndex < 0 || dayIndex >= days.length) return null;
+
+    const allDay = allDayRect.current;
+    if (pageY >= allDay.y && pageY <= allDay.y + allDay.height) {
+      return { date: days[dayIndex] };
+    }
+    if (pageY >= timeline.y && pageY <= timeline.y + timeline.height) {
+      const minutes = ((pageY - timeline.y + scrollY.current) / HOUR_HEIGHT) * 60 - grabOffsetMinutes.current;
+      return { date: days[dayIndex], time: minutesToTime(minutes) };
+    }
+    return null;
+  };
+
+  const updateTarget = (pageX: number, pageY: number) => {
+    const target = targetAt(pageX, pageY);
+    const current = dropTargetRef.current;
+    if (target?.date !== current?.date || target?.time !== current?.time) {
+      dropTargetRef.current = target;
+      setDropTarget(target);
+    }
+  };
+
+  const endDrag = (pageX?: number, pageY?: number) => {
+    const task = draggingRef.current;
+    draggingRef.current = null;
+    dropTargetRef.current = null;
+    isGranted.current = false;
+    setDragging(null);
+    setDropTarget(null);
+    if (!task || pageX === undefined || pageY === undefined) return;
+
+    const target = targetAt(pageX, pageY);
+    if (!target || (target.date === task.dueDate && target.time === task.dueTime)) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    latest.current.onMoveTask(task, target.date, target.time);
+  };
+
+  const dragHandlers = useRef({ updateTarget, endDrag });
+  dragHandlers.current = { updateTarget, endDrag };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponderCapture: () => draggingRef.current !== null,
+        onPanResponderGrant: () => {
+          isGranted.current = true;
+        },
+        onPanResponderMove: (event) =>
+          dragHandlers.current.updateTarget(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderRelease: (event) =>
+          dragHandlers.current.endDrag(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderTerminate: () => dragHandlers.current.endDrag(),
+      }),
+    []
+  );
+
+  const startDrag = (task: Task, event: GestureResponderEvent, grabMinutes: number) => {
+    const { pageX, pageY } = event.nativeEvent;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    grabOffsetMinutes.current = grabMinutes;
+    allDayRef.current?.measureInWindow((x, y, width, height) => {
+      allDayRect.current = { x, y, width, height };
+    });
+    timelineRef.current?.measureInWindow((x, y, width, height) => {
+      timelineRect.current = { x, y, width, height };
+      updateTarget(pageX, pageY);
+    });
+    draggingRef.current = task;
+    setDragging(task);
+  };
+
+  // Released after the long press without moving: the responder was never granted
+  const handlePressOut = () => {
+    setTimeout(() => {
+      if (draggingRef.current && !isGranted.current) endDrag();
+    }, 0);
+  };
+
+  const handleSlotPress = (date: string, event: GestureResponderEvent) => {
+    // Round down to the half hour that was tapped
+    const minutes = (event.nativeEvent.locationY / HOUR_HEIGHT) * 60;
+    Haptics.selectionAsync();
+    onPressSlot(date, minutesToTime(Math.floor(minutes / 30) * 30));
+  };
+
+  const isSingleDay = dates.length === 1;
+
+  return (
+    <View style={styles.container} {...panResponder.panHandlers}>
+      {!isSingleDay && (
+        <View style={styles.headerRow}>
+          <View style={styles.gutter} />
+          {dates.map(date => {
+            const day = parseLocalDate(date);
+            const isToday = date === today;
+            return (
+              <TouchableOpacity
+                key={date}
+                style={styles.dayHeader}
+                onPress={() => onSelectDate?.(date)}
+                disabled={!onSelectDate}
+              >
+                <Text style={[styles.dayHeaderName, isToday && styles.dayHeaderToday]}>
+                  {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                </Text>
+                <View style={[styles.dayHeaderNumber, isToday && styles.dayHeaderNumberToday]}>
+                  <Text style={[styles.dayHeaderNumberText, isToday && styles.dayHeaderNumberTextToday]}>
+                    {day.getDate()}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View ref={allDayRef} style={styles.allDayRow}>
+        <View style={styles.gutter}>
+          <Text style={styles.gutterText}>All day</Text>
+        </View>
+        {dates.map(date => {
+          const untimed = (tasksByDate.get(date) ?? []).filter(t => !t.dueTime);
+          const isTarget = dropTarget?.date === date && !dropTarget.time;
+          const visible = isSingleDay ? untimed : untimed.slice(0, MAX_ALL_DAY_CHIPS);
+          return (
+            <View key={date} style={[styles.allDayCell, isTarget && styles.allDayCellTarget]}>
+              {visible.map(task => (
+                <TouchableOpacity
+                  key={task.id}
+                  style={[
+                    styles.allDayChip,
+                    { borderLeftColor: Colors.priority[task.priority] },
+                    dragging?.id === task.id && styles.dragSource,
+                  ]}
+                  onPress={() => onPressTask(task.id)}
+                  onLongPress={event => startDrag(task, event, 0)}
+                  onPressOut={handlePressOut}
+                  delayLongPress={250}
+                >
+                  <Text
+                    style={[styles.chipText, task.status === 'completed' && styles.textCompleted]}
+                    numberOfLines={1}
+                  >
+                    {task.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {untimed.length > visible.length && (
+                <TouchableOpacity onPress={() => onSelectDate?.(date)}>
+                  <Text style={styles.moreText}>+{untimed.length - visible.length}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <View ref={timelineRef} style={styles.timeline}>
+        <ScrollView
+          scrollEnabled={!dragging}
+          showsVerticalScrollIndicator={false}
+          contentOffset={{ x: 0, y: scrollY.current }}
+          onScroll={event => {
+            scrollY.current = event.nativeEvent.contentOffset.y;
+          }}
+          scrollEventThrottle={16}
+        >
+          <View style={styles.grid}>
+            <View style={styles.gutter}>
+              {HOURS.map(hour => (
+                <Text key={hour} style={[styles.hourLabel, { top: hour * HOUR_HEIGHT - 7 }]}>
+                  {hour === 0 ? '' : formatHour(hour)}
+                </Text>
+              ))}
+            </View>
+
+            {dates.map(date => {
+              const layouts = layoutTimedTasks(tasksByDate.get(date) ?? []);
+              const preview = dropTarget?.date === date && dropTarget.time ? timeToMinutes(dropTarget.time) : null;
+              return (
+                <Pressable key={date} style={styles.dayColumn} onPress={event => handleSlotPress(date, event)}>
+                  {HOURS.map(hour => (
+                    <View key={hour} style={[styles.hourLine, { top: hour * HOUR_HEIGHT }]} />
+                  ))}
+
+                  {preview !== null && (
+                    <View
+                      pointerEvents="none"
+                      style={[
+                        styles.preview,
+                        { top: (preview / 60) * HOUR_HEIGHT, height: (TASK_BLOCK_MINUTES / 60) * HOUR_HEIGHT },
+                      ]}
+                    >
+                      <Text style={styles.previewText}>{dropTarget?.time}</Text>
+                    </View>
+                  )}
+
+                  {layouts.map(({ task, startMinutes, column, columnCount }) => (
+                    <TouchableOpacity
+                      key={task.id}
+                      style={[
+                        styles.block,
+                        {
+                          top: (startMinutes / 60) * HOUR_HEIGHT,
+                          height: (TASK_BLOCK_MINUTES / 60) * HOUR_HEIGHT - 2,
+                          left: `${(column / columnCount) * 100}%`,
+                          width: `${100 / columnCount}%`,
+                          borderLeftColor: Colors.priority[task.priority],
+                        },
+                        task.status === 'completed' && styles.blockCompleted,
+                        dragging?.id === task.id && styles.dragSource,
+                      ]}
+                      onPress={() => onPressTask(task.id)}
+                      onLongPress={event =>
+                        startDrag(task, event, (event.nativeEvent.locationY / HOUR_HEIGHT) * 60)
+                      }
+                      onPressOut={handlePressOut}
+                      delayLongPress={250}
+                    >
+                      <Text
+                        style={[styles.blockText, task.status === 'completed' && styles.textCompleted]}
+                        numberOfLines={1}
+                      >
+                        {isSingleDay ? `${task.dueTime}  ${task.title}` : task.title}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+
+                  {date === today && (
+                    <View pointerEvents="none" style={[styles.nowLine, { top: (nowMinutes / 60) * HOUR_HEIGHT }]} />
+                  )}
+                </Pressable>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: Spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    paddingBottom: Spacing.sm,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  dayHeaderName: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+  },
+  dayHeaderToday: {
+    color: Colors.primary,
+  },
+  dayHeaderNumber: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayHeaderNumberToday: {
+    backgroundColor: Colors.primary,
+  },
+  dayHeaderNumberText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  dayHeaderNumberTextToday: {
+    color: Colors.textInverse,
+    fontWeight: '600' as const,
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+  },
+  gutterText: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    minHeight: 32,
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  allDayCell: {
+    flex: 1,
+    gap: 2,
+    paddingHorizontal: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  allDayCellTarget: {
+    backgroundColor: Colors.primaryMuted,
+  },
+  allDayChip: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.sm,
+    borderLeftWidth: 3,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  chipText: {
+    ...Typography.caption2,
+    color: Colors.text,
+  },
+  moreText: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    paddingHorizontal: 4,
+  },
+  timeline: {
+    flex: 1,
+  },
+  grid: {
+    flexDirection: 'row',
+    height: 24 * HOUR_HEIGHT,
+  },
+  hourLabel: {
+    ...Typography.caption2,
+    position: 'absolute',
+    right: Spacing.xs,
+    color: Colors.textTertiary,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: Colors.borderLight,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: Colors.borderLight,
+  },
+  block: {
+    position: 'absolute',
+    backgroundColor: Colors.primaryMuted,
+    borderRadius: BorderRadius.sm,
+    borderLeftWidth: 3,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+  },
+  blockCompleted: {
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  blockText: {
+    ...Typography.caption1,
+    color: Colors.text,
+    fontWeight: '500' as const,
+  },
+  textCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  dragSource: {
+    opacity: 0.3,
+  },
+  preview: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryMuted,
+    paddingHorizontal: 4,
+    zIndex: 1,
+  },
+  previewText: {
+    ...Typography.caption2,
+    color: Colors.primary,
+    fontWeight: '600' as const,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: Colors.error,
+  },
+});
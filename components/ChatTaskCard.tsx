@@ -5,6 +5,7 @@ import { Calendar, Clock, Flag, CheckCircle2, Circle } from 'lucide-react-native
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { parseLocalDate } from '@/lib/dateUtils';
 import { Task } from '@/types';
 import { useApp } from '@/providers/AppProvider';
 
@@ -48,7 +49,7 @@ export default function ChatTaskCard({ task }: ChatTaskCardProps) {
 
   const formatDate = (dateStr?: string) => {
     if (!dateStr) return null;
-    const date = new Date(dateStr);
+    const date = parseLocalDate(dateStr);
     const today = new Date();
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
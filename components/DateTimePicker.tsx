@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Calendar, ChevronLeft, ChevronRight, Clock, Minus, Plus, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { WEEKDAY_LABELS, addMonthsToDateString, getMonthGrid } from '@/lib/calendar';
+import { getTodayDateString, parseLocalDate } from '@/lib/dateUtils';
+
+interface DateTimePickerProps {
+  // YYYY-MM-DD
+  date?: string;
+  // HH:MM, 24-hour
+  time?: string;
+  onChangeDate: (date: string | undefined) => void;
+  onChangeTime: (time: string | undefined) => void;
+}
+
+const HOURS = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+// Quick picks; the steppers reach any other minute
+const MINUTES = [0, 15, 30, 45];
+
+/**
+ * 12-hour display for an "HH:MM" time, e.g. "9:30 AM"
+ */
+export function formatTime12Hour(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`;
+}
+
+/**
+ * Date and time fields that expand into an inline month grid and time chips.
+ * Drawn in JS so it looks and behaves the same on iOS, Android and web.
+ */
+export default function DateTimePicker({ date, time, onChangeDate, onChangeTime }: DateTimePickerProps) {
+  const [open, setOpen] = useState<'date' | 'time' | null>(null);
+  const [month, setMonth] = useState(date ?? getTodayDateString());
+
+  const today = getTodayDateString();
+  const visibleMonth = parseLocalDate(month).getMonth();
+  const [hours, minutes] = (time ?? '09:00').split(':').map(Number);
+  const isPM = hours >= 12;
+  // Keep a minute off the quick picks (e.g. 10:07 typed in the title) visible and selected
+  const minuteChips = time && !MINUTES.includes(minutes) ? [...MINUTES, minutes].sort((a, b) => a - b) : MINUTES;
+
+  const toggle = (panel: 'date' | 'time') => {
+    Haptics.selectionAsync();
+    if (panel === 'date' && date) setMonth(date);
+    setOpen(open === panel ? null : panel);
+  };
+
+  const setTimeParts = (hour12: number, minute: number, pm: boolean) => {
+    Haptics.selectionAsync();
+    const hour24 = (hour12 % 12) + (pm ? 12 : 0);
+    onChangeTime(`${hour24.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`);
+  };
+
+  const stepMinute = (delta: number) => setTimeParts(hours % 12, (minutes + delta + 60) % 60, isPM);
+
+  return (
+    <View>
+      <View style={styles.fields}>
+        <TouchableOpacity
+          style={[styles.field, open === 'date' && styles.fieldOpen]}
+          onPress={() => toggle('date')}
+        >
+          <Calendar size={18} color={Colors.primary} />
+          <Text style={[styles.fieldText, date && styles.fieldTextActive]} numberOfLines={1}>
+            {date
+              ? parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+              : 'Select date'}
+          </Text>
+          {date && (
+            <TouchableOpacity onPress={() => onChangeDate(undefined)} hitSlop={8}>
+              <X size={16} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.field, open === 'time' && styles.fieldOpen]}
+          onPress={() => toggle('time')}
+        >
+          <Clock size={18} color={Colors.primary} />
+          <Text style={[styles.fieldText, time && styles.fieldTextActive]} numberOfLines={1}>
+            {time ? formatTime12Hour(time) : 'Add time'}
+          </Text>
+          {time && (
+            <TouchableOpacity onPress={() => onChangeTime(undefined)} hitSlop={8}>
+              <X size={16} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {open === 'date' && (
+        <View style={styles.panel}>
+          <View style={styles.monthHeader}>
+            <TouchableOpacity onPress={() => setMonth(addMonthsToDateString(month, -1))} hitSlop={8}>
+              <ChevronLeft size={20} color={Colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.monthTitle}>
+              {parseLocalDate(month).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </Text>
+            <TouchableOpacity onPress={() => setMonth(addMonthsToDateString(month, 1))} hitSlop={8}>
+              <ChevronRight size={20} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.week}>
+            {WEEKDAY_LABELS.map(label => (
+              <Text key={label} style={styles.weekday}>{label.slice(0, 2)}</Text>
+            ))}
+          </View>
+          {getMonthGrid(month).map(week => (
+            <View key={week[0]} style={styles.week}>
+              {week.map(day => {
+                const isSelected = day === date;
+                const isOutside = parseLocalDate(day).getMonth() !== visibleMonth;
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={styles.dayCell}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      onChangeDate(day);
+                      setOpen(null);
+                    }}
+                  >
+                    <View style={[styles.day, day === today && styles.dayToday, isSelected && styles.daySelected]}>
+                      <Text
+                        style={[
+                          styles.dayText,
+                          isOutside && styles.dayTextOutside,
+                          isSelected && styles.dayTextSelected,
+                        ]}
+                      >
+                        {parseLocalDate(day).getDate()}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {open === 'time' && (
+        <View style={styles.panel}>
+          <View style={styles.chips}>
+            {HOURS.map(hour => {
+              const isSelected = !!time && hours % 12 === hour % 12;
+              return (
+                <TouchableOpacity
+                  key={hour}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setTimeParts(hour, minutes, isPM)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{hour}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.chips}>
+            <TouchableOpacity style={styles.chip} onPress={() => stepMinute(-1)}>
+              <Minus size={16} color={Colors.textSecondary} />
+            </TouchableOpacity>
+            {minuteChips.map(minute => {
+              const isSelected = !!time && minutes === minute;
+              return (
+                <TouchableOpacity
+                  key={minute}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setTimeParts(hours % 12, minute, isPM)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    :{minute.toString().padStart(2, '0')}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.chip} onPress={() => stepMinute(1)}>
+              <Plus size={16} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.chips}>
+            {(['AM', 'PM'] as const).map(meridiem => {
+              const isSelected = !!time && isPM === (meridiem === 'PM');
+              return (
+                <TouchableOpacity
+                  key={meridiem}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setTimeParts(hours % 12, minutes, meridiem === 'PM')}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{meridiem}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fields: {
+    gap: Spacing.sm,
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  fieldOpen: {
+    borderColor: Colors.primary,
+  },
+  fieldText: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.textTertiary,
+  },
+  fieldTextActive: {
+    color: Colors.text,
+  },
+  panel: {
+    marginTop: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.sm,
+  },
+  monthTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    ...Typography.caption2,
+    flex: 1,
+    textAlign: 'center',
+    color: Colors.textTertiary,
+    paddingVertical: Spacing.xs,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  day: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayToday: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  daySelected: {
+    backgroundColor: Colors.primary,
+  },
+  dayText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  dayTextOutside: {
+    color: Colors.textTertiary,
+  },
+  dayTextSelected: {
+    color: Colors.textInverse,
+    fontWeight: '600' as const,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    minWidth: 44,
+    alignItems: 'center',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primaryMuted,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CloudUpload, X } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+
+interface GuestImportBannerProps {
+  count: number;
+  isImporting: boolean;
+  onImport: () => void;
+  onDismiss: () => void;
+}
+
+export default function GuestImportBanner({ count, isImporting, onImport, onDismiss }: GuestImportBannerProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.icon}>
+        <CloudUpload size={20} color={Colors.info} />
+      </View>
+      <View style={styles.content}>
+        <Text style={styles.title}>
+          {count} {count === 1 ? 'task' : 'tasks'} on this device
+        </Text>
+        <Text style={styles.description}>
+          Add the tasks you created before signing in to your account.
+        </Text>
+        <TouchableOpacity style={styles.button} onPress={onImport} disabled={isImporting}>
+          {isImporting ? (
+            <ActivityIndicator size="small" color={Colors.textInverse} />
+          ) : (
+            <Text style={styles.buttonText}>Import</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      <TouchableOpacity style={styles.close} onPress={onDismiss} disabled={isImporting}>
+        <X size={18} color={Colors.textTertiary} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.infoMuted,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    gap: Spacing.md,
+  },
+  icon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  description: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.info,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.sm,
+    minWidth: 88,
+    alignItems: 'center',
+  },
+  buttonText: {
+    ...Typography.subhead,
+    color: Colors.textInverse,
+    fontWeight: '600' as const,
+  },
+  close: {
+    padding: Spacing.xs,
+  },
+});
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import Colors from '@/constants/colors';
+import { SearchQuery, getHighlightSegments } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: SearchQuery;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export default function HighlightedText({ text, query, style, numberOfLines }: HighlightedTextProps) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {getHighlightSegments(text, query).map((segment, index) => (
+        <Text key={index} style={segment.highlighted && styles.highlight}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: Colors.warningMuted,
+    color: Colors.text,
+    fontWeight: '600' as const,
+  },
+});
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { MapPin, Plus, Trash2 } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { LocationReminderService } from '@/lib/locationReminderService';
+import { LocationTrigger, SavedPlace, Task } from '@/types';
+
+interface LocationRemindersProps {
+  task: Task;
+}
+
+export default function LocationReminders({ task }: LocationRemindersProps) {
+  const router = useRouter();
+  const { places, locationReminders, addLocationReminder, deleteLocationReminder } = useApp();
+  const [isAdding, setIsAdding] = useState(false);
+
+  const reminders = locationReminders.filter(r => r.taskId === task.id);
+
+  const handleAdd = async (place: SavedPlace, triggerOn: LocationTrigger) => {
+    setIsAdding(true);
+    const hasPermission = await LocationReminderService.requestPermissions();
+    if (!hasPermission) {
+      setIsAdding(false);
+      Alert.alert('Location is off', 'Allow location access in Settings so Taskify can tell when you get there.');
+      return;
+    }
+
+    const reminder = await addLocationReminder(task.id, place.id, triggerOn);
+    setIsAdding(false);
+
+    if (reminder) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } else {
+      Alert.alert('Reminder Not Added', 'The reminder could not be saved. Please try again.');
+    }
+  };
+
+  const pickTrigger = (place: SavedPlace) => {
+    Alert.alert(place.name, 'Remind me when I…', [
+      { text: 'Arrive', onPress: () => handleAdd(place, 'arrive') },
+      { text: 'Leave', onPress: () => handleAdd(place, 'leave') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const showAddOptions = () => {
+    if (places.length === 0) {
+      Alert.alert('No Saved Places', 'Save a place like home or the store first.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Add a Place', onPress: () => router.push('/places') },
+      ]);
+      return;
+    }
+
+    Alert.alert('Remind Me At', undefined, [
+      ...places.map(place => ({ text: place.name, onPress: () => pickTrigger(place) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleDelete = (reminderId: string) => {
+    Haptics.selectionAsync();
+    deleteLocationReminder(reminderId);
+  };
+
+  return (
+    <View>
+      {reminders.map(reminder => {
+        const place = places.find(p => p.id === reminder.placeId);
+        return (
+          <View key={reminder.id} style={styles.row}>
+            <MapPin size={16} color={Colors.primary} />
+            <Text style={styles.rowText} numberOfLines={1}>
+              {reminder.triggerOn === 'arrive' ? 'When I arrive at ' : 'When I leave '}
+              <Text style={styles.placeName}>{place?.name ?? 'a deleted place'}</Text>
+            </Text>
+            <TouchableOpacity onPress={() => handleDelete(reminder.id)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Trash2 size={16} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addButton} onPress={showAddOptions} disabled={isAdding}>
+        {isAdding ? (
+          <ActivityIndicator size="small" color={Colors.primary} />
+        ) : (
+          <Plus size={16} color={Colors.primary} />
+        )}
+        <Text style={styles.addText}>Add location reminder</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+  placeName: {
+    color: Colors.text,
+    fontWeight: '600' as const,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.xs,
+    borderRadius: BorderRadius.md,
+  },
+  addText: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+});
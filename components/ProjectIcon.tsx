@@ -0,0 +1,51 @@
+import React from 'react';
+import {
+  Folder,
+  Briefcase,
+  Home,
+  Heart,
+  ShoppingCart,
+  BookOpen,
+  Star,
+  Code,
+  Plane,
+  Dumbbell,
+} from 'lucide-react-native';
+import type { LucideIcon } from 'lucide-react-native';
+
+export const PROJECT_ICONS: Record<string, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  home: Home,
+  heart: Heart,
+  cart: ShoppingCart,
+  book: BookOpen,
+  star: Star,
+  code: Code,
+  plane: Plane,
+  dumbbell: Dumbbell,
+};
+
+export const PROJECT_ICON_NAMES = Object.keys(PROJECT_ICONS);
+
+export const PROJECT_COLORS = [
+  '#4CAF50',
+  '#3B82F6',
+  '#8B5CF6',
+  '#EC4899',
+  '#EF4444',
+  '#F59E0B',
+  '#14B8A6',
+  '#6B7280',
+];
+
+interface ProjectIconProps {
+  icon: string;
+  color: string;
+  size?: number;
+}
+
+export default function ProjectIcon({ icon, color, size = 16 }: ProjectIconProps) {
+  const Icon = PROJECT_ICONS[icon] ?? Folder;
+  return <Icon size={size} color={color} />;
+}
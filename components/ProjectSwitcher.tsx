@@ -0,0 +1,110 @@
+import React from 'react';
+import { Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Layers, Settings2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Project } from '@/types';
+import ProjectIcon from '@/components/ProjectIcon';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  selectedProjectId: string | null;
+  onSelect: (projectId: string | null) => void;
+  onManage: () => void;
+}
+
+export default function ProjectSwitcher({ projects, selectedProjectId, onSelect, onManage }: ProjectSwitcherProps) {
+  const handleSelect = (projectId: string | null) => {
+    Haptics.selectionAsync();
+    onSelect(projectId);
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      <TouchableOpacity
+        style={[styles.chip, selectedProjectId === null && styles.chipActive]}
+        onPress={() => handleSelect(null)}
+      >
+        <Layers size={14} color={selectedProjectId === null ? Colors.primaryDark : Colors.textSecondary} />
+        <Text style={[styles.chipText, selectedProjectId === null && styles.chipTextActive]}>
+          All
+        </Text>
+      </TouchableOpacity>
+
+      {projects.map(project => {
+        const isActive = selectedProjectId === project.id;
+        return (
+          <TouchableOpacity
+            key={project.id}
+            style={[
+              styles.chip,
+              isActive && { backgroundColor: project.color + '20', borderColor: project.color },
+            ]}
+            onPress={() => handleSelect(project.id)}
+          >
+            <ProjectIcon icon={project.icon} color={project.color} size={14} />
+            <Text
+              style={[styles.chipText, isActive && { color: project.color, fontWeight: '600' as const }]}
+              numberOfLines={1}
+            >
+              {project.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity style={styles.manageChip} onPress={onManage}>
+        <Settings2 size={14} color={Colors.textTertiary} />
+        <Text style={styles.manageText}>{projects.length === 0 ? 'New project' : 'Manage'}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+    maxWidth: 180,
+  },
+  chipActive: {
+    backgroundColor: Colors.primaryMuted,
+    borderColor: Colors.primaryLight,
+  },
+  chipText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primaryDark,
+    fontWeight: '600' as const,
+  },
+  manageChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+  },
+  manageText: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+  },
+});
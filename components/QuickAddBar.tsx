@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { ArrowUp, Zap } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Category, Friend } from '@/types';
+import { QuickAddResult, QuickAddTokenType, getQuickAddSegments, parseQuickAdd } from '@/lib/quickAdd';
+import { describeNaturalDate } from '@/lib/naturalDate';
+
+interface QuickAddBarProps {
+  categories: Category[];
+  friends: Friend[];
+  onSubmit: (result: QuickAddResult) => void;
+}
+
+const tokenColors: Record<QuickAddTokenType, { color: string; backgroundColor: string }> = {
+  date: { color: Colors.info, backgroundColor: Colors.infoMuted },
+  priority: { color: Colors.error, backgroundColor: Colors.errorMuted },
+  category: { color: Colors.primaryDark, backgroundColor: Colors.primaryMuted },
+  tag: { color: Colors.primaryDark, backgroundColor: Colors.primaryMuted },
+  mention: { color: Colors.warning, backgroundColor: Colors.warningMuted },
+};
+
+export default function QuickAddBar({ categories, friends, onSubmit }: QuickAddBarProps) {
+  const [input, setInput] = useState('');
+
+  const result = input.trim() ? parseQuickAdd(input, { categories, friends }) : null;
+  const segments = result ? getQuickAddSegments(input, result.tokens) : [];
+  const category = categories.find(c => c.slug === result?.category);
+  const names = result?.assignedTo.map(id => friends.find(f => f.user.id === id)?.user.name ?? id) ?? [];
+
+  const summary = result
+    ? [
+        result.dueDate ? describeNaturalDate({ ...result, remainder: '', matches: [], unparsed: [] }) : null,
+        result.priority && result.priority !== 'none' ? `${result.priority} priority` : null,
+        category?.name,
+        ...result.tags.map(tag => `#${tag}`),
+        ...names.map(name => `@${name}`),
+      ].filter(Boolean).join(' · ')
+    : '';
+
+  const handleSubmit = () => {
+    if (!result?.title) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSubmit(result);
+    setInput('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputRow}>
+        <Zap size={18} color={Colors.primary} />
+        <TextInput
+          style={styles.input}
+          value={input}
+          onChangeText={setInput}
+          onSubmitEditing={handleSubmit}
+          placeholder="Quick add: Call dentist tomorrow 9am !high #health"
+          placeholderTextColor={Colors.textTertiary}
+          returnKeyType="done"
+          autoCorrect={false}
+          blurOnSubmit={false}
+        />
+        {result?.title ? (
+          <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+            <ArrowUp size={18} color={Colors.textInverse} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {result && result.tokens.length > 0 && (
+        <View style={styles.preview}>
+          <Text style={styles.previewText}>
+            {segments.map((segment, index) =>
+              segment.type ? (
+                <Text key={index} style={[styles.token, tokenColors[segment.type]]}>
+                  {segment.text}
+                </Text>
+              ) : (
+                <Text key={index}>{segment.text}</Text>
+              )
+            )}
+          </Text>
+          {summary !== '' && <Text style={styles.summary}>{summary}</Text>}
+        </View>
+      )}
+
+      {result && result.unknownMentions.length > 0 && (
+        <Text style={styles.warning}>
+          No friend matches {result.unknownMentions.map(name => `@${name}`).join(', ')}
+        </Text>
+      )}
+
+      {result && result.unparsedRepeats.length > 0 && (
+        <Text style={styles.warning}>
+          {`Couldn't read the repeat in ${result.unparsedRepeats.map(text => `"${text}"`).join(', ')}`}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.sm,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  input: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.xs,
+  },
+  submitButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  preview: {
+    marginTop: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+  },
+  previewText: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  token: {
+    fontWeight: '600' as const,
+    borderRadius: BorderRadius.sm,
+  },
+  summary: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  warning: {
+    ...Typography.caption1,
+    color: Colors.warning,
+    marginTop: 2,
+    paddingHorizontal: Spacing.sm,
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Check, Plus, X, ChevronUp } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import * as Crypto from 'expo-crypto';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Subtask } from '@/types';
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  onToggle: (subtaskId: string) => void;
+  onChange: (subtasks: Subtask[]) => void;
+}
+
+export default function SubtaskList({ subtasks, onToggle, onChange }: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const sorted = [...subtasks].sort((a, b) => a.order - b.order);
+
+  const withOrder = (list: Subtask[]) => list.map((s, index) => ({ ...s, order: index }));
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    Haptics.selectionAsync();
+    onChange(withOrder([
+      ...sorted,
+      { id: Crypto.randomUUID(), title, isCompleted: false, order: sorted.length },
+    ]));
+    setNewTitle('');
+  };
+
+  const handleRemove = (subtaskId: string) => {
+    Haptics.selectionAsync();
+    onChange(withOrder(sorted.filter(s => s.id !== subtaskId)));
+  };
+
+  const handleMoveUp = (index: number) => {
+    if (index === 0) return;
+    Haptics.selectionAsync();
+    const reordered = [...sorted];
+    [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+    onChange(withOrder(reordered));
+  };
+
+  const handleCommitEdit = () => {
+    if (!editingId) return;
+    const title = editingTitle.trim();
+    if (title) {
+      onChange(sorted.map(s => (s.id === editingId ? { ...s, title } : s)));
+    }
+    setEditingId(null);
+    setEditingTitle('');
+  };
+
+  return (
+    <View>
+      {sorted.map((subtask, index) => (
+        <View key={subtask.id} style={styles.row}>
+          <TouchableOpacity
+            style={[styles.checkbox, subtask.isCompleted && styles.checkboxCompleted]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onToggle(subtask.id);
+            }}
+          >
+            {subtask.isCompleted && (
+              <Check size={12} color={Colors.textInverse} strokeWidth={3} />
+            )}
+          </TouchableOpacity>
+
+          {editingId === subtask.id ? (
+            <TextInput
+              style={styles.editInput}
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              onBlur={handleCommitEdit}
+              onSubmitEditing={handleCommitEdit}
+              returnKeyType="done"
+              autoFocus
+            />
+          ) : (
+            <TouchableOpacity
+              style={styles.titleButton}
+              onPress={() => {
+                setEditingId(subtask.id);
+                setEditingTitle(subtask.title);
+              }}
+            >
+              <Text
+                style={[styles.title, subtask.isCompleted && styles.titleCompleted]}
+                numberOfLines={2}
+              >
+                {subtask.title}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {index > 0 && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleMoveUp(index)}>
+              <ChevronUp size={18} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(subtask.id)}>
+            <X size={18} color={Colors.textTertiary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <Plus size={18} color={Colors.primary} />
+        <TextInput
+          style={styles.addInput}
+          value={newTitle}
+          onChangeText={setNewTitle}
+          onSubmitEditing={handleAdd}
+          placeholder="Add a step..."
+          placeholderTextColor={Colors.textTertiary}
+          returnKeyType="done"
+          blurOnSubmit={false}
+        />
+        {newTitle.trim().length > 0 && (
+          <TouchableOpacity onPress={handleAdd}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+    gap: Spacing.sm,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 2,
+    borderColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxCompleted: {
+    backgroundColor: Colors.primary,
+  },
+  titleButton: {
+    flex: 1,
+  },
+  title: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  editInput: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    padding: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.primary,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingTop: Spacing.md,
+  },
+  addInput: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.text,
+    padding: 0,
+  },
+  addButtonText: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    fontWeight: '600' as const,
+  },
+});
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Hash, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { TagUsage, addTags, removeTags, suggestTags } from '@/lib/tags';
+
+interface TagEditorProps {
+  tags: string[];
+  allTags: TagUsage[];
+  onChange: (tags: string[]) => void;
+}
+
+export default function TagEditor({ tags, allTags, onChange }: TagEditorProps) {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const suggestions = isFocused ? suggestTags(allTags, query, tags) : [];
+
+  const handleAdd = (input: string) => {
+    const next = addTags(tags, [input]);
+    setQuery('');
+    if (next.length === tags.length) return;
+    Haptics.selectionAsync();
+    onChange(next);
+  };
+
+  const handleChangeText = (text: string) => {
+    // A comma finishes the tag being typed
+    if (text.includes(',')) {
+      const parts = text.split(',');
+      const next = addTags(tags, parts.slice(0, -1));
+      if (next.length !== tags.length) {
+        Haptics.selectionAsync();
+        onChange(next);
+      }
+      setQuery(parts[parts.length - 1]);
+      return;
+    }
+    setQuery(text);
+  };
+
+  const handleRemove = (tag: string) => {
+    Haptics.selectionAsync();
+    onChange(removeTags(tags, [tag]));
+  };
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {tags.map(tag => (
+          <View key={tag} style={styles.chip}>
+            <Text style={styles.chipText}>#{tag}</Text>
+            <TouchableOpacity onPress={() => handleRemove(tag)} hitSlop={8}>
+              <X size={12} color={Colors.primary} />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.inputRow}>
+        <Hash size={16} color={Colors.textTertiary} />
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={handleChangeText}
+          onSubmitEditing={() => handleAdd(query)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Add tag"
+          placeholderTextColor={Colors.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+          blurOnSubmit={false}
+        />
+      </View>
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(tag => (
+            <TouchableOpacity key={tag} style={styles.suggestion} onPress={() => handleAdd(tag)}>
+              <Text style={styles.suggestionText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: Colors.primaryMuted,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    ...Typography.caption1,
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  input: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+    paddingVertical: Spacing.xs,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  suggestion: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  suggestionText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+  },
+});
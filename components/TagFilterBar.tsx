@@ -0,0 +1,127 @@
+import React from 'react';
+import { Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Settings2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { TagUsage } from '@/lib/tags';
+
+interface TagFilterBarProps {
+  tags: TagUsage[];
+  selectedTags: string[];
+  onChange: (tags: string[]) => void;
+  onManage: () => void;
+}
+
+export default function TagFilterBar({ tags, selectedTags, onChange, onManage }: TagFilterBarProps) {
+  const handleToggle = (tag: string) => {
+    Haptics.selectionAsync();
+    onChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter(t => t !== tag)
+        : [...selectedTags, tag]
+    );
+  };
+
+  // Selected tags first so they stay visible while scrolling
+  const ordered = [
+    ...tags.filter(t => selectedTags.includes(t.tag)),
+    ...tags.filter(t => !selectedTags.includes(t.tag)),
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {selectedTags.length > 0 && (
+        <TouchableOpacity
+          style={styles.clearChip}
+          onPress={() => {
+            Haptics.selectionAsync();
+            onChange([]);
+          }}
+        >
+          <X size={12} color={Colors.textSecondary} />
+          <Text style={styles.clearText}>Clear</Text>
+        </TouchableOpacity>
+      )}
+
+      {ordered.map(({ tag, count }) => {
+        const isActive = selectedTags.includes(tag);
+        return (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.chip, isActive && styles.chipActive]}
+            onPress={() => handleToggle(tag)}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]} numberOfLines={1}>
+              #{tag}
+            </Text>
+            <Text style={[styles.count, isActive && styles.chipTextActive]}>{count}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity style={styles.manageChip} onPress={onManage}>
+        <Settings2 size={12} color={Colors.textTertiary} />
+        <Text style={styles.clearText}>Tags</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceSecondary,
+    maxWidth: 160,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  chipTextActive: {
+    color: Colors.textInverse,
+  },
+  count: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+  },
+  clearChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  manageChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+  },
+  clearText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import { TaskActivityService } from '@/lib/taskActivityService';
+import { describeActivity, getActivitySourceLabel, getListedChanges } from '@/lib/taskActivity';
+import { MergeableTaskField, formatFieldValue, getFieldLabel } from '@/lib/taskMerge';
+import { Task, TaskActivity, TaskFieldChange } from '@/types';
+
+interface TaskActivityTimelineProps {
+  task: Task;
+}
+
+function formatActivityTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function TaskActivityTimeline({ task }: TaskActivityTimelineProps) {
+  const { user } = useAuth();
+  const { categories, projects } = useApp();
+
+  // Keyed on updatedAt so the history refreshes whenever anyone changes the task
+  const activityQuery = useQuery({
+    queryKey: ['taskActivity', task.id, task.updatedAt],
+    queryFn: () => TaskActivityService.getTaskActivity(task.id),
+  });
+
+  const formatValue = (change: TaskFieldChange, value: unknown) => {
+    if (change.field === 'category' && typeof value === 'string') {
+      return categories.find(c => c.slug === value)?.name ?? value;
+    }
+    if (change.field === 'projectId' && typeof value === 'string') {
+      return projects.find(p => p.id === value)?.name ?? 'Another project';
+    }
+    return formatFieldValue(change.field as MergeableTaskField, value);
+  };
+
+  const renderEntry = (activity: TaskActivity, index: number, entries: TaskActivity[]) => {
+    const actor = activity.actorId && activity.actorId === user?.id ? 'You' : activity.actorName ?? 'Someone';
+    const sourceLabel = getActivitySourceLabel(activity.source);
+    const isLast = index === entries.length - 1;
+
+    return (
+      <View key={activity.id} style={styles.entry}>
+        <View style={styles.rail}>
+          <View style={styles.dot} />
+          {!isLast && <View style={styles.line} />}
+        </View>
+        <View style={styles.entryContent}>
+          <Text style={styles.summary}>{describeActivity(activity, actor)}</Text>
+          {getListedChanges(activity).map(change => (
+            <Text key={change.field} style={styles.change} numberOfLines={2}>
+              {getFieldLabel(change.field as MergeableTaskField)}: {formatValue(change, change.from)} → {formatValue(change, change.to)}
+            </Text>
+          ))}
+          <Text style={styles.meta}>
+            {formatActivityTime(activity.createdAt)}
+            {sourceLabel ? ` · ${sourceLabel}` : ''}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  if (activityQuery.isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} />;
+  }
+
+  const entries = activityQuery.data ?? [];
+  if (entries.length === 0) {
+    return <Text style={styles.emptyText}>No changes recorded yet</Text>;
+  }
+
+  return <View>{entries.map(renderEntry)}</View>;
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  rail: {
+    alignItems: 'center',
+    width: 10,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primaryLight,
+    marginTop: 5,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.borderLight,
+    marginTop: 2,
+  },
+  entryContent: {
+    flex: 1,
+    paddingBottom: Spacing.md,
+  },
+  summary: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  change: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  meta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+  },
+});
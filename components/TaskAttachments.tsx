@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useQuery } from '@tanstack/react-query';
+import { Image } from 'expo-image';
+import * as WebBrowser from 'expo-web-browser';
+import * as Haptics from 'expo-haptics';
+import { CloudOff, FileText, Paperclip, Trash2, X } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import { AttachmentService } from '@/lib/attachmentService';
+import { AttachmentSource, MAX_ATTACHMENT_BYTES, fitsInQuota, formatFileSize, pickAttachment } from '@/lib/attachments';
+import { SyncService } from '@/lib/syncService';
+import { Task, TaskAttachment } from '@/types';
+
+interface TaskAttachmentsProps {
+  task: Task;
+}
+
+const PLAN_LABELS = { free: 'Free', pro: 'Pro', max: 'Max' };
+
+export default function TaskAttachments({ task }: TaskAttachmentsProps) {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { addAttachment, deleteAttachment, getPendingAttachments } = useApp();
+  const [isAdding, setIsAdding] = useState(false);
+  const [preview, setPreview] = useState<TaskAttachment | null>(null);
+  const isOfflineTask = SyncService.isTemporaryId(task.id);
+
+  const attachmentsQuery = useQuery({
+    queryKey: ['taskAttachments', task.id],
+    queryFn: () => AttachmentService.getAttachments(task.id),
+    enabled: !isOfflineTask,
+  });
+
+  const quotaQuery = useQuery({
+    queryKey: ['attachmentQuota', user?.id],
+    queryFn: () => AttachmentService.getQuota(),
+    enabled: !!user?.id,
+  });
+
+  const attachments = useMemo(
+    () => [...(attachmentsQuery.data ?? []), ...getPendingAttachments(task.id)],
+    [attachmentsQuery.data, getPendingAttachments, task.id]
+  );
+  const quota = quotaQuery.data;
+
+  const handleAdd = async (source: AttachmentSource) => {
+    const file = await pickAttachment(source);
+    if (!file) return;
+
+    if (quota && !fitsInQuota(quota, file.sizeBytes)) {
+      Alert.alert('Storage Full', `This file doesn't fit in the ${formatFileSize(quota.quotaBytes)} included with your plan.`);
+      return;
+    }
+
+    setIsAdding(true);
+    const result = await addAttachment(task.id, file);
+    setIsAdding(false);
+
+    switch (result) {
+      case 'uploaded':
+      case 'queued':
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        break;
+      case 'too_large':
+        Alert.alert('File Too Large', `Attachments can be up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`);
+        break;
+      case 'quota_exceeded':
+        Alert.alert('Storage Full', 'Remove some attachments or upgrade your plan to add more.');
+        break;
+      case 'failed':
+        Alert.alert('Attachment Not Added', 'The file could not be added. Please try again.');
+        break;
+    }
+  };
+
+  const showAddOptions = () => {
+    Alert.alert('Add Attachment', undefined, [
+      { text: 'Take Photo', onPress: () => handleAdd('camera') },
+      { text: 'Choose Photo', onPress: () => handleAdd('library') },
+      { text: 'Choose File', onPress: () => handleAdd('document') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleOpen = (attachment: TaskAttachment) => {
+    if (attachment.kind === 'image') {
+      setPreview(attachment);
+    } else if (attachment.isPending) {
+      Alert.alert(attachment.name, 'This file can be opened once it has uploaded.');
+    } else {
+      WebBrowser.openBrowserAsync(attachment.uri);
+    }
+  };
+
+  // The uploader or the task's owner can remove an attachment
+  const canDelete = (attachment: TaskAttachment) =>
+    attachment.uploadedBy === user?.id || !task.ownerId || task.ownerId === user?.id;
+
+  const handleDelete = (attachment: TaskAttachment) => {
+    Alert.alert('Delete Attachment', `Delete "${attachment.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const deleted = await deleteAttachment(attachment);
+          if (!deleted) {
+            Alert.alert('Delete Failed', 'The attachment could not be deleted. Please try again.');
+            return;
+          }
+          setPreview(null);
+        },
+      },
+    ]);
+  };
+
+  const renderThumbnail = (attachment: TaskAttachment) => (
+    <TouchableOpacity
+      key={attachment.id}
+      style={styles.thumbnail}
+      onPress={() => handleOpen(attachment)}
+      onLongPress={canDelete(attachment) ? () => handleDelete(attachment) : undefined}
+    >
+      {attachment.kind === 'image' ? (
+        <Image source={{ uri: attachment.uri }} style={styles.thumbnailImage} contentFit="cover" />
+      ) : (
+        <View style={styles.documentThumbnail}>
+          <FileText size={22} color={Colors.textSecondary} />
+          <Text style={styles.documentName} numberOfLines={2}>{attachment.name}</Text>
+        </View>
+      )}
+      {attachment.isPending && (
+        <View style={styles.pendingBadge}>
+          <CloudOff size={10} color={Colors.textInverse} />
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {attachmentsQuery.isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : (
+        <View style={styles.grid}>
+          {attachments.map(renderThumbnail)}
+          <TouchableOpacity style={[styles.thumbnail, styles.addTile]} onPress={showAddOptions} disabled={isAdding}>
+            {isAdding ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <Paperclip size={22} color={Colors.primary} />
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {quota && (
+        <Text style={styles.quotaText}>
+          {formatFileSize(quota.usedBytes)} of {formatFileSize(quota.quotaBytes)} used · {PLAN_LABELS[quota.plan]} plan
+        </Text>
+      )}
+
+      <Modal visible={!!preview} animationType="fade" onRequestClose={() => setPreview(null)}>
+        <View style={styles.previewContainer}>
+          <View style={[styles.previewHeader, { paddingTop: insets.top + Spacing.sm }]}>
+            <TouchableOpacity onPress={() => setPreview(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={24} color={Colors.textInverse} />
+            </TouchableOpacity>
+            <Text style={styles.previewTitle} numberOfLines={1}>{preview?.name}</Text>
+            {preview && canDelete(preview) ? (
+              <TouchableOpacity onPress={() => handleDelete(preview)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Trash2 size={22} color={Colors.textInverse} />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.previewHeaderSpacer} />
+            )}
+          </View>
+          {preview && (
+            <Image source={{ uri: preview.uri }} style={styles.previewImage} contentFit="contain" />
+          )}
+          {preview && (
+            <Text style={[styles.previewMeta, { paddingBottom: insets.bottom + Spacing.md }]}>
+              {formatFileSize(preview.sizeBytes)}
+              {preview.isPending ? ' · Waiting to upload' : ''}
+            </Text>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const THUMBNAIL_SIZE = 72;
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+    backgroundColor: Colors.surfaceSecondary,
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  documentThumbnail: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xs,
+    gap: 2,
+  },
+  documentName: {
+    ...Typography.caption2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  pendingBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 18,
+    height: 18,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.overlay,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addTile: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primaryLight,
+    backgroundColor: Colors.primaryMuted,
+  },
+  quotaText: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: Spacing.sm,
+  },
+  previewContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  previewTitle: {
+    ...Typography.headline,
+    color: Colors.textInverse,
+    flex: 1,
+    textAlign: 'center',
+  },
+  previewHeaderSpacer: {
+    width: 22,
+  },
+  previewImage: {
+    flex: 1,
+  },
+  previewMeta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    textAlign: 'center',
+    paddingTop: Spacing.md,
+  },
+});
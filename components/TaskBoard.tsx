@@ -0,0 +1,509 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+  useWindowDimensions,
+} from 'react-native';
+import { ChevronDown, ChevronRight, Clock, Flag, Gauge, Lock } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { Task, TaskBlocker } from '@/types';
+import { BoardColumn } from '@/lib/board';
+import { parseLocalDate } from '@/lib/dateUtils';
+
+interface TaskBoardProps {
+  columns: BoardColumn[];
+  collapsedColumns: string[];
+  wipLimits: Record<string, number>;
+  openBlockersByTaskId: Map<string, TaskBlocker[]>;
+  onMoveTask: (task: Task, column: BoardColumn) => void;
+  onPressTask: (taskId: string) => void;
+  onToggleCollapse: (columnKey: string) => void;
+  onSetWipLimit: (columnKey: string, limit: number | null) => void;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MIN_COLUMN_WIDTH = 260;
+const MAX_COLUMN_WIDTH = 360;
+const COLLAPSED_COLUMN_WIDTH = 120;
+
+const priorityColors = {
+  high: Colors.priority.high,
+  medium: Colors.priority.medium,
+  low: Colors.priority.low,
+  none: Colors.priority.none,
+};
+
+function BoardCard({
+  task,
+  blockers,
+  isDragging,
+  onPress,
+  onLongPress,
+  onPressOut,
+}: {
+  task: Task;
+  blockers?: TaskBlocker[];
+  isDragging?: boolean;
+  onPress?: () => void;
+  onLongPress?: (event: GestureResponderEvent) => void;
+  onPressOut?: () => void;
+}) {
+  const isCompleted = task.status === 'completed';
+  const isBlocked = !isCompleted && !!blockers && blockers.length > 0;
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, isBlocked && styles.cardBlocked, isDragging && styles.cardPlaceholder]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      onPressOut={onPressOut}
+      delayLongPress={250}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.cardTitle, isCompleted && styles.cardTitleCompleted]} numberOfLines={2}>
+        {task.title}
+      </Text>
+      <View style={styles.cardMeta}>
+        {task.dueDate && (
+          <View style={styles.metaItem}>
+            <Clock size={12} color={task.status === 'overdue' ? Colors.error : Colors.textTertiary} />
+            <Text style={[styles.metaText, task.status === 'overdue' && styles.metaTextOverdue]}>
+              {parseLocalDate(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </Text>
+          </View>
+        )}
+        {task.priority !== 'none' && (
+          <View style={styles.metaItem}>
+            <Flag size={12} color={priorityColors[task.priority]} />
+            <Text style={[styles.metaText, { color: priorityColors[task.priority] }]}>{task.priority}</Text>
+          </View>
+        )}
+        {isBlocked && (
+          <View style={styles.metaItem}>
+            <Lock size={12} color={Colors.textTertiary} />
+            <Text style={styles.metaText} numberOfLines={1}>Blocked</Text>
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+export default function TaskBoard({
+  columns,
+  collapsedColumns,
+  wipLimits,
+  openBlockersByTaskId,
+  onMoveTask,
+  onPressTask,
+  onToggleCollapse,
+  onSetWipLimit,
+}: TaskBoardProps) {
+  const { width } = useWindowDimensions();
+  const [dragging, setDragging] = useState<{ task: Task; fromKey: string } | null>(null);
+  const [hoverKey, setHoverKey] = useState<string | null>(null);
+  const [editingLimitKey, setEditingLimitKey] = useState<string | null>(null);
+  const [limitInput, setLimitInput] = useState('');
+
+  const containerRef = useRef<View>(null);
+  const columnRefs = useRef(new Map<string, View | null>());
+  const columnRects = useRef(new Map<string, Rect>());
+  const containerOffset = useRef({ x: 0, y: 0 });
+  const dragPosition = useRef(new Animated.ValueXY()).current;
+  const draggingRef = useRef<{ task: Task; fromKey: string } | null>(null);
+  const isGranted = useRef(false);
+  const hoverRef = useRef<string | null>(null);
+
+  // Handlers read the latest props through a ref, since the responder is created once
+  const latest = useRef({ columns, onMoveTask });
+  latest.current = { columns, onMoveTask };
+
+  const collapsed = new Set(collapsedColumns);
+  const expandedCount = columns.filter(c => !collapsed.has(c.key)).length;
+  const collapsedWidth = (columns.length - expandedCount) * (COLLAPSED_COLUMN_WIDTH + Spacing.md);
+  // Fill wide screens (web, tablets) instead of leaving the space empty
+  const columnWidth = Math.min(
+    MAX_COLUMN_WIDTH,
+    Math.max(
+      MIN_COLUMN_WIDTH,
+      (width - Spacing.lg * 2 - collapsedWidth - Spacing.md * Math.max(expandedCount - 1, 0)) / Math.max(expandedCount, 1)
+    )
+  );
+
+  const columnAt = (pageX: number, pageY: number) => {
+    for (const [key, rect] of columnRects.current) {
+      if (pageX >= rect.x && pageX <= rect.x + rect.width && pageY >= rect.y && pageY <= rect.y + rect.height) {
+        return key;
+      }
+    }
+    return null;
+  };
+
+  const moveCardTo = (pageX: number, pageY: number) => {
+    dragPosition.setValue({
+      x: pageX - containerOffset.current.x - columnWidth / 2,
+      y: pageY - containerOffset.current.y - 30,
+    });
+    const key = columnAt(pageX, pageY);
+    if (key !== hoverRef.current) {
+      hoverRef.current = key;
+      setHoverKey(key);
+    }
+  };
+
+  const endDrag = (pageX?: number, pageY?: number) => {
+    const current = draggingRef.current;
+    draggingRef.current = null;
+    isGranted.current = false;
+    hoverRef.current = null;
+    setDragging(null);
+    setHoverKey(null);
+    if (!current || pageX === undefined || pageY === undefined) return;
+
+    const targetKey = columnAt(pageX, pageY);
+    const target = latest.current.columns.find(c => c.key === targetKey);
+    if (!target || target.key === current.fromKey) return;
+    if (!target.updates) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    latest.current.onMoveTask(current.task, target);
+  };
+
+  const dragHandlers = useRef({ moveCardTo, endDrag });
+  dragHandlers.current = { moveCardTo, endDrag };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponderCapture: () => draggingRef.current !== null,
+        onPanResponderGrant: () => {
+          isGranted.current = true;
+        },
+        onPanResponderMove: (event) =>
+          dragHandlers.current.moveCardTo(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderRelease: (event) =>
+          dragHandlers.current.endDrag(event.nativeEvent.pageX, event.nativeEvent.pageY),
+        onPanResponderTerminate: () => dragHandlers.current.endDrag(),
+      }),
+    []
+  );
+
+  const startDrag = (task: Task, fromKey: string, event: GestureResponderEvent) => {
+    const { pageX, pageY } = event.nativeEvent;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    containerRef.current?.measureInWindow((x, y) => {
+      containerOffset.current = { x, y };
+      moveCardTo(pageX, pageY);
+    });
+    columnRects.current.clear();
+    columnRefs.current.forEach((ref, key) => {
+      ref?.measureInWindow((x, y, w, h) => columnRects.current.set(key, { x, y, width: w, height: h }));
+    });
+
+    draggingRef.current = { task, fromKey };
+    setDragging({ task, fromKey });
+  };
+
+  // Released after the long press without moving: the responder was never granted
+  const handleCardPressOut = () => {
+    setTimeout(() => {
+      if (draggingRef.current && !isGranted.current) endDrag();
+    }, 0);
+  };
+
+  const handleSaveLimit = (columnKey: string) => {
+    const limit = parseInt(limitInput, 10);
+    onSetWipLimit(columnKey, Number.isFinite(limit) && limit > 0 ? limit : null);
+    setEditingLimitKey(null);
+    setLimitInput('');
+  };
+
+  return (
+    <View ref={containerRef} style={styles.container} {...panResponder.panHandlers}>
+      <ScrollView
+        horizontal
+        scrollEnabled={!dragging}
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.columns}
+      >
+        {columns.map(column => {
+          const isCollapsed = collapsed.has(column.key);
+          const limit = wipLimits[column.key];
+          const isOverLimit = limit !== undefined && column.tasks.length > limit;
+          const isDropTarget = dragging && hoverKey === column.key && column.key !== dragging.fromKey;
+
+          return (
+            <View
+              key={column.key}
+              ref={ref => {
+                columnRefs.current.set(column.key, ref);
+              }}
+              style={[
+                styles.column,
+                { width: isCollapsed ? COLLAPSED_COLUMN_WIDTH : columnWidth },
+                isDropTarget && (column.updates ? styles.columnDropTarget : styles.columnDropBlocked),
+              ]}
+            >
+              <View style={styles.columnHeader}>
+                <TouchableOpacity
+                  style={styles.columnTitleButton}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    onToggleCollapse(column.key);
+                  }}
+                >
+                  {isCollapsed ? (
+                    <ChevronRight size={16} color={Colors.textTertiary} />
+                  ) : (
+                    <ChevronDown size={16} color={Colors.textTertiary} />
+                  )}
+                  <View style={[styles.columnDot, { backgroundColor: column.color }]} />
+                  <Text style={styles.columnTitle} numberOfLines={isCollapsed ? 2 : 1}>
+                    {column.title}
+                  </Text>
+                </TouchableOpacity>
+                <View style={[styles.countBadge, isOverLimit && styles.countBadgeOver]}>
+                  <Text style={[styles.countText, isOverLimit && styles.countTextOver]}>
+                    {limit !== undefined ? `${column.tasks.length}/${limit}` : column.tasks.length}
+                  </Text>
+                </View>
+                {!isCollapsed && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => {
+                      setEditingLimitKey(editingLimitKey === column.key ? null : column.key);
+                      setLimitInput(limit !== undefined ? String(limit) : '');
+                    }}
+                  >
+                    <Gauge size={16} color={Colors.textTertiary} />
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {editingLimitKey === column.key && !isCollapsed && (
+                <View style={styles.limitRow}>
+                  <TextInput
+                    style={styles.limitInput}
+                    value={limitInput}
+                    onChangeText={setLimitInput}
+                    onSubmitEditing={() => handleSaveLimit(column.key)}
+                    placeholder="WIP limit (blank for none)"
+                    placeholderTextColor={Colors.textTertiary}
+                    keyboardType="number-pad"
+                    returnKeyType="done"
+                    autoFocus
+                  />
+                  <TouchableOpacity onPress={() => handleSaveLimit(column.key)}>
+                    <Text style={styles.limitSave}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {!isCollapsed && (
+                <ScrollView
+                  style={styles.columnContent}
+                  scrollEnabled={!dragging}
+                  showsVerticalScrollIndicator={false}
+                >
+                  {column.tasks.map(task => (
+                    <BoardCard
+                      key={task.id}
+                      task={task}
+                      blockers={openBlockersByTaskId.get(task.id)}
+                      isDragging={dragging?.task.id === task.id}
+                      onPress={() => onPressTask(task.id)}
+                      onLongPress={event => startDrag(task, column.key, event)}
+                      onPressOut={handleCardPressOut}
+                    />
+                  ))}
+                  {column.tasks.length === 0 && (
+                    <Text style={styles.emptyText}>
+                      {column.updates ? 'Drop tasks here' : 'No tasks'}
+                    </Text>
+                  )}
+                </ScrollView>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {dragging && (
+        <Animated.View
+          pointerEvents="none"
+          style={[
+            styles.dragOverlay,
+            { width: columnWidth - Spacing.md * 2, transform: dragPosition.getTranslateTransform() },
+          ]}
+        >
+          <BoardCard task={dragging.task} blockers={openBlockersByTaskId.get(dragging.task.id)} />
+        </Animated.View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  columns: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+    alignItems: 'flex-start',
+  },
+  column: {
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    maxHeight: '100%',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  columnDropTarget: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryMuted,
+  },
+  columnDropBlocked: {
+    borderColor: Colors.error,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  columnTitleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  columnDot: {
+    width: 8,
+    height: 8,
+    borderRadius: BorderRadius.full,
+  },
+  columnTitle: {
+    ...Typography.headline,
+    color: Colors.text,
+    flexShrink: 1,
+  },
+  countBadge: {
+    backgroundColor: Colors.surface,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+  countBadgeOver: {
+    backgroundColor: Colors.errorMuted,
+  },
+  countText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    fontWeight: '600' as const,
+  },
+  countTextOver: {
+    color: Colors.error,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  limitInput: {
+    ...Typography.subhead,
+    flex: 1,
+    color: Colors.text,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  limitSave: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    fontWeight: '600' as const,
+  },
+  columnContent: {
+    flexGrow: 0,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 1,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  cardBlocked: {
+    opacity: 0.6,
+  },
+  cardPlaceholder: {
+    opacity: 0.3,
+  },
+  cardTitle: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '500' as const,
+  },
+  cardTitleCompleted: {
+    textDecorationLine: 'line-through',
+    color: Colors.textTertiary,
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+  },
+  metaTextOverdue: {
+    color: Colors.error,
+  },
+  emptyText: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  dragOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    opacity: 0.95,
+  },
+});
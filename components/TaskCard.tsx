@@ -6,16 +6,26 @@ import {
   TouchableOpacity,
   Animated,
 } from 'react-native';
-import { Check, Clock, Flag, ChevronRight } from 'lucide-react-native';
+import { Check, Clock, Flag, ChevronRight, CloudOff, Lock, MessageCircle } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import { Typography, Spacing, BorderRadius } from '@/constants/typography';
-import { Task } from '@/types';
+import { Task, TaskBlocker, TimeEntry } from '@/types';
+import TaskTimer from './TaskTimer';
 
 interface TaskCardProps {
   task: Task;
   onPress: () => void;
   onToggleComplete: () => void;
+  isPendingSync?: boolean;
+  // Open blockers; the card is greyed out while there are any
+  blockers?: TaskBlocker[];
+  // The task's time entries; the timer control shows when onStartTimer is set
+  timeEntries?: TimeEntry[];
+  onStartTimer?: () => void;
+  onStopTimer?: () => void;
+  // Comments from others the user hasn't read yet
+  unreadComments?: number;
 }
 
 const priorityColors = {
@@ -25,7 +35,17 @@ const priorityColors = {
   none: Colors.priority.none,
 };
 
-export default function TaskCard({ task, onPress, onToggleComplete }: TaskCardProps) {
+export default function TaskCard({
+  task,
+  onPress,
+  onToggleComplete,
+  isPendingSync,
+  blockers,
+  timeEntries,
+  onStartTimer,
+  onStopTimer,
+  unreadComments,
+}: TaskCardProps) {
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const checkAnim = useRef(new Animated.Value(task.status === 'completed' ? 1 : 0)).current;
 
@@ -64,11 +84,15 @@ export default function TaskCard({ task, onPress, onToggleComplete }: TaskCardPr
 
   const isOverdue = task.status === 'overdue';
   const isCompleted = task.status === 'completed';
+  const isBlocked = !isCompleted && !!blockers && blockers.length > 0;
+  const subtaskCount = task.subtasks?.length ?? 0;
+  const completedSubtaskCount = task.subtasks?.filter(s => s.isCompleted).length ?? 0;
+  const hasTrackedTime = !!timeEntries && timeEntries.length > 0;
 
   return (
     <Animated.View style={[styles.container, { transform: [{ scale: scaleAnim }] }]}>
       <TouchableOpacity
-        style={styles.card}
+        style={[styles.card, isBlocked && styles.cardBlocked]}
         onPress={onPress}
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
@@ -126,12 +150,56 @@ export default function TaskCard({ task, onPress, onToggleComplete }: TaskCardPr
               </View>
             )}
 
+            {onStartTimer && onStopTimer && (!isCompleted || hasTrackedTime) && (
+              <TaskTimer entries={timeEntries ?? []} onStart={onStartTimer} onStop={onStopTimer} />
+            )}
+
             {isOverdue && (
               <View style={[styles.badge, styles.badgeOverdue]}>
                 <Text style={styles.badgeText}>Overdue</Text>
               </View>
             )}
+
+            {!!unreadComments && unreadComments > 0 && (
+              <View style={[styles.badge, styles.badgeComments]}>
+                <MessageCircle size={10} color={Colors.info} />
+                <Text style={[styles.badgeText, styles.badgeCommentsText]}>{unreadComments}</Text>
+              </View>
+            )}
+
+            {isPendingSync && (
+              <View style={[styles.badge, styles.badgePending]}>
+                <CloudOff size={10} color={Colors.textSecondary} />
+                <Text style={[styles.badgeText, styles.badgePendingText]}>Pending sync</Text>
+              </View>
+            )}
           </View>
+
+          {isBlocked && (
+            <View style={styles.blockedRow}>
+              <Lock size={12} color={Colors.textTertiary} />
+              <Text style={styles.blockedText} numberOfLines={1}>
+                Blocked by {blockers[0].title}
+                {blockers.length > 1 ? ` +${blockers.length - 1} more` : ''}
+              </Text>
+            </View>
+          )}
+
+          {subtaskCount > 0 && (
+            <View style={styles.progressRow}>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${(completedSubtaskCount / subtaskCount) * 100}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.progressText}>
+                {completedSubtaskCount}/{subtaskCount}
+              </Text>
+            </View>
+          )}
         </View>
 
         <ChevronRight size={20} color={Colors.textTertiary} />
@@ -156,6 +224,9 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  cardBlocked: {
+    opacity: 0.6,
+  },
   checkbox: {
     width: 24,
     height: 24,
@@ -213,9 +284,61 @@ const styles = StyleSheet.create({
   badgeOverdue: {
     backgroundColor: Colors.error + '20',
   },
+  badgePending: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: Colors.borderLight,
+  },
+  badgePendingText: {
+    color: Colors.textSecondary,
+  },
+  badgeComments: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: Colors.infoMuted,
+  },
+  badgeCommentsText: {
+    color: Colors.info,
+  },
   badgeText: {
     ...Typography.caption2,
     color: Colors.error,
     fontWeight: '600' as const,
   },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  blockedText: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    flex: 1,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.borderLight,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+  },
+  progressText: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    fontWeight: '600' as const,
+  },
 });
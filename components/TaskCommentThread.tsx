@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { Send, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import { CommentService } from '@/lib/commentService';
+import { MAX_COMMENT_LENGTH, groupCommentThreads, splitMentions } from '@/lib/comments';
+import { Task, TaskComment } from '@/types';
+
+interface TaskCommentThreadProps {
+  task: Task;
+}
+
+function formatCommentTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function TaskCommentThread({ task }: TaskCommentThreadProps) {
+  const { user } = useAuth();
+  const { addComment, deleteComment, markCommentsRead } = useApp();
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const commentsQuery = useQuery({
+    queryKey: ['taskComments', task.id],
+    queryFn: () => CommentService.getComments(task.id),
+  });
+
+  const comments = useMemo(() => commentsQuery.data ?? [], [commentsQuery.data]);
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+
+  // Everything on screen counts as read, including comments that arrive while it's open
+  useEffect(() => {
+    if (commentsQuery.data) markCommentsRead(task.id);
+  }, [commentsQuery.data, task.id, markCommentsRead]);
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content || isSending) return;
+
+    setIsSending(true);
+    const comment = await addComment(task.id, content, replyTo?.id);
+    setIsSending(false);
+
+    if (!comment) {
+      Alert.alert('Comment Not Sent', 'Your comment could not be posted. Please try again.');
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft('');
+    setReplyTo(null);
+  };
+
+  const handleDelete = (comment: TaskComment) => {
+    Alert.alert('Delete Comment', 'Delete this comment and its replies?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteComment(comment) },
+    ]);
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const isOwn = comment.authorId === user?.id;
+    return (
+      <View key={comment.id} style={[styles.comment, isReply && styles.reply]}>
+        <View style={styles.commentHeader}>
+          <Text style={styles.author}>{isOwn ? 'You' : comment.authorName ?? 'Someone'}</Text>
+          <Text style={styles.meta}>{formatCommentTime(comment.createdAt)}</Text>
+          {isOwn && (
+            <TouchableOpacity
+              onPress={() => handleDelete(comment)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              style={styles.deleteButton}
+            >
+              <Trash2 size={14} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <Text style={styles.content}>
+          {splitMentions(comment.content).map((segment, index) => (
+            <Text key={index} style={segment.isMention ? styles.mention : undefined}>
+              {segment.text}
+            </Text>
+          ))}
+        </Text>
+        {!isReply && (
+          <TouchableOpacity onPress={() => setReplyTo(comment)}>
+            <Text style={styles.replyAction}>Reply</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {commentsQuery.isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : threads.length === 0 ? (
+        <Text style={styles.emptyText}>No comments yet</Text>
+      ) : (
+        threads.map(thread => (
+          <View key={thread.comment.id} style={styles.thread}>
+            {renderComment(thread.comment, false)}
+            {thread.replies.map(reply => renderComment(reply, true))}
+          </View>
+        ))
+      )}
+
+      {replyTo && (
+        <View style={styles.replyBanner}>
+          <Text style={styles.replyBannerText} numberOfLines={1}>
+            Replying to {replyTo.authorId === user?.id ? 'yourself' : replyTo.authorName ?? 'comment'}
+          </Text>
+          <TouchableOpacity onPress={() => setReplyTo(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <X size={14} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Add a comment, @mention a friend"
+          placeholderTextColor={Colors.textTertiary}
+          maxLength={MAX_COMMENT_LENGTH}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || isSending) && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={!draft.trim() || isSending}
+        >
+          <Send size={16} color={Colors.textInverse} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  thread: {
+    marginBottom: Spacing.md,
+  },
+  comment: {
+    paddingVertical: Spacing.xs,
+  },
+  reply: {
+    marginLeft: Spacing.lg,
+    paddingLeft: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.borderLight,
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  author: {
+    ...Typography.subhead,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  meta: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+  },
+  deleteButton: {
+    marginLeft: 'auto',
+  },
+  content: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  mention: {
+    color: Colors.primaryDark,
+    fontWeight: '600',
+  },
+  replyAction: {
+    ...Typography.caption1,
+    color: Colors.primary,
+    fontWeight: '600',
+    marginTop: Spacing.xs,
+  },
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+    marginBottom: Spacing.md,
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.primaryMuted,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  replyBannerText: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    flex: 1,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: Spacing.sm,
+  },
+  input: {
+    ...Typography.subhead,
+    flex: 1,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
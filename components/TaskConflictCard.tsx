@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { GitMerge } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import Button from '@/components/Button';
+import {
+  ConflictChoice,
+  MergeableTaskField,
+  TaskConflict,
+  formatFieldValue,
+  getFieldLabel,
+} from '@/lib/taskMerge';
+
+interface TaskConflictCardProps {
+  conflict: TaskConflict;
+  onResolve: (choices: Partial<Record<MergeableTaskField, ConflictChoice>>) => void;
+}
+
+export default function TaskConflictCard({ conflict, onResolve }: TaskConflictCardProps) {
+  // Default to the saved version so nothing is overwritten unless the user asks for it
+  const [choices, setChoices] = useState<Partial<Record<MergeableTaskField, ConflictChoice>>>({});
+
+  const choose = (field: MergeableTaskField, choice: ConflictChoice) => {
+    Haptics.selectionAsync();
+    setChoices(prev => ({ ...prev, [field]: choice }));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <GitMerge size={18} color={Colors.warning} />
+        <Text style={styles.title}>Edited somewhere else</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        This task changed while you were editing it. Your other changes were merged; pick which
+        version to keep for these fields.
+      </Text>
+
+      {conflict.conflicts.map(item => {
+        const choice = choices[item.field] ?? 'remote';
+        return (
+          <View key={item.field} style={styles.field}>
+            <Text style={styles.fieldLabel}>{getFieldLabel(item.field)}</Text>
+            <View style={styles.options}>
+              <TouchableOpacity
+                style={[styles.option, choice === 'local' && styles.optionSelected]}
+                onPress={() => choose(item.field, 'local')}
+              >
+                <Text style={styles.optionLabel}>Yours</Text>
+                <Text style={styles.optionValue} numberOfLines={3}>
+                  {formatFieldValue(item.field, item.local)}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.option, choice === 'remote' && styles.optionSelected]}
+                onPress={() => choose(item.field, 'remote')}
+              >
+                <Text style={styles.optionLabel}>Theirs</Text>
+                <Text style={styles.optionValue} numberOfLines={3}>
+                  {formatFieldValue(item.field, item.remote)}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <Button
+        title="Keep Selected"
+        size="small"
+        onPress={() => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          onResolve(choices);
+        }}
+        style={styles.button}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.warningMuted,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    ...Typography.headline,
+    color: Colors.text,
+  },
+  subtitle: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  field: {
+    marginBottom: Spacing.md,
+  },
+  fieldLabel: {
+    ...Typography.footnote,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  option: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: Spacing.sm,
+  },
+  optionSelected: {
+    borderColor: Colors.primary,
+  },
+  optionLabel: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    fontWeight: '600' as const,
+    marginBottom: 2,
+  },
+  optionValue: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  button: {
+    marginTop: Spacing.xs,
+  },
+});
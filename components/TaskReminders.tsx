@@ -0,0 +1,338 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Bell, Plus, Trash2 } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import { ReminderService } from '@/lib/reminderService';
+import { REMINDER_OFFSET_PRESETS, formatReminderOffset, getReminderOffset, getReminderTime } from '@/lib/reminders';
+import { combineLocalDateTime, getTodayDateString, toLocalDateString, toLocalTimeString } from '@/lib/dateUtils';
+import Button from './Button';
+import DateTimePicker, { formatTime12Hour } from './DateTimePicker';
+import { Task, TaskReminder } from '@/types';
+
+interface TaskRemindersProps {
+  task: Task;
+}
+
+type ReminderMode = 'relative' | 'absolute';
+
+// A reminder being added, or edited when `reminder` is set
+interface ReminderDraft {
+  reminder?: TaskReminder;
+  mode: ReminderMode;
+  offset: number;
+  date?: string;
+  time?: string;
+}
+
+function formatReminderTime(remindAt: string): string {
+  const date = new Date(remindAt);
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${day}, ${formatTime12Hour(toLocalTimeString(date))}`;
+}
+
+export default function TaskReminders({ task }: TaskRemindersProps) {
+  const { user } = useAuth();
+  const { addReminder, updateReminder, deleteReminder, defaultReminderOffsets } = useApp();
+  const [draft, setDraft] = useState<ReminderDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const remindersQuery = useQuery({
+    queryKey: ['taskReminders', task.id],
+    queryFn: () => ReminderService.getTaskReminders(user!.id, task.id),
+    enabled: !!user?.id,
+  });
+
+  const reminders = remindersQuery.data ?? [];
+  const hasDueDate = !!task.dueDate;
+  const now = Date.now();
+
+  const startAdding = () => {
+    Haptics.selectionAsync();
+    const offset = defaultReminderOffsets.find(o => !reminders.some(r => getReminderOffset(task, r.remindAt) === o)) ?? 15;
+    setDraft({
+      mode: hasDueDate ? 'relative' : 'absolute',
+      offset,
+      date: task.dueDate ?? getTodayDateString(),
+      time: task.dueTime ?? '09:00',
+    });
+  };
+
+  const startEditing = (reminder: TaskReminder) => {
+    Haptics.selectionAsync();
+    const remindAt = new Date(reminder.remindAt);
+    const offset = getReminderOffset(task, reminder.remindAt);
+    setDraft({
+      reminder,
+      mode: reminder.isRelative && offset !== null ? 'relative' : 'absolute',
+      offset: offset ?? 0,
+      date: toLocalDateString(remindAt),
+      time: toLocalTimeString(remindAt),
+    });
+  };
+
+  const draftTime = (() => {
+    if (!draft) return null;
+    if (draft.mode === 'relative') return getReminderTime(task, draft.offset);
+    return draft.date ? combineLocalDateTime(draft.date, draft.time ?? '09:00') : null;
+  })();
+
+  const handleSave = async () => {
+    if (!draft || !draftTime) return;
+    if (draftTime.getTime() <= Date.now()) {
+      Alert.alert('Time Has Passed', 'Pick a reminder time in the future.');
+      return;
+    }
+
+    setIsSaving(true);
+    const isRelative = draft.mode === 'relative';
+    const saved = draft.reminder
+      ? await updateReminder(draft.reminder, draftTime.toISOString(), isRelative)
+      : await addReminder(task.id, draftTime.toISOString(), isRelative);
+    setIsSaving(false);
+
+    if (saved) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+    } else {
+      Alert.alert('Reminder Not Saved', 'The reminder could not be saved. Please try again.');
+    }
+  };
+
+  const handleDelete = (reminder: TaskReminder) => {
+    Haptics.selectionAsync();
+    if (draft?.reminder?.id === reminder.id) setDraft(null);
+    deleteReminder(reminder);
+  };
+
+  const describe = (reminder: TaskReminder) => {
+    const offset = getReminderOffset(task, reminder.remindAt);
+    return reminder.isRelative && offset !== null
+      ? { title: formatReminderOffset(offset), detail: formatReminderTime(reminder.remindAt) }
+      : { title: formatReminderTime(reminder.remindAt), detail: 'Fixed time' };
+  };
+
+  if (remindersQuery.isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} />;
+  }
+
+  return (
+    <View>
+      {reminders.length === 0 && !draft && (
+        <Text style={styles.emptyText}>
+          {hasDueDate ? 'No reminders for this task.' : 'Add a due date to be reminded before it, or pick a time.'}
+        </Text>
+      )}
+
+      {reminders.map(reminder => {
+        const { title, detail } = describe(reminder);
+        const isPast = new Date(reminder.remindAt).getTime() <= now;
+        return (
+          <TouchableOpacity
+            key={reminder.id}
+            style={[styles.row, draft?.reminder?.id === reminder.id && styles.rowEditing]}
+            onPress={() => startEditing(reminder)}
+          >
+            <Bell size={16} color={isPast ? Colors.textTertiary : Colors.primary} />
+            <View style={styles.rowInfo}>
+              <Text style={[styles.rowTitle, isPast && styles.rowTitlePast]}>{title}</Text>
+              <Text style={styles.rowDetail}>{isPast ? `${detail} · Passed` : detail}</Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDelete(reminder)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Trash2 size={16} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        );
+      })}
+
+      {draft ? (
+        <View style={styles.editor}>
+          <View style={styles.modeToggle}>
+            {(['relative', 'absolute'] as ReminderMode[]).map(mode => {
+              const isSelected = draft.mode === mode;
+              const disabled = mode === 'relative' && !hasDueDate;
+              return (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.modeOption, isSelected && styles.modeOptionSelected]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setDraft({ ...draft, mode });
+                  }}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.modeText, isSelected && styles.modeTextSelected, disabled && styles.modeTextDisabled]}>
+                    {mode === 'relative' ? 'Before due' : 'At a time'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {draft.mode === 'relative' ? (
+            <View style={styles.chips}>
+              {REMINDER_OFFSET_PRESETS.map(offset => {
+                const isSelected = draft.offset === offset;
+                return (
+                  <TouchableOpacity
+                    key={offset}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setDraft({ ...draft, offset });
+                    }}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {formatReminderOffset(offset)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : (
+            <DateTimePicker
+              date={draft.date}
+              time={draft.time}
+              onChangeDate={date => setDraft({ ...draft, date })}
+              onChangeTime={time => setDraft({ ...draft, time })}
+            />
+          )}
+
+          {draftTime && <Text style={styles.preview}>Reminds you {formatReminderTime(draftTime.toISOString())}</Text>}
+
+          <View style={styles.editorActions}>
+            <Button title="Cancel" variant="outline" onPress={() => setDraft(null)} style={styles.editorButton} />
+            <Button
+              title={draft.reminder ? 'Save' : 'Add Reminder'}
+              onPress={handleSave}
+              disabled={!draftTime}
+              loading={isSaving}
+              style={styles.editorButton}
+            />
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={startAdding}>
+          <Plus size={16} color={Colors.primary} />
+          <Text style={styles.addText}>Add reminder</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    ...Typography.subhead,
+    color: Colors.textTertiary,
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowEditing: {
+    backgroundColor: Colors.primaryMuted,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '500' as const,
+  },
+  rowTitlePast: {
+    color: Colors.textTertiary,
+  },
+  rowDetail: {
+    ...Typography.caption1,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  editor: {
+    marginTop: Spacing.md,
+    gap: Spacing.md,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.md,
+    padding: 2,
+  },
+  modeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  modeOptionSelected: {
+    backgroundColor: Colors.surface,
+  },
+  modeText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  modeTextSelected: {
+    color: Colors.primary,
+  },
+  modeTextDisabled: {
+    color: Colors.textTertiary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary + '15',
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+    fontWeight: '500' as const,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+  },
+  preview: {
+    ...Typography.footnote,
+    color: Colors.textSecondary,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  editorButton: {
+    flex: 1,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  addText: {
+    ...Typography.subhead,
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+});
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Play, Square } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { TimeEntry } from '@/types';
+import { formatDuration, formatTimer, getActiveEntry, getTrackedSeconds } from '@/lib/timeTracking';
+
+interface TaskTimerProps {
+  // The task's entries
+  entries: TimeEntry[];
+  onStart: () => void;
+  onStop: () => void;
+  size?: 'small' | 'large';
+}
+
+/**
+ * Start/stop button showing the task's tracked time, ticking while its timer runs
+ */
+export default function TaskTimer({ entries, onStart, onStop, size = 'small' }: TaskTimerProps) {
+  const isRunning = !!getActiveEntry(entries);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const seconds = getTrackedSeconds(entries, now);
+  const isLarge = size === 'large';
+  const iconSize = isLarge ? 18 : 12;
+  const iconColor = isRunning ? Colors.textInverse : Colors.primary;
+
+  const handlePress = () => {
+    Haptics.impactAsync(isRunning ? Haptics.ImpactFeedbackStyle.Light : Haptics.ImpactFeedbackStyle.Medium);
+    if (isRunning) onStop();
+    else onStart();
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, isLarge && styles.buttonLarge, isRunning && styles.buttonRunning]}
+      onPress={handlePress}
+      hitSlop={isLarge ? undefined : 8}
+    >
+      {isRunning ? (
+        <Square size={iconSize} color={iconColor} fill={iconColor} />
+      ) : (
+        <Play size={iconSize} color={iconColor} fill={iconColor} />
+      )}
+      <Text style={[styles.text, isLarge && styles.textLarge, isRunning && styles.textRunning]}>
+        {isRunning ? formatTimer(seconds) : seconds > 0 ? formatDuration(seconds) : isLarge ? 'Start timer' : 'Track'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primaryMuted,
+  },
+  buttonLarge: {
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  buttonRunning: {
+    backgroundColor: Colors.primary,
+  },
+  text: {
+    ...Typography.caption2,
+    color: Colors.primary,
+    fontWeight: '600' as const,
+    fontVariant: ['tabular-nums'],
+  },
+  textLarge: {
+    ...Typography.headline,
+    color: Colors.primary,
+  },
+  textRunning: {
+    color: Colors.textInverse,
+  },
+});
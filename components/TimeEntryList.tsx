@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Pencil, Plus, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { TimeEntry } from '@/types';
+import { combineLocalDateTime, getTodayDateString, normalizeTime, parseLocalDate, toLocalDateString, toLocalTimeString } from '@/lib/dateUtils';
+import { formatDuration, getEntrySeconds, parseDuration } from '@/lib/timeTracking';
+import { formatTime12Hour } from './DateTimePicker';
+
+type EntryTimes = Pick<TimeEntry, 'startedAt' | 'endedAt' | 'note'>;
+
+interface TimeEntryListProps {
+  // Newest first
+  entries: TimeEntry[];
+  onAdd: (entry: EntryTimes) => Promise<boolean>;
+  onUpdate: (entryId: string, updates: EntryTimes) => Promise<boolean>;
+  onDelete: (entryId: string) => void;
+}
+
+interface EntryForm {
+  // The entry being edited, or 'new'
+  entryId: string;
+  date: string;
+  start: string;
+  duration: string;
+  note: string;
+}
+
+function formatEntryDay(date: string): string {
+  return parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export default function TimeEntryList({ entries, onAdd, onUpdate, onDelete }: TimeEntryListProps) {
+  const [form, setForm] = useState<EntryForm | null>(null);
+
+  const openNew = () => {
+    Haptics.selectionAsync();
+    const start = new Date(Date.now() - 30 * 60 * 1000);
+    setForm({
+      entryId: 'new',
+      date: toLocalDateString(start),
+      start: toLocalTimeString(start),
+      duration: '30m',
+      note: '',
+    });
+  };
+
+  const openEdit = (entry: TimeEntry) => {
+    Haptics.selectionAsync();
+    const start = new Date(entry.startedAt);
+    setForm({
+      entryId: entry.id,
+      date: toLocalDateString(start),
+      start: toLocalTimeString(start),
+      duration: formatDuration(getEntrySeconds(entry)),
+      note: entry.note ?? '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const minutes = parseDuration(form.duration);
+    const start = /^\d{1,2}:\d{2}$/.test(form.start.trim()) ? normalizeTime(form.start.trim()) : undefined;
+    const isValidDate = /^\d{4}-\d{2}-\d{2}$/.test(form.date.trim()) && !isNaN(parseLocalDate(form.date.trim()).getTime());
+
+    if (!minutes || !start || !isValidDate) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Check the entry', 'Use a date like 2026-03-14, a start time like 09:30 and a duration like 1h 15m.');
+      return;
+    }
+
+    const startedAt = combineLocalDateTime(form.date.trim(), start);
+    const times: EntryTimes = {
+      startedAt: startedAt.toISOString(),
+      endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000).toISOString(),
+      note: form.note.trim() || undefined,
+    };
+    const ok = form.entryId === 'new' ? await onAdd(times) : await onUpdate(form.entryId, times);
+    if (ok) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setForm(null);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Couldn't save entry", 'Check your connection and try again.');
+    }
+  };
+
+  const handleDelete = (entry: TimeEntry) => {
+    const day = formatEntryDay(toLocalDateString(new Date(entry.startedAt)));
+    Alert.alert('Delete Entry', `Delete ${formatDuration(getEntrySeconds(entry))} tracked on ${day}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          onDelete(entry.id);
+        },
+      },
+    ]);
+  };
+
+  const renderForm = (current: EntryForm) => (
+    <View style={styles.form}>
+      <View style={styles.formRow}>
+        <View style={styles.formField}>
+          <Text style={styles.formLabel}>Date</Text>
+          <TextInput
+            style={styles.formInput}
+            value={current.date}
+            onChangeText={date => setForm({ ...current, date })}
+            placeholder={getTodayDateString()}
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+          />
+        </View>
+        <View style={styles.formField}>
+          <Text style={styles.formLabel}>Start</Text>
+          <TextInput
+            style={styles.formInput}
+            value={current.start}
+            onChangeText={start => setForm({ ...current, start })}
+            placeholder="09:00"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+          />
+        </View>
+        <View style={styles.formField}>
+          <Text style={styles.formLabel}>Duration</Text>
+          <TextInput
+            style={styles.formInput}
+            value={current.duration}
+            onChangeText={duration => setForm({ ...current, duration })}
+            placeholder="1h 30m"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+      <TextInput
+        style={styles.formInput}
+        value={current.note}
+        onChangeText={note => setForm({ ...current, note })}
+        placeholder="Note (optional)"
+        placeholderTextColor={Colors.textTertiary}
+      />
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.formButton} onPress={() => setForm(null)}>
+          <Text style={styles.formButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.formButton, styles.formButtonPrimary]} onPress={handleSave}>
+          <Text style={[styles.formButtonText, styles.formButtonTextPrimary]}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      {entries.map(entry => {
+        if (form?.entryId === entry.id) {
+          return <View key={entry.id}>{renderForm(form)}</View>;
+        }
+        const start = new Date(entry.startedAt);
+        const end = entry.endedAt ? new Date(entry.endedAt) : null;
+        return (
+          <View key={entry.id} style={styles.row}>
+            <View style={styles.rowContent}>
+              <Text style={styles.rowTitle}>
+                {formatEntryDay(toLocalDateString(start))} · {formatTime12Hour(toLocalTimeString(start))}
+                {end ? ` – ${formatTime12Hour(toLocalTimeString(end))}` : ''}
+              </Text>
+              {!!entry.note && <Text style={styles.rowNote} numberOfLines={2}>{entry.note}</Text>}
+            </View>
+            <Text style={[styles.rowDuration, !end && styles.rowDurationRunning]}>
+              {end ? formatDuration(getEntrySeconds(entry)) : 'Running'}
+            </Text>
+            {end && (
+              <TouchableOpacity style={styles.iconButton} onPress={() => openEdit(entry)}>
+                <Pencil size={16} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(entry)}>
+              <Trash2 size={16} color={Colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {form?.entryId === 'new' ? (
+        renderForm(form)
+      ) : (
+        <TouchableOpacity style={styles.addRow} onPress={openNew}>
+          <Plus size={18} color={Colors.primary} />
+          <Text style={styles.addText}>Add time manually</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...Typography.subhead,
+    color: Colors.text,
+  },
+  rowNote: {
+    ...Typography.caption1,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  rowDuration: {
+    ...Typography.subhead,
+    color: Colors.text,
+    fontWeight: '600' as const,
+    fontVariant: ['tabular-nums'],
+  },
+  rowDurationRunning: {
+    color: Colors.primary,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  addText: {
+    ...Typography.body,
+    color: Colors.primary,
+  },
+  form: {
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  formField: {
+    flex: 1,
+  },
+  formLabel: {
+    ...Typography.caption2,
+    color: Colors.textTertiary,
+    marginBottom: 2,
+  },
+  formInput: {
+    ...Typography.subhead,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceSecondary,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
+  formButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+  },
+  formButtonPrimary: {
+    backgroundColor: Colors.primary,
+  },
+  formButtonText: {
+    ...Typography.subhead,
+    color: Colors.textSecondary,
+    fontWeight: '600' as const,
+  },
+  formButtonTextPrimary: {
+    color: Colors.textInverse,
+  },
+});
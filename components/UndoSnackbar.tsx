@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from 'react';
+import { Animated, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { Typography, Spacing, BorderRadius } from '@/constants/typography';
+import { useApp } from '@/providers/AppProvider';
+
+const VISIBLE_MS = 5000;
+
+// Offers to undo the last delete or completion, whether the user or the assistant did it
+export default function UndoSnackbar() {
+  const { undoableAction, undoLastAction, dismissUndo } = useApp();
+  const insets = useSafeAreaInsets();
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  const actionId = undoableAction?.id;
+
+  useEffect(() => {
+    if (!actionId) return;
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 150, useNativeDriver: true }).start();
+    const timeout = setTimeout(dismissUndo, VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, [actionId, opacity, dismissUndo]);
+
+  if (!undoableAction) return null;
+
+  const message = undoableAction.type === 'delete'
+    ? `“${undoableAction.task.title}” moved to trash`
+    : `“${undoableAction.task.title}” completed`;
+
+  return (
+    <Animated.View style={[styles.container, { bottom: insets.bottom + 72, opacity }]}>
+      <Text style={styles.message} numberOfLines={1}>{message}</Text>
+      <TouchableOpacity
+        onPress={() => {
+          Haptics.selectionAsync();
+          undoLastAction();
+        }}
+      >
+        <Text style={styles.undo}>Undo</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.lg,
+    right: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    backgroundColor: Colors.text,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 1,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  message: {
+    ...Typography.subhead,
+    color: Colors.textInverse,
+    flex: 1,
+  },
+  undo: {
+    ...Typography.subhead,
+    color: Colors.primaryLight,
+    fontWeight: '600' as const,
+  },
+});
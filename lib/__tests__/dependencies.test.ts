@@ -0,0 +1,74 @@
+import { Task } from '@/types';
+import { getBlockerCandidates, getUnblockedDependents, wouldCreateCycle } from '../dependencies';
+
+const task = (id: string, blockedBy: string[] = [], status: Task['status'] = 'pending'): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  status,
+  category: 'work',
+  createdAt: '2026-10-19T10:00:00.000Z',
+  blockedBy,
+});
+
+describe('wouldCreateCycle', () => {
+  it('does not let a task wait on itself', () => {
+    expect(wouldCreateCycle([task('a')], 'a', 'a')).toBe(true);
+  });
+
+  it('finds a cycle through other tasks', () => {
+    // c waits on b, b waits on a: a can't wait on c
+    const tasks = [task('a'), task('b', ['a']), task('c', ['b'])];
+    expect(wouldCreateCycle(tasks, 'a', 'c')).toBe(true);
+    expect(wouldCreateCycle(tasks, 'a', 'b')).toBe(true);
+  });
+
+  it('allows links that keep the graph acyclic', () => {
+    const tasks = [task('a'), task('b', ['a']), task('c', ['b']), task('d', ['b', 'c'])];
+    expect(wouldCreateCycle(tasks, 'c', 'a')).toBe(false);
+    expect(wouldCreateCycle(tasks, 'd', 'a')).toBe(false);
+  });
+
+  it('stops on cycles already in the data', () => {
+    const tasks = [task('a', ['b']), task('b', ['a']), task('c')];
+    expect(wouldCreateCycle(tasks, 'c', 'a')).toBe(false);
+  });
+});
+
+describe('getBlockerCandidates', () => {
+  it('leaves out the task, its blockers, completed tasks and tasks waiting on it', () => {
+    const tasks = [
+      task('a', ['b']),
+      task('b'),
+      task('c', ['a']),
+      task('d', [], 'completed'),
+      task('e'),
+    ];
+    expect(getBlockerCandidates(tasks, tasks[0]).map(t => t.id)).toEqual(['e']);
+  });
+});
+
+describe('getUnblockedDependents', () => {
+  const tasks = [
+    task('blocker'),
+    task('other'),
+    task('only', ['blocker']),
+    task('both', ['blocker', 'other']),
+    task('done', ['blocker'], 'completed'),
+    task('unrelated', ['other']),
+  ];
+
+  it('unblocks tasks once the last open blocker is completed', () => {
+    const open = new Set(['other']);
+    expect(getUnblockedDependents(tasks, 'blocker', id => open.has(id)).map(t => t.id)).toEqual(['only']);
+
+    open.delete('other');
+    expect(getUnblockedDependents(tasks, 'blocker', id => open.has(id)).map(t => t.id)).toEqual(['only', 'both']);
+  });
+
+  it('ignores completed dependents and tasks that do not wait on the blocker', () => {
+    const ids = getUnblockedDependents(tasks, 'blocker', () => false).map(t => t.id);
+    expect(ids).not.toContain('done');
+    expect(ids).not.toContain('unrelated');
+  });
+});
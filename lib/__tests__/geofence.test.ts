@@ -0,0 +1,112 @@
+import {
+  EXIT_MARGIN_METERS,
+  GeofenceRegion,
+  MAX_FIX_ACCURACY_METERS,
+  applyGeofenceEvent,
+  distanceInMeters,
+  evaluateGeofences,
+  getTriggeredReminders,
+  isInsideRegion,
+} from '../geofence';
+
+const METERS_PER_DEGREE_LATITUDE = (6371000 * Math.PI) / 180;
+
+const home: GeofenceRegion = { id: 'home', latitude: 52.52, longitude: 13.405, radiusMeters: 100 };
+
+// A fix the given distance due north of home
+const north = (meters: number, accuracy?: number) => ({
+  latitude: home.latitude + meters / METERS_PER_DEGREE_LATITUDE,
+  longitude: home.longitude,
+  accuracy,
+});
+
+describe('distanceInMeters', () => {
+  it('measures the distance between two fixes', () => {
+    expect(distanceInMeters(home, north(100))).toBeCloseTo(100, 3);
+    expect(distanceInMeters(home, home)).toBe(0);
+  });
+});
+
+describe('isInsideRegion', () => {
+  it('counts a fix exactly on the edge of the radius as inside', () => {
+    const edge = north(100);
+    expect(isInsideRegion(edge, { ...home, radiusMeters: distanceInMeters(home, edge) })).toBe(true);
+  });
+
+  it('puts fixes just either side of the radius inside and outside', () => {
+    expect(isInsideRegion(north(99.9), home)).toBe(true);
+    expect(isInsideRegion(north(100.1), home)).toBe(false);
+  });
+
+  it('keeps someone inside until they are past the exit margin', () => {
+    expect(isInsideRegion(north(100 + EXIT_MARGIN_METERS - 1), home, true)).toBe(true);
+    expect(isInsideRegion(north(100 + EXIT_MARGIN_METERS + 1), home, true)).toBe(false);
+  });
+});
+
+describe('evaluateGeofences', () => {
+  it('only records the state on the first fix for a region', () => {
+    const result = evaluateGeofences([home], {}, north(10));
+    expect(result.state).toEqual({ home: true });
+    expect(result.events).toEqual([]);
+  });
+
+  it('reports an enter when a fix crosses into the radius', () => {
+    const outside = evaluateGeofences([home], {}, north(300));
+    const result = evaluateGeofences([home], outside.state, north(95));
+    expect(result.state).toEqual({ home: true });
+    expect(result.events).toEqual([{ regionId: 'home', transition: 'enter' }]);
+  });
+
+  it('does not report an enter just outside the radius', () => {
+    const result = evaluateGeofences([home], { home: false }, north(101));
+    expect(result.events).toEqual([]);
+  });
+
+  it('reports an exit only once the fix is past the exit margin', () => {
+    const jitter = evaluateGeofences([home], { home: true }, north(100 + EXIT_MARGIN_METERS - 1));
+    expect(jitter.state).toEqual({ home: true });
+    expect(jitter.events).toEqual([]);
+
+    const left = evaluateGeofences([home], jitter.state, north(100 + EXIT_MARGIN_METERS + 1));
+    expect(left.state).toEqual({ home: false });
+    expect(left.events).toEqual([{ regionId: 'home', transition: 'exit' }]);
+  });
+
+  it('ignores fixes that are too imprecise', () => {
+    const result = evaluateGeofences([home], { home: false }, north(0, MAX_FIX_ACCURACY_METERS + 1));
+    expect(result.state).toEqual({ home: false });
+    expect(result.events).toEqual([]);
+  });
+
+  it('forgets regions that are no longer monitored', () => {
+    const result = evaluateGeofences([home], { home: false, office: true }, north(300));
+    expect(result.state).toEqual({ home: false });
+  });
+});
+
+describe('applyGeofenceEvent', () => {
+  it('only records the first report for a region', () => {
+    const result = applyGeofenceEvent({}, { regionId: 'home', transition: 'enter' });
+    expect(result.state).toEqual({ home: true });
+    expect(result.events).toEqual([]);
+  });
+
+  it('passes on changes and ignores repeats', () => {
+    const exit = { regionId: 'home', transition: 'exit' as const };
+    expect(applyGeofenceEvent({ home: true }, exit).events).toEqual([exit]);
+    expect(applyGeofenceEvent({ home: false }, exit).events).toEqual([]);
+  });
+});
+
+describe('getTriggeredReminders', () => {
+  it('matches arrive reminders to enters and leave reminders to exits', () => {
+    const arrive = { placeId: 'home', triggerOn: 'arrive' as const };
+    const leave = { placeId: 'home', triggerOn: 'leave' as const };
+    const elsewhere = { placeId: 'office', triggerOn: 'arrive' as const };
+    const reminders = [arrive, leave, elsewhere];
+
+    expect(getTriggeredReminders(reminders, [{ regionId: 'home', transition: 'enter' }])).toEqual([arrive]);
+    expect(getTriggeredReminders(reminders, [{ regionId: 'home', transition: 'exit' }])).toEqual([leave]);
+  });
+});
@@ -0,0 +1,56 @@
+import { parseNaturalDate } from '../naturalDate';
+
+// Monday, October 19 2026, 10:00
+const monday = new Date(2026, 9, 19, 10, 0);
+// Friday, October 23 2026, 10:00
+const friday = new Date(2026, 9, 23, 10, 0);
+
+describe('parseNaturalDate', () => {
+  it('reads "next <weekday>" as the coming one', () => {
+    const result = parseNaturalDate('next Friday 3pm', monday);
+    expect(result?.dueDate).toBe('2026-10-23');
+    expect(result?.dueTime).toBe('15:00');
+  });
+
+  it('reads "next <weekday>" said on that weekday as a week out', () => {
+    expect(parseNaturalDate('next Friday', friday)?.dueDate).toBe('2026-10-30');
+  });
+
+  it('reads a weekday after a preposition or at the end', () => {
+    expect(parseNaturalDate('Review PR on Wed', monday)?.dueDate).toBe('2026-10-21');
+    expect(parseNaturalDate('Call mom Friday', monday)).toMatchObject({ dueDate: '2026-10-23', remainder: 'Call mom' });
+  });
+
+  it('leaves a weekday inside a title alone', () => {
+    expect(parseNaturalDate('Fix bug in monday release', monday)).toBeNull();
+  });
+
+  it('reads times relative to now', () => {
+    expect(parseNaturalDate('in 1 hour', monday)).toMatchObject({ dueDate: '2026-10-19', dueTime: '11:00' });
+    expect(parseNaturalDate('Stretch in 30 minutes', monday)).toMatchObject({ dueTime: '10:30', remainder: 'Stretch' });
+    expect(parseNaturalDate('in 20 hours', monday)).toMatchObject({ dueDate: '2026-10-20', dueTime: '06:00' });
+  });
+
+  it('reads a day of the month', () => {
+    expect(parseNaturalDate('the 15th', monday)?.dueDate).toBe('2026-11-15');
+    expect(parseNaturalDate('Pay rent on the 1st', monday)).toMatchObject({ dueDate: '2026-11-01', remainder: 'Pay rent' });
+    expect(parseNaturalDate('Buy the 3 boxes', monday)).toBeNull();
+  });
+
+  it('reports repeats it does not understand instead of dropping them', () => {
+    const result = parseNaturalDate('Team sync every 2nd tuesday', monday);
+    expect(result?.recurringPattern).toBeUndefined();
+    expect(result?.dueDate).toBeUndefined();
+    expect(result?.unparsed.map(m => m.text)).toEqual(['every 2nd tuesday']);
+    expect(result?.remainder).toBe('Team sync every 2nd tuesday');
+  });
+
+  it('still reads the repeats it knows', () => {
+    expect(parseNaturalDate('Gym every other Monday', monday)).toMatchObject({
+      recurringPattern: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO',
+      dueDate: '2026-10-19',
+      remainder: 'Gym',
+      unparsed: [],
+    });
+  });
+});
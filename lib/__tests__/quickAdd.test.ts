@@ -0,0 +1,127 @@
+import { Category, Friend } from '@/types';
+import { findFriend, getQuickAddSegments, parseQuickAdd } from '../quickAdd';
+
+// Monday, October 19 2026, 10:00
+const now = new Date(2026, 9, 19, 10, 0);
+
+const category = (slug: string, name: string): Category => ({
+  id: `category-${slug}`,
+  slug,
+  name,
+  color: '#4F46E5',
+  sortOrder: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const friend = (id: string, name: string, email: string, status: Friend['status'] = 'accepted'): Friend => ({
+  id: `friend-${id}`,
+  user: { id, name, email, createdAt: '2026-01-01T00:00:00.000Z' },
+  status,
+  sharedTasks: 0,
+});
+
+const categories = [category('health', 'Health'), category('side-project', 'Side Project')];
+const friends = [
+  friend('user-alex', 'Alex Kim', 'akim@example.com'),
+  friend('user-sam', 'Sam Lee', 'sam.lee@example.com', 'pending'),
+];
+const context = { categories, friends, now };
+
+describe('parseQuickAdd', () => {
+  it('reads every kind of marker from the example', () => {
+    const input = 'Call dentist tomorrow 9am !high #health @alex every month';
+    const result = parseQuickAdd(input, context);
+
+    expect(result).toMatchObject({
+      title: 'Call dentist',
+      priority: 'high',
+      category: 'health',
+      tags: [],
+      assignedTo: ['user-alex'],
+      dueDate: '2026-10-20',
+      dueTime: '09:00',
+      recurringPattern: 'FREQ=MONTHLY',
+      unknownMentions: [],
+    });
+    expect(result.tokens.map(t => [t.type, t.text])).toEqual([
+      ['date', 'tomorrow'],
+      ['date', '9am'],
+      ['priority', '!high'],
+      ['category', '#health'],
+      ['mention', '@alex'],
+      ['date', 'every month'],
+    ]);
+  });
+
+  it('gives token offsets into the input', () => {
+    const input = 'Call dentist tomorrow 9am !high #health @alex every month';
+    for (const token of parseQuickAdd(input, context).tokens) {
+      expect(input.slice(token.start, token.end)).toBe(token.text);
+    }
+  });
+
+  it('reads the short priority markers and ignores unknown ones', () => {
+    expect(parseQuickAdd('Pay rent !h', context).priority).toBe('high');
+    expect(parseQuickAdd('Pay rent !2', context).priority).toBe('medium');
+    expect(parseQuickAdd('Pay rent !l', context).priority).toBe('low');
+
+    const result = parseQuickAdd('Pay rent !urgent', context);
+    expect(result.priority).toBeUndefined();
+    expect(result.title).toBe('Pay rent !urgent');
+  });
+
+  it('matches categories by slug or name and falls back to a tag', () => {
+    expect(parseQuickAdd('Ship it #SideProject', context)).toMatchObject({ category: 'side-project', tags: [] });
+
+    const result = parseQuickAdd('Plan trip #Road_Trip', context);
+    expect(result.category).toBeUndefined();
+    expect(result.tags).toEqual(['road_trip']);
+    expect(result.tokens).toEqual([{ type: 'tag', text: '#Road_Trip', start: 10, end: 20 }]);
+  });
+
+  it('turns a second category marker into a tag', () => {
+    const result = parseQuickAdd('Run #health #side-project', context);
+    expect(result).toMatchObject({ category: 'health', tags: ['side-project'] });
+  });
+
+  it('keeps unknown mentions in the title', () => {
+    const result = parseQuickAdd('Review draft @jordan @sam', context);
+    expect(result.assignedTo).toEqual([]);
+    expect(result.unknownMentions).toEqual(['jordan', 'sam']);
+    expect(result.title).toBe('Review draft @jordan @sam');
+  });
+
+  it('leaves trailing punctuation out of a marker', () => {
+    const result = parseQuickAdd('Lunch with @alex.', context);
+    expect(result.tokens).toEqual([{ type: 'mention', text: '@alex', start: 11, end: 16 }]);
+  });
+
+  it('does not read markers inside words', () => {
+    expect(parseQuickAdd('Email bob@alex.com', context)).toMatchObject({ assignedTo: [], tokens: [] });
+  });
+});
+
+describe('findFriend', () => {
+  it('matches by full name, email name or first name', () => {
+    expect(findFriend(friends, 'alexkim')?.user.id).toBe('user-alex');
+    expect(findFriend(friends, 'akim')?.user.id).toBe('user-alex');
+    expect(findFriend(friends, 'Alex')?.user.id).toBe('user-alex');
+  });
+
+  it('only matches accepted friends', () => {
+    expect(findFriend(friends, 'sam')).toBeUndefined();
+  });
+});
+
+describe('getQuickAddSegments', () => {
+  it('splits the input into plain and highlighted runs', () => {
+    const input = 'Pay rent !high tomorrow';
+    const { tokens } = parseQuickAdd(input, context);
+    expect(getQuickAddSegments(input, tokens)).toEqual([
+      { text: 'Pay rent ' },
+      { text: '!high', type: 'priority' },
+      { text: ' ' },
+      { text: 'tomorrow', type: 'date' },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { formatRecurrence, getNextOccurrence, getNextOccurrenceDate, parseRecurrence } from '../recurrence';
+
+const next = (pattern: string, fromDate: string) => getNextOccurrence(pattern, fromDate)?.dueDate ?? null;
+
+describe('parseRecurrence', () => {
+  it('reads an RRULE and writes it back in canonical form', () => {
+    const rule = parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+    expect(rule).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byDay: [{ weekday: 'MO', ordinal: undefined }, { weekday: 'WE', ordinal: undefined }],
+    });
+    expect(formatRecurrence(rule!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+  });
+
+  it('still accepts the legacy keywords', () => {
+    expect(parseRecurrence('weekly')).toEqual({ frequency: 'WEEKLY', interval: 1 });
+    expect(parseRecurrence('Weekdays')?.byDay?.map(d => d.weekday)).toEqual(['MO', 'TU', 'WE', 'TH', 'FR']);
+  });
+
+  it('rejects patterns it cannot follow', () => {
+    expect(parseRecurrence('FREQ=HOURLY')).toBeNull();
+    expect(parseRecurrence('FREQ=DAILY;INTERVAL=0')).toBeNull();
+    expect(parseRecurrence('FREQ=WEEKLY;BYDAY=2TU')).toBeNull();
+    expect(parseRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20261231')).toBeNull();
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('repeats every N days', () => {
+    expect(next('FREQ=DAILY;INTERVAL=3', '2026-10-19')).toBe('2026-10-22');
+    expect(next('FREQ=DAILY;INTERVAL=3', '2026-10-30')).toBe('2026-11-02');
+    expect(next('daily', '2026-12-31')).toBe('2027-01-01');
+  });
+
+  it('moves to the next listed weekday', () => {
+    expect(next('FREQ=WEEKLY;BYDAY=MO,WE', '2026-10-19')).toBe('2026-10-21');
+    expect(next('FREQ=WEEKLY;BYDAY=MO,WE', '2026-10-21')).toBe('2026-10-26');
+    expect(next('weekdays', '2026-10-23')).toBe('2026-10-26');
+  });
+
+  it('skips the weeks in between for an interval', () => {
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-10-19')).toBe('2026-10-21');
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-10-21')).toBe('2026-11-02');
+  });
+
+  it('finds the nth weekday of the next month', () => {
+    expect(next('FREQ=MONTHLY;BYDAY=2TU', '2026-10-13')).toBe('2026-11-10');
+    expect(next('FREQ=MONTHLY;BYDAY=-1FR', '2026-10-30')).toBe('2026-11-27');
+  });
+
+  it('skips months that are too short for the day', () => {
+    expect(next('monthly', '2026-01-31')).toBe('2026-03-31');
+    expect(next('FREQ=MONTHLY', '2026-10-31')).toBe('2026-12-31');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=30', '2027-01-30')).toBe('2027-03-30');
+  });
+
+  it('only repeats February 29 on leap years', () => {
+    expect(next('yearly', '2028-02-29')).toBe('2032-02-29');
+  });
+
+  it('counts down COUNT and ends the series on the last one', () => {
+    expect(getNextOccurrence('FREQ=DAILY;COUNT=3', '2026-10-19')).toEqual({
+      dueDate: '2026-10-20',
+      recurringPattern: 'FREQ=DAILY;COUNT=2',
+    });
+    expect(getNextOccurrence('FREQ=DAILY;COUNT=1', '2026-10-20')).toBeNull();
+  });
+
+  it('ends the series after UNTIL', () => {
+    expect(getNextOccurrence('FREQ=WEEKLY;UNTIL=20261026', '2026-10-19')).toEqual({
+      dueDate: '2026-10-26',
+      recurringPattern: 'FREQ=WEEKLY;UNTIL=20261026',
+    });
+    expect(getNextOccurrence('FREQ=WEEKLY;UNTIL=20261025', '2026-10-19')).toBeNull();
+  });
+
+  it('returns null for a pattern or date it cannot read', () => {
+    expect(getNextOccurrence('every so often', '2026-10-19')).toBeNull();
+    expect(getNextOccurrenceDate({ frequency: 'DAILY', interval: 1 }, 'soon')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Task } from '@/types';
+import { SyncOperation, SyncService } from '../syncService';
+import { TaskService } from '../taskService';
+import { ChatService } from '../chatService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockUuid = 0;
+jest.mock('expo-crypto', () => ({ randomUUID: () => `uuid-${++mockUuid}` }));
+
+jest.mock('../taskService', () => ({
+  TaskService: {
+    tryCreateTask: jest.fn(),
+    updateTaskIfUnchanged: jest.fn(),
+    tryDeleteTask: jest.fn(),
+    tryRestoreTask: jest.fn(),
+  },
+}));
+jest.mock('../reminderService', () => ({ ReminderService: { createDefaultReminders: jest.fn() } }));
+jest.mock('../notificationService', () => ({ NotificationService: { cancelTaskNotifications: jest.fn() } }));
+jest.mock('../chatService', () => ({ ChatService: { remapTaskId: jest.fn() } }));
+jest.mock('../taskShareService', () => ({ TaskShareService: { shareWithAssignees: jest.fn() } }));
+jest.mock('../attachmentService', () => ({ AttachmentService: { remapTaskId: jest.fn() } }));
+
+const taskService = jest.mocked(TaskService);
+const userId = 'user-1';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Write report',
+  priority: 'medium',
+  status: 'pending',
+  category: 'work',
+  createdAt: '2026-10-19T10:00:00.000Z',
+  ...overrides,
+});
+
+const operation = (overrides: Partial<SyncOperation> & Pick<SyncOperation, 'type' | 'taskId'>): SyncOperation => ({
+  id: `op-${overrides.type}-${overrides.taskId}`,
+  createdAt: '2026-10-19T10:00:00.000Z',
+  attempts: 0,
+  ...overrides,
+});
+
+const setQueue = (queue: SyncOperation[]) =>
+  AsyncStorage.setItem(`taskify_sync_outbox:${userId}`, JSON.stringify(queue));
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await AsyncStorage.clear();
+});
+
+describe('SyncService.enqueue', () => {
+  it('folds updates into the pending create of a task', async () => {
+    const id = SyncService.createTemporaryId();
+    await SyncService.enqueue(userId, { type: 'create', taskId: id, payload: { title: 'Draft', priority: 'low' } });
+    const queue = await SyncService.enqueue(userId, { type: 'update', taskId: id, payload: { priority: 'high' } });
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ type: 'create', payload: { title: 'Draft', priority: 'high' } });
+  });
+
+  it('drops a pending create when its task is deleted', async () => {
+    const id = SyncService.createTemporaryId();
+    await SyncService.enqueue(userId, { type: 'create', taskId: id, payload: { title: 'Draft' } });
+    await SyncService.enqueue(userId, { type: 'update', taskId: 'task-2', payload: { title: 'Other' } });
+
+    const queue = await SyncService.enqueue(userId, { type: 'delete', taskId: id });
+    expect(queue.map(op => op.taskId)).toEqual(['task-2']);
+  });
+
+  it('lets a restore cancel a delete that has not been sent', async () => {
+    await SyncService.enqueue(userId, { type: 'delete', taskId: 'task-1' });
+    expect(await SyncService.enqueue(userId, { type: 'restore', taskId: 'task-1' })).toEqual([]);
+
+    const queue = await SyncService.enqueue(userId, { type: 'restore', taskId: 'task-2' });
+    expect(queue).toEqual([expect.objectContaining({ type: 'restore', taskId: 'task-2', attempts: 0 })]);
+  });
+});
+
+describe('SyncService.replay', () => {
+  it('stops without counting an attempt while offline', async () => {
+    await setQueue([operation({ type: 'delete', taskId: 'task-1' }), operation({ type: 'delete', taskId: 'task-2' })]);
+    taskService.tryDeleteTask.mockResolvedValue({ status: 'error', failure: 'transient' });
+
+    const result = await SyncService.replay(userId);
+
+    expect(result).toMatchObject({ synced: 0, remaining: 2, failed: [] });
+    expect(taskService.tryDeleteTask).toHaveBeenCalledTimes(1);
+    expect((await SyncService.getQueue(userId))[0].attempts).toBe(0);
+  });
+
+  it('counts a rejection and keeps the operation at the front', async () => {
+    await setQueue([operation({ type: 'delete', taskId: 'task-1' }), operation({ type: 'delete', taskId: 'task-2' })]);
+    taskService.tryDeleteTask.mockResolvedValue({ status: 'error', failure: 'rejected' });
+
+    const result = await SyncService.replay(userId);
+
+    expect(result).toMatchObject({ synced: 0, remaining: 2, failed: [] });
+    expect((await SyncService.getQueue(userId)).map(op => op.attempts)).toEqual([1, 0]);
+  });
+
+  it('sets an operation aside with the rest of its task after MAX_ATTEMPTS rejections', async () => {
+    await setQueue([
+      operation({ type: 'delete', taskId: 'task-1', attempts: 4 }),
+      operation({ type: 'delete', taskId: 'task-2' }),
+      operation({ type: 'restore', taskId: 'task-1' }),
+    ]);
+    taskService.tryDeleteTask.mockImplementation(async (_userId, taskId) =>
+      taskId === 'task-1' ? { status: 'error', failure: 'rejected' } : { status: 'ok', value: taskId }
+    );
+
+    const result = await SyncService.replay(userId);
+
+    expect(result.synced).toBe(1);
+    expect(result.remaining).toBe(0);
+    expect(result.failed.map(op => [op.type, op.taskId])).toEqual([['delete', 'task-1'], ['restore', 'task-1']]);
+    expect(taskService.tryRestoreTask).not.toHaveBeenCalled();
+    expect(await SyncService.getQueue(userId)).toEqual([]);
+    expect(await SyncService.getFailed(userId)).toEqual(result.failed);
+  });
+
+  it('swaps temporary ids in later operations and their blockers', async () => {
+    const temporaryId = SyncService.createTemporaryId();
+    await setQueue([
+      operation({ type: 'create', taskId: temporaryId, payload: { title: 'Offline task' } }),
+      operation({
+        type: 'update',
+        taskId: 'task-2',
+        payload: { blockedBy: [temporaryId, 'task-3'] },
+        base: { blockedBy: ['task-3'] },
+      }),
+      operation({ type: 'delete', taskId: temporaryId }),
+    ]);
+    taskService.tryCreateTask.mockResolvedValue({ status: 'ok', value: task({ id: 'server-1', title: 'Offline task' }) });
+    taskService.updateTaskIfUnchanged.mockResolvedValue({ status: 'updated', task: task({ id: 'task-2' }) });
+    taskService.tryDeleteTask.mockResolvedValue({ status: 'ok', value: 'server-1' });
+
+    const result = await SyncService.replay(userId);
+
+    expect(result).toMatchObject({ synced: 3, remaining: 0, idMap: { [temporaryId]: 'server-1' } });
+    expect(taskService.updateTaskIfUnchanged).toHaveBeenCalledWith(
+      userId,
+      'task-2',
+      { blockedBy: ['server-1', 'task-3'] },
+      undefined,
+      'sync'
+    );
+    expect(taskService.tryDeleteTask).toHaveBeenCalledWith(userId, 'server-1', 'sync');
+    expect(ChatService.remapTaskId).toHaveBeenCalledWith(userId, temporaryId, 'server-1');
+  });
+});
+
+describe('SyncService.retryFailed', () => {
+  it('puts set-aside operations back at the front on retry', async () => {
+    await AsyncStorage.setItem(
+      `taskify_sync_failed:${userId}`,
+      JSON.stringify([operation({ type: 'delete', taskId: 'task-1', attempts: 5 })])
+    );
+    await setQueue([operation({ type: 'delete', taskId: 'task-2' })]);
+
+    const queue = await SyncService.retryFailed(userId);
+
+    expect(queue.map(op => [op.taskId, op.attempts])).toEqual([['task-1', 0], ['task-2', 0]]);
+    expect(await SyncService.getFailed(userId)).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { Task } from '@/types';
+import { areFieldValuesEqual, mergeTaskUpdates, pickBaseValues, resolveConflicts } from '../taskMerge';
+
+const remoteTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Write report',
+  priority: 'medium',
+  status: 'pending',
+  category: 'work',
+  createdAt: '2026-10-19T10:00:00.000Z',
+  updatedAt: '2026-10-19T11:00:00.000Z',
+  ...overrides,
+});
+
+describe('mergeTaskUpdates', () => {
+  it('applies a field only changed locally', () => {
+    const base = { title: 'Write report' };
+    const result = mergeTaskUpdates(base, { title: 'Write the report' }, remoteTask({ priority: 'high' }));
+    expect(result).toEqual({ merged: { title: 'Write the report' }, conflicts: [] });
+  });
+
+  it('keeps a field only changed remotely', () => {
+    const base = { title: 'Write report', priority: 'medium' as const };
+    const local = { title: 'Write the report', priority: 'medium' as const };
+    const result = mergeTaskUpdates(base, local, remoteTask({ priority: 'high' }));
+    expect(result).toEqual({ merged: { title: 'Write the report' }, conflicts: [] });
+  });
+
+  it('reports a conflict when both sides changed a field differently', () => {
+    const result = mergeTaskUpdates(
+      { title: 'Write report' },
+      { title: 'Write the report' },
+      remoteTask({ title: 'Write report for Q3' })
+    );
+    expect(result).toEqual({
+      merged: {},
+      conflicts: [{ field: 'title', local: 'Write the report', remote: 'Write report for Q3' }],
+    });
+  });
+
+  it('does not treat the same change on both sides as a conflict', () => {
+    const result = mergeTaskUpdates({ title: 'Write report' }, { title: 'Done' }, remoteTask({ title: 'Done' }));
+    expect(result).toEqual({ merged: {}, conflicts: [] });
+  });
+
+  it('never merges server-owned fields', () => {
+    const result = mergeTaskUpdates({}, { updatedAt: '2026-10-19T12:00:00.000Z', deletedAt: undefined }, remoteTask());
+    expect(result).toEqual({ merged: {}, conflicts: [] });
+  });
+});
+
+describe('areFieldValuesEqual', () => {
+  it('counts any two completion times as the same', () => {
+    expect(areFieldValuesEqual('completedAt', '2026-10-19T10:00:00.000Z', '2026-10-19T12:30:00.000Z')).toBe(true);
+    expect(areFieldValuesEqual('completedAt', '2026-10-19T10:00:00.000Z', undefined)).toBe(false);
+  });
+
+  it('treats overdue as pending', () => {
+    expect(areFieldValuesEqual('status', 'overdue', 'pending')).toBe(true);
+    expect(areFieldValuesEqual('status', 'overdue', 'completed')).toBe(false);
+  });
+
+  it('treats empty values as the same', () => {
+    expect(areFieldValuesEqual('tags', [], undefined)).toBe(true);
+    expect(areFieldValuesEqual('description', '', null)).toBe(true);
+    expect(areFieldValuesEqual('isRecurring', false, undefined)).toBe(true);
+  });
+
+  it('treats completing a task on two devices as the same change', () => {
+    const completed = mergeTaskUpdates(
+      { status: 'pending', completedAt: undefined },
+      { status: 'completed', completedAt: '2026-10-19T10:00:00.000Z' },
+      remoteTask({ status: 'completed', completedAt: '2026-10-19T10:05:00.000Z' })
+    );
+    expect(completed).toEqual({ merged: {}, conflicts: [] });
+  });
+});
+
+describe('pickBaseValues', () => {
+  it('takes the current values of the fields being updated', () => {
+    expect(pickBaseValues(remoteTask(), { title: 'New', dueDate: '2026-10-20' })).toEqual({
+      title: 'Write report',
+      dueDate: undefined,
+    });
+  });
+});
+
+describe('resolveConflicts', () => {
+  it('keeps the local value only for fields the user chose to keep', () => {
+    const conflict = {
+      taskId: 'task-1',
+      remote: remoteTask({ title: 'Remote title', priority: 'low' }),
+      local: { title: 'Local title', priority: 'high' as const },
+      conflicts: [
+        { field: 'title' as const, local: 'Local title', remote: 'Remote title' },
+        { field: 'priority' as const, local: 'high', remote: 'low' },
+      ],
+    };
+    expect(resolveConflicts(conflict, { title: 'local', priority: 'remote' })).toEqual({ title: 'Local title' });
+    expect(resolveConflicts(conflict, {})).toEqual({});
+  });
+});
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { startOfLocalDay } from './dateUtils';
 
 export interface AdminUser {
   id: string;
@@ -136,11 +137,11 @@ export class AdminService {
         .from('tasks')
         .select('*', { count: 'exact', head: true });
 
-      const today = new Date().toISOString().split('T')[0];
+      const startOfToday = startOfLocalDay().toISOString();
       const { count: tasksCreatedToday } = await supabase
         .from('tasks')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today}T00:00:00`);
+        .gte('created_at', startOfToday);
 
       const { count: sharedTasks } = await supabase
         .from('task_shares')
@@ -150,14 +151,14 @@ export class AdminService {
       const { count: aiMessagesToday } = await supabase
         .from('ai_usage_logs')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today}T00:00:00`)
+        .gte('created_at', startOfToday)
         .eq('success', true);
 
       // Get notifications sent today
       const { count: notificationsToday } = await supabase
         .from('notification_logs')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today}T00:00:00`)
+        .gte('created_at', startOfToday)
         .eq('success', true);
 
       return {
@@ -304,19 +305,19 @@ export class AdminService {
    */
   static async getAIUsageStats() {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const startOfToday = startOfLocalDay().toISOString();
 
       // Get total requests today
       const { count: totalToday } = await supabase
         .from('ai_usage_logs')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today}T00:00:00`);
+        .gte('created_at', startOfToday);
 
       // Get failed requests today
       const { count: failedToday } = await supabase
         .from('ai_usage_logs')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', `${today}T00:00:00`)
+        .gte('created_at', startOfToday)
         .eq('success', false);
 
       // Get usage by plan
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
-import { Task, Priority } from '@/types';
+import { Task, Priority, TaskCategory } from '@/types';
+import { parseNaturalDate } from './naturalDate';
 
 export interface ExtractedTask {
   title: string;
@@ -7,7 +8,7 @@ export interface ExtractedTask {
   dueDate?: string;
   dueTime?: string;
   priority: Priority;
-  category?: 'work' | 'personal' | 'health' | 'shopping' | 'other';
+  category?: TaskCategory;
   isRecurring?: boolean;
   recurringPattern?: string;
   reminders?: string[];
@@ -207,13 +208,14 @@ export class AIService {
     const hasTaskIntent = taskKeywords.some(keyword => lowerMessage.includes(keyword));
 
     if (hasTaskIntent) {
+      // Dates, times and repeats are read the same way as in the new task screen
+      const when = parseNaturalDate(message);
+      const text = when?.remainder || message;
+
       // Extract basic task information
-      const titleMatch = message.match(/(?:task|create|add|make).*?['"]([^'"]+)['"]|(?:task|create|add|make)\s+(.+?)(?:\s+due|\s+priority|$)/i);
+      const titleMatch = text.match(/(?:task|create|add|make).*?['"]([^'"]+)['"]|(?:task|create|add|make)\s+(.+?)(?:\s+due|\s+priority|$)/i);
       const title = titleMatch ? (titleMatch[1] || titleMatch[2] || '').trim() : '';
 
-      const dateMatch = message.match(/(?:due|by|on)\s+(\d{4}-\d{2}-\d{2}|\w+\s+\d{1,2})/i);
-      const dueDate = dateMatch ? dateMatch[1] : undefined;
-
       const priorityMatch = message.match(/(high|medium|low)\s+priority/i);
       const priority: Priority = priorityMatch ? (priorityMatch[1] as Priority) : 'medium';
 
@@ -222,7 +224,10 @@ export class AIService {
           reply: `I'll help you create that task. Would you like me to add "${title}" to your task list?`,
           extractedTasks: [{
             title,
-            dueDate,
+            dueDate: when?.dueDate,
+            dueTime: when?.dueTime,
+            isRecurring: when?.recurringPattern ? true : undefined,
+            recurringPattern: when?.recurringPattern,
             priority,
             category: 'personal',
           }],
@@ -0,0 +1,399 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+import { supabase } from './supabase';
+import { TaskAttachment } from '@/types';
+import { AttachmentQuota, NewAttachment, buildStoragePath, getAttachmentKind } from './attachments';
+
+export interface TaskAttachmentRow {
+  id: string;
+  task_id: string;
+  user_id: string;
+  name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string;
+  created_at: string;
+}
+
+// A file waiting to upload; it is copied into the app's documents so it survives restarts
+export interface PendingAttachment {
+  id: string;
+  taskId: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  localUri: string;
+  createdAt: string;
+  attempts: number;
+}
+
+export type UploadAttachmentResult =
+  | { status: 'uploaded'; attachment: TaskAttachment }
+  | { status: 'quota_exceeded' }
+  | { status: 'failed' };
+
+export interface PendingUploadResult {
+  uploaded: number;
+  remaining: number;
+  // Files dropped from the queue because they no longer fit in the quota
+  rejected: PendingAttachment[];
+}
+
+const BUCKET = 'task-attachments';
+const OUTBOX_KEY = 'taskify_attachment_outbox';
+const PENDING_DIRECTORY = 'pending-attachments';
+const SIGNED_URL_SECONDS = 60 * 60;
+const MAX_ATTEMPTS = 5;
+// Raised by the quota trigger in supabase/setup.sql
+const QUOTA_EXCEEDED_CODE = '53400';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Attachment Service for photos and documents on tasks. Files go to a private storage
+ * bucket and are read through short-lived signed URLs; files added offline wait in a
+ * per-user queue on the device until they can be uploaded.
+ */
+export class AttachmentService {
+  private static uploading = false;
+
+  private static outboxKey(userId: string) {
+    return `${OUTBOX_KEY}:${userId}`;
+  }
+
+  /**
+   * Map database row to TaskAttachment type
+   */
+  private static mapToAttachment(row: TaskAttachmentRow, uri: string): TaskAttachment {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      uploadedBy: row.user_id,
+      name: row.name,
+      mimeType: row.mime_type,
+      sizeBytes: row.size_bytes,
+      kind: getAttachmentKind(row.mime_type),
+      uri,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get a task's attachments, oldest first, with signed URLs to view them
+   */
+  static async getAttachments(taskId: string): Promise<TaskAttachment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[AttachmentService] Error fetching attachments:', error);
+        return [];
+      }
+
+      const rows: TaskAttachmentRow[] = data || [];
+      if (rows.length === 0) return [];
+
+      const { data: urls, error: urlError } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrls(rows.map(row => row.storage_path), SIGNED_URL_SECONDS);
+
+      if (urlError) {
+        console.error('[AttachmentService] Error signing attachment URLs:', urlError);
+        return [];
+      }
+
+      const urlByPath = new Map((urls || []).map(url => [url.path, url.signedUrl]));
+      return rows
+        .filter(row => urlByPath.get(row.storage_path))
+        .map(row => this.mapToAttachment(row, urlByPath.get(row.storage_path)!));
+    } catch (error) {
+      console.error('[AttachmentService] Error in getAttachments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The user's plan, storage used by their uploads and their quota
+   */
+  static async getQuota(): Promise<AttachmentQuota | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_attachment_quota').single();
+
+      if (error) {
+        console.error('[AttachmentService] Error fetching quota:', error);
+        return null;
+      }
+
+      const row = data as { plan: AttachmentQuota['plan']; used_bytes: number; quota_bytes: number };
+      return {
+        plan: row.plan,
+        usedBytes: Number(row.used_bytes),
+        quotaBytes: Number(row.quota_bytes),
+      };
+    } catch (error) {
+      console.error('[AttachmentService] Error in getQuota:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Upload a file and attach it to a task. The file goes up first so the row never
+   * points at a missing file; the server then checks it against the quota.
+   */
+  static async uploadAttachment(
+    userId: string,
+    taskId: string,
+    file: NewAttachment,
+    id: string = Crypto.randomUUID()
+  ): Promise<UploadAttachmentResult> {
+    const storagePath = buildStoragePath(taskId, userId, id, file.name);
+    try {
+      const bytes = await new File(file.uri).bytes();
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(storagePath, bytes, { contentType: file.mimeType, upsert: true });
+
+      if (uploadError) {
+        console.error('[AttachmentService] Error uploading file:', uploadError);
+        return { status: 'failed' };
+      }
+
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .insert({
+          id,
+          task_id: taskId,
+          user_id: userId,
+          name: file.name,
+          mime_type: file.mimeType,
+          storage_path: storagePath,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        await supabase.storage.from(BUCKET).remove([storagePath]);
+        if (error.code === QUOTA_EXCEEDED_CODE) return { status: 'quota_exceeded' };
+        console.error('[AttachmentService] Error adding attachment:', error);
+        return { status: 'failed' };
+      }
+
+      const { data: url } = await supabase.storage.from(BUCKET).createSignedUrl(storagePath, SIGNED_URL_SECONDS);
+      return { status: 'uploaded', attachment: this.mapToAttachment(data, url?.signedUrl ?? file.uri) };
+    } catch (error) {
+      console.error('[AttachmentService] Error in uploadAttachment:', error);
+      return { status: 'failed' };
+    }
+  }
+
+  /**
+   * Delete an attachment and its file
+   */
+  static async deleteAttachment(attachmentId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachmentId)
+        .select('storage_path')
+        .single();
+
+      if (error) {
+        console.error('[AttachmentService] Error deleting attachment:', error);
+        return false;
+      }
+
+      const { error: removeError } = await supabase.storage.from(BUCKET).remove([data.storage_path]);
+      if (removeError) {
+        console.error('[AttachmentService] Error removing attachment file:', removeError);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[AttachmentService] Error in deleteAttachment:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove the stored files of tasks that are about to be deleted for good; their rows
+   * go with the tasks, but files in the bucket would be left behind
+   */
+  static async removeTaskFiles(taskIds: string[]): Promise<boolean> {
+    if (taskIds.length === 0) return true;
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select('storage_path')
+        .in('task_id', taskIds);
+
+      if (error) {
+        console.error('[AttachmentService] Error fetching task files:', error);
+        return false;
+      }
+
+      const paths = (data || []).map((row: Pick<TaskAttachmentRow, 'storage_path'>) => row.storage_path);
+      if (paths.length === 0) return true;
+
+      const { error: removeError } = await supabase.storage.from(BUCKET).remove(paths);
+      if (removeError) {
+        console.error('[AttachmentService] Error removing task files:', removeError);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[AttachmentService] Error in removeTaskFiles:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get files waiting to upload, oldest first
+   */
+  static async getPendingUploads(userId: string): Promise<PendingAttachment[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.outboxKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[AttachmentService] Error reading attachment outbox:', error);
+      return [];
+    }
+  }
+
+  private static async savePendingUploads(userId: string, queue: PendingAttachment[]) {
+    await AsyncStorage.setItem(this.outboxKey(userId), JSON.stringify(queue));
+  }
+
+  private static deleteLocalFile(uri: string) {
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.error('[AttachmentService] Error deleting local file:', error);
+    }
+  }
+
+  /**
+   * Keep a copy of a file on the device and queue it for upload
+   */
+  static async queueUpload(userId: string, taskId: string, file: NewAttachment): Promise<PendingAttachment[]> {
+    const id = Crypto.randomUUID();
+    const directory = new Directory(Paths.document, PENDING_DIRECTORY);
+    directory.create({ idempotent: true, intermediates: true });
+
+    const source = new File(file.uri);
+    const copy = new File(directory, `${id}-${file.name.replace(/[^\w.-]+/g, '_')}`);
+    source.copy(copy);
+
+    const queue = await this.getPendingUploads(userId);
+    const next = [
+      ...queue,
+      {
+        id,
+        taskId,
+        name: file.name,
+        mimeType: file.mimeType,
+        sizeBytes: file.sizeBytes || copy.size,
+        localUri: copy.uri,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      },
+    ];
+    await this.savePendingUploads(userId, next);
+    return next;
+  }
+
+  /**
+   * Drop a queued file before it is uploaded
+   */
+  static async removePendingUpload(userId: string, pendingId: string): Promise<PendingAttachment[]> {
+    const queue = await this.getPendingUploads(userId);
+    const pending = queue.find(item => item.id === pendingId);
+    if (pending) this.deleteLocalFile(pending.localUri);
+
+    const next = queue.filter(item => item.id !== pendingId);
+    await this.savePendingUploads(userId, next);
+    return next;
+  }
+
+  /**
+   * Re-point queued files at a task's server id (used when an offline task is synced)
+   */
+  static async remapTaskId(userId: string, fromTaskId: string, toTaskId: string): Promise<void> {
+    const queue = await this.getPendingUploads(userId);
+    if (!queue.some(item => item.taskId === fromTaskId)) return;
+    await this.savePendingUploads(
+      userId,
+      queue.map(item => (item.taskId === fromTaskId ? { ...item, taskId: toTaskId } : item))
+    );
+  }
+
+  /**
+   * Show a queued file alongside uploaded ones
+   */
+  static toAttachment(userId: string, pending: PendingAttachment): TaskAttachment {
+    return {
+      id: pending.id,
+      taskId: pending.taskId,
+      uploadedBy: userId,
+      name: pending.name,
+      mimeType: pending.mimeType,
+      sizeBytes: pending.sizeBytes,
+      kind: getAttachmentKind(pending.mimeType),
+      uri: pending.localUri,
+      isPending: true,
+      createdAt: pending.createdAt,
+    };
+  }
+
+  /**
+   * Upload queued files. Files for tasks that only exist offline wait until the task is
+   * synced; an upload that keeps failing is dropped after MAX_ATTEMPTS.
+   */
+  static async uploadPending(userId: string): Promise<PendingUploadResult> {
+    const rejected: PendingAttachment[] = [];
+    if (this.uploading) {
+      return { uploaded: 0, remaining: (await this.getPendingUploads(userId)).length, rejected };
+    }
+
+    this.uploading = true;
+    let uploaded = 0;
+    let queue = await this.getPendingUploads(userId);
+
+    try {
+      for (const pending of [...queue]) {
+        // Task ids in storage paths must be server ids
+        if (!UUID_PATTERN.test(pending.taskId)) continue;
+
+        const file = { uri: pending.localUri, name: pending.name, mimeType: pending.mimeType, sizeBytes: pending.sizeBytes };
+        const result = await this.uploadAttachment(userId, pending.taskId, file, pending.id);
+
+        if (result.status === 'failed' && pending.attempts + 1 < MAX_ATTEMPTS) {
+          queue = queue.map(item => (item.id === pending.id ? { ...item, attempts: item.attempts + 1 } : item));
+          await this.savePendingUploads(userId, queue);
+          // Most likely still offline; try the rest next time
+          break;
+        }
+
+        if (result.status === 'uploaded') uploaded++;
+        else if (result.status === 'quota_exceeded') rejected.push(pending);
+        else console.error('[AttachmentService] Dropping upload after repeated failures:', pending);
+
+        this.deleteLocalFile(pending.localUri);
+        queue = queue.filter(item => item.id !== pending.id);
+        await this.savePendingUploads(userId, queue);
+      }
+    } catch (error) {
+      console.error('[AttachmentService] Error uploading queued attachments:', error);
+    } finally {
+      this.uploading = false;
+    }
+
+    return { uploaded, remaining: queue.length, rejected };
+  }
+}
@@ -0,0 +1,96 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { AttachmentKind } from '@/types';
+
+/**
+ * Helpers for picking and describing task attachments
+ */
+
+// Matches the bucket's file_size_limit in supabase/setup.sql
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export type AttachmentSource = 'library' | 'camera' | 'document';
+
+// A file picked on this device, before it is uploaded
+export interface NewAttachment {
+  uri: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+export interface AttachmentQuota {
+  plan: 'free' | 'pro' | 'max';
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  return mimeType.startsWith('image/') ? 'image' : 'document';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1).replace(/\.0$/, '')} GB`;
+}
+
+/**
+ * Whether a file still fits in the quota
+ */
+export function fitsInQuota(quota: AttachmentQuota, sizeBytes: number): boolean {
+  return quota.usedBytes + sizeBytes <= quota.quotaBytes;
+}
+
+/**
+ * Where a file is stored in the bucket: {task id}/{uploader id}/{unique name}. Storage
+ * policies read the task and uploader from the path.
+ */
+export function buildStoragePath(taskId: string, userId: string, id: string, name: string): string {
+  const safeName = name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return `${taskId}/${userId}/${id}-${safeName}`;
+}
+
+function getExtension(mimeType: string): string {
+  const subtype = mimeType.split('/')[1] ?? 'jpg';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+}
+
+/**
+ * Let the user pick a photo, take one, or pick a document. Returns null when they
+ * cancel or don't grant access.
+ */
+export async function pickAttachment(source: AttachmentSource): Promise<NewAttachment | null> {
+  if (source === 'document') {
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    if (result.canceled || !result.assets[0]) return null;
+    const asset = result.assets[0];
+    return {
+      uri: asset.uri,
+      name: asset.name,
+      mimeType: asset.mimeType ?? 'application/octet-stream',
+      sizeBytes: asset.size ?? 0,
+    };
+  }
+
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) return null;
+
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.8 };
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled || !result.assets[0]) return null;
+
+  const asset = result.assets[0];
+  const mimeType = asset.mimeType ?? 'image/jpeg';
+  return {
+    uri: asset.uri,
+    name: asset.fileName ?? `photo-${Date.now()}.${getExtension(mimeType)}`,
+    mimeType,
+    sizeBytes: asset.fileSize ?? 0,
+  };
+}
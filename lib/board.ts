@@ -0,0 +1,129 @@
+import { BoardGroupBy, BoardPreferences, Category, Priority, Project, Task } from '@/types';
+import Colors from '@/constants/colors';
+
+/**
+ * Helpers for the home screen's board view.
+ *
+ * Columns are derived from the tasks and the grouping; moving a card to a column turns
+ * into a task update. Column keys combine the grouping and value ('priority:high',
+ * 'project:none') so collapse state and WIP limits survive switching groupings.
+ */
+
+export interface BoardColumn {
+  key: string;
+  title: string;
+  color: string;
+  tasks: Task[];
+  // null when cards can't be dropped here (e.g. the derived Overdue column)
+  updates: Partial<Task> | null;
+}
+
+export interface BoardContext {
+  projects: Project[];
+  categories: Category[];
+}
+
+export const DEFAULT_BOARD_PREFERENCES: BoardPreferences = {
+  view: 'list',
+  groupBy: 'status',
+  collapsedColumns: [],
+  wipLimits: {},
+};
+
+export const BOARD_GROUPINGS: { value: BoardGroupBy; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'category', label: 'Category' },
+  { value: 'project', label: 'Project' },
+];
+
+const PRIORITY_COLUMNS: { value: Priority; title: string }[] = [
+  { value: 'high', title: 'High' },
+  { value: 'medium', title: 'Medium' },
+  { value: 'low', title: 'Low' },
+  { value: 'none', title: 'No Priority' },
+];
+
+function byDueDate(a: Task, b: Task): number {
+  return (
+    (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+    (a.dueTime ?? '99').localeCompare(b.dueTime ?? '99') ||
+    a.title.localeCompare(b.title)
+  );
+}
+
+/**
+ * Group tasks into board columns. Only the status grouping shows completed tasks.
+ */
+export function buildBoardColumns(tasks: Task[], groupBy: BoardGroupBy, context: BoardContext): BoardColumn[] {
+  const open = tasks.filter(t => t.status !== 'completed');
+
+  const columns: BoardColumn[] = (() => {
+    switch (groupBy) {
+      case 'priority':
+        return PRIORITY_COLUMNS.map(({ value, title }) => ({
+          key: `priority:${value}`,
+          title,
+          color: Colors.priority[value],
+          tasks: open.filter(t => t.priority === value),
+          updates: { priority: value },
+        }));
+
+      case 'category':
+        return context.categories.map(category => ({
+          key: `category:${category.slug}`,
+          title: category.name,
+          color: category.color,
+          tasks: open.filter(t => t.category === category.slug),
+          updates: { category: category.slug },
+        }));
+
+      case 'project':
+        return [
+          {
+            key: 'project:none',
+            title: 'No Project',
+            color: Colors.textTertiary,
+            tasks: open.filter(t => !t.projectId || !context.projects.some(p => p.id === t.projectId)),
+            updates: { projectId: undefined },
+          },
+          ...context.projects.map(project => ({
+            key: `project:${project.id}`,
+            title: project.name,
+            color: project.color,
+            tasks: open.filter(t => t.projectId === project.id),
+            // Tasks can't be moved into a project the user may only view
+            updates: project.permission === 'view' ? null : { projectId: project.id },
+          })),
+        ];
+
+      default:
+        return [
+          {
+            key: 'status:pending',
+            title: 'To Do',
+            color: Colors.status.pending,
+            tasks: tasks.filter(t => t.status === 'pending'),
+            updates: { status: 'pending' as const },
+          },
+          {
+            key: 'status:overdue',
+            title: 'Overdue',
+            color: Colors.status.overdue,
+            tasks: tasks.filter(t => t.status === 'overdue'),
+            // Overdue follows from the due date, so it can't be set directly
+            updates: null,
+          },
+          {
+            key: 'status:completed',
+            title: 'Done',
+            color: Colors.status.completed,
+            tasks: tasks.filter(t => t.status === 'completed'),
+            updates: { status: 'completed' as const },
+          },
+        ];
+    }
+  })();
+
+  return columns.map(column => ({ ...column, tasks: [...column.tasks].sort(byDueDate) }));
+}
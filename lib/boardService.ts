@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import { BoardGroupBy, BoardPreferences, TaskView } from '@/types';
+
+export interface BoardPreferencesRow {
+  user_id: string;
+  view: TaskView;
+  group_by: BoardGroupBy;
+  collapsed_columns: string[] | null;
+  wip_limits: Record<string, number> | null;
+  updated_at?: string;
+}
+
+/**
+ * Board Service for the user's list/board view settings, shared across their devices
+ */
+export class BoardService {
+  /**
+   * Map database row to BoardPreferences type
+   */
+  private static mapToPreferences(row: BoardPreferencesRow): BoardPreferences {
+    return {
+      view: row.view,
+      groupBy: row.group_by,
+      collapsedColumns: row.collapsed_columns || [],
+      wipLimits: row.wip_limits || {},
+    };
+  }
+
+  /**
+   * Get the user's board preferences, or null if they have never changed them
+   */
+  static async getPreferences(userId: string): Promise<BoardPreferences | null> {
+    try {
+      const { data, error } = await supabase
+        .from('board_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[BoardService] Error fetching board preferences:', error);
+        return null;
+      }
+
+      return data ? this.mapToPreferences(data) : null;
+    } catch (error) {
+      console.error('[BoardService] Error in getPreferences:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the user's board preferences
+   */
+  static async savePreferences(userId: string, preferences: BoardPreferences): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('board_preferences')
+        .upsert({
+          user_id: userId,
+          view: preferences.view,
+          group_by: preferences.groupBy,
+          collapsed_columns: preferences.collapsedColumns,
+          wip_limits: preferences.wipLimits,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) {
+        console.error('[BoardService] Error saving board preferences:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[BoardService] Error in savePreferences:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { Task } from '@/types';
+import { addDaysToDateString, normalizeTime, parseLocalDate, toLocalDateString } from './dateUtils';
+
+/**
+ * Helpers for the calendar tab.
+ *
+ * Dates are local YYYY-MM-DD strings throughout (see dateUtils). Tasks have a due time
+ * but no duration, so timed tasks are drawn as fixed-length blocks starting at dueTime.
+ */
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export const CALENDAR_VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+export const TASK_BLOCK_MINUTES = 30;
+export const SLOT_MINUTES = 15;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface TimedTaskLayout {
+  task: Task;
+  startMinutes: number;
+  endMinutes: number;
+  // Side-by-side placement for tasks that overlap
+  column: number;
+  columnCount: number;
+}
+
+/**
+ * Minutes since midnight for an "HH:MM" time
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = (normalizeTime(time) ?? '00:00').split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:MM" for minutes since midnight, snapped to the slot size and kept within the day
+ */
+export function minutesToTime(minutes: number, snap: number = SLOT_MINUTES): string {
+  const snapped = Math.min(Math.max(Math.round(minutes / snap) * snap, 0), 24 * 60 - snap);
+  return `${Math.floor(snapped / 60).toString().padStart(2, '0')}:${(snapped % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * The Sunday-to-Saturday week containing a date
+ */
+export function getWeekDates(dateString: string): string[] {
+  const start = addDaysToDateString(dateString, -parseLocalDate(dateString).getDay());
+  return Array.from({ length: 7 }, (_, i) => addDaysToDateString(start, i));
+}
+
+/**
+ * Weeks covering the month containing a date, padded with days of the adjacent months
+ */
+export function getMonthGrid(dateString: string): string[][] {
+  const date = parseLocalDate(dateString);
+  const first = toLocalDateString(new Date(date.getFullYear(), date.getMonth(), 1));
+  const last = toLocalDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+
+  const weeks: string[][] = [];
+  let week = getWeekDates(first);
+  while (week[0] <= last) {
+    weeks.push(week);
+    week = getWeekDates(addDaysToDateString(week[0], 7));
+  }
+  return weeks;
+}
+
+/**
+ * Shift a date by whole months, clamping the day (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonthsToDateString(dateString: string, months: number): string {
+  const date = parseLocalDate(dateString);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const daysInMonth = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), daysInMonth));
+  return toLocalDateString(target);
+}
+
+/**
+ * Move the anchor date one page back or forward in the given view
+ */
+export function stepCalendar(dateString: string, view: CalendarView, direction: 1 | -1): string {
+  switch (view) {
+    case 'month':
+      return addMonthsToDateString(dateString, direction);
+    case 'week':
+      return addDaysToDateString(dateString, 7 * direction);
+    default:
+      return addDaysToDateString(dateString, direction);
+  }
+}
+
+/**
+ * Header title for the page of the calendar containing the anchor date
+ */
+export function getCalendarTitle(dateString: string, view: CalendarView): string {
+  const date = parseLocalDate(dateString);
+  if (view === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  if (view === 'day') {
+    return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+  }
+
+  const week = getWeekDates(dateString);
+  const start = parseLocalDate(week[0]);
+  const end = parseLocalDate(week[6]);
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const endLabel = end.toLocaleDateString('en-US', {
+    month: start.getMonth() === end.getMonth() ? undefined : 'short',
+    day: 'numeric',
+  });
+  return `${startLabel} – ${endLabel}, ${end.getFullYear()}`;
+}
+
+/**
+ * Tasks with a due date keyed by that date, untimed first and then by time
+ */
+export function groupTasksByDate(tasks: Task[]): Map<string, Task[]> {
+  const byDate = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (!task.dueDate) continue;
+    const list = byDate.get(task.dueDate) ?? [];
+    list.push(task);
+    byDate.set(task.dueDate, list);
+  }
+  byDate.forEach(list =>
+    list.sort((a, b) => (a.dueTime ?? '').localeCompare(b.dueTime ?? '') || a.title.localeCompare(b.title))
+  );
+  return byDate;
+}
+
+/**
+ * Place a day's timed tasks on the timeline. Overlapping tasks share the width.
+ */
+export function layoutTimedTasks(tasks: Task[]): TimedTaskLayout[] {
+  const items = tasks
+    .filter(t => t.dueTime)
+    .map(task => {
+      const startMinutes = timeToMinutes(task.dueTime!);
+      return { task, startMinutes, endMinutes: startMinutes + TASK_BLOCK_MINUTES, column: 0, columnCount: 1 };
+    })
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+
+  // Split into clusters of transitively overlapping tasks, then assign columns greedily
+  let cluster: TimedTaskLayout[] = [];
+  let clusterEnd = -1;
+  const finishCluster = () => {
+    const columnEnds: number[] = [];
+    for (const item of cluster) {
+      const free = columnEnds.findIndex(end => end <= item.startMinutes);
+      item.column = free === -1 ? columnEnds.length : free;
+      columnEnds[item.column] = item.endMinutes;
+    }
+    cluster.forEach(item => { item.columnCount = columnEnds.length; });
+    cluster = [];
+  };
+
+  for (const item of items) {
+    if (item.startMinutes >= clusterEnd) finishCluster();
+    cluster.push(item);
+    clusterEnd = Math.max(clusterEnd, item.endMinutes);
+  }
+  finishCluster();
+
+  return items;
+}
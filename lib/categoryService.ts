@@ -0,0 +1,239 @@
+import { supabase } from './supabase';
+import { Category } from '@/types';
+
+export interface CategoryRow {
+  id: string;
+  user_id: string;
+  slug: string;
+  name: string;
+  color: string;
+  sort_order: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewCategory = Pick<Category, 'name' | 'color'>;
+
+/**
+ * Categories every user starts with. Slugs match the values tasks used
+ * before categories became editable, so existing tasks keep theirs.
+ */
+export const DEFAULT_CATEGORIES: Array<Pick<Category, 'slug' | 'name' | 'color'>> = [
+  { slug: 'work', name: 'Work', color: '#3B82F6' },
+  { slug: 'personal', name: 'Personal', color: '#4CAF50' },
+  { slug: 'health', name: 'Health', color: '#EF4444' },
+  { slug: 'shopping', name: 'Shopping', color: '#F59E0B' },
+  { slug: 'other', name: 'Other', color: '#6B7280' },
+];
+
+export const DEFAULT_CATEGORY_SLUG = 'personal';
+
+/**
+ * Category Service for the user's editable task categories.
+ * Tasks reference a category by slug, which never changes on rename.
+ */
+export class CategoryService {
+  /**
+   * Map database row to Category type
+   */
+  private static mapToCategory(row: CategoryRow): Category {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      color: row.color,
+      sortOrder: row.sort_order,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get the user's categories, seeding the defaults the first time
+   */
+  static async getCategories(userId: string): Promise<Category[]> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('[CategoryService] Error fetching categories:', error);
+        return [];
+      }
+
+      if (!data || data.length === 0) {
+        return await this.seedDefaults(userId);
+      }
+
+      return data.map((row: CategoryRow) => this.mapToCategory(row));
+    } catch (error) {
+      console.error('[CategoryService] Error in getCategories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Insert the default categories for a user who has none yet
+   */
+  private static async seedDefaults(userId: string): Promise<Category[]> {
+    const { data, error } = await supabase
+      .from('categories')
+      .upsert(
+        DEFAULT_CATEGORIES.map((category, index) => ({
+          user_id: userId,
+          slug: category.slug,
+          name: category.name,
+          color: category.color,
+          sort_order: index,
+        })),
+        { onConflict: 'user_id,slug', ignoreDuplicates: true }
+      )
+      .select();
+
+    if (error) {
+      console.error('[CategoryService] Error seeding default categories:', error);
+      return [];
+    }
+
+    return (data || [])
+      .map((row: CategoryRow) => this.mapToCategory(row))
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  /**
+   * Create a category at the end of the user's list
+   */
+  static async createCategory(
+    userId: string,
+    category: NewCategory,
+    existing: Category[]
+  ): Promise<Category | null> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .insert({
+          user_id: userId,
+          slug: this.createSlug(category.name, existing),
+          name: category.name,
+          color: category.color,
+          sort_order: existing.length,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[CategoryService] Error creating category:', error);
+        return null;
+      }
+
+      return this.mapToCategory(data);
+    } catch (error) {
+      console.error('[CategoryService] Error in createCategory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rename or recolor a category. The slug stays the same so tasks are untouched.
+   */
+  static async updateCategory(
+    userId: string,
+    categoryId: string,
+    updates: Partial<Pick<Category, 'name' | 'color' | 'sortOrder'>>
+  ): Promise<Category | null> {
+    try {
+      const updateRow: Partial<CategoryRow> = { updated_at: new Date().toISOString() };
+      if (updates.name !== undefined) updateRow.name = updates.name;
+      if (updates.color !== undefined) updateRow.color = updates.color;
+      if (updates.sortOrder !== undefined) updateRow.sort_order = updates.sortOrder;
+
+      const { data, error } = await supabase
+        .from('categories')
+        .update(updateRow)
+        .eq('id', categoryId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[CategoryService] Error updating category:', error);
+        return null;
+      }
+
+      return this.mapToCategory(data);
+    } catch (error) {
+      console.error('[CategoryService] Error in updateCategory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move every task in one category to another and delete the old one.
+   * Used both for deleting a category and for merging two categories.
+   */
+  static async deleteCategory(userId: string, category: Category, reassignTo: string): Promise<boolean> {
+    try {
+      const { error: tasksError } = await supabase
+        .from('tasks')
+        .update({ category: reassignTo, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('category', category.slug);
+
+      if (tasksError) {
+        // Keep the category so its tasks are not left pointing at nothing
+        console.error('[CategoryService] Error reassigning tasks:', tasksError);
+        return false;
+      }
+
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', category.id)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[CategoryService] Error deleting category:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[CategoryService] Error in deleteCategory:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Build a unique slug for a new category from its name
+   */
+  static createSlug(name: string, existing: Category[]): string {
+    const base =
+      name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'category';
+
+    let slug = base;
+    let suffix = 2;
+    while (existing.some(c => c.slug === slug)) {
+      slug = `${base}-${suffix}`;
+      suffix++;
+    }
+    return slug;
+  }
+
+  /**
+   * Find a category by slug or name, ignoring case (used by the assistant)
+   */
+  static findByName(categories: Category[], name: string): Category | undefined {
+    const needle = name.trim().toLowerCase();
+    return (
+      categories.find(c => c.slug === needle) ||
+      categories.find(c => c.name.toLowerCase() === needle) ||
+      categories.find(c => c.name.toLowerCase().includes(needle))
+    );
+  }
+}
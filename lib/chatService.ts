@@ -94,6 +94,29 @@ export class ChatService {
     }
   }
 
+  /**
+   * Re-point messages linked to a task id (used when an offline task gets its server id)
+   */
+  static async remapTaskId(userId: string, fromTaskId: string, toTaskId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('chat_messages')
+        .update({ task_id: toTaskId })
+        .eq('user_id', userId)
+        .eq('task_id', fromTaskId);
+
+      if (error) {
+        console.error('[ChatService] Error remapping task id:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ChatService] Error in remapTaskId:', error);
+      return false;
+    }
+  }
+
   /**
    * Map database row to ChatMessage type
    */
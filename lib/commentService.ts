@@ -0,0 +1,218 @@
+import { supabase } from './supabase';
+import { TaskComment } from '@/types';
+
+export interface TaskCommentRow {
+  id: string;
+  task_id: string;
+  user_id: string;
+  author_name: string | null;
+  parent_id: string | null;
+  content: string;
+  mentions: string[] | null;
+  created_at: string;
+}
+
+export type NewTaskComment = Pick<TaskComment, 'taskId' | 'content' | 'parentId' | 'mentions'>;
+
+/**
+ * Comment Service for discussion threads on tasks. Anyone who can see a task can
+ * comment on it; read markers per user drive the unread badges.
+ */
+export class CommentService {
+  /**
+   * Map database row to TaskComment type
+   */
+  private static mapToComment(row: TaskCommentRow): TaskComment {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      authorId: row.user_id,
+      authorName: row.author_name || undefined,
+      parentId: row.parent_id || undefined,
+      content: row.content,
+      mentions: row.mentions || [],
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get a task's comments, oldest first
+   */
+  static async getComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[CommentService] Error fetching comments:', error);
+        return [];
+      }
+
+      return (data || []).map((row: TaskCommentRow) => this.mapToComment(row));
+    } catch (error) {
+      console.error('[CommentService] Error in getComments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a single comment, e.g. the one a new reply answers
+   */
+  static async getComment(commentId: string): Promise<TaskComment | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('id', commentId)
+        .single();
+
+      if (error) {
+        console.error('[CommentService] Error fetching comment:', error);
+        return null;
+      }
+
+      return this.mapToComment(data);
+    } catch (error) {
+      console.error('[CommentService] Error in getComment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a comment or a reply
+   */
+  static async addComment(userId: string, comment: NewTaskComment): Promise<TaskComment | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .insert({
+          task_id: comment.taskId,
+          user_id: userId,
+          parent_id: comment.parentId || null,
+          content: comment.content,
+          mentions: comment.mentions,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[CommentService] Error adding comment:', error);
+        return null;
+      }
+
+      return this.mapToComment(data);
+    } catch (error) {
+      console.error('[CommentService] Error in addComment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete one of the user's comments, along with its replies
+   */
+  static async deleteComment(userId: string, commentId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .delete()
+        .eq('id', commentId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[CommentService] Error deleting comment:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[CommentService] Error in deleteComment:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that the user has read a task's comments up to now
+   */
+  static async markRead(userId: string, taskId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('task_comment_reads').upsert(
+        {
+          task_id: taskId,
+          user_id: userId,
+          last_read_at: new Date().toISOString(),
+        },
+        { onConflict: 'task_id,user_id' }
+      );
+
+      if (error) {
+        console.error('[CommentService] Error marking comments read:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[CommentService] Error in markRead:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of unread comments from others, by task id
+   */
+  static async getUnreadCounts(): Promise<Record<string, number>> {
+    try {
+      const { data, error } = await supabase.rpc('get_unread_comment_counts');
+
+      if (error) {
+        console.error('[CommentService] Error fetching unread counts:', error);
+        return {};
+      }
+
+      const counts: Record<string, number> = {};
+      for (const row of (data || []) as { task_id: string; unread_count: number }[]) {
+        counts[row.task_id] = Number(row.unread_count);
+      }
+      return counts;
+    } catch (error) {
+      console.error('[CommentService] Error in getUnreadCounts:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Subscribe to comments on every task the user can see
+   */
+  static subscribeToComments(
+    userId: string,
+    callbacks: {
+      onInsert?: (comment: TaskComment) => void;
+      onDelete?: (commentId: string) => void;
+    }
+  ) {
+    const subscription = supabase
+      .channel(`task_comments:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_comments',
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            callbacks.onInsert?.(this.mapToComment(payload.new as TaskCommentRow));
+          } else if (payload.eventType === 'DELETE') {
+            callbacks.onDelete?.(payload.old.id);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { Friend, TaskComment } from '@/types';
+import { findFriend } from './quickAdd';
+
+/**
+ * Helpers for task comment threads
+ */
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const MENTION_PATTERN = /(^|\s)@([\w.-]+)/g;
+
+export interface CommentThread {
+  comment: TaskComment;
+  replies: TaskComment[];
+}
+
+export interface CommentSegment {
+  text: string;
+  isMention: boolean;
+}
+
+/**
+ * Ids of the friends @mentioned in a comment, matched the same way as quick add
+ */
+export function parseMentions(content: string, friends: Friend[]): string[] {
+  const ids: string[] = [];
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const friend = findFriend(friends, match[2].replace(/[.-]+$/, ''));
+    if (friend && !ids.includes(friend.user.id)) ids.push(friend.user.id);
+  }
+  return ids;
+}
+
+/**
+ * Split a comment into plain text and @mention segments for highlighting
+ */
+export function splitMentions(content: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const handle = match[2].replace(/[.-]+$/, '');
+    const start = match.index! + match[1].length;
+    const end = start + 1 + handle.length;
+    if (start > last) segments.push({ text: content.slice(last, start), isMention: false });
+    segments.push({ text: content.slice(start, end), isMention: true });
+    last = end;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last), isMention: false });
+  return segments;
+}
+
+/**
+ * Group comments into top-level threads, oldest first. Replies stay one level deep:
+ * a reply to a reply joins the thread of the comment it ultimately answers.
+ */
+export function groupCommentThreads(comments: TaskComment[]): CommentThread[] {
+  const byId = new Map(comments.map(c => [c.id, c]));
+  const rootOf = (comment: TaskComment): TaskComment => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parentId && byId.has(current.parentId) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parentId)!;
+    }
+    return current;
+  };
+
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, CommentThread>();
+  for (const comment of sorted) {
+    const root = rootOf(comment);
+    if (root.id === comment.id) {
+      threads.set(comment.id, { comment, replies: threads.get(comment.id)?.replies ?? [] });
+    } else {
+      const thread = threads.get(root.id) ?? { comment: root, replies: [] };
+      thread.replies.push(comment);
+      threads.set(root.id, thread);
+    }
+  }
+  return [...threads.values()];
+}
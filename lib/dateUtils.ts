@@ -0,0 +1,139 @@
+import { Task, TaskStatus } from '@/types';
+
+/**
+ * Date utilities that work in the device's local timezone.
+ *
+ * Task due dates are stored as calendar dates (YYYY-MM-DD) and due times as wall-clock
+ * times (HH:MM), both meant in the user's timezone. Never derive "today" from
+ * toISOString(): that is the UTC date and is wrong in the evening in the Americas.
+ */
+
+export type TaskDateBucket = 'overdue' | 'today' | 'upcoming' | 'unscheduled' | 'completed';
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Format a Date as a local calendar date (YYYY-MM-DD)
+ */
+export function toLocalDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Format a Date as a local wall-clock time (HH:MM)
+ */
+export function toLocalTimeString(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Today's local calendar date (YYYY-MM-DD)
+ */
+export function getTodayDateString(now: Date = new Date()): string {
+  return toLocalDateString(now);
+}
+
+/**
+ * Parse a YYYY-MM-DD string as local midnight (new Date('YYYY-MM-DD') would be UTC midnight)
+ */
+export function parseLocalDate(dateString: string): Date {
+  const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const date = parseLocalDate(dateString);
+  date.setDate(date.getDate() + days);
+  return toLocalDateString(date);
+}
+
+/**
+ * Normalize a stored time ("HH:MM" or Postgres "HH:MM:SS") to "HH:MM"
+ */
+export function normalizeTime(time?: string): string | undefined {
+  if (!time) return undefined;
+  const [hours, minutes = '00'] = time.split(':');
+  return `${pad(parseInt(hours, 10))}:${pad(parseInt(minutes, 10))}`;
+}
+
+/**
+ * Combine a local date and optional time into a Date
+ */
+export function combineLocalDateTime(dateString: string, time?: string): Date {
+  const date = parseLocalDate(dateString);
+  const normalized = normalizeTime(time);
+  if (normalized) {
+    const [hours, minutes] = normalized.split(':').map(Number);
+    date.setHours(hours, minutes, 0, 0);
+  }
+  return date;
+}
+
+/**
+ * Start of the local day containing `now`
+ */
+export function startOfLocalDay(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/**
+ * Whether an ISO timestamp falls on the same local calendar day as `now`
+ */
+export function isSameLocalDay(isoString: string | undefined, now: Date = new Date()): boolean {
+  if (!isoString) return false;
+  return toLocalDateString(new Date(isoString)) === toLocalDateString(now);
+}
+
+/**
+ * The moment a task becomes overdue: its due time, or the end of its due day when untimed
+ */
+export function getTaskDeadline(task: Pick<Task, 'dueDate' | 'dueTime'>): Date | null {
+  if (!task.dueDate) return null;
+  if (task.dueTime) return combineLocalDateTime(task.dueDate, task.dueTime);
+  const endOfDay = parseLocalDate(task.dueDate);
+  endOfDay.setDate(endOfDay.getDate() + 1);
+  return endOfDay;
+}
+
+/**
+ * Whether an incomplete task has passed its deadline
+ */
+export function isTaskOverdue(task: Pick<Task, 'dueDate' | 'dueTime' | 'status'>, now: Date = new Date()): boolean {
+  if (task.status === 'completed') return false;
+  const deadline = getTaskDeadline(task);
+  return !!deadline && deadline.getTime() <= now.getTime();
+}
+
+/**
+ * Status implied by the task's deadline; completed tasks stay completed
+ */
+export function deriveTaskStatus(task: Pick<Task, 'dueDate' | 'dueTime' | 'status'>, now: Date = new Date()): TaskStatus {
+  if (task.status === 'completed') return 'completed';
+  return isTaskOverdue(task, now) ? 'overdue' : 'pending';
+}
+
+/**
+ * Return the task with its derived status (same object when nothing changed)
+ */
+export function withDerivedStatus<T extends Task>(task: T, now: Date = new Date()): T {
+  const status = deriveTaskStatus(task, now);
+  return status === task.status ? task : { ...task, status };
+}
+
+/**
+ * Which home tab a task belongs to
+ */
+export function getTaskDateBucket(task: Task, now: Date = new Date()): TaskDateBucket {
+  if (task.status === 'completed') return 'completed';
+  if (!task.dueDate) return 'unscheduled';
+  if (isTaskOverdue(task, now)) return 'overdue';
+
+  const today = getTodayDateString(now);
+  if (task.dueDate === today) return 'today';
+  return task.dueDate > today ? 'upcoming' : 'overdue';
+}
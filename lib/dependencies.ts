@@ -0,0 +1,74 @@
+import { Task, TaskBlocker } from '@/types';
+
+/**
+ * Helpers for "blocked by" links between tasks.
+ *
+ * A task stores the ids of the tasks it waits on in `blockedBy`. It is blocked while any
+ * of those is not completed; completing the last blocker unblocks it without touching the
+ * dependent task. Blockers the user can't see directly (e.g. the owner's private task behind
+ * a shared one) are resolved through `TaskService.getHiddenBlockers`.
+ */
+
+/**
+ * Would making `taskId` wait on `blockerId` create a cycle?
+ * True if the blocker already waits (directly or indirectly) on the task.
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  if (taskId === blockerId) return true;
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const visited = new Set<string>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(byId.get(current)?.blockedBy ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Tasks that could block `task` without creating a cycle
+ */
+export function getBlockerCandidates(tasks: Task[], task: Task): Task[] {
+  const current = new Set(task.blockedBy ?? []);
+  return tasks.filter(t =>
+    t.id !== task.id &&
+    !current.has(t.id) &&
+    t.status !== 'completed' &&
+    !wouldCreateCycle(tasks, task.id, t.id)
+  );
+}
+
+/**
+ * Resolve a task's blockers, preferring the full task when it's in the user's list
+ */
+export function getBlockers(task: Task, tasksById: Map<string, Task>, hidden: Map<string, TaskBlocker>): TaskBlocker[] {
+  return (task.blockedBy ?? []).flatMap(id => {
+    const blocker = tasksById.get(id);
+    if (blocker) {
+      return [{ id, title: blocker.title, isCompleted: blocker.status === 'completed' }];
+    }
+    const summary = hidden.get(id);
+    return summary ? [summary] : [];
+  });
+}
+
+/**
+ * Tasks that wait on `taskId` and have no other open blocker
+ */
+export function getUnblockedDependents(
+  tasks: Task[],
+  taskId: string,
+  isOpen: (blockerId: string) => boolean
+): Task[] {
+  return tasks.filter(t =>
+    t.status !== 'completed' &&
+    t.blockedBy?.includes(taskId) &&
+    t.blockedBy.every(id => id === taskId || !isOpen(id))
+  );
+}
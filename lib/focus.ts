@@ -0,0 +1,143 @@
+/**
+ * Pomodoro cycles for focus mode.
+ *
+ * A session alternates work and break phases; every `cyclesBeforeLongBreak`th break is a
+ * long one. Phases are stored with their start and end timestamps so the session keeps
+ * running (and can be caught up) while the app is closed.
+ */
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface FocusSession {
+  taskId: string;
+  settings: FocusSettings;
+  phase: FocusPhase;
+  // Work phases started so far, counting the current one
+  cycle: number;
+  phaseStartedAt: string;
+  phaseEndsAt: string;
+  // Seconds left in the phase while paused
+  pausedRemaining?: number;
+}
+
+export interface FocusInterval {
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface FocusBoundary {
+  // The phase that starts at this time
+  phase: FocusPhase;
+  at: Date;
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+export const FOCUS_PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+};
+
+export function getPhaseMinutes(settings: FocusSettings, phase: FocusPhase): number {
+  if (phase === 'work') return settings.workMinutes;
+  return phase === 'longBreak' ? settings.longBreakMinutes : settings.shortBreakMinutes;
+}
+
+function beginPhase(
+  session: Omit<FocusSession, 'phaseStartedAt' | 'phaseEndsAt' | 'pausedRemaining'>,
+  at: Date
+): FocusSession {
+  const minutes = getPhaseMinutes(session.settings, session.phase);
+  return {
+    ...session,
+    phaseStartedAt: at.toISOString(),
+    phaseEndsAt: new Date(at.getTime() + minutes * 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Start a session on its first work phase
+ */
+export function startFocusSession(taskId: string, settings: FocusSettings, now: Date = new Date()): FocusSession {
+  return beginPhase({ taskId, settings, phase: 'work', cycle: 1 }, now);
+}
+
+/**
+ * Move on to the phase after the current one, starting at `at`
+ */
+export function advanceFocusSession(session: FocusSession, at: Date = new Date()): FocusSession {
+  if (session.phase !== 'work') {
+    return beginPhase({ ...session, phase: 'work', cycle: session.cycle + 1 }, at);
+  }
+  const isLong = session.cycle % session.settings.cyclesBeforeLongBreak === 0;
+  return beginPhase({ ...session, phase: isLong ? 'longBreak' : 'shortBreak' }, at);
+}
+
+/**
+ * Seconds left in the current phase
+ */
+export function getRemainingSeconds(session: FocusSession, now: Date = new Date()): number {
+  if (session.pausedRemaining !== undefined) return session.pausedRemaining;
+  return Math.max(0, Math.ceil((new Date(session.phaseEndsAt).getTime() - now.getTime()) / 1000));
+}
+
+export function pauseFocusSession(session: FocusSession, now: Date = new Date()): FocusSession {
+  if (session.pausedRemaining !== undefined) return session;
+  return { ...session, pausedRemaining: getRemainingSeconds(session, now) };
+}
+
+export function resumeFocusSession(session: FocusSession, now: Date = new Date()): FocusSession {
+  if (session.pausedRemaining === undefined) return session;
+  const { pausedRemaining, ...rest } = session;
+  return { ...rest, phaseEndsAt: new Date(now.getTime() + pausedRemaining * 1000).toISOString() };
+}
+
+/**
+ * Advance through every phase that ended by `now`, returning the work phases that
+ * completed along the way. Work time is counted back from the phase end, so time spent
+ * paused isn't included.
+ */
+export function catchUpFocusSession(
+  session: FocusSession,
+  now: Date = new Date()
+): { session: FocusSession; completedWork: FocusInterval[] } {
+  const completedWork: FocusInterval[] = [];
+  let current = session;
+  while (current.pausedRemaining === undefined && new Date(current.phaseEndsAt) <= now) {
+    const endedAt = new Date(current.phaseEndsAt);
+    if (current.phase === 'work') {
+      const startedAt = new Date(endedAt.getTime() - current.settings.workMinutes * 60 * 1000);
+      completedWork.push({ startedAt: startedAt.toISOString(), endedAt: endedAt.toISOString() });
+    }
+    current = advanceFocusSession(current, endedAt);
+  }
+  return { session: current, completedWork };
+}
+
+/**
+ * The next `count` phase changes, for scheduling notifications ahead of time
+ */
+export function getUpcomingBoundaries(session: FocusSession, count: number): FocusBoundary[] {
+  if (session.pausedRemaining !== undefined) return [];
+  const boundaries: FocusBoundary[] = [];
+  let current = session;
+  for (let i = 0; i < count; i++) {
+    const at = new Date(current.phaseEndsAt);
+    current = advanceFocusSession(current, at);
+    boundaries.push({ phase: current.phase, at });
+  }
+  return boundaries;
+}
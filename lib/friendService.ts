@@ -251,7 +251,7 @@ export class FriendService {
   /**
    * Get user by ID
    */
-  private static async getUserById(userId: string): Promise<User | null> {
+  static async getUserById(userId: string): Promise<User | null> {
     try {
       const { data, error } = await supabase
         .from('profiles')
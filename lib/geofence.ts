@@ -0,0 +1,136 @@
+/**
+ * Geofence evaluation for location reminders. Everything here works on plain
+ * coordinates so transitions can be worked out without a device or GPS.
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceRegion extends Coordinates {
+  id: string;
+  radiusMeters: number;
+}
+
+// A location fix; accuracy is the radius of uncertainty in meters, when known
+export interface LocationFix extends Coordinates {
+  accuracy?: number | null;
+}
+
+export type GeofenceTransition = 'enter' | 'exit';
+
+export interface GeofenceEvent {
+  regionId: string;
+  transition: GeofenceTransition;
+}
+
+// Whether the user was last inside each region; regions that are missing haven't been seen yet
+export type GeofenceState = Record<string, boolean>;
+
+export interface GeofenceEvaluation {
+  state: GeofenceState;
+  events: GeofenceEvent[];
+}
+
+export const MIN_GEOFENCE_RADIUS_METERS = 50;
+export const MAX_GEOFENCE_RADIUS_METERS = 5000;
+
+// Leaving only counts this far past the edge, so a fix jittering around the boundary
+// doesn't fire arrive and leave over and over
+export const EXIT_MARGIN_METERS = 50;
+
+// Fixes less precise than this are too rough to decide anything
+export const MAX_FIX_ACCURACY_METERS = 200;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function clampRadius(radiusMeters: number): number {
+  return Math.min(MAX_GEOFENCE_RADIUS_METERS, Math.max(MIN_GEOFENCE_RADIUS_METERS, Math.round(radiusMeters)));
+}
+
+/**
+ * Whether a fix is inside a region. Someone already inside stays inside until they are
+ * EXIT_MARGIN_METERS past the edge.
+ */
+export function isInsideRegion(fix: Coordinates, region: GeofenceRegion, wasInside = false): boolean {
+  const distance = distanceInMeters(fix, region);
+  return distance <= region.radiusMeters + (wasInside ? EXIT_MARGIN_METERS : 0);
+}
+
+/**
+ * Compare a new fix with where the user was last seen. The first fix for a region only
+ * records whether the user is inside it: someone who sets "remind me when I arrive"
+ * while already there hasn't arrived.
+ */
+export function evaluateGeofences(
+  regions: GeofenceRegion[],
+  previous: GeofenceState,
+  fix: LocationFix
+): GeofenceEvaluation {
+  const state: GeofenceState = {};
+  for (const region of regions) {
+    if (region.id in previous) state[region.id] = previous[region.id];
+  }
+
+  if (fix.accuracy != null && fix.accuracy > MAX_FIX_ACCURACY_METERS) {
+    return { state, events: [] };
+  }
+
+  const events: GeofenceEvent[] = [];
+  for (const region of regions) {
+    const known = region.id in previous;
+    const wasInside = known && previous[region.id];
+    const inside = isInsideRegion(fix, region, wasInside);
+    state[region.id] = inside;
+
+    if (!known || inside === wasInside) continue;
+    events.push({ regionId: region.id, transition: inside ? 'enter' : 'exit' });
+  }
+
+  return { state, events };
+}
+
+/**
+ * Apply an enter or exit reported by the OS. As with fixes, the first report for a region
+ * only records the state (the OS reports the regions the user is in when monitoring
+ * starts), and a repeat of the current state is ignored.
+ */
+export function applyGeofenceEvent(previous: GeofenceState, event: GeofenceEvent): GeofenceEvaluation {
+  const inside = event.transition === 'enter';
+  const state = { ...previous, [event.regionId]: inside };
+  if (!(event.regionId in previous) || previous[event.regionId] === inside) {
+    return { state, events: [] };
+  }
+  return { state, events: [event] };
+}
+
+/**
+ * Reminders set off by a batch of events: arrive reminders on entering their place and
+ * leave reminders on exiting it
+ */
+export function getTriggeredReminders<T extends { placeId: string; triggerOn: 'arrive' | 'leave' }>(
+  reminders: T[],
+  events: GeofenceEvent[]
+): T[] {
+  return reminders.filter(reminder =>
+    events.some(event =>
+      event.regionId === reminder.placeId &&
+      event.transition === (reminder.triggerOn === 'arrive' ? 'enter' : 'exit')
+    )
+  );
+}
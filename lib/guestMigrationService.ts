@@ -0,0 +1,82 @@
+import { Task } from '@/types';
+import { TaskService } from './taskService';
+import { ReminderService } from './reminderService';
+import { getTaskDeadline } from './dateUtils';
+
+export interface GuestImportResult {
+  imported: number;
+  skipped: number;
+  failed: Task[];
+}
+
+/**
+ * Guest Migration Service: moves tasks created before signing in into the account
+ */
+export class GuestMigrationService {
+  /**
+   * Key used to match a guest task against tasks already in the account
+   */
+  private static dedupeKey(task: Pick<Task, 'title' | 'dueDate'>): string {
+    return `${task.title.trim().toLowerCase()}|${task.dueDate || ''}`;
+  }
+
+  /**
+   * Guest tasks that are not already in the account
+   */
+  static findNewTasks(guestTasks: Task[], existingTasks: Task[]): Task[] {
+    const existing = new Set(existingTasks.map(task => this.dedupeKey(task)));
+    const seen = new Set<string>();
+
+    return guestTasks.filter(task => {
+      const key = this.dedupeKey(task);
+      if (existing.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Upload guest tasks to the account, skipping duplicates.
+   * Tasks that fail to upload are returned so they can stay on the device for a retry.
+   */
+  static async importTasks(userId: string, guestTasks: Task[]): Promise<GuestImportResult> {
+    const existingTasks = await TaskService.getTasks(userId);
+    if (!existingTasks) {
+      // Without the account's tasks there's no telling what would be a duplicate
+      return { imported: 0, skipped: 0, failed: guestTasks };
+    }
+
+    const newTasks = this.findNewTasks(guestTasks, existingTasks);
+    const failed: Task[] = [];
+    const now = new Date();
+
+    for (const task of newTasks) {
+      const { id, createdAt, ...fields } = task;
+      const created = await TaskService.createTask(userId, fields);
+
+      if (!created) {
+        console.error('[GuestMigrationService] Failed to import task:', id);
+        failed.push(task);
+        continue;
+      }
+
+      // Only upcoming work needs reminders; past and completed tasks are history
+      const deadline = getTaskDeadline(created);
+      if (created.status !== 'completed' && deadline && deadline.getTime() > now.getTime()) {
+        await ReminderService.createDefaultReminders(
+          userId,
+          created.id,
+          created.dueDate,
+          created.dueTime,
+          created.isRecurring ? 'recurring' : 'due_date'
+        );
+      }
+    }
+
+    return {
+      imported: newTasks.length - failed.length,
+      skipped: guestTasks.length - newTasks.length,
+      failed,
+    };
+  }
+}
@@ -0,0 +1,262 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { LocationReminder, LocationTrigger, SavedPlace, Task } from '@/types';
+import { ReminderService } from './reminderService';
+import { NotificationService } from './notificationService';
+import {
+  GeofenceEvaluation,
+  GeofenceEvent,
+  GeofenceRegion,
+  GeofenceState,
+  LocationFix,
+  applyGeofenceEvent,
+  evaluateGeofences,
+  getTriggeredReminders,
+} from './geofence';
+
+export const GEOFENCE_TASK = 'taskify-location-reminders';
+
+const MONITOR_KEY = 'taskify_location_monitor';
+// iOS watches at most 20 regions per app
+const MAX_MONITORED_REGIONS = 20;
+
+// A reminder being watched, with what its notification needs so the background task
+// doesn't have to reach the server
+export interface MonitoredReminder {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  placeId: string;
+  placeName: string;
+  triggerOn: LocationTrigger;
+}
+
+interface MonitorState {
+  userId: string;
+  regions: GeofenceRegion[];
+  reminders: MonitoredReminder[];
+  geofence: GeofenceState;
+  // Reminders that fired but haven't been marked sent on the server yet
+  firedIds: string[];
+}
+
+/**
+ * Location Reminder Service: watches the user's saved places with OS geofencing and
+ * sends a task's reminder on arriving at or leaving its place. What is watched is
+ * cached on the device, since geofence events can wake the app in the background.
+ */
+export class LocationReminderService {
+  private static async getState(): Promise<MonitorState | null> {
+    try {
+      const stored = await AsyncStorage.getItem(MONITOR_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('[LocationReminderService] Error reading monitor state:', error);
+      return null;
+    }
+  }
+
+  private static async saveState(state: MonitorState) {
+    await AsyncStorage.setItem(MONITOR_KEY, JSON.stringify(state));
+  }
+
+  /**
+   * Ask for location access. Reminders need "always" access to fire while the app is
+   * closed; with foreground access alone they are checked whenever the app is opened.
+   */
+  static async requestPermissions(): Promise<boolean> {
+    try {
+      const foreground = await Location.requestForegroundPermissionsAsync();
+      if (!foreground.granted) return false;
+
+      await Location.requestBackgroundPermissionsAsync();
+      return true;
+    } catch (error) {
+      console.error('[LocationReminderService] Error requesting permissions:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Reminders worth watching: those on open tasks at places that still exist
+   */
+  static getMonitoredReminders(
+    reminders: LocationReminder[],
+    places: SavedPlace[],
+    tasksById: Map<string, Task>
+  ): MonitoredReminder[] {
+    return reminders.flatMap(reminder => {
+      const task = tasksById.get(reminder.taskId);
+      const place = places.find(p => p.id === reminder.placeId);
+      if (!task || task.status === 'completed' || !place) return [];
+      return [{
+        id: reminder.id,
+        taskId: task.id,
+        taskTitle: task.title,
+        placeId: place.id,
+        placeName: place.name,
+        triggerOn: reminder.triggerOn,
+      }];
+    });
+  }
+
+  /**
+   * Watch the places that have reminders, replacing whatever was watched before
+   */
+  static async syncMonitoring(userId: string, places: SavedPlace[], reminders: MonitoredReminder[]): Promise<void> {
+    try {
+      const previous = await this.getState();
+      let firedIds = previous?.userId === userId ? previous.firedIds : [];
+      if (firedIds.length > 0 && await ReminderService.markRemindersSent(userId, firedIds)) {
+        firedIds = [];
+      }
+
+      const pending = reminders.filter(r => !firedIds.includes(r.id));
+      const regions: GeofenceRegion[] = places
+        .filter(place => pending.some(r => r.placeId === place.id))
+        .slice(0, MAX_MONITORED_REGIONS)
+        .map(place => ({
+          id: place.id,
+          latitude: place.latitude,
+          longitude: place.longitude,
+          radiusMeters: place.radiusMeters,
+        }));
+
+      const geofence: GeofenceState = {};
+      for (const region of regions) {
+        if (previous?.userId === userId && region.id in previous.geofence) {
+          geofence[region.id] = previous.geofence[region.id];
+        }
+      }
+
+      await this.saveState({ userId, regions, reminders: pending, geofence, firedIds });
+
+      const isWatching = await Location.hasStartedGeofencingAsync(GEOFENCE_TASK);
+      if (regions.length === 0) {
+        if (isWatching) await Location.stopGeofencingAsync(GEOFENCE_TASK);
+        return;
+      }
+
+      const { granted } = await Location.getBackgroundPermissionsAsync();
+      if (!granted) return;
+
+      await Location.startGeofencingAsync(
+        GEOFENCE_TASK,
+        regions.map(region => ({
+          identifier: region.id,
+          latitude: region.latitude,
+          longitude: region.longitude,
+          radius: region.radiusMeters,
+          notifyOnEnter: true,
+          notifyOnExit: true,
+        }))
+      );
+    } catch (error) {
+      console.error('[LocationReminderService] Error syncing monitored places:', error);
+    }
+  }
+
+  /**
+   * Stop watching places, e.g. on sign out
+   */
+  static async stopMonitoring(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(MONITOR_KEY);
+      if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+        await Location.stopGeofencingAsync(GEOFENCE_TASK);
+      }
+    } catch (error) {
+      console.error('[LocationReminderService] Error stopping monitoring:', error);
+    }
+  }
+
+  /**
+   * Send the reminders set off by a transition and stop watching for them
+   */
+  private static async applyEvaluation(state: MonitorState, evaluation: GeofenceEvaluation): Promise<number> {
+    const triggered = getTriggeredReminders(state.reminders, evaluation.events);
+
+    for (const reminder of triggered) {
+      await NotificationService.sendLocationReminderNotification(
+        state.userId,
+        reminder.taskId,
+        reminder.taskTitle,
+        reminder.placeName,
+        reminder.triggerOn
+      );
+    }
+
+    const firedIds = [...state.firedIds, ...triggered.map(r => r.id)];
+    await this.saveState({
+      ...state,
+      reminders: state.reminders.filter(r => !firedIds.includes(r.id)),
+      geofence: evaluation.state,
+      firedIds,
+    });
+
+    if (triggered.length > 0 && await ReminderService.markRemindersSent(state.userId, firedIds)) {
+      await this.saveState({ ...(await this.getState())!, firedIds: [] });
+    }
+    return triggered.length;
+  }
+
+  /**
+   * Handle an enter or exit reported by the OS
+   */
+  static async handleGeofenceEvent(event: GeofenceEvent): Promise<number> {
+    const state = await this.getState();
+    if (!state) return 0;
+    return this.applyEvaluation(state, applyGeofenceEvent(state.geofence, event));
+  }
+
+  /**
+   * Check a location fix against the watched places
+   */
+  static async handleLocation(fix: LocationFix): Promise<number> {
+    const state = await this.getState();
+    if (!state || state.regions.length === 0) return 0;
+    return this.applyEvaluation(state, evaluateGeofences(state.regions, state.geofence, fix));
+  }
+
+  /**
+   * Check where the user is now, to catch transitions the OS didn't report (or can't,
+   * without "always" location access). Returns the number of reminders sent.
+   */
+  static async checkCurrentLocation(): Promise<number> {
+    try {
+      const state = await this.getState();
+      if (!state || state.regions.length === 0) return 0;
+
+      const { granted } = await Location.getForegroundPermissionsAsync();
+      if (!granted) return 0;
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      return await this.handleLocation({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      });
+    } catch (error) {
+      console.error('[LocationReminderService] Error checking current location:', error);
+      return 0;
+    }
+  }
+}
+
+// Geofence events can start the app in the background, so the task is defined at load
+TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+  GEOFENCE_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('[LocationReminderService] Geofencing error:', error);
+      return;
+    }
+    if (!data?.region.identifier) return;
+
+    await LocationReminderService.handleGeofenceEvent({
+      regionId: data.region.identifier,
+      transition: data.eventType === Location.GeofencingEventType.Enter ? 'enter' : 'exit',
+    });
+  }
+);
@@ -0,0 +1,519 @@
+import {
+  RecurrenceRule,
+  Weekday,
+  describeRecurrence,
+  formatRecurrence,
+  parseRecurrence,
+} from './recurrence';
+import { addDaysToDateString, getTodayDateString, parseLocalDate, toLocalDateString } from './dateUtils';
+import { addMonthsToDateString } from './calendar';
+
+/**
+ * Natural-language due dates, parsed on the device.
+ *
+ * Understands phrases like "tomorrow 9am", "next Friday at 3pm", "in 2 weeks", "in 1 hour",
+ * "Oct 23", "the 15th", "end of month" and repeats like "every other Monday" or "every 3 days".
+ * Phrases can be embedded in a task title ("Pay rent every month on the 1st"); whatever isn't
+ * a date phrase is returned as the remainder. A weekday only counts as a date after a word
+ * like "on" or "next", or at the end ("Call mom Friday"), so "Fix bug in Monday release"
+ * keeps its title.
+ */
+
+export interface NaturalDateResult {
+  dueDate?: string;
+  dueTime?: string;
+  // RRULE, as stored in Task.recurringPattern
+  recurringPattern?: string;
+  // The input without the recognized phrases
+  remainder: string;
+  // The recognized phrases, in input order
+  matches: NaturalDateMatch[];
+  // Repeats that weren't understood, e.g. "every 2nd Tuesday"; they stay in the remainder
+  unparsed: NaturalDateMatch[];
+}
+
+export interface NaturalDateMatch {
+  text: string;
+  // Offsets into the input, end exclusive
+  start: number;
+  end: number;
+}
+
+const WEEKDAY_CODES: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_WORDS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tues: 2, tue: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thurs: 4, thur: 4, thu: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTH_WORDS: Record<string, number> = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sept: 8, sep: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const TIME_OF_DAY: Record<string, string> = {
+  morning: '09:00',
+  noon: '12:00',
+  midday: '12:00',
+  afternoon: '15:00',
+  evening: '18:00',
+  tonight: '20:00',
+  night: '20:00',
+  midnight: '00:00',
+};
+
+// Longest alternatives first so "tuesday" isn't matched as "tue"
+const alternatives = (words: Record<string, unknown>) =>
+  Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+
+const WEEKDAY = `(?:${alternatives(WEEKDAY_WORDS)})`;
+const FULL_WEEKDAY = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const MONTH = `(?:${alternatives(MONTH_WORDS)})\\.?`;
+const COUNT = `(?:\\d+|${alternatives(NUMBER_WORDS)})`;
+const UNIT = '(?:day|week|month|year)s?';
+const CLOCK_UNIT = '(minute|min|hour|hr)s?';
+const ORDINAL_WORD = '(?:\\d+(?:st|nd|rd|th)|first|second|third|fourth|fifth|last)';
+const ORDINAL_DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const WEEKDAY_LIST = `${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*`;
+
+interface Rule {
+  pattern: RegExp;
+  apply: (match: RegExpMatchArray, state: ParseState) => boolean;
+  // The phrase is set aside as not understood rather than read
+  unparsed?: boolean;
+}
+
+interface ParseState {
+  now: Date;
+  today: string;
+  dueDate?: string;
+  dueTime?: string;
+  recurrence?: RecurrenceRule;
+}
+
+function toNumber(word: string): number {
+  return NUMBER_WORDS[word] ?? parseInt(word, 10);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function weekdaysIn(list: string): number[] {
+  return [...new Set(
+    list.split(/\s*(?:,|and|&)\s*|\s+/).filter(w => w in WEEKDAY_WORDS).map(w => WEEKDAY_WORDS[w])
+  )];
+}
+
+/**
+ * The first date on or after `from` that falls on one of the weekdays
+ */
+function nextWeekday(from: string, weekdays: number[], includeFrom: boolean): string {
+  for (let offset = includeFrom ? 0 : 1; offset <= 7; offset++) {
+    const date = addDaysToDateString(from, offset);
+    if (weekdays.includes(parseLocalDate(date).getDay())) return date;
+  }
+  return from;
+}
+
+/**
+ * The next date with this day of the month, on or after `from`
+ */
+function nextMonthDay(from: string, day: number): string {
+  const start = parseLocalDate(from);
+  for (let monthOffset = 0; monthOffset < 12; monthOffset++) {
+    const candidate = new Date(start.getFullYear(), start.getMonth() + monthOffset, day);
+    if (candidate.getDate() === day && toLocalDateString(candidate) >= from) {
+      return toLocalDateString(candidate);
+    }
+  }
+  return from;
+}
+
+/**
+ * A calendar date from parts; without a year, the next such date from today
+ */
+function calendarDate(today: string, month: number, day: number, year?: number): string | undefined {
+  const thisYear = parseLocalDate(today).getFullYear();
+  const fullYear = year !== undefined && year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear ?? thisYear, month, day);
+  if (date.getDate() !== day || date.getMonth() !== month) return undefined;
+  if (fullYear === undefined && toLocalDateString(date) < today) {
+    date.setFullYear(thisYear + 1);
+  }
+  return toLocalDateString(date);
+}
+
+function addUnits(date: string, amount: number, unit: string): string {
+  if (unit.startsWith('day')) return addDaysToDateString(date, amount);
+  if (unit.startsWith('week')) return addDaysToDateString(date, amount * 7);
+  if (unit.startsWith('month')) return addMonthsToDateString(date, amount);
+  return addMonthsToDateString(date, amount * 12);
+}
+
+function setTime(state: ParseState, hours: number, minutes: number, meridiem?: string): boolean {
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return false;
+    if (meridiem.startsWith('p') && hours !== 12) hours += 12;
+    if (meridiem.startsWith('a') && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return false;
+  state.dueTime = `${pad(hours)}:${pad(minutes)}`;
+  return true;
+}
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceRule['frequency']> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+// Rules run in order and each phrase is consumed once matched, so repeats are read
+// before the plain weekdays and dates inside them.
+const RULES: Rule[] = [
+  {
+    // every weekday / every weekend
+    pattern: /\bevery\s+(weekday|weekend)s?\b/,
+    apply: (m, state) => {
+      const days = m[1] === 'weekday' ? ['MO', 'TU', 'WE', 'TH', 'FR'] : ['SA', 'SU'];
+      state.recurrence = { frequency: 'WEEKLY', interval: 1, byDay: days.map(d => ({ weekday: d as Weekday })) };
+      return true;
+    },
+  },
+  {
+    // every other Monday, every 2 weeks on Tue and Thu, every Friday
+    pattern: new RegExp(`\\bevery\\s+(?:(other)\\s+|(${COUNT})\\s+weeks?\\s+on\\s+)?(${WEEKDAY_LIST})\\b`),
+    apply: (m, state) => {
+      const interval = m[1] ? 2 : m[2] ? toNumber(m[2]) : 1;
+      const days = weekdaysIn(m[3]);
+      state.recurrence = {
+        frequency: 'WEEKLY',
+        interval,
+        byDay: days.map(d => ({ weekday: WEEKDAY_CODES[d] })),
+      };
+      return true;
+    },
+  },
+  {
+    // every month on the 15th
+    pattern: new RegExp(`\\bevery\\s+(?:(other|${COUNT})\\s+)?months?\\s+on\\s+the\\s+${ORDINAL_DAY}\\b`),
+    apply: (m, state) => {
+      const day = parseInt(m[2], 10);
+      if (day < 1 || day > 31) return false;
+      const interval = m[1] === 'other' ? 2 : m[1] ? toNumber(m[1]) : 1;
+      state.recurrence = { frequency: 'MONTHLY', interval, byMonthDay: [day] };
+      return true;
+    },
+  },
+  {
+    // every day, every other week, every 3 months
+    pattern: new RegExp(`\\bevery\\s+(?:(other|${COUNT})\\s+)?(${UNIT})\\b`),
+    apply: (m, state) => {
+      const interval = m[1] === 'other' ? 2 : m[1] ? toNumber(m[1]) : 1;
+      state.recurrence = { frequency: UNIT_FREQUENCIES[m[2].replace(/s$/, '')], interval };
+      return true;
+    },
+  },
+  {
+    // Any other repeat, e.g. "every 2nd Tuesday"; kept out of the weekday and date rules below
+    pattern: new RegExp(`\\bevery\\s+(?:(?:${ORDINAL_WORD}|other|${COUNT}|of|the)\\s+)+(?:${WEEKDAY}|${UNIT}|weekdays?|weekends?)\\b`),
+    apply: () => true,
+    unparsed: true,
+  },
+  {
+    pattern: /\b(daily|weekly|biweekly|fortnightly|monthly|yearly|annually)\b/,
+    apply: (m, state) => {
+      const rules: Record<string, RecurrenceRule> = {
+        daily: { frequency: 'DAILY', interval: 1 },
+        weekly: { frequency: 'WEEKLY', interval: 1 },
+        biweekly: { frequency: 'WEEKLY', interval: 2 },
+        fortnightly: { frequency: 'WEEKLY', interval: 2 },
+        monthly: { frequency: 'MONTHLY', interval: 1 },
+        yearly: { frequency: 'YEARLY', interval: 1 },
+        annually: { frequency: 'YEARLY', interval: 1 },
+      };
+      state.recurrence = rules[m[1]];
+      return true;
+    },
+  },
+  {
+    // 3pm, 3:30 pm, at 9 a.m.
+    pattern: /\b(?:at\s+|@\s*)?(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?=\W|$)/,
+    apply: (m, state) => setTime(state, parseInt(m[1], 10), parseInt(m[2] ?? '0', 10), m[3]),
+  },
+  {
+    // 15:30, at 9:00
+    pattern: /\b(?:at\s+|@\s*)?(\d{1,2}):(\d{2})\b/,
+    apply: (m, state) => setTime(state, parseInt(m[1], 10), parseInt(m[2], 10)),
+  },
+  {
+    // at 3 (afternoon for 1-7, as nobody means 3 in the morning)
+    pattern: /\b(?:at|@)\s*(\d{1,2})\b(?!\s*(?:st|nd|rd|th|\/|-|:))/,
+    apply: (m, state) => {
+      const hour = parseInt(m[1], 10);
+      return setTime(state, hour >= 1 && hour <= 7 ? hour + 12 : hour, 0);
+    },
+  },
+  {
+    pattern: /\btonight\b/,
+    apply: (_m, state) => {
+      state.dueDate = state.dueDate ?? state.today;
+      state.dueTime = TIME_OF_DAY.tonight;
+      return true;
+    },
+  },
+  {
+    pattern: /\b(?:(?:in\s+the|this)\s+)?(morning|afternoon|evening|noon|midday|midnight)\b/,
+    apply: (m, state) => {
+      state.dueTime = TIME_OF_DAY[m[1]];
+      return true;
+    },
+  },
+  {
+    pattern: /\b(?:the\s+)?day\s+after\s+tomorrow\b/,
+    apply: (_m, state) => {
+      state.dueDate = addDaysToDateString(state.today, 2);
+      return true;
+    },
+  },
+  {
+    pattern: /\b(today|tomorrow|tmrw|tmr)\b/,
+    apply: (m, state) => {
+      state.dueDate = m[1] === 'today' ? state.today : addDaysToDateString(state.today, 1);
+      return true;
+    },
+  },
+  {
+    // in 1 hour, in 30 minutes
+    pattern: new RegExp(`\\bin\\s+(${COUNT})\\s+${CLOCK_UNIT}\\b`),
+    apply: (m, state) => {
+      const minutes = toNumber(m[1]) * (m[2].startsWith('h') ? 60 : 1);
+      const at = new Date(state.now.getTime() + minutes * 60 * 1000);
+      state.dueDate = toLocalDateString(at);
+      state.dueTime = `${pad(at.getHours())}:${pad(at.getMinutes())}`;
+      return true;
+    },
+  },
+  {
+    // in 2 weeks, in a month
+    pattern: new RegExp(`\\bin\\s+(${COUNT})\\s+(${UNIT})\\b`),
+    apply: (m, state) => {
+      state.dueDate = addUnits(state.today, toNumber(m[1]), m[2]);
+      return true;
+    },
+  },
+  {
+    pattern: /\bnext\s+(week|month|year|weekend)\b/,
+    apply: (m, state) => {
+      state.dueDate = m[1] === 'weekend'
+        ? addDaysToDateString(nextWeekday(state.today, [6], false), 7)
+        : addUnits(state.today, 1, m[1]);
+      return true;
+    },
+  },
+  {
+    pattern: /\b(?:this\s+)?weekend\b/,
+    apply: (_m, state) => {
+      state.dueDate = nextWeekday(state.today, [6], true);
+      return true;
+    },
+  },
+  {
+    pattern: /\bend\s+of\s+(?:the\s+)?(week|month)\b/,
+    apply: (m, state) => {
+      if (m[1] === 'week') {
+        state.dueDate = nextWeekday(state.today, [5], true);
+      } else {
+        const today = parseLocalDate(state.today);
+        state.dueDate = toLocalDateString(new Date(today.getFullYear(), today.getMonth() + 1, 0));
+      }
+      return true;
+    },
+  },
+  {
+    // next Friday: the coming Friday, a week out when said on a Friday
+    pattern: new RegExp(`\\bnext\\s+(${WEEKDAY})\\b`),
+    apply: (m, state) => {
+      state.dueDate = nextWeekday(state.today, [WEEKDAY_WORDS[m[1]]], false);
+      return true;
+    },
+  },
+  {
+    // this Friday, on Fri, or Friday at the end ("Call mom Friday"); anywhere else a
+    // weekday is part of the title ("Fix bug in Monday release")
+    pattern: new RegExp(`\\b(?:(?:this|on|by|due|until|before)\\s+(${WEEKDAY})\\b|(${FULL_WEEKDAY})(?=[\\s.!?]*$))`),
+    apply: (m, state) => {
+      state.dueDate = nextWeekday(state.today, [WEEKDAY_WORDS[m[1] ?? m[2]]], true);
+      return true;
+    },
+  },
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+    apply: (m, state) => {
+      state.dueDate = calendarDate(state.today, parseInt(m[2], 10) - 1, parseInt(m[3], 10), parseInt(m[1], 10));
+      return state.dueDate !== undefined;
+    },
+  },
+  {
+    // Oct 23, October 23rd, 2026
+    pattern: new RegExp(`\\b(${MONTH})\\s+${ORDINAL_DAY}(?:,?\\s+(\\d{4}))?\\b`),
+    apply: (m, state) => {
+      const month = MONTH_WORDS[m[1].replace('.', '')];
+      const date = calendarDate(state.today, month, parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      if (!date) return false;
+      state.dueDate = date;
+      return true;
+    },
+  },
+  {
+    // 23 Oct, 23rd of October 2026
+    pattern: new RegExp(`\\b${ORDINAL_DAY}\\s+(?:of\\s+)?(${MONTH})(?:,?\\s+(\\d{4}))?\\b`),
+    apply: (m, state) => {
+      const month = MONTH_WORDS[m[2].replace('.', '')];
+      const date = calendarDate(state.today, month, parseInt(m[1], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      if (!date) return false;
+      state.dueDate = date;
+      return true;
+    },
+  },
+  {
+    // 10/23, 10/23/27 (month first)
+    pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/,
+    apply: (m, state) => {
+      const date = calendarDate(state.today, parseInt(m[1], 10) - 1, parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      if (!date) return false;
+      state.dueDate = date;
+      return true;
+    },
+  },
+  {
+    // on the 15th, the 15th (the suffix is needed without "on", so "the 3 boxes" isn't a date)
+    pattern: new RegExp(`\\b(?:on\\s+the\\s+${ORDINAL_DAY}|the\\s+(\\d{1,2})(?:st|nd|rd|th))\\b`),
+    apply: (m, state) => {
+      const day = parseInt(m[1] ?? m[2], 10);
+      if (day < 1 || day > 31) return false;
+      state.dueDate = nextMonthDay(state.today, day);
+      return true;
+    },
+  },
+];
+
+/**
+ * First due date of a repeat when no date was given: the first matching day from today
+ */
+function firstOccurrence(rule: RecurrenceRule, today: string): string {
+  if (rule.byDay?.length) {
+    return nextWeekday(today, rule.byDay.map(d => WEEKDAY_CODES.indexOf(d.weekday)), true);
+  }
+  if (rule.byMonthDay?.length) {
+    return nextMonthDay(today, rule.byMonthDay[0]);
+  }
+  return today;
+}
+
+/**
+ * Parse date, time and repeat phrases out of free text. Returns null when nothing was recognized.
+ */
+export function parseNaturalDate(input: string, now: Date = new Date()): NaturalDateResult | null {
+  const state: ParseState = { now, today: getTodayDateString(now) };
+  const found: NaturalDateMatch[] = [];
+  const unparsed: NaturalDateMatch[] = [];
+  let text = input.toLowerCase();
+  let remainder = input;
+
+  for (const rule of RULES) {
+    const match = text.match(rule.pattern);
+    if (!match || match.index === undefined) continue;
+
+    // Rules may reject their match (e.g. "Feb 30"); undo anything they set
+    const before = { ...state };
+    if (!rule.apply(match, state)) {
+      Object.assign(state, before);
+      continue;
+    }
+
+    const phrase = {
+      text: input.slice(match.index, match.index + match[0].length),
+      start: match.index,
+      end: match.index + match[0].length,
+    };
+    // Blank out the phrase, keeping offsets so later matches map back onto the input;
+    // phrases that weren't understood stay in the remainder
+    const blank = ' '.repeat(match[0].length);
+    text = text.slice(0, match.index) + blank + text.slice(match.index + match[0].length);
+    if (rule.unparsed) {
+      unparsed.push(phrase);
+      continue;
+    }
+    found.push(phrase);
+    remainder = remainder.slice(0, match.index) + blank + remainder.slice(match.index + match[0].length);
+  }
+
+  if (found.length === 0 && unparsed.length === 0) return null;
+
+  if (state.recurrence && !state.dueDate) {
+    state.dueDate = firstOccurrence(state.recurrence, state.today);
+  }
+  // A time on its own means today, or tomorrow once that time has passed
+  if (state.dueTime && !state.dueDate) {
+    const passed = state.dueTime <= `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    state.dueDate = passed ? addDaysToDateString(state.today, 1) : state.today;
+  }
+
+  return {
+    dueDate: state.dueDate,
+    dueTime: state.dueTime,
+    recurringPattern: state.recurrence ? formatRecurrence(state.recurrence) : undefined,
+    remainder: remainder
+      .replace(/\b(?:due|by|on|at|from|starting)\s*$/i, '')
+      .replace(/\s+(?:due|by|on|at)(?=\s{2,})/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim(),
+    matches: found.sort((a, b) => a.start - b.start),
+    unparsed,
+  };
+}
+
+/**
+ * One-line preview of a parse result, e.g. "Fri, Oct 23 at 3:00 PM · Every week on Friday"
+ */
+export function describeNaturalDate(result: NaturalDateResult): string {
+  const rule = parseRecurrence(result.recurringPattern);
+  const parts: string[] = [];
+  if (result.dueDate) {
+    let when = parseLocalDate(result.dueDate).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: parseLocalDate(result.dueDate).getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+    });
+    if (result.dueTime) {
+      const [hours, minutes] = result.dueTime.split(':').map(Number);
+      when += ` at ${hours % 12 || 12}:${pad(minutes)} ${hours >= 12 ? 'PM' : 'AM'}`;
+    }
+    parts.push(when);
+  }
+  if (rule) parts.push(describeRecurrence(rule));
+  return parts.join(' · ');
+}
@@ -11,6 +11,8 @@ export interface NotificationSettings {
   daily_summaries: boolean;
   friend_requests: boolean;
   push_enabled: boolean;
+  // Minutes before the due time that new tasks are reminded, see lib/reminders.ts
+  default_reminder_offsets: number[];
   created_at: string;
   updated_at: string;
 }
@@ -236,6 +238,25 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a location reminder as the user arrives at or leaves a place
+   */
+  static async sendLocationReminderNotification(
+    userId: string,
+    taskId: string,
+    taskTitle: string,
+    placeName: string,
+    triggerOn: 'arrive' | 'leave'
+  ): Promise<boolean> {
+    return this.sendNotification(
+      userId,
+      'task_reminder',
+      triggerOn === 'arrive' ? `At ${placeName}` : `Leaving ${placeName}`,
+      `Don't forget: "${taskTitle}"`,
+      { taskId }
+    );
+  }
+
   /**
    * Send overdue task notification
    */
@@ -254,19 +275,21 @@ export class NotificationService {
   }
 
   /**
-   * Send shared task update notification
+   * Send shared task update notification. `content` overrides the default
+   * title and body, e.g. to say a task was unblocked.
    */
   static async sendSharedTaskUpdateNotification(
     userId: string,
     taskId: string,
     taskTitle: string,
-    updaterName: string
+    updaterName: string,
+    content?: { title?: string; body?: string }
   ): Promise<boolean> {
     return this.sendNotification(
       userId,
       'shared_task_update',
-      'Task Updated',
-      `${updaterName} updated "${taskTitle}"`,
+      content?.title ?? 'Task Updated',
+      content?.body ?? `${updaterName} updated "${taskTitle}"`,
       { taskId }
     );
   }
@@ -316,6 +339,55 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Schedule a notification for each upcoming focus phase change. The user started the
+   * session themselves, so this only needs permission, not the push settings.
+   */
+  static async scheduleFocusNotifications(
+    boundaries: { at: Date; title: string; body: string }[]
+  ): Promise<string[]> {
+    try {
+      const hasPermission = await this.requestPermissions();
+      if (!hasPermission) {
+        return [];
+      }
+
+      return await Promise.all(
+        boundaries.map(boundary =>
+          Notifications.scheduleNotificationAsync({
+            content: {
+              title: boundary.title,
+              body: boundary.body,
+              // No taskId, so rescheduling the task's reminders leaves these alone
+              data: { type: 'focus_phase' },
+              sound: true,
+            },
+            trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: boundary.at },
+          })
+        )
+      );
+    } catch (error) {
+      console.error('[NotificationService] Error scheduling focus notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancel all scheduled focus phase notifications
+   */
+  static async cancelFocusNotifications(): Promise<void> {
+    try {
+      const allNotifications = await Notifications.getAllScheduledNotificationsAsync();
+      for (const notification of allNotifications) {
+        if (notification.content.data?.type === 'focus_phase') {
+          await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+        }
+      }
+    } catch (error) {
+      console.error('[NotificationService] Error cancelling focus notifications:', error);
+    }
+  }
+
   /**
    * Set up notification listeners
    */
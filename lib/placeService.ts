@@ -0,0 +1,166 @@
+import { supabase } from './supabase';
+import { PlaceKind, SavedPlace } from '@/types';
+
+export interface SavedPlaceRow {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: PlaceKind;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  address: string | null;
+  created_at: string;
+}
+
+export type NewSavedPlace = Omit<SavedPlace, 'id' | 'createdAt'>;
+
+export const PLACE_KIND_LABELS: Record<PlaceKind, string> = {
+  home: 'Home',
+  office: 'Office',
+  store: 'Store',
+  other: 'Other',
+};
+
+/**
+ * Place Service for the places location reminders are set against
+ */
+export class PlaceService {
+  /**
+   * Map database row to SavedPlace type
+   */
+  private static mapToPlace(row: SavedPlaceRow): SavedPlace {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      radiusMeters: row.radius_meters,
+      address: row.address || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get the user's saved places
+   */
+  static async getPlaces(userId: string): Promise<SavedPlace[]> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_places')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[PlaceService] Error fetching places:', error);
+        return [];
+      }
+
+      return (data || []).map((row: SavedPlaceRow) => this.mapToPlace(row));
+    } catch (error) {
+      console.error('[PlaceService] Error in getPlaces:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a new place
+   */
+  static async createPlace(userId: string, place: NewSavedPlace): Promise<SavedPlace | null> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_places')
+        .insert({
+          user_id: userId,
+          name: place.name,
+          kind: place.kind,
+          latitude: place.latitude,
+          longitude: place.longitude,
+          radius_meters: place.radiusMeters,
+          address: place.address || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[PlaceService] Error creating place:', error);
+        return null;
+      }
+
+      return this.mapToPlace(data);
+    } catch (error) {
+      console.error('[PlaceService] Error in createPlace:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a place
+   */
+  static async updatePlace(userId: string, placeId: string, updates: Partial<NewSavedPlace>): Promise<SavedPlace | null> {
+    try {
+      const row: Partial<SavedPlaceRow> = {};
+      if (updates.name !== undefined) row.name = updates.name;
+      if (updates.kind !== undefined) row.kind = updates.kind;
+      if (updates.latitude !== undefined) row.latitude = updates.latitude;
+      if (updates.longitude !== undefined) row.longitude = updates.longitude;
+      if (updates.radiusMeters !== undefined) row.radius_meters = updates.radiusMeters;
+      if (updates.address !== undefined) row.address = updates.address || null;
+
+      const { data, error } = await supabase
+        .from('saved_places')
+        .update(row)
+        .eq('id', placeId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[PlaceService] Error updating place:', error);
+        return null;
+      }
+
+      return this.mapToPlace(data);
+    } catch (error) {
+      console.error('[PlaceService] Error in updatePlace:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a place; its location reminders go with it
+   */
+  static async deletePlace(userId: string, placeId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('saved_places')
+        .delete()
+        .eq('id', placeId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[PlaceService] Error deleting place:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[PlaceService] Error in deletePlace:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find a place by name or kind, e.g. "the store" or "Trader Joe's"
+   */
+  static findByName(places: SavedPlace[], name: string): SavedPlace | undefined {
+    const needle = name.trim().toLowerCase().replace(/^(the|my)\s+/, '');
+    return (
+      places.find(p => p.name.toLowerCase() === needle) ||
+      places.find(p => p.kind === needle) ||
+      places.find(p => p.name.toLowerCase().includes(needle))
+    );
+  }
+}
@@ -0,0 +1,214 @@
+import { supabase } from './supabase';
+import { Project, SharePermission } from '@/types';
+
+export interface ProjectRow {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  icon: string;
+  sort_order: number;
+  is_archived: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewProject = Pick<Project, 'name' | 'color' | 'icon'>;
+
+/**
+ * Project Service for user-defined lists that group tasks
+ */
+export class ProjectService {
+  /**
+   * Map database row to Project type
+   */
+  private static mapToProject(row: ProjectRow, permission?: SharePermission): Project {
+    return {
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      icon: row.icon,
+      sortOrder: row.sort_order,
+      isArchived: row.is_archived,
+      createdAt: row.created_at,
+      ownerId: row.user_id,
+      permission,
+    };
+  }
+
+  /**
+   * Get the user's projects plus projects shared with them
+   */
+  static async getProjects(userId: string): Promise<Project[]> {
+    try {
+      const { data: ownProjects, error: ownError } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true });
+
+      if (ownError) {
+        console.error('[ProjectService] Error fetching projects:', ownError);
+        return [];
+      }
+
+      const { data: shares, error: sharesError } = await supabase
+        .from('project_shares')
+        .select('project_id, permission')
+        .eq('shared_with_id', userId);
+
+      let sharedProjects: Project[] = [];
+      if (!sharesError && shares && shares.length > 0) {
+        const { data: sharedData, error: sharedError } = await supabase
+          .from('projects')
+          .select('*')
+          .in('id', shares.map(s => s.project_id));
+
+        if (!sharedError && sharedData) {
+          sharedProjects = sharedData.map((row: ProjectRow) =>
+            this.mapToProject(row, shares.find(s => s.project_id === row.id)?.permission)
+          );
+        }
+      }
+
+      return [...(ownProjects || []).map((row: ProjectRow) => this.mapToProject(row)), ...sharedProjects];
+    } catch (error) {
+      console.error('[ProjectService] Error in getProjects:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a project at the end of the user's list
+   */
+  static async createProject(userId: string, project: NewProject, sortOrder: number): Promise<Project | null> {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .insert({
+          user_id: userId,
+          name: project.name,
+          color: project.color,
+          icon: project.icon,
+          sort_order: sortOrder,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[ProjectService] Error creating project:', error);
+        return null;
+      }
+
+      return this.mapToProject(data);
+    } catch (error) {
+      console.error('[ProjectService] Error in createProject:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a project's name, look, order or archived flag
+   */
+  static async updateProject(
+    userId: string,
+    projectId: string,
+    updates: Partial<Pick<Project, 'name' | 'color' | 'icon' | 'sortOrder' | 'isArchived'>>
+  ): Promise<Project | null> {
+    try {
+      const updateRow: Partial<ProjectRow> = { updated_at: new Date().toISOString() };
+      if (updates.name !== undefined) updateRow.name = updates.name;
+      if (updates.color !== undefined) updateRow.color = updates.color;
+      if (updates.icon !== undefined) updateRow.icon = updates.icon;
+      if (updates.sortOrder !== undefined) updateRow.sort_order = updates.sortOrder;
+      if (updates.isArchived !== undefined) updateRow.is_archived = updates.isArchived;
+
+      const { data, error } = await supabase
+        .from('projects')
+        .update(updateRow)
+        .eq('id', projectId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[ProjectService] Error updating project:', error);
+        return null;
+      }
+
+      return this.mapToProject(data);
+    } catch (error) {
+      console.error('[ProjectService] Error in updateProject:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a new order for the user's projects
+   */
+  static async reorderProjects(userId: string, orderedIds: string[]): Promise<boolean> {
+    try {
+      const results = await Promise.all(
+        orderedIds.map((projectId, index) =>
+          supabase
+            .from('projects')
+            .update({ sort_order: index })
+            .eq('id', projectId)
+            .eq('user_id', userId)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        console.error('[ProjectService] Error reordering projects:', failed.error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ProjectService] Error in reorderProjects:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a project. Its tasks are kept and moved out of the project.
+   */
+  static async deleteProject(userId: string, projectId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', projectId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[ProjectService] Error deleting project:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ProjectService] Error in deleteProject:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether tasks can be added to a project: it's the user's own or shared with edit access
+   */
+  static canAddTasks(project: Project): boolean {
+    return !project.permission || project.permission === 'edit';
+  }
+
+  /**
+   * Find a project by name, ignoring case (used by the assistant)
+   */
+  static findByName(projects: Project[], name: string): Project | undefined {
+    const needle = name.trim().toLowerCase();
+    return (
+      projects.find(p => p.name.toLowerCase() === needle) ||
+      projects.find(p => p.name.toLowerCase().includes(needle))
+    );
+  }
+}
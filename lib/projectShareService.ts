@@ -0,0 +1,172 @@
+import { supabase } from './supabase';
+import { SharePermission } from '@/types';
+
+export interface ProjectShare {
+  id: string;
+  project_id: string;
+  shared_by_id: string;
+  shared_with_id: string;
+  permission: SharePermission;
+  created_at: string;
+}
+
+/**
+ * Project Share Service for sharing whole projects, with the same
+ * view/edit permissions as TaskShareService
+ */
+export class ProjectShareService {
+  /**
+   * Share a project with a user
+   */
+  static async shareProject(
+    projectId: string,
+    sharedById: string,
+    sharedWithId: string,
+    permission: SharePermission = 'view'
+  ): Promise<boolean> {
+    try {
+      // Verify project belongs to sharer
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('user_id')
+        .eq('id', projectId)
+        .single();
+
+      if (projectError || !project || project.user_id !== sharedById) {
+        console.error('[ProjectShareService] Project not found or unauthorized');
+        return false;
+      }
+
+      const { error } = await supabase.from('project_shares').upsert(
+        {
+          project_id: projectId,
+          shared_by_id: sharedById,
+          shared_with_id: sharedWithId,
+          permission,
+        },
+        { onConflict: 'project_id,shared_with_id' }
+      );
+
+      if (error) {
+        console.error('[ProjectShareService] Error sharing project:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ProjectShareService] Error in shareProject:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if user can edit tasks in a project
+   */
+  static async canEditProject(userId: string, projectId: string): Promise<boolean> {
+    try {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('user_id')
+        .eq('id', projectId)
+        .single();
+
+      if (project && project.user_id === userId) {
+        return true;
+      }
+
+      const { data: share } = await supabase
+        .from('project_shares')
+        .select('permission')
+        .eq('project_id', projectId)
+        .eq('shared_with_id', userId)
+        .eq('permission', 'edit')
+        .single();
+
+      return !!share;
+    } catch (error) {
+      console.error('[ProjectShareService] Error checking edit permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop sharing a project with a user
+   */
+  static async unshareProject(sharedById: string, projectId: string, sharedWithId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('project_shares')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('shared_by_id', sharedById)
+        .eq('shared_with_id', sharedWithId);
+
+      if (error) {
+        console.error('[ProjectShareService] Error unsharing project:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ProjectShareService] Error in unshareProject:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a project that was shared with the user from their lists
+   */
+  static async leaveProject(userId: string, projectId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('project_shares')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('shared_with_id', userId);
+
+      if (error) {
+        console.error('[ProjectShareService] Error leaving project:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ProjectShareService] Error in leaveProject:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get users who have access to a project
+   */
+  static async getProjectCollaborators(projectId: string): Promise<Array<{ id: string; name: string; email: string; permission: SharePermission }>> {
+    try {
+      const { data: shares, error } = await supabase
+        .from('project_shares')
+        .select('shared_with_id, permission')
+        .eq('project_id', projectId);
+
+      if (error || !shares || shares.length === 0) {
+        return [];
+      }
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, name, email')
+        .in('id', shares.map(s => s.shared_with_id));
+
+      return shares.map(share => {
+        const profile = profiles?.find(p => p.id === share.shared_with_id);
+        return {
+          id: share.shared_with_id,
+          name: profile?.name || 'Unknown',
+          email: profile?.email || '',
+          permission: share.permission,
+        };
+      });
+    } catch (error) {
+      console.error('[ProjectShareService] Error getting collaborators:', error);
+      return [];
+    }
+  }
+}
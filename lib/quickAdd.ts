@@ -0,0 +1,164 @@
+import { Category, Friend, Priority, TaskCategory } from '@/types';
+import { parseNaturalDate } from './naturalDate';
+import { normalizeTag } from './tags';
+
+/**
+ * Inline syntax for the quick-add bar, parsed on the device so it works offline.
+ *
+ *   Call dentist tomorrow 9am !high #health @alex every month
+ *
+ * - !high, !medium, !low, !none (or !h/!m/!l, !1/!2/!3) set the priority
+ * - #word picks the category with that name, otherwise adds the tag
+ * - @name assigns a friend, matched by first name, full name or email
+ * - dates, times and repeats are anything parseNaturalDate understands
+ *
+ * Whatever is left becomes the title.
+ */
+
+export type QuickAddTokenType = 'date' | 'priority' | 'category' | 'tag' | 'mention';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  text: string;
+  // Offsets into the input, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface QuickAddResult {
+  title: string;
+  priority?: Priority;
+  category?: TaskCategory;
+  tags: string[];
+  // Friends' user ids
+  assignedTo: string[];
+  dueDate?: string;
+  dueTime?: string;
+  recurringPattern?: string;
+  tokens: QuickAddToken[];
+  // @names that didn't match a friend; they stay in the title
+  unknownMentions: string[];
+  // Repeats that weren't understood, e.g. "every 2nd Tuesday"; they stay in the title too
+  unparsedRepeats: string[];
+}
+
+export interface QuickAddContext {
+  categories: Category[];
+  friends: Friend[];
+  now?: Date;
+}
+
+export interface QuickAddSegment {
+  text: string;
+  type?: QuickAddTokenType;
+}
+
+const PRIORITY_MARKERS: Record<string, Priority> = {
+  high: 'high', h: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low',
+  none: 'none',
+};
+
+const compact = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+
+function findCategory(categories: Category[], word: string): Category | undefined {
+  const needle = compact(word);
+  return categories.find(c => compact(c.slug) === needle || compact(c.name) === needle);
+}
+
+/**
+ * Match an @handle to an accepted friend by full name, email name or first name
+ */
+export function findFriend(friends: Friend[], handle: string): Friend | undefined {
+  const needle = handle.toLowerCase();
+  const accepted = friends.filter(f => f.status === 'accepted');
+  return (
+    accepted.find(f => compact(f.user.name) === compact(needle)) ||
+    accepted.find(f => f.user.email.toLowerCase().split('@')[0] === needle) ||
+    accepted.find(f => f.user.name.toLowerCase().split(/\s+/)[0] === needle)
+  );
+}
+
+/**
+ * Parse a quick-add line into task fields and the tokens to highlight
+ */
+export function parseQuickAdd(input: string, context: QuickAddContext): QuickAddResult {
+  const result: QuickAddResult = {
+    title: '',
+    tags: [],
+    assignedTo: [],
+    tokens: [],
+    unknownMentions: [],
+    unparsedRepeats: [],
+  };
+  // Markers are blanked out (keeping offsets) so date parsing and the title skip them
+  let rest = input;
+  const consume = (start: number, end: number) => {
+    rest = rest.slice(0, start) + ' '.repeat(end - start) + rest.slice(end);
+  };
+
+  for (const match of input.matchAll(/(^|\s)([!#@])([\w.-]+)/g)) {
+    // Trailing punctuation ("@alex.") isn't part of the marker
+    const value = match[3].replace(/[.-]+$/, '');
+    const start = match.index! + match[1].length;
+    const end = start + 1 + value.length;
+    const text = input.slice(start, end);
+
+    if (match[2] === '!') {
+      const priority = PRIORITY_MARKERS[value.toLowerCase()];
+      if (!priority) continue;
+      result.priority = priority;
+      result.tokens.push({ type: 'priority', text, start, end });
+    } else if (match[2] === '#') {
+      const category = !result.category ? findCategory(context.categories, value) : undefined;
+      if (category) {
+        result.category = category.slug;
+        result.tokens.push({ type: 'category', text, start, end });
+      } else {
+        const tag = normalizeTag(value);
+        if (!tag) continue;
+        if (!result.tags.includes(tag)) result.tags.push(tag);
+        result.tokens.push({ type: 'tag', text, start, end });
+      }
+    } else {
+      const friend = findFriend(context.friends, value);
+      if (!friend) {
+        result.unknownMentions.push(value);
+        continue;
+      }
+      if (!result.assignedTo.includes(friend.user.id)) result.assignedTo.push(friend.user.id);
+      result.tokens.push({ type: 'mention', text, start, end });
+    }
+    consume(start, end);
+  }
+
+  const when = parseNaturalDate(rest, context.now);
+  if (when) {
+    result.dueDate = when.dueDate;
+    result.dueTime = when.dueTime;
+    result.recurringPattern = when.recurringPattern;
+    result.unparsedRepeats = when.unparsed.map(m => m.text);
+    result.tokens.push(...when.matches.map(m => ({ type: 'date' as const, text: m.text, start: m.start, end: m.end })));
+  }
+
+  result.tokens.sort((a, b) => a.start - b.start);
+  result.title = (when ? when.remainder : rest).replace(/\s+/g, ' ').trim();
+  return result;
+}
+
+/**
+ * Split the input into plain and highlighted runs for rendering
+ */
+export function getQuickAddSegments(input: string, tokens: QuickAddToken[]): QuickAddSegment[] {
+  const segments: QuickAddSegment[] = [];
+  let position = 0;
+  for (const token of tokens) {
+    if (token.start < position) continue;
+    if (token.start > position) segments.push({ text: input.slice(position, token.start) });
+    segments.push({ text: input.slice(token.start, token.end), type: token.type });
+    position = token.end;
+  }
+  if (position < input.length) segments.push({ text: input.slice(position) });
+  return segments;
+}
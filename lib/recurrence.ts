@@ -0,0 +1,363 @@
+/**
+ * Recurrence engine for repeating tasks.
+ *
+ * Patterns follow the RFC 5545 RRULE syntax (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE",
+ * "FREQ=MONTHLY;BYDAY=2TU;COUNT=6", "FREQ=DAILY;UNTIL=20261231"). The legacy keywords
+ * stored by older clients ('daily', 'weekly', 'monthly', 'yearly', 'weekdays') are still accepted.
+ *
+ * All date math works on calendar dates (YYYY-MM-DD) so results don't drift across DST changes.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  /** 1-5 for "nth weekday of the month", -1 for "last"; only meaningful for MONTHLY */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  /** Remaining occurrences, including the current one */
+  count?: number;
+  /** Last allowed date (YYYY-MM-DD), inclusive */
+  until?: string;
+}
+
+export interface NextOccurrence {
+  dueDate: string;
+  recurringPattern: string;
+}
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+};
+
+const LEGACY_PATTERNS: Record<string, RecurrenceRule> = {
+  daily: { frequency: 'DAILY', interval: 1 },
+  weekly: { frequency: 'WEEKLY', interval: 1 },
+  biweekly: { frequency: 'WEEKLY', interval: 2 },
+  monthly: { frequency: 'MONTHLY', interval: 1 },
+  yearly: { frequency: 'YEARLY', interval: 1 },
+  annually: { frequency: 'YEARLY', interval: 1 },
+  weekdays: {
+    frequency: 'WEEKLY',
+    interval: 1,
+    byDay: ['MO', 'TU', 'WE', 'TH', 'FR'].map(weekday => ({ weekday: weekday as Weekday })),
+  },
+};
+
+// Date helpers: calendar dates are represented as UTC midnight so arithmetic ignores DST.
+
+function parseDate(date: string): Date | null {
+  const match = date.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 ? parsed : null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function startOfWeek(date: Date): Date {
+  // RRULE weeks start on Monday by default (WKST=MO)
+  const offset = (date.getUTCDay() + 6) % 7;
+  return addDays(date, -offset);
+}
+
+function nthWeekdayOfMonth(year: number, month: number, rule: WeekdayRule): Date | null {
+  const weekdayIndex = WEEKDAYS.indexOf(rule.weekday);
+  const ordinal = rule.ordinal ?? 1;
+
+  if (ordinal > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    const offset = (weekdayIndex - first.getUTCDay() + 7) % 7;
+    const day = 1 + offset + (ordinal - 1) * 7;
+    return day <= daysInMonth(year, month) ? new Date(Date.UTC(year, month, day)) : null;
+  }
+
+  const lastDay = daysInMonth(year, month);
+  const last = new Date(Date.UTC(year, month, lastDay));
+  const offset = (last.getUTCDay() - weekdayIndex + 7) % 7;
+  const day = lastDay - offset + (ordinal + 1) * 7;
+  return day >= 1 ? new Date(Date.UTC(year, month, day)) : null;
+}
+
+/**
+ * Parse a recurrence pattern into a rule. Returns null when the pattern is not understood.
+ */
+export function parseRecurrence(pattern?: string | null): RecurrenceRule | null {
+  if (!pattern) return null;
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+
+  const legacy = LEGACY_PATTERNS[trimmed.toLowerCase()];
+  if (legacy) return { ...legacy };
+
+  const body = trimmed.replace(/^RRULE:/i, '');
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const value = rawValue?.trim().toUpperCase();
+    if (!key || !value) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) return null;
+        rule.frequency = value as RecurrenceFrequency;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseDate(value);
+        if (!until) return null;
+        rule.until = formatDate(until);
+        break;
+      }
+      case 'BYDAY': {
+        const days: WeekdayRule[] = [];
+        for (const token of value.split(',')) {
+          const match = token.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || ordinal > 5 || ordinal < -1)) return null;
+          days.push({ weekday: match[2] as Weekday, ordinal });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = value.split(',').map(Number);
+        if (days.some(d => !Number.isInteger(d) || d < 1 || d > 31)) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!rule.frequency) return null;
+  if (rule.count !== undefined && rule.until !== undefined) return null;
+  if (rule.byDay?.some(d => d.ordinal !== undefined) && rule.frequency !== 'MONTHLY') return null;
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Whether a pattern can be understood by the recurrence engine
+ */
+export function isValidRecurrence(pattern?: string | null): boolean {
+  return parseRecurrence(pattern) !== null;
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE form (without the "RRULE:" prefix)
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Human readable description, e.g. "Every 2 weeks on Monday, Wednesday"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, string> = {
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+  };
+  const unit = units[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(d =>
+      d.ordinal !== undefined
+        ? `the ${ORDINAL_NAMES[d.ordinal]} ${WEEKDAY_NAMES[d.weekday]}`
+        : WEEKDAY_NAMES[d.weekday]
+    );
+    text += ` on ${days.join(', ')}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ' (last time)' : `, ${rule.count} occurrences left`;
+  } else if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+
+  return text;
+}
+
+function nextDaily(rule: RecurrenceRule, from: Date): Date {
+  return addDays(from, rule.interval);
+}
+
+function nextWeekly(rule: RecurrenceRule, from: Date): Date {
+  if (!rule.byDay?.length) {
+    return addDays(from, 7 * rule.interval);
+  }
+
+  const allowed = new Set(rule.byDay.map(d => WEEKDAYS.indexOf(d.weekday)));
+  const anchorWeek = startOfWeek(from).getTime();
+  const msPerWeek = 7 * 24 * 60 * 60 * 1000;
+
+  for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+    const candidate = addDays(from, offset);
+    const weeksApart = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / msPerWeek);
+    if (weeksApart % rule.interval === 0 && allowed.has(candidate.getUTCDay())) {
+      return candidate;
+    }
+  }
+
+  return addDays(from, 7 * rule.interval);
+}
+
+function candidatesInMonth(rule: RecurrenceRule, year: number, month: number, from: Date): Date[] {
+  if (rule.byDay?.length) {
+    return rule.byDay.flatMap(day => {
+      if (day.ordinal !== undefined) {
+        const date = nthWeekdayOfMonth(year, month, day);
+        return date ? [date] : [];
+      }
+      // Plain weekday in a monthly rule means every such weekday of the month
+      const dates: Date[] = [];
+      for (let ordinal = 1; ordinal <= 5; ordinal++) {
+        const date = nthWeekdayOfMonth(year, month, { weekday: day.weekday, ordinal });
+        if (date) dates.push(date);
+      }
+      return dates;
+    });
+  }
+
+  const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [from.getUTCDate()];
+  return monthDays
+    .filter(day => day <= daysInMonth(year, month))
+    .map(day => new Date(Date.UTC(year, month, day)));
+}
+
+function nextMonthly(rule: RecurrenceRule, from: Date): Date | null {
+  // Months without a matching day are skipped, as RFC 5545 specifies
+  for (let monthOffset = 0; monthOffset <= 12 * 5 * rule.interval; monthOffset += rule.interval) {
+    const year = from.getUTCFullYear() + Math.floor((from.getUTCMonth() + monthOffset) / 12);
+    const month = (from.getUTCMonth() + monthOffset) % 12;
+    const next = candidatesInMonth(rule, year, month, from)
+      .filter(date => date > from)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    if (next) return next;
+  }
+  return null;
+}
+
+function nextYearly(rule: RecurrenceRule, from: Date): Date | null {
+  // Feb 29 only recurs on leap years
+  for (let yearOffset = rule.interval; yearOffset <= 8 * rule.interval; yearOffset += rule.interval) {
+    const year = from.getUTCFullYear() + yearOffset;
+    const month = from.getUTCMonth();
+    if (from.getUTCDate() <= daysInMonth(year, month)) {
+      return new Date(Date.UTC(year, month, from.getUTCDate()));
+    }
+  }
+  return null;
+}
+
+/**
+ * Compute the date of the occurrence after `fromDate` (YYYY-MM-DD), ignoring COUNT/UNTIL
+ */
+export function getNextOccurrenceDate(rule: RecurrenceRule, fromDate: string): string | null {
+  const from = parseDate(fromDate);
+  if (!from) return null;
+
+  let next: Date | null;
+  switch (rule.frequency) {
+    case 'DAILY':
+      next = nextDaily(rule, from);
+      break;
+    case 'WEEKLY':
+      next = nextWeekly(rule, from);
+      break;
+    case 'MONTHLY':
+      next = nextMonthly(rule, from);
+      break;
+    case 'YEARLY':
+      next = nextYearly(rule, from);
+      break;
+  }
+
+  return next ? formatDate(next) : null;
+}
+
+/**
+ * Compute the next occurrence of a recurring task.
+ * Returns the next due date and the pattern to store on it (COUNT is decremented),
+ * or null when the series has ended.
+ */
+export function getNextOccurrence(pattern: string, fromDate: string): NextOccurrence | null {
+  const rule = parseRecurrence(pattern);
+  if (!rule) return null;
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const dueDate = getNextOccurrenceDate(rule, fromDate);
+  if (!dueDate) return null;
+  if (rule.until && dueDate > rule.until) return null;
+
+  const nextRule: RecurrenceRule = rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule;
+  return { dueDate, recurringPattern: formatRecurrence(nextRule) };
+}
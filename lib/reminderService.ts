@@ -1,12 +1,29 @@
 import { supabase } from './supabase';
 import * as Notifications from 'expo-notifications';
+import { NotificationService } from './notificationService';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  REMINDER_CATEGORY,
+  SNOOZE_LABELS,
+  SnoozeOption,
+  getDefaultReminderTimes,
+  getReminderAnchor,
+  getSnoozeTime,
+  isSnoozeOption,
+} from './reminders';
+import { LocationReminder, LocationTrigger, TaskReminder } from '@/types';
+
+export type ReminderType = 'due_date' | 'custom' | 'recurring' | 'location';
 
 export interface Reminder {
   id: string;
   task_id: string;
   user_id: string;
-  reminder_time: string;
-  reminder_type: 'due_date' | 'custom' | 'recurring';
+  // Null for location reminders, which fire on arriving at or leaving a place instead
+  reminder_time: string | null;
+  reminder_type: ReminderType;
+  place_id: string | null;
+  trigger_on: LocationTrigger | null;
   is_sent: boolean;
   created_at: string;
 }
@@ -29,43 +46,99 @@ export class ReminderService {
   }
 
   /**
-   * Schedule a reminder for a task
+   * Add the snooze actions shown on reminder notifications
    */
-  static async scheduleReminder(
+  static async registerSnoozeActions() {
+    try {
+      await Notifications.setNotificationCategoryAsync(
+        REMINDER_CATEGORY,
+        (Object.keys(SNOOZE_LABELS) as SnoozeOption[]).map(option => ({
+          identifier: option,
+          buttonTitle: `Snooze ${SNOOZE_LABELS[option]}`,
+          // The snooze is saved by the app, which a killed app can't do without opening
+          options: { opensAppToForeground: true },
+        }))
+      );
+    } catch (error) {
+      console.error('[ReminderService] Error registering snooze actions:', error);
+    }
+  }
+
+  /**
+   * Map database row to TaskReminder type
+   */
+  private static mapToTaskReminder(row: Reminder): TaskReminder {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      remindAt: row.reminder_time!,
+      isRelative: row.reminder_type !== 'custom',
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Save a timed reminder without scheduling its notification
+   */
+  private static async insertReminder(
     userId: string,
     taskId: string,
     reminderTime: string,
-    reminderType: 'due_date' | 'custom' | 'recurring' = 'custom'
-  ): Promise<boolean> {
-    try {
-      // Save reminder to database
-      const { error: dbError } = await supabase.from('reminders').insert({
+    reminderType: Exclude<ReminderType, 'location'>
+  ): Promise<TaskReminder | null> {
+    const { data, error } = await supabase
+      .from('reminders')
+      .insert({
         user_id: userId,
         task_id: taskId,
         reminder_time: reminderTime,
         reminder_type: reminderType,
         is_sent: false,
-      });
+      })
+      .select()
+      .single();
 
-      if (dbError) {
-        console.error('[ReminderService] Error saving reminder:', dbError);
-        return false;
-      }
+    if (error) {
+      console.error('[ReminderService] Error saving reminder:', error);
+      return null;
+    }
+
+    return this.mapToTaskReminder(data);
+  }
+
+  /**
+   * Schedule a reminder for a task. 'custom' reminders are at a fixed time; the others
+   * move with the task's due date.
+   */
+  static async scheduleReminder(
+    userId: string,
+    taskId: string,
+    reminderTime: string,
+    reminderType: Exclude<ReminderType, 'location'> = 'custom'
+  ): Promise<TaskReminder | null> {
+    try {
+      const reminder = await this.insertReminder(userId, taskId, reminderTime, reminderType);
+      if (!reminder) return null;
 
       // Schedule local notification
-      await this.scheduleNotification(taskId, reminderTime);
+      await this.scheduleNotification(taskId, reminder.id, reminderTime);
 
-      return true;
+      return reminder;
     } catch (error) {
       console.error('[ReminderService] Error scheduling reminder:', error);
-      return false;
+      return null;
     }
   }
 
   /**
-   * Schedule local notification
+   * Schedule local notification, keyed by the reminder's id so it can be changed later
    */
-  private static async scheduleNotification(taskId: string, reminderTime: string) {
+  private static async scheduleNotification(
+    taskId: string,
+    reminderId: string | undefined,
+    reminderTime: string,
+    content: { title: string; body: string } = { title: 'Task Reminder', body: 'You have a task due soon!' }
+  ) {
     const triggerDate = new Date(reminderTime);
     const now = new Date();
 
@@ -75,13 +148,14 @@ export class ReminderService {
     }
 
     await Notifications.scheduleNotificationAsync({
+      identifier: reminderId,
       content: {
-        title: 'Task Reminder',
-        body: 'You have a task due soon!',
-        data: { taskId },
+        ...content,
+        data: { taskId, reminderId },
         sound: true,
+        categoryIdentifier: REMINDER_CATEGORY,
       },
-      trigger: triggerDate,
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: triggerDate },
     });
   }
 
@@ -112,9 +186,9 @@ export class ReminderService {
   }
 
   /**
-   * Get all reminders for a task
+   * Get a task's pending timed reminders
    */
-  static async getTaskReminders(userId: string, taskId: string): Promise<Reminder[]> {
+  static async getTaskReminders(userId: string, taskId: string): Promise<TaskReminder[]> {
     try {
       const { data, error } = await supabase
         .from('reminders')
@@ -122,6 +196,7 @@ export class ReminderService {
         .eq('user_id', userId)
         .eq('task_id', taskId)
         .eq('is_sent', false)
+        .neq('reminder_type', 'location')
         .order('reminder_time', { ascending: true });
 
       if (error) {
@@ -129,7 +204,7 @@ export class ReminderService {
         return [];
       }
 
-      return data || [];
+      return (data || []).map((row: Reminder) => this.mapToTaskReminder(row));
     } catch (error) {
       console.error('[ReminderService] Error in getTaskReminders:', error);
       return [];
@@ -137,44 +212,304 @@ export class ReminderService {
   }
 
   /**
-   * Create default reminders for a task (based on due date)
+   * Move a reminder to a new time, optionally switching between relative and absolute
+   */
+  static async updateReminder(
+    userId: string,
+    reminder: TaskReminder,
+    reminderTime: string,
+    isRelative: boolean = reminder.isRelative
+  ): Promise<TaskReminder | null> {
+    try {
+      const { data, error } = await supabase
+        .from('reminders')
+        .update({
+          reminder_time: reminderTime,
+          ...(isRelative !== reminder.isRelative && { reminder_type: isRelative ? 'due_date' : 'custom' }),
+        })
+        .eq('id', reminder.id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[ReminderService] Error updating reminder:', error);
+        return null;
+      }
+
+      await Notifications.cancelScheduledNotificationAsync(reminder.id);
+      await this.scheduleNotification(reminder.taskId, reminder.id, reminderTime);
+
+      return this.mapToTaskReminder(data);
+    } catch (error) {
+      console.error('[ReminderService] Error in updateReminder:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Bring a reminder back later. The reminder that fired is marked sent and a fixed-time
+   * one takes its place; the notification is scheduled even if that can't be saved, e.g.
+   * while offline.
+   */
+  static async snoozeReminder(
+    userId: string,
+    taskId: string,
+    reminderId: string | undefined,
+    until: Date,
+    content: { title: string; body: string }
+  ): Promise<boolean> {
+    try {
+      if (reminderId) await this.markRemindersSent(userId, [reminderId]);
+
+      const reminder = await this.insertReminder(userId, taskId, until.toISOString(), 'custom');
+      await this.scheduleNotification(taskId, reminder?.id, until.toISOString(), content);
+
+      return true;
+    } catch (error) {
+      console.error('[ReminderService] Error snoozing reminder:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle a tap on a reminder notification's snooze action. Returns the snoozed task's
+   * id, or null for anything that wasn't a snooze.
+   */
+  static async handleSnoozeAction(userId: string, response: Notifications.NotificationResponse): Promise<string | null> {
+    const { actionIdentifier, notification } = response;
+    if (!isSnoozeOption(actionIdentifier)) return null;
+
+    const { content, identifier } = notification.request;
+    const taskId = content.data?.taskId as string | undefined;
+    if (!taskId) return null;
+
+    await Notifications.dismissNotificationAsync(identifier);
+    const snoozed = await this.snoozeReminder(
+      userId,
+      taskId,
+      content.data?.reminderId as string | undefined,
+      getSnoozeTime(actionIdentifier),
+      { title: content.title ?? 'Task Reminder', body: content.body ?? '' }
+    );
+    return snoozed ? taskId : null;
+  }
+
+  /**
+   * Schedule local notifications again for a task's pending reminders, e.g. after it
+   * comes back out of the trash
+   */
+  static async scheduleTaskNotifications(userId: string, taskId: string): Promise<void> {
+    const reminders = await this.getTaskReminders(userId, taskId);
+    for (const reminder of reminders) {
+      await this.scheduleNotification(taskId, reminder.id, reminder.remindAt);
+    }
+  }
+
+  /**
+   * Move a task's relative reminders along with its new due date and time, keeping each
+   * reminder's offset from the deadline. Tasks that had no due date get default reminders.
+   */
+  static async rescheduleTaskReminders(
+    userId: string,
+    taskId: string,
+    previous: { dueDate?: string; dueTime?: string },
+    next: { dueDate: string; dueTime?: string }
+  ): Promise<boolean> {
+    try {
+      if (!previous.dueDate) {
+        return await this.createDefaultReminders(userId, taskId, next.dueDate, next.dueTime);
+      }
+
+      const shiftMs = getReminderAnchor(next)!.getTime() - getReminderAnchor(previous)!.getTime();
+      if (shiftMs === 0) return true;
+
+      const reminders = await this.getTaskReminders(userId, taskId);
+
+      // Reminders scheduled before notifications were keyed by reminder id can only be
+      // found by task, so replace all of the task's
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      for (const notification of scheduled) {
+        if (notification.content.data?.taskId === taskId) {
+          await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+        }
+      }
+
+      for (const reminder of reminders) {
+        if (!reminder.isRelative) {
+          await this.scheduleNotification(taskId, reminder.id, reminder.remindAt);
+          continue;
+        }
+
+        const reminderTime = new Date(new Date(reminder.remindAt).getTime() + shiftMs).toISOString();
+        const { error } = await supabase
+          .from('reminders')
+          .update({ reminder_time: reminderTime })
+          .eq('id', reminder.id)
+          .eq('user_id', userId);
+
+        if (error) {
+          console.error('[ReminderService] Error moving reminder:', error);
+          return false;
+        }
+
+        await this.scheduleNotification(taskId, reminder.id, reminderTime);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ReminderService] Error in rescheduleTaskReminders:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Map a location reminder row to LocationReminder type
+   */
+  private static mapToLocationReminder(row: Reminder): LocationReminder {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      placeId: row.place_id!,
+      triggerOn: row.trigger_on!,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Remind the user about a task when they arrive at or leave a saved place
+   */
+  static async createLocationReminder(
+    userId: string,
+    taskId: string,
+    placeId: string,
+    triggerOn: LocationTrigger
+  ): Promise<LocationReminder | null> {
+    try {
+      const { data, error } = await supabase
+        .from('reminders')
+        .insert({
+          user_id: userId,
+          task_id: taskId,
+          reminder_type: 'location',
+          place_id: placeId,
+          trigger_on: triggerOn,
+          is_sent: false,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[ReminderService] Error creating location reminder:', error);
+        return null;
+      }
+
+      return this.mapToLocationReminder(data);
+    } catch (error) {
+      console.error('[ReminderService] Error in createLocationReminder:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all of the user's pending location reminders
+   */
+  static async getLocationReminders(userId: string): Promise<LocationReminder[]> {
+    try {
+      const { data, error } = await supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('reminder_type', 'location')
+        .eq('is_sent', false)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[ReminderService] Error fetching location reminders:', error);
+        return [];
+      }
+
+      return (data || []).map((row: Reminder) => this.mapToLocationReminder(row));
+    } catch (error) {
+      console.error('[ReminderService] Error in getLocationReminders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark reminders as sent once they have fired
+   */
+  static async markRemindersSent(userId: string, reminderIds: string[]): Promise<boolean> {
+    if (reminderIds.length === 0) return true;
+    try {
+      const { error } = await supabase
+        .from('reminders')
+        .update({ is_sent: true })
+        .eq('user_id', userId)
+        .in('id', reminderIds);
+
+      if (error) {
+        console.error('[ReminderService] Error marking reminders sent:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[ReminderService] Error in markRemindersSent:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a reminder
+   */
+  static async deleteReminder(userId: string, reminderId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('reminders')
+        .delete()
+        .eq('id', reminderId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[ReminderService] Error deleting reminder:', error);
+        return false;
+      }
+
+      await Notifications.cancelScheduledNotificationAsync(reminderId);
+      return true;
+    } catch (error) {
+      console.error('[ReminderService] Error in deleteReminder:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The user's default reminders, as minutes before the due time
+   */
+  static async getDefaultOffsets(userId: string): Promise<number[]> {
+    const settings = await NotificationService.getSettings(userId);
+    return settings?.default_reminder_offsets ?? DEFAULT_REMINDER_OFFSETS;
+  }
+
+  /**
+   * Create default reminders for a task (based on due date), at the offsets the user picked
+   * in settings
    */
   static async createDefaultReminders(
     userId: string,
     taskId: string,
     dueDate?: string,
-    dueTime?: string
+    dueTime?: string,
+    reminderType: 'due_date' | 'recurring' = 'due_date'
   ): Promise<boolean> {
     if (!dueDate) return false;
 
     try {
-      const dueDateTime = dueTime
-        ? `${dueDate}T${dueTime}:00`
-        : `${dueDate}T09:00:00`;
-
-      const dueDateObj = new Date(dueDateTime);
-      
-      // Create reminders: 1 day before, 1 hour before, and at due time
-      const reminders: string[] = [];
-
-      // 1 day before
-      const oneDayBefore = new Date(dueDateObj);
-      oneDayBefore.setDate(oneDayBefore.getDate() - 1);
-      reminders.push(oneDayBefore.toISOString());
-
-      // 1 hour before (if due time exists)
-      if (dueTime) {
-        const oneHourBefore = new Date(dueDateObj);
-        oneHourBefore.setHours(oneHourBefore.getHours() - 1);
-        reminders.push(oneHourBefore.toISOString());
-      }
-
-      // At due time
-      reminders.push(dueDateObj.toISOString());
+      const offsets = await this.getDefaultOffsets(userId);
 
-      // Schedule all reminders
-      for (const reminderTime of reminders) {
-        await this.scheduleReminder(userId, taskId, reminderTime, 'due_date');
+      for (const reminderTime of getDefaultReminderTimes({ dueDate, dueTime }, offsets)) {
+        await this.scheduleReminder(userId, taskId, reminderTime.toISOString(), reminderType);
       }
 
       return true;
@@ -0,0 +1,101 @@
+import { Task } from '@/types';
+import { addDaysToDateString, combineLocalDateTime, toLocalDateString } from './dateUtils';
+
+/**
+ * Helpers for timed task reminders: offsets from the due date and snoozing
+ */
+
+// Offsets are minutes before the due time: 1 day before, 1 hour before and at the due time
+export const DEFAULT_REMINDER_OFFSETS = [1440, 60, 0];
+
+// Offsets offered when adding a reminder or picking defaults
+export const REMINDER_OFFSET_PRESETS = [0, 5, 15, 30, 60, 120, 1440, 2880, 10080];
+
+const MINUTES_PER_DAY = 1440;
+
+// Untimed tasks are reminded relative to this time on their due date
+export const UNTIMED_REMINDER_TIME = '09:00';
+
+// Notification category whose actions snooze a reminder
+export const REMINDER_CATEGORY = 'task-reminder';
+
+export type SnoozeOption = '10m' | '1h' | 'tomorrow';
+
+export const SNOOZE_LABELS: Record<SnoozeOption, string> = {
+  '10m': '10 min',
+  '1h': '1 hour',
+  tomorrow: 'Tomorrow',
+};
+
+export function isSnoozeOption(value: string): value is SnoozeOption {
+  return value in SNOOZE_LABELS;
+}
+
+/**
+ * When a snoozed reminder comes back; "tomorrow" is 9:00 the next day
+ */
+export function getSnoozeTime(option: SnoozeOption, now: Date = new Date()): Date {
+  switch (option) {
+    case '10m':
+      return new Date(now.getTime() + 10 * 60 * 1000);
+    case '1h':
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case 'tomorrow':
+      return combineLocalDateTime(addDaysToDateString(toLocalDateString(now), 1), UNTIMED_REMINDER_TIME);
+  }
+}
+
+/**
+ * The moment reminder offsets count back from
+ */
+export function getReminderAnchor(task: Pick<Task, 'dueDate' | 'dueTime'>): Date | null {
+  if (!task.dueDate) return null;
+  return combineLocalDateTime(task.dueDate, task.dueTime || UNTIMED_REMINDER_TIME);
+}
+
+export function getReminderTime(task: Pick<Task, 'dueDate' | 'dueTime'>, offsetMinutes: number): Date | null {
+  const anchor = getReminderAnchor(task);
+  return anchor ? new Date(anchor.getTime() - offsetMinutes * 60 * 1000) : null;
+}
+
+/**
+ * Minutes a reminder is before the task's due time, or null if the task has no due date
+ */
+export function getReminderOffset(task: Pick<Task, 'dueDate' | 'dueTime'>, remindAt: string): number | null {
+  const anchor = getReminderAnchor(task);
+  if (!anchor) return null;
+  return Math.round((anchor.getTime() - new Date(remindAt).getTime()) / 60000);
+}
+
+/**
+ * Times of a task's default reminders. Tasks without a due time only get the offsets that
+ * are whole days, since "1 hour before" a whole-day task means little.
+ */
+export function getDefaultReminderTimes(
+  task: Pick<Task, 'dueDate' | 'dueTime'>,
+  offsets: number[] = DEFAULT_REMINDER_OFFSETS
+): Date[] {
+  return [...new Set(offsets)]
+    .filter(offset => task.dueTime || offset % MINUTES_PER_DAY === 0)
+    .sort((a, b) => b - a)
+    .flatMap(offset => {
+      const time = getReminderTime(task, offset);
+      return time ? [time] : [];
+    });
+}
+
+/**
+ * Describe an offset, e.g. "At due time", "15 minutes before" or "2 days before"
+ */
+export function formatReminderOffset(minutes: number): string {
+  if (minutes === 0) return 'At due time';
+
+  const abs = Math.abs(minutes);
+  const suffix = minutes > 0 ? 'before' : 'after';
+  const unit = (value: number, name: string) => `${value} ${name}${value === 1 ? '' : 's'} ${suffix}`;
+
+  if (abs % 10080 === 0) return unit(abs / 10080, 'week');
+  if (abs % MINUTES_PER_DAY === 0) return unit(abs / MINUTES_PER_DAY, 'day');
+  if (abs % 60 === 0) return unit(abs / 60, 'hour');
+  return unit(abs, 'minute');
+}
@@ -1,7 +1,20 @@
 import { useState, useCallback } from 'react';
 import { createRorkTool, useRorkAgent } from '@rork-ai/toolkit-sdk';
 import { z } from 'zod';
-import { Task, Priority, TaskCategory } from '@/types';
+import { Task, Priority, Project, Category, SmartList, TimeEntry, TaskTemplate, SavedPlace, LocationTrigger, LocationReminder } from '@/types';
+import { parseRecurrence, formatRecurrence, isValidRecurrence } from '@/lib/recurrence';
+import { getTodayDateString, isSameLocalDay } from '@/lib/dateUtils';
+import { ProjectService } from '@/lib/projectService';
+import { CategoryService, DEFAULT_CATEGORY_SLUG } from '@/lib/categoryService';
+import { SmartListService } from '@/lib/smartListService';
+import { TemplateService } from '@/lib/templateService';
+import { describeTemplate, formatDueOffset } from '@/lib/templates';
+import { TagUsage, addTags, normalizeTag, removeTags } from '@/lib/tags';
+import { TaskSearchResult } from '@/lib/search';
+import { getActiveEntry, getCategoryTotals, getEntriesSince, getEntrySeconds, getTaskTotals, getTrackedSeconds } from '@/lib/timeTracking';
+import { FOCUS_PHASE_LABELS, FocusSession, FocusSettings, getRemainingSeconds } from '@/lib/focus';
+import { PlaceService } from '@/lib/placeService';
+import { SyncService } from '@/lib/syncService';
 
 export interface UseTaskAIOptions {
   tasks: Task[];
@@ -9,10 +22,24 @@ export interface UseTaskAIOptions {
   upcomingTasks: Task[];
   overdueTasks: Task[];
   completedTasks: Task[];
+  projects: Project[];
+  categories: Category[];
+  allTags: TagUsage[];
+  smartLists: SmartList[];
+  smartListTasks: Map<string, Task[]>;
+  timeEntries: TimeEntry[];
+  templates: TaskTemplate[];
+  focusSession: FocusSession | null;
+  places: SavedPlace[];
+  searchTasks: (input: string) => Promise<TaskSearchResult>;
   onAddTask: (task: Omit<Task, 'id' | 'createdAt'>) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
   onDeleteTask: (taskId: string) => void;
   onToggleComplete: (taskId: string) => void;
+  onStartFocus: (taskId: string, overrides?: Partial<FocusSettings>) => Promise<void>;
+  onApplyTemplate: (templateId: string, anchorDate: string, projectId?: string) => Promise<Task[]>;
+  onAddTasks: (tasks: Omit<Task, 'id' | 'createdAt'>[]) => Promise<Task[]>;
+  onAddLocationReminder: (taskId: string, placeId: string, triggerOn: LocationTrigger) => Promise<LocationReminder | null>;
 }
 
 export function useTaskAI(options: UseTaskAIOptions) {
@@ -22,12 +49,73 @@ export function useTaskAI(options: UseTaskAIOptions) {
     upcomingTasks,
     overdueTasks,
     completedTasks,
+    projects,
+    categories,
+    allTags,
+    smartLists,
+    smartListTasks,
+    timeEntries,
+    templates,
+    focusSession,
+    places,
+    searchTasks,
     onAddTask,
     onUpdateTask,
     onDeleteTask,
     onToggleComplete,
+    onStartFocus,
+    onApplyTemplate,
+    onAddTasks,
+    onAddLocationReminder,
   } = options;
 
+  // Resolve a project name from the assistant; 'none' means no project. Tasks can only be
+  // put into projects the user can add to, though any project can be used to filter.
+  const resolveProject = (projectName?: string, access: 'view' | 'edit' = 'edit') => {
+    if (projectName === undefined) return { ok: true as const, projectId: undefined };
+    if (projectName.trim().toLowerCase() === 'none') return { ok: true as const, projectId: null };
+
+    const candidates = access === 'edit' ? projects.filter(ProjectService.canAddTasks) : projects;
+    const project = ProjectService.findByName(candidates, projectName);
+    if (!project) {
+      const viewOnly = ProjectService.findByName(projects, projectName);
+      if (viewOnly) {
+        return {
+          ok: false as const,
+          message: `"${viewOnly.name}" is shared with the user as view-only, so tasks can't be added to it`,
+        };
+      }
+      const available = candidates.map(p => p.name).join(', ') || 'none yet';
+      return {
+        ok: false as const,
+        message: `No project named "${projectName}". Available projects: ${available}`,
+      };
+    }
+    return { ok: true as const, projectId: project.id };
+  };
+
+  const projectNameFor = (projectId?: string) =>
+    projects.find(p => p.id === projectId)?.name;
+
+  const categoryList = categories.map(c => c.slug).join(', ');
+  const defaultCategory = categories.some(c => c.slug === DEFAULT_CATEGORY_SLUG)
+    ? DEFAULT_CATEGORY_SLUG
+    : categories[0]?.slug ?? DEFAULT_CATEGORY_SLUG;
+
+  // Resolve a category slug or name from the assistant to one of the user's categories
+  const resolveCategory = (categoryName?: string) => {
+    if (categoryName === undefined) return { ok: true as const, slug: undefined };
+
+    const category = CategoryService.findByName(categories, categoryName);
+    if (!category) {
+      return {
+        ok: false as const,
+        message: `No category named "${categoryName}". Available categories: ${categoryList}`,
+      };
+    }
+    return { ok: true as const, slug: category.slug };
+  };
+
   const agent = useRorkAgent({
     tools: {
       createTask: createRorkTool({
@@ -38,24 +126,41 @@ export function useTaskAI(options: UseTaskAIOptions) {
           dueDate: z.string().optional().describe("Due date in YYYY-MM-DD format"),
           dueTime: z.string().optional().describe("Due time in HH:MM format (24-hour)"),
           priority: z.enum(['high', 'medium', 'low', 'none']).default('medium').describe("Priority level"),
-          category: z.enum(['work', 'personal', 'health', 'shopping', 'other']).default('personal').describe("Task category"),
+          category: z.string().optional().describe(`Task category, one of: ${categoryList}. Defaults to ${defaultCategory}`),
           isRecurring: z.boolean().optional().describe("Whether the task repeats"),
-          recurringPattern: z.string().optional().describe("Recurrence pattern like 'daily', 'weekly', 'monthly'"),
+          recurringPattern: z
+            .string()
+            .refine(isValidRecurrence, "Invalid recurrence pattern. Use RRULE syntax like FREQ=WEEKLY;BYDAY=MO,WE")
+            .optional()
+            .describe("Recurrence as an RFC 5545 RRULE, e.g. 'FREQ=DAILY;INTERVAL=2', 'FREQ=WEEKLY;BYDAY=MO,WE', 'FREQ=MONTHLY;BYDAY=2TU', with optional COUNT=n or UNTIL=YYYYMMDD. The task needs a dueDate for the first occurrence."),
+          projectName: z.string().optional().describe("Name of one of the user's projects to add the task to"),
+          tags: z.array(z.string()).optional().describe("Tags for the task, without '#'. Prefer tags the user already uses"),
         }),
         execute(input) {
           console.log('[RorkAI] Creating task:', input);
+          const project = resolveProject(input.projectName);
+          if (!project.ok) {
+            return JSON.stringify({ success: false, message: project.message });
+          }
+          const category = resolveCategory(input.category);
+          if (!category.ok) {
+            return JSON.stringify({ success: false, message: category.message });
+          }
+          const rule = parseRecurrence(input.recurringPattern);
           onAddTask({
             title: input.title,
             description: input.description,
             dueDate: input.dueDate,
             dueTime: input.dueTime,
             priority: input.priority as Priority,
-            category: (input.category || 'personal') as TaskCategory,
+            category: category.slug ?? defaultCategory,
             status: 'pending',
-            isRecurring: input.isRecurring,
-            recurringPattern: input.recurringPattern,
+            isRecurring: rule ? true : input.isRecurring,
+            recurringPattern: rule ? formatRecurrence(rule) : undefined,
+            projectId: project.projectId ?? undefined,
+            tags: input.tags ? addTags([], input.tags) : undefined,
           });
-          return { success: true, message: `Task "${input.title}" created successfully` };
+          return JSON.stringify({ success: true, message: `Task "${input.title}" created successfully` });
         },
       }),
 
@@ -63,6 +168,11 @@ export function useTaskAI(options: UseTaskAIOptions) {
         description: "List tasks for the user. Use this when user asks about their tasks, what's due, or wants to see their schedule.",
         zodSchema: z.object({
           filter: z.enum(['all', 'today', 'upcoming', 'overdue', 'completed']).default('all').describe("Which tasks to show"),
+          projectName: z.string().optional().describe("Only show tasks in this project"),
+          tag: z.string().optional().describe("Only show tasks with this tag"),
+          smartList: z.string().optional().describe(
+            `Only show tasks in one of the user's saved smart lists, by name. Their smart lists: ${smartLists.map(l => l.name).join(', ') || 'none yet'}`
+          ),
           limit: z.number().optional().describe("Maximum number of tasks to return"),
         }),
         execute(input) {
@@ -86,9 +196,38 @@ export function useTaskAI(options: UseTaskAIOptions) {
               filteredTasks = tasks;
           }
 
+          if (input.projectName) {
+            const project = resolveProject(input.projectName, 'view');
+            if (!project.ok) {
+              return JSON.stringify({ count: 0, totalCount: 0, tasks: [], message: project.message });
+            }
+            filteredTasks = filteredTasks.filter(t => (t.projectId ?? null) === project.projectId);
+          }
+
+          const tag = input.tag ? normalizeTag(input.tag) : null;
+          if (tag) {
+            filteredTasks = filteredTasks.filter(t => t.tags?.includes(tag));
+          }
+
+          if (input.smartList) {
+            const list = SmartListService.findByName(smartLists, input.smartList);
+            if (!list) {
+              const available = smartLists.map(l => l.name).join(', ') || 'none yet';
+              return JSON.stringify({
+                count: 0,
+                totalCount: 0,
+                tasks: [],
+                message: `No smart list named "${input.smartList}". Available smart lists: ${available}`,
+              });
+            }
+            // Keep the smart list's own sort order
+            const remaining = new Set(filteredTasks.map(t => t.id));
+            filteredTasks = (smartListTasks.get(list.id) ?? []).filter(t => remaining.has(t.id));
+          }
+
           const limitedTasks = input.limit ? filteredTasks.slice(0, input.limit) : filteredTasks;
           
-          return {
+          return JSON.stringify({
             count: limitedTasks.length,
             totalCount: filteredTasks.length,
             tasks: limitedTasks.map(t => ({
@@ -100,8 +239,10 @@ export function useTaskAI(options: UseTaskAIOptions) {
               priority: t.priority,
               status: t.status,
               category: t.category,
+              project: projectNameFor(t.projectId),
+              tags: t.tags,
             })),
-          };
+          });
         },
       }),
 
@@ -115,14 +256,14 @@ export function useTaskAI(options: UseTaskAIOptions) {
           console.log('[RorkAI] Toggling task completion:', input.taskId);
           const task = tasks.find(t => t.id === input.taskId);
           if (!task) {
-            return { success: false, message: "Task not found" };
+            return JSON.stringify({ success: false, message: "Task not found" });
           }
           onToggleComplete(input.taskId);
           const newStatus = task.status === 'completed' ? 'pending' : 'completed';
-          return { 
+          return JSON.stringify({ 
             success: true, 
             message: `Task "${task.title}" marked as ${newStatus}` 
-          };
+          });
         },
       }),
 
@@ -135,22 +276,71 @@ export function useTaskAI(options: UseTaskAIOptions) {
           dueDate: z.string().optional().describe("New due date in YYYY-MM-DD format"),
           dueTime: z.string().optional().describe("New due time in HH:MM format"),
           priority: z.enum(['high', 'medium', 'low', 'none']).optional().describe("New priority"),
-          category: z.enum(['work', 'personal', 'health', 'shopping', 'other']).optional().describe("New category"),
+          category: z.string().optional().describe(`New category, one of: ${categoryList}`),
+          projectName: z.string().optional().describe("Move the task to this project, or 'none' to remove it from its project"),
         }),
         execute(input) {
           console.log('[RorkAI] Updating task:', input.taskId);
-          const { taskId, ...updates } = input;
+          const { taskId, projectName, category: categoryName, ...fields } = input;
           const task = tasks.find(t => t.id === taskId);
           if (!task) {
-            return { success: false, message: "Task not found" };
+            return JSON.stringify({ success: false, message: "Task not found" });
+          }
+          const project = resolveProject(projectName);
+          if (!project.ok) {
+            return JSON.stringify({ success: false, message: project.message });
+          }
+          const category = resolveCategory(categoryName);
+          if (!category.ok) {
+            return JSON.stringify({ success: false, message: category.message });
+          }
+          const updates: Partial<Task> = { ...fields };
+          if (category.slug) {
+            updates.category = category.slug;
+          }
+          if (project.projectId !== undefined) {
+            updates.projectId = project.projectId ?? undefined;
           }
-          onUpdateTask(taskId, updates as Partial<Task>);
-          return { success: true, message: `Task "${task.title}" updated successfully` };
+          onUpdateTask(taskId, updates);
+          return JSON.stringify({ success: true, message: `Task "${task.title}" updated successfully` });
+        },
+      }),
+
+      updateTaskTags: createRorkTool({
+        description: "Add or remove tags on a task. Use when the user wants to tag, label or untag a task.",
+        zodSchema: z.object({
+          taskId: z.string().describe("The ID of the task to tag"),
+          add: z.array(z.string()).optional().describe("Tags to add, without '#'"),
+          remove: z.array(z.string()).optional().describe("Tags to remove"),
+        }),
+        execute(input) {
+          console.log('[RorkAI] Updating tags on task:', input.taskId);
+          const task = tasks.find(t => t.id === input.taskId);
+          if (!task) {
+            return JSON.stringify({ success: false, message: "Task not found" });
+          }
+          const tags = removeTags(addTags(task.tags, input.add ?? []), input.remove ?? []);
+          onUpdateTask(task.id, { tags });
+          return JSON.stringify({
+            success: true,
+            message: tags.length > 0
+              ? `Task "${task.title}" is now tagged ${tags.map(t => `#${t}`).join(', ')}`
+              : `Removed all tags from "${task.title}"`,
+          });
+        },
+      }),
+
+      listTags: createRorkTool({
+        description: "List the tags the user already uses and how many tasks have each one.",
+        zodSchema: z.object({}),
+        execute() {
+          console.log('[RorkAI] Listing tags');
+          return JSON.stringify({ tags: allTags });
         },
       }),
 
       deleteTask: createRorkTool({
-        description: "Delete a task permanently. Use when user explicitly asks to delete or remove a task.",
+        description: "Move a task to the trash. Use when user explicitly asks to delete or remove a task. The user can undo this or restore the task from the trash for 30 days.",
         zodSchema: z.object({
           taskId: z.string().describe("The ID of the task to delete"),
           taskTitle: z.string().optional().describe("The title of the task (for confirmation)"),
@@ -159,24 +349,26 @@ export function useTaskAI(options: UseTaskAIOptions) {
           console.log('[RorkAI] Deleting task:', input.taskId);
           const task = tasks.find(t => t.id === input.taskId);
           if (!task) {
-            return { success: false, message: "Task not found" };
+            return JSON.stringify({ success: false, message: "Task not found" });
           }
           onDeleteTask(input.taskId);
-          return { success: true, message: `Task "${task.title}" deleted` };
+          return JSON.stringify({ success: true, message: `Task "${task.title}" moved to trash` });
         },
       }),
 
       getTaskSummary: createRorkTool({
-        description: "Get a summary of the user's tasks and productivity. Use when user asks about their progress or wants an overview.",
+        description: "Get a summary of the user's tasks and productivity. Use when user asks about their progress or wants an overview. Includes time tracked per category and task, any running timer, and focus sessions.",
         zodSchema: z.object({}),
         execute() {
           console.log('[RorkAI] Getting task summary');
-          const today = new Date().toISOString().split('T')[0];
-          const completedToday = completedTasks.filter(t => 
-            t.completedAt && t.completedAt.split('T')[0] === today
-          ).length;
+          const completedToday = completedTasks.filter(t => isSameLocalDay(t.completedAt)).length;
+          const now = new Date();
+          const toMinutes = (seconds: number) => Math.round(seconds / 60);
+          const activeEntry = getActiveEntry(timeEntries);
+          const taskTitle = (taskId: string) => tasks.find(t => t.id === taskId)?.title;
+          const focusEntries = timeEntries.filter(e => e.source === 'focus');
 
-          return {
+          return JSON.stringify({
             totalTasks: tasks.length,
             todayCount: todayTasks.length,
             upcomingCount: upcomingTasks.length,
@@ -184,30 +376,194 @@ export function useTaskAI(options: UseTaskAIOptions) {
             completedCount: completedTasks.length,
             completedToday,
             highPriorityPending: tasks.filter(t => t.priority === 'high' && t.status !== 'completed').length,
-          };
+            timeTracked: {
+              totalMinutes: toMinutes(getTrackedSeconds(timeEntries, now)),
+              todayMinutes: toMinutes(getTrackedSeconds(getEntriesSince(timeEntries, getTodayDateString(now)), now)),
+              byCategory: getCategoryTotals(timeEntries, tasks, now).map(t => ({
+                category: t.key,
+                minutes: toMinutes(t.seconds),
+              })),
+              topTasks: getTaskTotals(timeEntries, now).slice(0, 5).map(t => ({
+                title: taskTitle(t.key),
+                minutes: toMinutes(t.seconds),
+                estimatedMinutes: tasks.find(task => task.id === t.key)?.estimatedMinutes,
+              })),
+              runningTimer: activeEntry
+                ? { taskTitle: taskTitle(activeEntry.taskId), minutes: toMinutes(getEntrySeconds(activeEntry, now)) }
+                : null,
+            },
+            focus: {
+              sessionsToday: getEntriesSince(focusEntries, getTodayDateString(now)).length,
+              totalSessions: focusEntries.length,
+              activeSession: focusSession
+                ? {
+                    taskTitle: taskTitle(focusSession.taskId),
+                    phase: FOCUS_PHASE_LABELS[focusSession.phase],
+                    minutesLeft: toMinutes(getRemainingSeconds(focusSession, now)),
+                    paused: focusSession.pausedRemaining !== undefined,
+                  }
+                : null,
+            },
+          });
+        },
+      }),
+
+      startFocusSession: createRorkTool({
+        description: "Start a Pomodoro focus session on a task. Use when the user wants to focus on or work on a task for a set time. Leave the lengths unset to use the user's own settings.",
+        zodSchema: z.object({
+          taskId: z.string().describe("The ID of the task to focus on"),
+          workMinutes: z.number().int().min(5).max(90).optional().describe("Length of each focus session in minutes"),
+          breakMinutes: z.number().int().min(1).max(30).optional().describe("Length of the short breaks in minutes"),
+        }),
+        async execute(input) {
+          console.log('[RorkAI] Starting focus session:', input.taskId);
+          const task = tasks.find(t => t.id === input.taskId);
+          if (!task) {
+            return JSON.stringify({ success: false, message: "Task not found" });
+          }
+          if (task.status === 'completed') {
+            return JSON.stringify({ success: false, message: `Task "${task.title}" is already completed` });
+          }
+          const overrides: Partial<FocusSettings> = {};
+          if (input.workMinutes) overrides.workMinutes = input.workMinutes;
+          if (input.breakMinutes) overrides.shortBreakMinutes = input.breakMinutes;
+          await onStartFocus(task.id, overrides);
+          return JSON.stringify({
+            success: true,
+            message: `Focus session started on "${task.title}"${input.workMinutes ? ` for ${input.workMinutes} minutes` : ''}`,
+          });
+        },
+      }),
+
+      listTemplates: createRorkTool({
+        description: "List the user's task templates, including ones friends shared with them, with the tasks each one creates.",
+        zodSchema: z.object({}),
+        execute() {
+          console.log('[RorkAI] Listing templates');
+          return JSON.stringify({
+            templates: templates.map(t => ({
+              name: t.name,
+              description: t.description,
+              summary: describeTemplate(t),
+              shared: !!t.isShared,
+              tasks: t.tasks.map(item => ({
+                title: item.title,
+                due: item.dueOffsetDays !== undefined ? formatDueOffset(item.dueOffsetDays) : undefined,
+                priority: item.priority,
+              })),
+            })),
+          });
+        },
+      }),
+
+      createTasksFromTemplate: createRorkTool({
+        description: "Create all the tasks in one of the user's templates, with due dates counted from a start date. Use when the user asks to start, run or apply a template or repeat a workflow they saved.",
+        zodSchema: z.object({
+          templateName: z.string().describe("Name of the template"),
+          startDate: z.string().optional().describe("Date the template's due offsets count from, in YYYY-MM-DD format. Defaults to today"),
+          projectName: z.string().optional().describe("Name of one of the user's projects to add the tasks to"),
+        }),
+        async execute(input) {
+          console.log('[RorkAI] Using template:', input.templateName);
+          const template = TemplateService.findByName(templates, input.templateName);
+          if (!template) {
+            const available = templates.map(t => t.name).join(', ') || 'none yet';
+            return JSON.stringify({ success: false, message: `No template named "${input.templateName}". Available templates: ${available}` });
+          }
+          if (input.startDate && !/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) {
+            return JSON.stringify({ success: false, message: "Start date must be in YYYY-MM-DD format" });
+          }
+          const project = resolveProject(input.projectName);
+          if (!project.ok) {
+            return JSON.stringify({ success: false, message: project.message });
+          }
+          const created = await onApplyTemplate(template.id, input.startDate ?? getTodayDateString(), project.projectId ?? undefined);
+          if (created.length === 0) {
+            return JSON.stringify({ success: false, message: `Couldn't create tasks from "${template.name}"` });
+          }
+          return JSON.stringify({
+            success: true,
+            message: `Created ${created.length} tasks from "${template.name}"`,
+            tasks: created.map(t => ({ id: t.id, title: t.title, dueDate: t.dueDate })),
+          });
+        },
+      }),
+
+      addLocationReminder: createRorkTool({
+        description: "Remind the user about a task when they arrive at or leave one of their saved places, e.g. 'remind me to buy milk at the store' or 'when I leave work, remind me to call mom'. Give taskId for an existing task (use findTask first) or newTaskTitle to create one.",
+        zodSchema: z.object({
+          taskId: z.string().optional().describe("The ID of an existing task"),
+          newTaskTitle: z.string().optional().describe("Title of a new task to create for the reminder"),
+          placeName: z.string().describe(
+            `Name or kind (home, office, store) of the place. The user's places: ${places.map(p => `${p.name} (${p.kind})`).join(', ') || 'none yet'}`
+          ),
+          trigger: z.enum(['arrive', 'leave']).default('arrive').describe("Remind on arriving at or leaving the place"),
+        }),
+        async execute(input) {
+          console.log('[RorkAI] Adding location reminder:', input);
+          const place = PlaceService.findByName(places, input.placeName);
+          if (!place) {
+            const available = places.map(p => p.name).join(', ');
+            return JSON.stringify({
+              success: false,
+              message: available
+                ? `No place named "${input.placeName}". Available places: ${available}`
+                : "The user has no saved places yet. They can add one under Settings > Places",
+            });
+          }
+
+          let task = input.taskId ? tasks.find(t => t.id === input.taskId) : undefined;
+          if (input.taskId && !task) {
+            return JSON.stringify({ success: false, message: "Task not found" });
+          }
+          if (!task && input.newTaskTitle) {
+            [task] = await onAddTasks([{
+              title: input.newTaskTitle,
+              priority: 'medium',
+              category: defaultCategory,
+              status: 'pending',
+            }]);
+          }
+          if (!task) {
+            return JSON.stringify({ success: false, message: "Give the ID of a task or a title for a new one" });
+          }
+          if (SyncService.isTemporaryId(task.id)) {
+            return JSON.stringify({ success: false, message: `"${task.title}" hasn't synced yet, so a location reminder can't be added until the user is back online` });
+          }
+
+          const trigger = input.trigger as LocationTrigger;
+          const reminder = await onAddLocationReminder(task.id, place.id, trigger);
+          if (!reminder) {
+            return JSON.stringify({ success: false, message: "Couldn't save the location reminder" });
+          }
+          return JSON.stringify({
+            success: true,
+            message: `I'll remind the user about "${task.title}" when they ${trigger === 'arrive' ? 'arrive at' : 'leave'} ${place.name}`,
+          });
         },
       }),
 
       findTask: createRorkTool({
-        description: "Search for a task by title or keywords. Use when user refers to a specific task by name.",
+        description: "Search the user's tasks, including shared ones. Use when user refers to a specific task by name or asks for tasks matching some criteria. Supports words, \"exact phrases\", -excluded words and filters: priority:high, category:work, project:\"Name\", tag:client, is:completed / is:pending / is:overdue / is:shared, due:today, due:<2026-11-01, due:<=7d, due:none. Prefix a filter with - to exclude it, e.g. -completed.",
         zodSchema: z.object({
-          query: z.string().describe("Search query - task title or keywords"),
+          query: z.string().describe("Search query - task title, keywords and/or filters"),
         }),
-        execute(input) {
+        async execute(input) {
           console.log('[RorkAI] Finding task:', input.query);
-          const query = input.query.toLowerCase();
-          const matches = tasks.filter(t => 
-            t.title.toLowerCase().includes(query) ||
-            (t.description && t.description.toLowerCase().includes(query))
-          );
-          
+          const { query, tasks: matches } = await searchTasks(input.query);
+
+          if (query.errors.length > 0 && matches.length === 0) {
+            return JSON.stringify({ found: false, message: query.errors.join('. ') });
+          }
+
           if (matches.length === 0) {
-            return { found: false, message: "No tasks found matching your query" };
+            return JSON.stringify({ found: false, message: "No tasks found matching your query" });
           }
 
-          return {
+          return JSON.stringify({
             found: true,
             count: matches.length,
+            warnings: query.errors.length > 0 ? query.errors : undefined,
             tasks: matches.slice(0, 5).map(t => ({
               id: t.id,
               title: t.title,
@@ -215,8 +571,10 @@ export function useTaskAI(options: UseTaskAIOptions) {
               dueDate: t.dueDate,
               priority: t.priority,
               status: t.status,
+              tags: t.tags,
+              project: projectNameFor(t.projectId),
             })),
-          };
+          });
         },
       }),
     },
@@ -225,6 +583,18 @@ export function useTaskAI(options: UseTaskAIOptions) {
   return agent;
 }
 
+/**
+ * Tools hand their results back as JSON strings; decode one for display
+ */
+export function parseToolOutput(output: unknown): unknown {
+  if (typeof output !== 'string') return output;
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output;
+  }
+}
+
 export async function transcribeAudio(audioUri: string, fileType: string): Promise<string> {
   console.log('[RorkAI] Transcribing audio:', audioUri);
   
@@ -0,0 +1,327 @@
+import { Category, Priority, Project, Task } from '@/types';
+import { addDaysToDateString, getTodayDateString, isTaskOverdue } from '@/lib/dateUtils';
+import { normalizeTag } from '@/lib/tags';
+
+/**
+ * Task search query language.
+ *
+ * Plain words and "quoted phrases" match the title and description; a leading '-' excludes
+ * them. Filters narrow the results:
+ *   priority:high   category:work   project:"Home Reno"   tag:client (or #client)
+ *   is:completed    is:shared   due:today   due:<2026-11-01   due:<=7d   due:none
+ * Dates can be YYYY-MM-DD, today, tomorrow, yesterday or an offset from today such as 7d,
+ * 2w or -3d. Any filter can be negated with '-', and -completed / -pending / -overdue are short for
+ * -is:completed etc. Words and filters are combined with AND.
+ *
+ * The same parsed query runs on the server (TaskService.searchTasks) and against tasks in
+ * memory (matchesSearchQuery), so guests and offline searches behave the same way.
+ */
+
+export type SearchStatus = 'pending' | 'completed' | 'overdue';
+export type DateComparison = '<' | '<=' | '=' | '>=' | '>';
+
+export type SearchFilter =
+  | { field: 'priority'; value: Priority; negated: boolean }
+  | { field: 'status'; value: SearchStatus; negated: boolean }
+  // Tasks someone else owns and shared with the user, directly or through a project
+  | { field: 'shared'; negated: boolean }
+  | { field: 'category'; value: string; negated: boolean }
+  | { field: 'tag'; value: string; negated: boolean }
+  // null matches tasks outside any project
+  | { field: 'project'; value: string | null; negated: boolean }
+  // null matches tasks without a due date
+  | { field: 'due'; op: DateComparison; value: string | null; negated: boolean };
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  filters: SearchFilter[];
+  // Filters that couldn't be understood, for showing to the user
+  errors: string[];
+}
+
+export interface TaskSearchResult {
+  query: SearchQuery;
+  tasks: Task[];
+}
+
+export interface SearchContext {
+  projects: Project[];
+  categories: Category[];
+  userId?: string;
+  now?: Date;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low', 'none'];
+const STATUSES: SearchStatus[] = ['pending', 'completed', 'overdue'];
+const DATE_COMPARISONS: DateComparison[] = ['<=', '>=', '<', '>', '='];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE = /^([+-]?\d+)([dw])$/;
+
+// -?  key:  "quoted value" | bare value
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function resolveDate(value: string, now: Date): string | null {
+  const today = getTodayDateString(now);
+  switch (value) {
+    case 'today':
+      return today;
+    case 'tomorrow':
+      return addDaysToDateString(today, 1);
+    case 'yesterday':
+      return addDaysToDateString(today, -1);
+    default: {
+      const relative = value.match(RELATIVE_DATE);
+      if (relative) {
+        const amount = parseInt(relative[1], 10);
+        return addDaysToDateString(today, relative[2] === 'w' ? amount * 7 : amount);
+      }
+      return ISO_DATE.test(value) ? value : null;
+    }
+  }
+}
+
+function parseFilter(
+  key: string,
+  value: string,
+  negated: boolean,
+  context: SearchContext
+): SearchFilter | string | null {
+  const lower = value.toLowerCase();
+
+  switch (key) {
+    case 'priority':
+      return PRIORITIES.includes(lower as Priority)
+        ? { field: 'priority', value: lower as Priority, negated }
+        : `Unknown priority "${value}"`;
+
+    case 'is':
+    case 'status':
+      if (lower === 'shared') return { field: 'shared', negated };
+      return STATUSES.includes(lower as SearchStatus)
+        ? { field: 'status', value: lower as SearchStatus, negated }
+        : `Unknown status "${value}"`;
+
+    case 'category': {
+      const category = context.categories.find(
+        c => c.slug === lower || c.name.toLowerCase() === lower
+      );
+      return category
+        ? { field: 'category', value: category.slug, negated }
+        : `No category named "${value}"`;
+    }
+
+    case 'tag': {
+      const tag = normalizeTag(value);
+      return tag ? { field: 'tag', value: tag, negated } : null;
+    }
+
+    case 'project': {
+      if (lower === 'none') return { field: 'project', value: null, negated };
+      const project = context.projects.find(p => p.name.toLowerCase() === lower);
+      return project
+        ? { field: 'project', value: project.id, negated }
+        : `No project named "${value}"`;
+    }
+
+    case 'due': {
+      if (lower === 'none') return { field: 'due', op: '=', value: null, negated };
+      const op = DATE_COMPARISONS.find(c => lower.startsWith(c));
+      const date = resolveDate(op ? lower.slice(op.length) : lower, context.now ?? new Date());
+      return date
+        ? { field: 'due', op: op ?? '=', value: date, negated }
+        : `Unknown date "${value}"; use YYYY-MM-DD, today, tomorrow, yesterday or e.g. 7d`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a search string into words, phrases and filters
+ */
+export function parseSearchQuery(input: string, context: SearchContext): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    filters: [],
+    errors: [],
+  };
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, key, quoted, bare] = match;
+    const negated = minus === '-';
+    const value = quoted ?? bare ?? '';
+
+    if (key) {
+      const filter = parseFilter(key.toLowerCase(), value, negated, context);
+      if (typeof filter === 'string') {
+        query.errors.push(filter);
+        continue;
+      }
+      if (filter) {
+        query.filters.push(filter);
+        continue;
+      }
+      // Not a filter we know, so search for the text as typed
+    }
+
+    if (!key && value.startsWith('#') && value.length > 1) {
+      const tag = normalizeTag(value);
+      if (tag) query.filters.push({ field: 'tag', value: tag, negated });
+      continue;
+    }
+
+    if (!key && quoted === undefined && negated && STATUSES.includes(value.toLowerCase() as SearchStatus)) {
+      query.filters.push({ field: 'status', value: value.toLowerCase() as SearchStatus, negated: true });
+      continue;
+    }
+
+    const text = (key ? raw.replace(/^-/, '') : value).trim().toLowerCase();
+    if (!text) continue;
+
+    if (quoted !== undefined && !key) {
+      (negated ? query.excludedPhrases : query.phrases).push(text);
+    } else {
+      (negated ? query.excludedTerms : query.terms).push(text);
+    }
+  }
+
+  return query;
+}
+
+/**
+ * True if the query has nothing to search for
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    query.excludedTerms.length === 0 &&
+    query.excludedPhrases.length === 0 &&
+    query.filters.length === 0
+  );
+}
+
+function compareDates(a: string, op: DateComparison, b: string): boolean {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+}
+
+function matchesFilter(task: Task, filter: SearchFilter, now: Date, userId?: string): boolean {
+  switch (filter.field) {
+    case 'priority':
+      return task.priority === filter.value;
+    case 'status':
+      if (filter.value === 'completed') return task.status === 'completed';
+      if (filter.value === 'overdue') return isTaskOverdue(task, now);
+      return task.status !== 'completed';
+    case 'shared':
+      return !!userId && !!task.ownerId && task.ownerId !== userId;
+    case 'category':
+      return task.category === filter.value;
+    case 'tag':
+      return task.tags?.includes(filter.value) ?? false;
+    case 'project':
+      return (task.projectId ?? null) === filter.value;
+    case 'due':
+      if (filter.value === null) return !task.dueDate;
+      if (!task.dueDate) return false;
+      return compareDates(task.dueDate.split('T')[0], filter.op, filter.value);
+  }
+}
+
+/**
+ * Does the task match the query? Used for guests and when the server can't be reached.
+ */
+export function matchesSearchQuery(
+  task: Task,
+  query: SearchQuery,
+  { userId, now = new Date() }: Pick<SearchContext, 'userId' | 'now'> = {}
+): boolean {
+  const text = `${task.title}\n${task.description ?? ''}`.toLowerCase();
+
+  return (
+    query.terms.every(term => text.includes(term)) &&
+    query.phrases.every(phrase => text.includes(phrase)) &&
+    !query.excludedTerms.some(term => text.includes(term)) &&
+    !query.excludedPhrases.some(phrase => text.includes(phrase)) &&
+    query.filters.every(filter => {
+      // Like SQL, a negated date comparison still never matches tasks without a due date
+      if (filter.field === 'due' && filter.value !== null && filter.negated) {
+        return !!task.dueDate && !matchesFilter(task, filter, now);
+      }
+      return matchesFilter(task, filter, now, userId) !== filter.negated;
+    })
+  );
+}
+
+/**
+ * Order results so title matches come first, then by due date
+ */
+export function rankSearchResults(tasks: Task[], query: SearchQuery): Task[] {
+  const words = [...query.terms, ...query.phrases];
+  const score = (task: Task) => {
+    const title = task.title.toLowerCase();
+    return words.reduce((sum, word) => sum + (title.includes(word) ? 2 : 0), 0) +
+      (task.status === 'completed' ? -1 : 0);
+  };
+
+  return [...tasks].sort((a, b) =>
+    score(b) - score(a) ||
+    (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+    a.title.localeCompare(b.title)
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split text into segments, marking the parts that match the query's words and phrases
+ */
+export function getHighlightSegments(text: string, query: SearchQuery): HighlightSegment[] {
+  const words = [...query.phrases, ...query.terms].filter(Boolean);
+  if (words.length === 0 || !text) return [{ text, highlighted: false }];
+
+  // Longest first so a phrase wins over a word inside it
+  const pattern = new RegExp(
+    `(${words.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+
+  // split() with a capture group puts the matches at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, highlighted: index % 2 === 1 }))
+    .filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Build the input for Postgres websearch_to_tsquery from the query's text parts
+ */
+export function toWebSearchQuery(query: SearchQuery): string {
+  const quote = (phrase: string) => `"${phrase.replace(/"/g, '')}"`;
+  return [
+    ...query.terms,
+    ...query.phrases.map(quote),
+    ...query.excludedTerms.map(term => `-${term}`),
+    ...query.excludedPhrases.map(phrase => `-${quote(phrase)}`),
+  ].join(' ');
+}
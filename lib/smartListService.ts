@@ -0,0 +1,159 @@
+import { supabase } from './supabase';
+import { SmartList, SmartListSort } from '@/types';
+
+export interface SmartListRow {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  sort: SmartListSort;
+  is_pinned: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewSmartList = Pick<SmartList, 'name' | 'query' | 'sort' | 'isPinned'>;
+
+/**
+ * Smart List Service for the user's saved task filters
+ */
+export class SmartListService {
+  /**
+   * Map database row to SmartList type
+   */
+  private static mapToSmartList(row: SmartListRow): SmartList {
+    return {
+      id: row.id,
+      name: row.name,
+      query: row.query,
+      sort: row.sort,
+      isPinned: row.is_pinned,
+      sortOrder: row.sort_order,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get the user's smart lists in their order
+   */
+  static async getSmartLists(userId: string): Promise<SmartList[]> {
+    try {
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('[SmartListService] Error fetching smart lists:', error);
+        return [];
+      }
+
+      return (data || []).map((row: SmartListRow) => this.mapToSmartList(row));
+    } catch (error) {
+      console.error('[SmartListService] Error in getSmartLists:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a smart list at the end of the user's list
+   */
+  static async createSmartList(userId: string, list: NewSmartList, sortOrder: number): Promise<SmartList | null> {
+    try {
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .insert({
+          user_id: userId,
+          name: list.name,
+          query: list.query,
+          sort: list.sort,
+          is_pinned: list.isPinned,
+          sort_order: sortOrder,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[SmartListService] Error creating smart list:', error);
+        return null;
+      }
+
+      return this.mapToSmartList(data);
+    } catch (error) {
+      console.error('[SmartListService] Error in createSmartList:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a smart list's name, query, sort, pin or order
+   */
+  static async updateSmartList(
+    userId: string,
+    listId: string,
+    updates: Partial<Pick<SmartList, 'name' | 'query' | 'sort' | 'isPinned' | 'sortOrder'>>
+  ): Promise<SmartList | null> {
+    try {
+      const updateRow: Partial<SmartListRow> = { updated_at: new Date().toISOString() };
+      if (updates.name !== undefined) updateRow.name = updates.name;
+      if (updates.query !== undefined) updateRow.query = updates.query;
+      if (updates.sort !== undefined) updateRow.sort = updates.sort;
+      if (updates.isPinned !== undefined) updateRow.is_pinned = updates.isPinned;
+      if (updates.sortOrder !== undefined) updateRow.sort_order = updates.sortOrder;
+
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .update(updateRow)
+        .eq('id', listId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[SmartListService] Error updating smart list:', error);
+        return null;
+      }
+
+      return this.mapToSmartList(data);
+    } catch (error) {
+      console.error('[SmartListService] Error in updateSmartList:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a smart list. Tasks are not affected.
+   */
+  static async deleteSmartList(userId: string, listId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('smart_lists')
+        .delete()
+        .eq('id', listId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[SmartListService] Error deleting smart list:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[SmartListService] Error in deleteSmartList:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find a smart list by name, ignoring case (used by the assistant)
+   */
+  static findByName(lists: SmartList[], name: string): SmartList | undefined {
+    const needle = name.trim().toLowerCase();
+    return (
+      lists.find(l => l.name.toLowerCase() === needle) ||
+      lists.find(l => l.name.toLowerCase().includes(needle))
+    );
+  }
+}
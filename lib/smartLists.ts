@@ -0,0 +1,56 @@
+import { SmartList, SmartListSort, Task } from '@/types';
+import { SearchContext, matchesSearchQuery, parseSearchQuery } from '@/lib/search';
+
+/**
+ * Helpers for smart lists: saved search queries with a sort order.
+ *
+ * Lists are evaluated against the tasks already loaded, so their counts stay live
+ * as tasks change without going back to the server.
+ */
+
+export const SMART_LIST_SORTS: { value: SmartListSort; label: string }[] = [
+  { value: 'due', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'created', label: 'Newest' },
+  { value: 'title', label: 'Title' },
+];
+
+// Starting points offered when creating a list
+export const SMART_LIST_EXAMPLES: { name: string; query: string; sort: SmartListSort }[] = [
+  { name: 'High priority work this week', query: 'priority:high category:work due:>=today due:<=7d -completed', sort: 'due' },
+  { name: 'Shared with me, not done', query: 'is:shared -completed', sort: 'due' },
+  { name: 'No due date', query: 'due:none -completed', sort: 'created' },
+];
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2, none: 3 };
+
+/**
+ * Sort tasks for a smart list; ties fall back to due date, then title
+ */
+export function sortTasks(tasks: Task[], sort: SmartListSort): Task[] {
+  const byDue = (a: Task, b: Task) =>
+    (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+    (a.dueTime ?? '99').localeCompare(b.dueTime ?? '99');
+  const byTitle = (a: Task, b: Task) => a.title.localeCompare(b.title);
+
+  return [...tasks].sort((a, b) => {
+    switch (sort) {
+      case 'priority':
+        return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || byDue(a, b) || byTitle(a, b);
+      case 'created':
+        return b.createdAt.localeCompare(a.createdAt) || byTitle(a, b);
+      case 'title':
+        return byTitle(a, b);
+      default:
+        return byDue(a, b) || byTitle(a, b);
+    }
+  });
+}
+
+/**
+ * The tasks in a smart list, sorted
+ */
+export function getSmartListTasks(tasks: Task[], list: SmartList, context: SearchContext): Task[] {
+  const query = parseSearchQuery(list.query, context);
+  return sortTasks(tasks.filter(t => matchesSearchQuery(t, query, context)), list.sort);
+}
@@ -0,0 +1,373 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Task, TaskChangeSource } from '@/types';
+import { TaskService, TaskWriteFailure } from './taskService';
+import { ReminderService } from './reminderService';
+import { NotificationService } from './notificationService';
+import { ChatService } from './chatService';
+import { TaskShareService } from './taskShareService';
+import { AttachmentService } from './attachmentService';
+import { TaskConflict, TaskFieldConflict, mergeTaskUpdates } from './taskMerge';
+
+export type SyncOperationType = 'create' | 'update' | 'delete' | 'restore';
+
+export interface SyncOperation {
+  id: string;
+  type: SyncOperationType;
+  taskId: string;
+  payload?: Partial<Task>;
+  base?: Partial<Task>;
+  baseUpdatedAt?: string;
+  createdAt: string;
+  attempts: number;
+}
+
+export interface SyncReplayResult {
+  synced: number;
+  remaining: number;
+  idMap: Record<string, string>;
+  conflicts: TaskConflict[];
+  // Operations the server kept rejecting, set aside during this replay
+  failed: SyncOperation[];
+}
+
+export type PushUpdateResult =
+  | { status: 'synced'; task: Task; conflict?: TaskConflict }
+  | { status: 'failed'; failure: TaskWriteFailure };
+
+const OUTBOX_KEY = 'taskify_sync_outbox';
+const FAILED_KEY = 'taskify_sync_failed';
+const TEMP_ID_PREFIX = 'local-';
+const MAX_ATTEMPTS = 5;
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Sync Service: a durable outbox for task mutations that could not reach Supabase.
+ * Operations are persisted in AsyncStorage per user and replayed in order once
+ * connectivity returns; tasks created offline get a temporary id that is remapped
+ * to the server UUID during replay.
+ */
+export class SyncService {
+  private static replaying = false;
+
+  private static storageKey(userId: string) {
+    return `${OUTBOX_KEY}:${userId}`;
+  }
+
+  private static failedKey(userId: string) {
+    return `${FAILED_KEY}:${userId}`;
+  }
+
+  /**
+   * Create a temporary id for a task that only exists locally
+   */
+  static createTemporaryId(): string {
+    return `${TEMP_ID_PREFIX}${Crypto.randomUUID()}`;
+  }
+
+  /**
+   * Whether an id was created locally and has not been synced yet
+   */
+  static isTemporaryId(id: string): boolean {
+    return id.startsWith(TEMP_ID_PREFIX);
+  }
+
+  /**
+   * Get queued operations for a user, oldest first
+   */
+  static async getQueue(userId: string): Promise<SyncOperation[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[SyncService] Error reading outbox:', error);
+      return [];
+    }
+  }
+
+  private static async saveQueue(userId: string, queue: SyncOperation[]) {
+    await AsyncStorage.setItem(this.storageKey(userId), JSON.stringify(queue));
+  }
+
+  /**
+   * Get operations the server rejected, kept until the user retries or discards them
+   */
+  static async getFailed(userId: string): Promise<SyncOperation[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.failedKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[SyncService] Error reading failed operations:', error);
+      return [];
+    }
+  }
+
+  private static async saveFailed(userId: string, failed: SyncOperation[]) {
+    await AsyncStorage.setItem(this.failedKey(userId), JSON.stringify(failed));
+  }
+
+  /**
+   * Put rejected operations back at the front of the outbox with a fresh set of attempts
+   */
+  static async retryFailed(userId: string): Promise<SyncOperation[]> {
+    const [failed, queue] = await Promise.all([this.getFailed(userId), this.getQueue(userId)]);
+    const next = [...failed.map(op => ({ ...op, attempts: 0 })), ...queue];
+    await this.saveQueue(userId, next);
+    await this.saveFailed(userId, []);
+    return next;
+  }
+
+  /**
+   * Give up on rejected operations; the server's version of those tasks stands
+   */
+  static async discardFailed(userId: string): Promise<void> {
+    await this.saveFailed(userId, []);
+  }
+
+  /**
+   * Record an operation. Operations on a task that was never synced are folded into
+   * its pending create, and a restore cancels a delete that hasn't been sent, so the
+   * server only ever sees the final state.
+   */
+  static async enqueue(
+    userId: string,
+    operation: Pick<SyncOperation, 'type' | 'taskId' | 'payload' | 'base' | 'baseUpdatedAt'>
+  ): Promise<SyncOperation[]> {
+    const queue = await this.getQueue(userId);
+    const pendingCreate = queue.find(op => op.type === 'create' && op.taskId === operation.taskId);
+    const pendingDelete = queue.find(op => op.type === 'delete' && op.taskId === operation.taskId);
+
+    let next: SyncOperation[];
+    if (pendingCreate && operation.type === 'update') {
+      next = queue.map(op =>
+        op === pendingCreate ? { ...op, payload: { ...op.payload, ...operation.payload } } : op
+      );
+    } else if (pendingCreate && operation.type === 'delete') {
+      next = queue.filter(op => op.taskId !== operation.taskId);
+    } else if (pendingDelete && operation.type === 'restore') {
+      next = queue.filter(op => op !== pendingDelete);
+    } else {
+      next = [
+        ...queue,
+        {
+          ...operation,
+          id: Crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+          attempts: 0,
+        },
+      ];
+    }
+
+    await this.saveQueue(userId, next);
+    return next;
+  }
+
+  /**
+   * Send an update that only applies on top of the version the client last saw.
+   * When someone else changed the task in between, fields they didn't touch are merged
+   * and retried; fields both sides changed are returned as a conflict for the user.
+   */
+  static async pushUpdate(
+    userId: string,
+    taskId: string,
+    updates: Partial<Task>,
+    base: Partial<Task>,
+    expectedUpdatedAt?: string,
+    source: TaskChangeSource = 'manual'
+  ): Promise<PushUpdateResult> {
+    let pending = updates;
+    let expected = expectedUpdatedAt;
+    let conflicts: TaskFieldConflict[] = [];
+
+    const toResult = (task: Task): PushUpdateResult => ({
+      status: 'synced',
+      task,
+      conflict: conflicts.length > 0 ? { taskId, remote: task, local: updates, conflicts } : undefined,
+    });
+
+    for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+      const result = await TaskService.updateTaskIfUnchanged(userId, taskId, pending, expected, source);
+      if (result.status === 'error') return { status: 'failed', failure: result.failure };
+      if (result.status === 'updated') return toResult(result.task);
+
+      const merge = mergeTaskUpdates(base, pending, result.serverTask);
+      conflicts = [...conflicts, ...merge.conflicts];
+      if (Object.keys(merge.merged).length === 0) return toResult(result.serverTask);
+
+      pending = merge.merged;
+      expected = result.serverTask.updatedAt;
+    }
+
+    // The task kept changing underneath us; worth another go later
+    return { status: 'failed', failure: 'transient' };
+  }
+
+  /**
+   * Whether a task has operations waiting in the outbox
+   */
+  static hasPendingOperations(queue: SyncOperation[], taskId: string): boolean {
+    return queue.some(op => op.taskId === taskId);
+  }
+
+  /**
+   * Overlay queued operations on tasks fetched from the server so a refetch
+   * doesn't discard local changes that haven't been synced yet
+   */
+  static applyPendingOperations(tasks: Task[], queue: SyncOperation[]): Task[] {
+    let result = [...tasks];
+    for (const op of queue) {
+      switch (op.type) {
+        case 'create':
+          if (!result.some(t => t.id === op.taskId)) {
+            result = [{ ...(op.payload as Task), id: op.taskId, createdAt: op.createdAt }, ...result];
+          }
+          break;
+        case 'update':
+          result = result.map(t => (t.id === op.taskId ? { ...t, ...op.payload } : t));
+          break;
+        case 'delete':
+          result = result.filter(t => t.id !== op.taskId);
+          break;
+        case 'restore':
+          if (op.payload && !result.some(t => t.id === op.taskId)) {
+            result = [{ ...(op.payload as Task), deletedAt: undefined }, ...result];
+          }
+          break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replay queued operations in order. Stops at the first failure so later operations
+   * never overtake earlier ones. Being offline doesn't count against an operation; one
+   * the server rejects MAX_ATTEMPTS times is set aside, together with the later
+   * operations on the same task, until the user retries or discards it.
+   */
+  static async replay(userId: string): Promise<SyncReplayResult> {
+    const idMap: Record<string, string> = {};
+    const conflicts: TaskConflict[] = [];
+    const failed: SyncOperation[] = [];
+    if (this.replaying) {
+      return { synced: 0, remaining: (await this.getQueue(userId)).length, idMap, conflicts, failed };
+    }
+
+    this.replaying = true;
+    let synced = 0;
+    let queue = await this.getQueue(userId);
+
+    try {
+      while (queue.length > 0) {
+        const op = queue[0];
+        const outcome = await this.runOperation(userId, op, idMap, conflicts);
+
+        if (outcome === 'transient') break;
+
+        if (outcome === 'rejected') {
+          if (op.attempts + 1 < MAX_ATTEMPTS) {
+            queue = [{ ...op, attempts: op.attempts + 1 }, ...queue.slice(1)];
+            await this.saveQueue(userId, queue);
+            break;
+          }
+
+          console.error('[SyncService] Setting aside operation the server keeps rejecting:', op);
+          const setAside = queue.filter(pending => pending.taskId === op.taskId);
+          failed.push(...setAside);
+          await this.saveFailed(userId, [...(await this.getFailed(userId)), ...setAside]);
+          queue = queue.filter(pending => pending.taskId !== op.taskId);
+        } else {
+          synced++;
+          queue = queue.slice(1).map(pending => this.remapOperation(pending, idMap));
+        }
+
+        await this.saveQueue(userId, queue);
+      }
+    } catch (error) {
+      console.error('[SyncService] Error replaying outbox:', error);
+    } finally {
+      this.replaying = false;
+    }
+
+    return { synced, remaining: queue.length, idMap, conflicts, failed };
+  }
+
+  /**
+   * Swap temporary ids in a queued operation, including blockers it links to
+   */
+  private static remapOperation(op: SyncOperation, idMap: Record<string, string>): SyncOperation {
+    const remapBlockers = (fields?: Partial<Task>) =>
+      fields?.blockedBy ? { ...fields, blockedBy: fields.blockedBy.map(id => idMap[id] ?? id) } : fields;
+
+    return {
+      ...op,
+      taskId: idMap[op.taskId] ?? op.taskId,
+      payload: remapBlockers(op.payload),
+      base: remapBlockers(op.base),
+    };
+  }
+
+  private static async runOperation(
+    userId: string,
+    op: SyncOperation,
+    idMap: Record<string, string>,
+    conflicts: TaskConflict[]
+  ): Promise<'synced' | TaskWriteFailure> {
+    switch (op.type) {
+      case 'create': {
+        const payload = op.payload as Omit<Task, 'id' | 'createdAt'>;
+        const result = await TaskService.tryCreateTask(userId, payload, 'sync');
+        if (result.status === 'error') return result.failure;
+
+        idMap[op.taskId] = result.value.id;
+        await this.remapTaskLinks(userId, op.taskId, result.value);
+        return 'synced';
+      }
+      case 'update': {
+        const result = await this.pushUpdate(
+          userId,
+          op.taskId,
+          op.payload || {},
+          op.base || {},
+          op.baseUpdatedAt,
+          'sync'
+        );
+        if (result.status === 'failed') return result.failure;
+        if (result.conflict) conflicts.push(result.conflict);
+        return 'synced';
+      }
+      case 'delete': {
+        const result = await TaskService.tryDeleteTask(userId, op.taskId, 'sync');
+        return result.status === 'ok' ? 'synced' : result.failure;
+      }
+      case 'restore': {
+        const result = await TaskService.tryRestoreTask(userId, op.taskId, 'sync');
+        return result.status === 'ok' ? 'synced' : result.failure;
+      }
+    }
+  }
+
+  /**
+   * Point everything that referenced a temporary id at the server task
+   */
+  private static async remapTaskLinks(userId: string, temporaryId: string, created: Task) {
+    // Reminders can't be stored against a temporary id, so they are created now
+    await NotificationService.cancelTaskNotifications(temporaryId);
+    if (created.dueDate) {
+      await ReminderService.createDefaultReminders(
+        userId,
+        created.id,
+        created.dueDate,
+        created.dueTime,
+        created.isRecurring ? 'recurring' : 'due_date'
+      );
+    }
+
+    // Likewise friends assigned while offline can only be shared the task now
+    if (created.assignedTo?.length) {
+      await TaskShareService.shareWithAssignees(userId, created);
+    }
+
+    await ChatService.remapTaskId(userId, temporaryId, created.id);
+    await AttachmentService.remapTaskId(userId, temporaryId, created.id);
+  }
+}
@@ -0,0 +1,86 @@
+import { Task } from '@/types';
+
+/**
+ * Helpers for free-form task tags.
+ *
+ * Tags are stored lowercase without a leading '#', with spaces turned into dashes,
+ * so "#Q1 Review" and "q1-review" are the same tag.
+ */
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize user input into a tag, or null if nothing is left
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/**
+ * Add tags to a list, skipping blanks and duplicates
+ */
+export function addTags(current: string[] | undefined, additions: string[]): string[] {
+  const result = [...(current ?? [])];
+  for (const input of additions) {
+    const tag = normalizeTag(input);
+    if (tag && !result.includes(tag)) {
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove tags from a list
+ */
+export function removeTags(current: string[] | undefined, removals: string[]): string[] {
+  const removed = new Set(removals.map(normalizeTag));
+  return (current ?? []).filter(tag => !removed.has(tag));
+}
+
+/**
+ * Replace one tag with another in a list; merging into an existing tag drops the duplicate
+ */
+export function renameTagInList(current: string[], from: string, to: string): string[] {
+  if (!current.includes(from)) return current;
+  return addTags([], current.map(tag => (tag === from ? to : tag)));
+}
+
+/**
+ * Every tag used across the tasks, most used first
+ */
+export function collectTags(tasks: Task[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+/**
+ * Existing tags that start with (or else contain) the query, for autocomplete
+ */
+export function suggestTags(allTags: TagUsage[], query: string, exclude: string[] = [], limit = 6): string[] {
+  const needle = normalizeTag(query);
+  const candidates = allTags.map(t => t.tag).filter(tag => !exclude.includes(tag));
+  if (!needle) return candidates.slice(0, limit);
+
+  const prefixed = candidates.filter(tag => tag.startsWith(needle));
+  const containing = candidates.filter(tag => !tag.startsWith(needle) && tag.includes(needle));
+  return [...prefixed, ...containing].slice(0, limit);
+}
@@ -0,0 +1,51 @@
+import { TaskActivity, TaskChangeSource, TaskFieldChange } from '@/types';
+import { MergeableTaskField, getFieldLabel } from './taskMerge';
+
+/**
+ * Helpers for showing a task's activity history
+ */
+
+const SOURCE_LABELS: Record<TaskChangeSource, string | undefined> = {
+  manual: undefined,
+  assistant: 'via assistant',
+  sync: 'synced from offline',
+  recurrence: 'from a recurring task',
+};
+
+export function getActivitySourceLabel(source: TaskChangeSource): string | undefined {
+  return SOURCE_LABELS[source];
+}
+
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * One-line summary of an entry, e.g. "Sam completed the task"
+ */
+export function describeActivity(activity: TaskActivity, actor: string): string {
+  switch (activity.action) {
+    case 'created':
+      return `${actor} created the task`;
+    case 'deleted':
+      return `${actor} moved the task to the trash`;
+    case 'restored':
+      return `${actor} restored the task from the trash`;
+  }
+
+  const status = activity.changes.find(c => c.field === 'status');
+  if (status?.to === 'completed') return `${actor} completed the task`;
+  if (status?.from === 'completed') return `${actor} reopened the task`;
+
+  const labels = activity.changes.map(c => getFieldLabel(c.field as MergeableTaskField).toLowerCase());
+  return `${actor} changed ${joinLabels(labels)}`;
+}
+
+/**
+ * The field changes worth listing under the summary; a completed or reopened status
+ * is already in the summary
+ */
+export function getListedChanges(activity: TaskActivity): TaskFieldChange[] {
+  return activity.changes.filter(c => c.field !== 'status' || (c.to !== 'completed' && c.from !== 'completed'));
+}
@@ -0,0 +1,100 @@
+import { supabase } from './supabase';
+import { Task, TaskActivity, TaskActivityAction, TaskChangeSource, TaskFieldChange } from '@/types';
+import { TaskService, SubtaskRow } from './taskService';
+import { normalizeTime } from './dateUtils';
+
+export interface TaskActivityRow {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: TaskActivityAction;
+  source: TaskChangeSource;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  created_at: string;
+}
+
+// Task columns the activity trigger tracks, and the Task fields they map to
+const COLUMN_FIELDS: Record<string, keyof Task> = {
+  title: 'title',
+  description: 'description',
+  due_date: 'dueDate',
+  due_time: 'dueTime',
+  priority: 'priority',
+  status: 'status',
+  category: 'category',
+  tags: 'tags',
+  assigned_to: 'assignedTo',
+  is_recurring: 'isRecurring',
+  recurring_pattern: 'recurringPattern',
+  subtasks: 'subtasks',
+  project_id: 'projectId',
+  blocked_by: 'blockedBy',
+  estimated_minutes: 'estimatedMinutes',
+};
+
+/**
+ * Task Activity Service for the history of changes to a task. Entries are written by a
+ * database trigger on every task insert and update, so this service only reads them.
+ */
+export class TaskActivityService {
+  /**
+   * Convert a stored column value to the shape the Task field uses
+   */
+  private static mapValue(field: keyof Task, value: unknown): unknown {
+    if (value === null || value === undefined) return undefined;
+    if (field === 'subtasks') return TaskService.mapToSubtasks(value as SubtaskRow[]);
+    if (field === 'dueTime') return normalizeTime(value as string);
+    return value;
+  }
+
+  /**
+   * Map database row to TaskActivity type
+   */
+  private static mapToActivity(row: TaskActivityRow): TaskActivity {
+    const changes: TaskFieldChange[] = Object.entries(row.changes || {}).flatMap(([column, change]) => {
+      const field = COLUMN_FIELDS[column];
+      if (!field) return [];
+      return [{
+        field,
+        from: TaskActivityService.mapValue(field, change.from),
+        to: TaskActivityService.mapValue(field, change.to),
+      }];
+    });
+
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      actorId: row.actor_id || undefined,
+      actorName: row.actor_name || undefined,
+      action: row.action,
+      source: row.source,
+      changes,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get a task's history, newest first
+   */
+  static async getTaskActivity(taskId: string, limit = 50): Promise<TaskActivity[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_activity')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('[TaskActivityService] Error fetching activity:', error);
+        return [];
+      }
+
+      return (data || []).map((row: TaskActivityRow) => this.mapToActivity(row));
+    } catch (error) {
+      console.error('[TaskActivityService] Error in getTaskActivity:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { Task } from '@/types';
+import { parseLocalDate } from './dateUtils';
+import { describeRecurrence, parseRecurrence } from './recurrence';
+import { formatDuration } from './timeTracking';
+
+/**
+ * Three-way merge for concurrent task edits.
+ *
+ * `base` holds the values the client saw before editing, `local` the client's changes and
+ * `remote` the task as it is now on the server. A field only conflicts when both sides
+ * changed it to different values; everything else merges automatically.
+ */
+
+export type MergeableTaskField = Exclude<
+  keyof Task,
+  'id' | 'createdAt' | 'ownerId' | 'createdById' | 'updatedById' | 'updatedAt' | 'deletedAt'
+>;
+
+export interface TaskFieldConflict {
+  field: MergeableTaskField;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface TaskConflict {
+  taskId: string;
+  remote: Task;
+  local: Partial<Task>;
+  conflicts: TaskFieldConflict[];
+}
+
+export interface TaskMergeResult {
+  merged: Partial<Task>;
+  conflicts: TaskFieldConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+const IGNORED_FIELDS = new Set<keyof Task>([
+  'id',
+  'createdAt',
+  'ownerId',
+  'createdById',
+  'updatedById',
+  'updatedAt',
+  'deletedAt',
+]);
+
+const FIELD_LABELS: Record<MergeableTaskField, string> = {
+  title: 'Title',
+  description: 'Description',
+  dueDate: 'Due date',
+  dueTime: 'Due time',
+  priority: 'Priority',
+  status: 'Status',
+  category: 'Category',
+  tags: 'Tags',
+  assignedTo: 'Assigned to',
+  completedAt: 'Completed at',
+  isRecurring: 'Repeats',
+  recurringPattern: 'Repeat rule',
+  subtasks: 'Steps',
+  projectId: 'Project',
+  blockedBy: 'Blocked by',
+  estimatedMinutes: 'Estimate',
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Values that mean the same thing to the user compare equal: overdue is just a derived
+ * pending, and two completion timestamps both mean "done"
+ */
+function normalizeValue(field: keyof Task, value: unknown): unknown {
+  if (isEmpty(value) || value === false) return null;
+  if (field === 'status') return value === 'completed' ? 'completed' : 'pending';
+  if (field === 'completedAt') return true;
+  return value;
+}
+
+/**
+ * Compare two values of the same field
+ */
+export function areFieldValuesEqual(field: keyof Task, a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(field, a)) === JSON.stringify(normalizeValue(field, b));
+}
+
+/**
+ * Pick the values of the fields being updated from a task, to use as the merge base
+ */
+export function pickBaseValues(task: Task, updates: Partial<Task>): Partial<Task> {
+  const base: Partial<Task> = {};
+  for (const field of Object.keys(updates) as (keyof Task)[]) {
+    (base as Record<string, unknown>)[field] = task[field];
+  }
+  return base;
+}
+
+/**
+ * Merge local updates onto the current server task
+ */
+export function mergeTaskUpdates(base: Partial<Task>, local: Partial<Task>, remote: Task): TaskMergeResult {
+  const merged: Partial<Task> = {};
+  const conflicts: TaskFieldConflict[] = [];
+
+  for (const field of Object.keys(local) as (keyof Task)[]) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    if (areFieldValuesEqual(field, localValue, remoteValue)) continue;
+    // Only the server changed this field; keep its value
+    if (areFieldValuesEqual(field, base[field], localValue)) continue;
+
+    if (areFieldValuesEqual(field, base[field], remoteValue)) {
+      // Only we changed this field
+      (merged as Record<string, unknown>)[field] = localValue;
+    } else {
+      conflicts.push({ field: field as MergeableTaskField, local: localValue, remote: remoteValue });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Build the update that applies the user's choice for each conflicting field
+ */
+export function resolveConflicts(
+  conflict: TaskConflict,
+  choices: Partial<Record<MergeableTaskField, ConflictChoice>>
+): Partial<Task> {
+  const resolved: Partial<Task> = {};
+  for (const item of conflict.conflicts) {
+    if (choices[item.field] === 'local') {
+      (resolved as Record<string, unknown>)[item.field] = item.local;
+    }
+  }
+  return resolved;
+}
+
+export function getFieldLabel(field: MergeableTaskField): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Human-readable value for the merge prompt
+ */
+export function formatFieldValue(field: MergeableTaskField, value: unknown): string {
+  if (isEmpty(value)) return 'None';
+
+  switch (field) {
+    case 'dueDate':
+      return parseLocalDate(value as string).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      });
+    case 'completedAt':
+      return new Date(value as string).toLocaleString();
+    case 'isRecurring':
+      return value ? 'Yes' : 'No';
+    case 'recurringPattern': {
+      const rule = parseRecurrence(value as string);
+      return rule ? describeRecurrence(rule) : String(value);
+    }
+    case 'blockedBy': {
+      const count = (value as string[]).length;
+      return `${count} ${count === 1 ? 'task' : 'tasks'}`;
+    }
+    case 'estimatedMinutes':
+      return formatDuration((value as number) * 60);
+    case 'subtasks': {
+      const subtasks = value as NonNullable<Task['subtasks']>;
+      const done = subtasks.filter(s => s.isCompleted).length;
+      return `${subtasks.length} steps, ${done} done`;
+    }
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
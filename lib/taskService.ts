@@ -1,5 +1,16 @@
 import { supabase } from './supabase';
-import { Task, TaskStatus, Priority, TaskCategory } from '@/types';
+import { Task, TaskStatus, Priority, TaskCategory, Subtask, TaskBlocker, TaskChangeSource } from '@/types';
+import { normalizeTime, getTodayDateString, toLocalTimeString } from './dateUtils';
+import { SearchQuery, DateComparison, toWebSearchQuery } from './search';
+import { AttachmentService } from './attachmentService';
+
+const DATE_OPERATORS: Record<DateComparison, string> = {
+  '<': 'lt',
+  '<=': 'lte',
+  '=': 'eq',
+  '>=': 'gte',
+  '>': 'gt',
+};
 
 export interface TaskRow {
   id: string;
@@ -18,12 +29,79 @@ export interface TaskRow {
   is_recurring?: boolean;
   recurring_pattern?: string;
   reminders?: string[];
+  subtasks?: SubtaskRow[] | null;
+  project_id?: string | null;
+  blocked_by?: string[] | null;
+  estimated_minutes?: number | null;
+  deleted_at?: string | null;
+  // Only sent with writes; the activity trigger records and clears it
+  change_source?: TaskChangeSource | null;
+}
+
+// Why a write didn't go through: 'transient' failures (no connection, timeouts, server
+// errors) are worth retrying as they are, 'rejected' means the server refused the write
+export type TaskWriteFailure = 'transient' | 'rejected';
+
+export type TaskWriteResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'error'; failure: TaskWriteFailure };
+
+export type TaskUpdateResult =
+  | { status: 'updated'; task: Task }
+  | { status: 'conflict'; serverTask: Task }
+  | { status: 'error'; failure: TaskWriteFailure };
+
+export interface SubtaskRow {
+  id: string;
+  title: string;
+  is_completed: boolean;
+  sort_order: number;
 }
 
 /**
  * Task Service for managing tasks in Supabase
  */
 export class TaskService {
+  /**
+   * Classify a failed request by its HTTP status. Postgrest reports network errors as
+   * status 0; expired sessions and rate limits clear up on their own too.
+   */
+  static getWriteFailure(status: number): TaskWriteFailure {
+    return status === 0 || status === 401 || status === 408 || status === 429 || status >= 500
+      ? 'transient'
+      : 'rejected';
+  }
+
+  /**
+   * Map stored subtask rows to Subtask type, ordered by sort_order
+   */
+  static mapToSubtasks(rows?: SubtaskRow[] | null): Subtask[] | undefined {
+    if (!rows || rows.length === 0) return undefined;
+    return [...rows]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(row => ({
+        id: row.id,
+        title: row.title,
+        isCompleted: row.is_completed,
+        order: row.sort_order,
+      }));
+  }
+
+  /**
+   * Map Subtask type to stored rows, normalizing sort order to list position
+   */
+  private static mapToSubtaskRows(subtasks?: Subtask[]): SubtaskRow[] {
+    if (!subtasks) return [];
+    return [...subtasks]
+      .sort((a, b) => a.order - b.order)
+      .map((subtask, index) => ({
+        id: subtask.id,
+        title: subtask.title,
+        is_completed: subtask.isCompleted,
+        sort_order: index,
+      }));
+  }
+
   /**
    * Map database row to Task type
    */
@@ -33,7 +111,7 @@ export class TaskService {
       title: row.title,
       description: row.description || undefined,
       dueDate: row.due_date || undefined,
-      dueTime: row.due_time || undefined,
+      dueTime: normalizeTime(row.due_time),
       priority: row.priority,
       status: row.status,
       category: row.category,
@@ -43,6 +121,12 @@ export class TaskService {
       completedAt: row.completed_at || undefined,
       isRecurring: row.is_recurring || undefined,
       recurringPattern: row.recurring_pattern || undefined,
+      subtasks: TaskService.mapToSubtasks(row.subtasks),
+      projectId: row.project_id || undefined,
+      blockedBy: row.blocked_by && row.blocked_by.length > 0 ? row.blocked_by : undefined,
+      estimatedMinutes: row.estimated_minutes || undefined,
+      deletedAt: row.deleted_at || undefined,
+      ownerId: row.user_id,
       createdById: row.created_by_id || undefined,
       updatedById: row.updated_by_id || undefined,
       updatedAt: row.updated_at || undefined,
@@ -67,24 +151,31 @@ export class TaskService {
       completed_at: task.completedAt || null,
       is_recurring: task.isRecurring || false,
       recurring_pattern: task.recurringPattern || null,
+      subtasks: TaskService.mapToSubtaskRows(task.subtasks),
+      project_id: task.projectId || null,
+      blocked_by: task.blockedBy || [],
+      estimated_minutes: task.estimatedMinutes || null,
       // reminders field removed - stored in separate reminders table
     };
   }
 
   /**
-   * Get all tasks for a user (including shared tasks)
+   * Get all tasks for a user (including shared tasks), leaving out tasks in the trash.
+   * Returns null when they couldn't be fetched, so callers don't mistake that for no tasks.
    */
-  static async getTasks(userId: string): Promise<Task[]> {
+  static async getTasks(userId: string): Promise<Task[] | null> {
     try {
       // Get user's own tasks
       const { data: ownTasks, error: ownError } = await supabase
         .from('tasks')
         .select('*')
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (ownError) {
         console.error('[TaskService] Error fetching own tasks:', ownError);
+        return null;
       }
 
       // Get shared tasks
@@ -93,33 +184,76 @@ export class TaskService {
         .select('task_id')
         .eq('shared_with_id', userId);
 
+      if (sharedError) {
+        console.error('[TaskService] Error fetching task shares:', sharedError);
+        return null;
+      }
+
       let sharedTasks: Task[] = [];
-      if (!sharedError && sharedTaskShares && sharedTaskShares.length > 0) {
+      if (sharedTaskShares && sharedTaskShares.length > 0) {
         const sharedTaskIds = sharedTaskShares.map(s => s.task_id);
         const { data: sharedTasksData, error: sharedTasksError } = await supabase
           .from('tasks')
           .select('*')
           .in('id', sharedTaskIds)
+          .is('deleted_at', null)
           .order('created_at', { ascending: false });
 
-        if (!sharedTasksError && sharedTasksData) {
-          sharedTasks = sharedTasksData.map(this.mapToTask);
+        if (sharedTasksError) {
+          console.error('[TaskService] Error fetching shared tasks:', sharedTasksError);
+          return null;
         }
+        sharedTasks = (sharedTasksData || []).map(this.mapToTask);
+      }
+
+      // Get tasks other people added to the user's projects or to projects shared with them
+      const [
+        { data: ownProjects, error: ownProjectsError },
+        { data: projectShares, error: projectSharesError },
+      ] = await Promise.all([
+        supabase.from('projects').select('id').eq('user_id', userId),
+        supabase.from('project_shares').select('project_id').eq('shared_with_id', userId),
+      ]);
+
+      if (ownProjectsError || projectSharesError) {
+        console.error('[TaskService] Error fetching projects:', ownProjectsError || projectSharesError);
+        return null;
+      }
+
+      const projectIds = [
+        ...(ownProjects || []).map(p => p.id),
+        ...(projectShares || []).map(s => s.project_id),
+      ];
+
+      let projectTasks: Task[] = [];
+      if (projectIds.length > 0) {
+        const { data: projectTasksData, error: projectTasksError } = await supabase
+          .from('tasks')
+          .select('*')
+          .in('project_id', projectIds)
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false });
+
+        if (projectTasksError) {
+          console.error('[TaskService] Error fetching project tasks:', projectTasksError);
+          return null;
+        }
+        projectTasks = (projectTasksData || []).map(this.mapToTask);
       }
 
       // Combine and deduplicate
-      const allTasks = [...(ownTasks || []).map(this.mapToTask), ...sharedTasks];
+      const allTasks = [...(ownTasks || []).map(this.mapToTask), ...sharedTasks, ...projectTasks];
       const uniqueTasks = Array.from(new Map(allTasks.map(t => [t.id, t])).values());
 
       return uniqueTasks;
     } catch (error) {
       console.error('[TaskService] Error in getTasks:', error);
-      return [];
+      return null;
     }
   }
 
   /**
-   * Get a single task by ID
+   * Get a single task by ID (own, or visible through a shared project; RLS decides)
    */
   static async getTaskById(userId: string, taskId: string): Promise<Task | null> {
     try {
@@ -127,7 +261,6 @@ export class TaskService {
         .from('tasks')
         .select('*')
         .eq('id', taskId)
-        .eq('user_id', userId)
         .single();
 
       if (error) {
@@ -145,7 +278,23 @@ export class TaskService {
   /**
    * Create a new task
    */
-  static async createTask(userId: string, task: Omit<Task, 'id' | 'createdAt'>): Promise<Task | null> {
+  static async createTask(
+    userId: string,
+    task: Omit<Task, 'id' | 'createdAt'>,
+    source: TaskChangeSource = 'manual'
+  ): Promise<Task | null> {
+    const result = await this.tryCreateTask(userId, task, source);
+    return result.status === 'ok' ? result.value : null;
+  }
+
+  /**
+   * Create a new task, reporting why it failed if it did
+   */
+  static async tryCreateTask(
+    userId: string,
+    task: Omit<Task, 'id' | 'createdAt'>,
+    source: TaskChangeSource = 'manual'
+  ): Promise<TaskWriteResult<Task>> {
     try {
       // Ensure required fields are present
       if (!task.title || !task.priority || !task.status || !task.category) {
@@ -155,17 +304,18 @@ export class TaskService {
           status: task.status, 
           category: task.category 
         });
-        return null;
+        return { status: 'error', failure: 'rejected' };
       }
 
       const taskRow = {
         ...this.mapToRow(task, userId),
         created_by_id: userId,
+        change_source: source,
       };
 
       console.log('[TaskService] Creating task with data:', JSON.stringify(taskRow, null, 2));
 
-      const { data, error } = await supabase
+      const { data, error, status } = await supabase
         .from('tasks')
         .insert(taskRow)
         .select()
@@ -178,75 +328,267 @@ export class TaskService {
         console.error('[TaskService] Error details:', error.details);
         console.error('[TaskService] Error hint:', error.hint);
         console.error('[TaskService] Task row being inserted:', JSON.stringify(taskRow, null, 2));
-        return null;
+        return { status: 'error', failure: this.getWriteFailure(status) };
       }
 
-      return this.mapToTask(data);
+      return { status: 'ok', value: this.mapToTask(data) };
     } catch (error) {
       console.error('[TaskService] Error in createTask:', error);
-      return null;
+      return { status: 'error', failure: 'transient' };
     }
   }
 
   /**
-   * Update an existing task
+   * Update an existing task. Row level security limits this to the owner and
+   * editors of a shared project.
    */
-  static async updateTask(userId: string, taskId: string, updates: Partial<Task>): Promise<Task | null> {
-    try {
-      const updateRow: Partial<TaskRow> = {};
-
-      if (updates.title !== undefined) updateRow.title = updates.title;
-      if (updates.description !== undefined) updateRow.description = updates.description || null;
-      if (updates.dueDate !== undefined) updateRow.due_date = updates.dueDate || null;
-      if (updates.dueTime !== undefined) updateRow.due_time = updates.dueTime || null;
-      if (updates.priority !== undefined) updateRow.priority = updates.priority;
-      if (updates.status !== undefined) updateRow.status = updates.status;
-      if (updates.category !== undefined) updateRow.category = updates.category;
-      if (updates.tags !== undefined) updateRow.tags = updates.tags || null;
-      if (updates.assignedTo !== undefined) updateRow.assigned_to = updates.assignedTo || null;
-      if (updates.completedAt !== undefined) updateRow.completed_at = updates.completedAt || null;
-      if (updates.isRecurring !== undefined) updateRow.is_recurring = updates.isRecurring;
-      if (updates.recurringPattern !== undefined) updateRow.recurring_pattern = updates.recurringPattern || null;
+  static async updateTask(
+    userId: string,
+    taskId: string,
+    updates: Partial<Task>,
+    source: TaskChangeSource = 'manual'
+  ): Promise<Task | null> {
+    const result = await this.tryUpdateTask(userId, taskId, updates, source);
+    return result.status === 'ok' ? result.value : null;
+  }
 
-      const { data, error } = await supabase
+  /**
+   * Update an existing task, reporting why it failed if it did
+   */
+  static async tryUpdateTask(
+    userId: string,
+    taskId: string,
+    updates: Partial<Task>,
+    source: TaskChangeSource = 'manual'
+  ): Promise<TaskWriteResult<Task>> {
+    try {
+      const { data, error, status } = await supabase
         .from('tasks')
-        .update(updateRow)
+        .update({ ...this.mapUpdatesToRow(updates), change_source: source })
         .eq('id', taskId)
-        .eq('user_id', userId)
         .select()
         .single();
 
       if (error) {
         console.error('[TaskService] Error updating task:', error);
-        return null;
+        return { status: 'error', failure: this.getWriteFailure(status) };
       }
 
-      return this.mapToTask(data);
+      return { status: 'ok', value: this.mapToTask(data) };
     } catch (error) {
       console.error('[TaskService] Error in updateTask:', error);
-      return null;
+      return { status: 'error', failure: 'transient' };
     }
   }
 
   /**
-   * Delete a task
+   * Update a task only if nobody changed it since the client last saw it.
+   * The write is conditional on updated_at, so a stale client can never overwrite
+   * newer data; on conflict the current server copy is returned for merging.
    */
-  static async deleteTask(userId: string, taskId: string): Promise<boolean> {
+  static async updateTaskIfUnchanged(
+    userId: string,
+    taskId: string,
+    updates: Partial<Task>,
+    expectedUpdatedAt?: string,
+    source: TaskChangeSource = 'manual'
+  ): Promise<TaskUpdateResult> {
+    if (!expectedUpdatedAt) {
+      const result = await this.tryUpdateTask(userId, taskId, updates, source);
+      return result.status === 'ok' ? { status: 'updated', task: result.value } : result;
+    }
+
     try {
-      const { error } = await supabase
+      const { data, error, status } = await supabase
         .from('tasks')
-        .delete()
+        .update({ ...this.mapUpdatesToRow(updates), change_source: source })
+        .eq('id', taskId)
+        .eq('updated_at', expectedUpdatedAt)
+        .select();
+
+      if (error) {
+        console.error('[TaskService] Error updating task:', error);
+        return { status: 'error', failure: this.getWriteFailure(status) };
+      }
+
+      if (data && data.length > 0) {
+        return { status: 'updated', task: this.mapToTask(data[0]) };
+      }
+
+      // Nothing matched: either the task changed underneath us or it no longer exists
+      // (getTaskById failing on the network is rarer than the task having gone)
+      const serverTask = await this.getTaskById(userId, taskId);
+      return serverTask ? { status: 'conflict', serverTask } : { status: 'error', failure: 'rejected' };
+    } catch (error) {
+      console.error('[TaskService] Error in updateTaskIfUnchanged:', error);
+      return { status: 'error', failure: 'transient' };
+    }
+  }
+
+  /**
+   * Map a partial Task update to the columns that change
+   */
+  private static mapUpdatesToRow(updates: Partial<Task>): Partial<TaskRow> {
+    const updateRow: Partial<TaskRow> = {};
+
+    if (updates.title !== undefined) updateRow.title = updates.title;
+    if (updates.description !== undefined) updateRow.description = updates.description || null;
+    if (updates.dueDate !== undefined) updateRow.due_date = updates.dueDate || null;
+    if (updates.dueTime !== undefined) updateRow.due_time = updates.dueTime || null;
+    if (updates.priority !== undefined) updateRow.priority = updates.priority;
+    if (updates.status !== undefined) updateRow.status = updates.status;
+    if (updates.category !== undefined) updateRow.category = updates.category;
+    if (updates.tags !== undefined) updateRow.tags = updates.tags || null;
+    if (updates.assignedTo !== undefined) updateRow.assigned_to = updates.assignedTo || null;
+    if (updates.completedAt !== undefined) updateRow.completed_at = updates.completedAt || null;
+    if (updates.isRecurring !== undefined) updateRow.is_recurring = updates.isRecurring;
+    if (updates.recurringPattern !== undefined) updateRow.recurring_pattern = updates.recurringPattern || null;
+    if (updates.subtasks !== undefined) updateRow.subtasks = this.mapToSubtaskRows(updates.subtasks);
+    // Moving a task out of its project sends projectId: undefined, so check for the key
+    if ('projectId' in updates) updateRow.project_id = updates.projectId || null;
+    if ('blockedBy' in updates) updateRow.blocked_by = updates.blockedBy || [];
+    if ('estimatedMinutes' in updates) updateRow.estimated_minutes = updates.estimatedMinutes || null;
+
+    return updateRow;
+  }
+
+  /**
+   * Move a task to the trash. It stays restorable until it is purged.
+   */
+  static async deleteTask(userId: string, taskId: string, source: TaskChangeSource = 'manual'): Promise<boolean> {
+    return (await this.tryDeleteTask(userId, taskId, source)).status === 'ok';
+  }
+
+  /**
+   * Move a task to the trash, reporting why it failed if it did
+   */
+  static async tryDeleteTask(
+    userId: string,
+    taskId: string,
+    source: TaskChangeSource = 'manual'
+  ): Promise<TaskWriteResult<string>> {
+    try {
+      const { error, status } = await supabase
+        .from('tasks')
+        .update({ deleted_at: new Date().toISOString(), change_source: source })
         .eq('id', taskId)
         .eq('user_id', userId);
 
       if (error) {
         console.error('[TaskService] Error deleting task:', error);
+        return { status: 'error', failure: this.getWriteFailure(status) };
+      }
+
+      return { status: 'ok', value: taskId };
+    } catch (error) {
+      console.error('[TaskService] Error in deleteTask:', error);
+      return { status: 'error', failure: 'transient' };
+    }
+  }
+
+  /**
+   * Get the user's tasks in the trash, most recently deleted first
+   */
+  static async getDeletedTasks(userId: string): Promise<Task[]> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('[TaskService] Error fetching deleted tasks:', error);
+        return [];
+      }
+
+      return (data || []).map(this.mapToTask);
+    } catch (error) {
+      console.error('[TaskService] Error in getDeletedTasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a task out of the trash
+   */
+  static async restoreTask(userId: string, taskId: string, source: TaskChangeSource = 'manual'): Promise<Task | null> {
+    const result = await this.tryRestoreTask(userId, taskId, source);
+    return result.status === 'ok' ? result.value : null;
+  }
+
+  /**
+   * Take a task out of the trash, reporting why it failed if it did
+   */
+  static async tryRestoreTask(
+    userId: string,
+    taskId: string,
+    source: TaskChangeSource = 'manual'
+  ): Promise<TaskWriteResult<Task>> {
+    try {
+      const { data, error, status } = await supabase
+        .from('tasks')
+        .update({ deleted_at: null, change_source: source })
+        .eq('id', taskId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[TaskService] Error restoring task:', error);
+        return { status: 'error', failure: this.getWriteFailure(status) };
+      }
+
+      return { status: 'ok', value: this.mapToTask(data) };
+    } catch (error) {
+      console.error('[TaskService] Error in restoreTask:', error);
+      return { status: 'error', failure: 'transient' };
+    }
+  }
+
+  /**
+   * Delete trashed tasks for good. Pass taskIds to delete specific tasks, or `before`
+   * to purge everything trashed before that time.
+   */
+  static async purgeDeletedTasks(userId: string, options: { taskIds?: string[]; before?: Date }): Promise<boolean> {
+    try {
+      let selection = supabase
+        .from('tasks')
+        .select('id')
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null);
+
+      if (options.taskIds) selection = selection.in('id', options.taskIds);
+      if (options.before) selection = selection.lt('deleted_at', options.before.toISOString());
+
+      const { data: purgeable, error: selectError } = await selection;
+
+      if (selectError) {
+        console.error('[TaskService] Error finding tasks to purge:', selectError);
+        return false;
+      }
+
+      const taskIds = (purgeable || []).map((row: { id: string }) => row.id);
+      if (taskIds.length === 0) return true;
+
+      // Attachment rows go with the tasks, but their files have to be removed from storage
+      await AttachmentService.removeTaskFiles(taskIds);
+
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .in('id', taskIds);
+
+      if (error) {
+        console.error('[TaskService] Error purging deleted tasks:', error);
         return false;
       }
 
       return true;
     } catch (error) {
-      console.error('[TaskService] Error in deleteTask:', error);
+      console.error('[TaskService] Error in purgeDeletedTasks:', error);
       return false;
     }
   }
@@ -271,6 +613,157 @@ export class TaskService {
     });
   }
 
+  /**
+   * Search every task the user can see (own, shared and in shared projects; RLS decides)
+   * with full-text matching on title and description. Returns null on failure so callers
+   * can fall back to searching loaded tasks.
+   */
+  static async searchTasks(
+    userId: string,
+    query: SearchQuery,
+    limit = 100,
+    now: Date = new Date()
+  ): Promise<Task[] | null> {
+    try {
+      const today = getTodayDateString(now);
+      const time = toLocalTimeString(now);
+      let request = supabase.from('tasks').select('*').is('deleted_at', null);
+
+      const text = toWebSearchQuery(query);
+      if (text) {
+        request = request.textSearch('search_vector', text, { type: 'websearch', config: 'english' });
+      }
+
+      for (const filter of query.filters) {
+        switch (filter.field) {
+          case 'priority':
+          case 'category':
+            request = filter.negated
+              ? request.neq(filter.field, filter.value)
+              : request.eq(filter.field, filter.value);
+            break;
+          case 'status':
+            if (filter.value === 'overdue') {
+              // Same deadline as deriveTaskStatus: a due time today counts once it has passed,
+              // a due date without a time only once the day is over
+              request = filter.negated
+                ? request.or(
+                    `status.eq.completed,due_date.is.null,due_date.gt.${today},` +
+                    `and(due_date.eq.${today},or(due_time.is.null,due_time.gt.${time}))`
+                  )
+                : request
+                    .neq('status', 'completed')
+                    .or(`due_date.lt.${today},and(due_date.eq.${today},due_time.lte.${time})`);
+            } else {
+              // "pending" means anything not completed, matching the derived overdue status
+              const completed = (filter.value === 'completed') !== filter.negated;
+              request = completed
+                ? request.eq('status', 'completed')
+                : request.neq('status', 'completed');
+            }
+            break;
+          case 'shared':
+            request = filter.negated
+              ? request.eq('user_id', userId)
+              : request.neq('user_id', userId);
+            break;
+          case 'tag':
+            request = filter.negated
+              ? request.not('tags', 'cs', `{"${filter.value}"}`)
+              : request.contains('tags', [filter.value]);
+            break;
+          case 'project':
+            if (filter.value === null) {
+              request = filter.negated
+                ? request.not('project_id', 'is', null)
+                : request.is('project_id', null);
+            } else {
+              request = filter.negated
+                ? request.or(`project_id.is.null,project_id.neq.${filter.value}`)
+                : request.eq('project_id', filter.value);
+            }
+            break;
+          case 'due':
+            if (filter.value === null) {
+              request = filter.negated
+                ? request.not('due_date', 'is', null)
+                : request.is('due_date', null);
+            } else {
+              request = filter.negated
+                ? request.not('due_date', DATE_OPERATORS[filter.op], filter.value)
+                : request.filter('due_date', DATE_OPERATORS[filter.op], filter.value);
+            }
+            break;
+        }
+      }
+
+      const { data, error } = await request
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('[TaskService] Error searching tasks:', error);
+        return null;
+      }
+
+      return (data || []).map(this.mapToTask);
+    } catch (error) {
+      console.error('[TaskService] Error in searchTasks:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up blockers the user can't read directly, e.g. the owner's private task
+   * behind a task shared with them. Only id, title and completion are returned.
+   */
+  static async getHiddenBlockers(blockerIds: string[]): Promise<TaskBlocker[]> {
+    if (blockerIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('get_task_blockers', {
+        blocker_ids: blockerIds,
+      });
+
+      if (error) {
+        console.error('[TaskService] Error fetching blockers:', error);
+        return [];
+      }
+
+      return (data || []).map((row: { id: string; title: string; status: TaskStatus }) => ({
+        id: row.id,
+        title: row.title,
+        isCompleted: row.status === 'completed',
+      }));
+    } catch (error) {
+      console.error('[TaskService] Error in getHiddenBlockers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rename a tag on all of the user's tasks. Renaming to a tag that already
+   * exists merges the two. Returns the number of tasks changed, or null on failure.
+   */
+  static async renameTag(from: string, to: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabase.rpc('rename_task_tag', {
+        old_tag: from,
+        new_tag: to,
+      });
+
+      if (error) {
+        console.error('[TaskService] Error renaming tag:', error);
+        return null;
+      }
+
+      return (data as number) ?? 0;
+    } catch (error) {
+      console.error('[TaskService] Error in renameTag:', error);
+      return null;
+    }
+  }
+
   /**
    * Subscribe to real-time task updates
    */
@@ -56,6 +56,17 @@ export class TaskShareService {
     }
   }
 
+  /**
+   * Share a newly created task with the friends assigned to it, so it shows up for them
+   */
+  static async shareWithAssignees(userId: string, task: Task): Promise<boolean> {
+    const assignees = (task.assignedTo || []).filter(id => id !== userId);
+    const results = await Promise.all(
+      assignees.map(friendId => this.shareTask(task.id, userId, friendId, 'edit'))
+    );
+    return results.every(Boolean);
+  }
+
   /**
    * Get shared tasks for a user
    */
@@ -101,6 +112,8 @@ export class TaskShareService {
         completedAt: t.completed_at,
         isRecurring: t.is_recurring,
         recurringPattern: t.recurring_pattern,
+        blockedBy: t.blocked_by?.length ? t.blocked_by : undefined,
+        ownerId: t.user_id,
         createdById: t.created_by_id,
         updatedById: t.updated_by_id,
         updatedAt: t.updated_at,
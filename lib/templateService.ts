@@ -0,0 +1,280 @@
+import { supabase } from './supabase';
+import { TaskTemplate, TemplateTask } from '@/types';
+
+// Template tasks are stored as JSON with snake_case keys, like task subtasks
+interface TemplateTaskRow {
+  title: string;
+  description?: string | null;
+  due_offset_days?: number | null;
+  due_time?: string | null;
+  priority: TemplateTask['priority'];
+  category: string;
+  tags?: string[];
+  subtasks?: string[];
+  estimated_minutes?: number | null;
+}
+
+export interface TaskTemplateRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  tasks: TemplateTaskRow[];
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewTaskTemplate = Pick<TaskTemplate, 'name' | 'description' | 'tasks'>;
+
+/**
+ * Template Service for reusable bundles of tasks. Friends a template is shared with
+ * can use it but not change it.
+ */
+export class TemplateService {
+  /**
+   * Map database row to TaskTemplate type
+   */
+  private static mapToTemplate(row: TaskTemplateRow, isShared?: boolean): TaskTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      tasks: (row.tasks || []).map(item => ({
+        title: item.title,
+        description: item.description || undefined,
+        dueOffsetDays: item.due_offset_days ?? undefined,
+        dueTime: item.due_time || undefined,
+        priority: item.priority,
+        category: item.category,
+        tags: item.tags?.length ? item.tags : undefined,
+        subtasks: item.subtasks?.length ? item.subtasks : undefined,
+        estimatedMinutes: item.estimated_minutes ?? undefined,
+      })),
+      createdAt: row.created_at,
+      ownerId: row.user_id,
+      isShared: isShared || undefined,
+    };
+  }
+
+  private static mapTasksToRow(tasks: TemplateTask[]): TemplateTaskRow[] {
+    return tasks.map(item => ({
+      title: item.title,
+      description: item.description || null,
+      due_offset_days: item.dueOffsetDays ?? null,
+      due_time: item.dueTime || null,
+      priority: item.priority,
+      category: item.category,
+      tags: item.tags || [],
+      subtasks: item.subtasks || [],
+      estimated_minutes: item.estimatedMinutes ?? null,
+    }));
+  }
+
+  /**
+   * Get the user's own templates and those friends shared with them
+   */
+  static async getTemplates(userId: string): Promise<TaskTemplate[]> {
+    try {
+      const { data: ownTemplates, error: ownError } = await supabase
+        .from('task_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (ownError) {
+        console.error('[TemplateService] Error fetching templates:', ownError);
+        return [];
+      }
+
+      const { data: shares, error: sharesError } = await supabase
+        .from('task_template_shares')
+        .select('template_id')
+        .eq('shared_with_id', userId);
+
+      let sharedTemplates: TaskTemplate[] = [];
+      if (!sharesError && shares && shares.length > 0) {
+        const { data: sharedData, error: sharedError } = await supabase
+          .from('task_templates')
+          .select('*')
+          .in('id', shares.map(s => s.template_id))
+          .order('name', { ascending: true });
+
+        if (!sharedError && sharedData) {
+          sharedTemplates = sharedData.map((row: TaskTemplateRow) => this.mapToTemplate(row, true));
+        }
+      }
+
+      return [...(ownTemplates || []).map((row: TaskTemplateRow) => this.mapToTemplate(row)), ...sharedTemplates];
+    } catch (error) {
+      console.error('[TemplateService] Error in getTemplates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a template
+   */
+  static async createTemplate(userId: string, template: NewTaskTemplate): Promise<TaskTemplate | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_templates')
+        .insert({
+          user_id: userId,
+          name: template.name,
+          description: template.description || null,
+          tasks: this.mapTasksToRow(template.tasks),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[TemplateService] Error creating template:', error);
+        return null;
+      }
+
+      return this.mapToTemplate(data);
+    } catch (error) {
+      console.error('[TemplateService] Error in createTemplate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a template's name, description or tasks
+   */
+  static async updateTemplate(
+    userId: string,
+    templateId: string,
+    updates: Partial<NewTaskTemplate>
+  ): Promise<TaskTemplate | null> {
+    try {
+      const updateRow: Partial<TaskTemplateRow> = { updated_at: new Date().toISOString() };
+      if (updates.name !== undefined) updateRow.name = updates.name;
+      if ('description' in updates) updateRow.description = updates.description || null;
+      if (updates.tasks !== undefined) updateRow.tasks = this.mapTasksToRow(updates.tasks);
+
+      const { data, error } = await supabase
+        .from('task_templates')
+        .update(updateRow)
+        .eq('id', templateId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[TemplateService] Error updating template:', error);
+        return null;
+      }
+
+      return this.mapToTemplate(data);
+    } catch (error) {
+      console.error('[TemplateService] Error in updateTemplate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a template. Tasks already created from it are not affected.
+   */
+  static async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', templateId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[TemplateService] Error deleting template:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[TemplateService] Error in deleteTemplate:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Share a template with a friend
+   */
+  static async shareTemplate(templateId: string, sharedById: string, sharedWithId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('task_template_shares').upsert(
+        {
+          template_id: templateId,
+          shared_by_id: sharedById,
+          shared_with_id: sharedWithId,
+        },
+        { onConflict: 'template_id,shared_with_id' }
+      );
+
+      if (error) {
+        console.error('[TemplateService] Error sharing template:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[TemplateService] Error in shareTemplate:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop sharing a template with a friend, or, as the recipient, remove it from your templates
+   */
+  static async unshareTemplate(templateId: string, sharedWithId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_template_shares')
+        .delete()
+        .eq('template_id', templateId)
+        .eq('shared_with_id', sharedWithId);
+
+      if (error) {
+        console.error('[TemplateService] Error unsharing template:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[TemplateService] Error in unshareTemplate:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the ids of friends a template is shared with
+   */
+  static async getTemplateShares(templateId: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_template_shares')
+        .select('shared_with_id')
+        .eq('template_id', templateId);
+
+      if (error) {
+        console.error('[TemplateService] Error fetching template shares:', error);
+        return [];
+      }
+
+      return (data || []).map(share => share.shared_with_id);
+    } catch (error) {
+      console.error('[TemplateService] Error in getTemplateShares:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find a template by name, ignoring case (used by the assistant)
+   */
+  static findByName(templates: TaskTemplate[], name: string): TaskTemplate | undefined {
+    const needle = name.trim().toLowerCase();
+    return (
+      templates.find(t => t.name.toLowerCase() === needle) ||
+      templates.find(t => t.name.toLowerCase().includes(needle))
+    );
+  }
+}
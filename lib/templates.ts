@@ -0,0 +1,89 @@
+import * as Crypto from 'expo-crypto';
+import { Task, TaskTemplate, TemplateTask } from '@/types';
+import { addDaysToDateString } from '@/lib/dateUtils';
+
+/**
+ * Helpers for task templates: reusable bundles of tasks whose due dates are stored as
+ * day offsets and resolved against an anchor date when the template is used.
+ */
+
+const MAX_OFFSET_DAYS = 365;
+
+const OFFSET_UNITS: Record<string, number> = {
+  d: 1,
+  day: 1,
+  days: 1,
+  w: 7,
+  wk: 7,
+  week: 7,
+  weeks: 7,
+};
+
+/**
+ * Parse a due offset such as "+2 days", "3d", "+1 week" or "same day" into days.
+ * Returns null when the text isn't an offset.
+ */
+export function parseDueOffset(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (text === 'same day' || text === 'anchor') return 0;
+
+  const match = text.match(/^([+-]?)\s*(\d+)\s*([a-z]*)$/);
+  if (!match) return null;
+  const unit = match[3] ? OFFSET_UNITS[match[3]] : 1;
+  if (!unit) return null;
+
+  const days = Number(match[2]) * unit * (match[1] === '-' ? -1 : 1);
+  return Math.abs(days) <= MAX_OFFSET_DAYS ? days : null;
+}
+
+export function formatDueOffset(days: number): string {
+  if (days === 0) return 'Same day';
+  const sign = days > 0 ? '+' : '-';
+  const abs = Math.abs(days);
+  if (abs % 7 === 0) {
+    const weeks = abs / 7;
+    return `${sign}${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+  }
+  return `${sign}${abs} ${abs === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * Short description of a template's contents, e.g. "4 tasks over 2 weeks"
+ */
+export function describeTemplate(template: Pick<TaskTemplate, 'tasks'>): string {
+  const count = `${template.tasks.length} ${template.tasks.length === 1 ? 'task' : 'tasks'}`;
+  const offsets = template.tasks
+    .map(t => t.dueOffsetDays)
+    .filter((offset): offset is number => offset !== undefined);
+  if (offsets.length === 0) return count;
+
+  const span = Math.max(...offsets) - Math.min(...offsets, 0);
+  if (span === 0) return `${count}, all on the same day`;
+  return `${count} over ${formatDueOffset(span).slice(1)}`;
+}
+
+/**
+ * Turn a template into new tasks due relative to `anchorDate` (YYYY-MM-DD).
+ * Categories the user doesn't have, e.g. from a friend's template, fall back to `fallbackCategory`.
+ */
+export function instantiateTemplate(
+  template: Pick<TaskTemplate, 'tasks'>,
+  anchorDate: string,
+  options: { categorySlugs: string[]; fallbackCategory: string; projectId?: string }
+): Omit<Task, 'id' | 'createdAt'>[] {
+  return template.tasks.map((item: TemplateTask) => ({
+    title: item.title,
+    description: item.description,
+    dueDate: item.dueOffsetDays !== undefined ? addDaysToDateString(anchorDate, item.dueOffsetDays) : undefined,
+    dueTime: item.dueOffsetDays !== undefined ? item.dueTime : undefined,
+    priority: item.priority,
+    status: 'pending',
+    category: options.categorySlugs.includes(item.category) ? item.category : options.fallbackCategory,
+    tags: item.tags?.length ? item.tags : undefined,
+    subtasks: item.subtasks?.length
+      ? item.subtasks.map((title, order) => ({ id: Crypto.randomUUID(), title, isCompleted: false, order }))
+      : undefined,
+    projectId: options.projectId,
+    estimatedMinutes: item.estimatedMinutes,
+  }));
+}
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { TimeEntry, TimeEntrySource } from '@/types';
+
+export interface TimeEntryRow {
+  id: string;
+  user_id: string;
+  task_id: string;
+  source: TimeEntrySource;
+  started_at: string;
+  ended_at?: string | null;
+  note?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewTimeEntry = Pick<TimeEntry, 'taskId' | 'source' | 'startedAt' | 'endedAt' | 'note'>;
+
+/**
+ * Time Entry Service for time tracked against tasks
+ */
+export class TimeEntryService {
+  /**
+   * Map database row to TimeEntry type
+   */
+  private static mapToTimeEntry(row: TimeEntryRow): TimeEntry {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      source: row.source,
+      startedAt: row.started_at,
+      endedAt: row.ended_at || undefined,
+      note: row.note || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get the user's time entries, newest first
+   */
+  static async getTimeEntries(userId: string): Promise<TimeEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .order('started_at', { ascending: false });
+
+      if (error) {
+        console.error('[TimeEntryService] Error fetching time entries:', error);
+        return [];
+      }
+
+      return (data || []).map((row: TimeEntryRow) => this.mapToTimeEntry(row));
+    } catch (error) {
+      console.error('[TimeEntryService] Error in getTimeEntries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a time entry. Leave endedAt unset to start a running timer; the database
+   * allows only one per user.
+   */
+  static async createTimeEntry(userId: string, entry: NewTimeEntry): Promise<TimeEntry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .insert({
+          user_id: userId,
+          task_id: entry.taskId,
+          source: entry.source,
+          started_at: entry.startedAt,
+          ended_at: entry.endedAt || null,
+          note: entry.note || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[TimeEntryService] Error creating time entry:', error);
+        return null;
+      }
+
+      return this.mapToTimeEntry(data);
+    } catch (error) {
+      console.error('[TimeEntryService] Error in createTimeEntry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update an entry's times or note, or stop a running timer by setting endedAt
+   */
+  static async updateTimeEntry(
+    userId: string,
+    entryId: string,
+    updates: Partial<Pick<TimeEntry, 'startedAt' | 'endedAt' | 'note'>>
+  ): Promise<TimeEntry | null> {
+    try {
+      const updateRow: Partial<TimeEntryRow> = { updated_at: new Date().toISOString() };
+      if (updates.startedAt !== undefined) updateRow.started_at = updates.startedAt;
+      if (updates.endedAt !== undefined) updateRow.ended_at = updates.endedAt;
+      if ('note' in updates) updateRow.note = updates.note || null;
+
+      const { data, error } = await supabase
+        .from('time_entries')
+        .update(updateRow)
+        .eq('id', entryId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[TimeEntryService] Error updating time entry:', error);
+        return null;
+      }
+
+      return this.mapToTimeEntry(data);
+    } catch (error) {
+      console.error('[TimeEntryService] Error in updateTimeEntry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a time entry
+   */
+  static async deleteTimeEntry(userId: string, entryId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('[TimeEntryService] Error deleting time entry:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[TimeEntryService] Error in deleteTimeEntry:', error);
+      return false;
+    }
+  }
+}
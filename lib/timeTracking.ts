@@ -0,0 +1,157 @@
+import { Task, TaskCategory, TimeEntry } from '@/types';
+import { toLocalDateString } from './dateUtils';
+
+/**
+ * Helpers for time tracked against tasks.
+ *
+ * A time entry stores its start and end timestamps; the running timer is the one entry
+ * without an end, so its elapsed time is always worked out from the persisted start and
+ * survives the app being closed.
+ */
+
+export interface TimeTotal<K extends string = string> {
+  key: K;
+  seconds: number;
+}
+
+/**
+ * Length of an entry in seconds, counting a running entry up to now
+ */
+export function getEntrySeconds(entry: TimeEntry, now: Date = new Date()): number {
+  const end = entry.endedAt ? new Date(entry.endedAt).getTime() : now.getTime();
+  return Math.max(0, Math.floor((end - new Date(entry.startedAt).getTime()) / 1000));
+}
+
+/**
+ * Total seconds across entries
+ */
+export function getTrackedSeconds(entries: TimeEntry[], now: Date = new Date()): number {
+  return entries.reduce((total, entry) => total + getEntrySeconds(entry, now), 0);
+}
+
+/**
+ * The running entry, if any
+ */
+export function getActiveEntry(entries: TimeEntry[]): TimeEntry | undefined {
+  return entries.find(e => !e.endedAt);
+}
+
+/**
+ * Entries grouped by task, newest first
+ */
+export function groupEntriesByTask(entries: TimeEntry[]): Map<string, TimeEntry[]> {
+  const byTask = new Map<string, TimeEntry[]>();
+  for (const entry of sortEntries(entries)) {
+    const list = byTask.get(entry.taskId);
+    if (list) list.push(entry);
+    else byTask.set(entry.taskId, [entry]);
+  }
+  return byTask;
+}
+
+/**
+ * Newest entries first
+ */
+export function sortEntries(entries: TimeEntry[]): TimeEntry[] {
+  return [...entries].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function toTotals<K extends string>(totals: Map<K, number>): TimeTotal<K>[] {
+  return [...totals.entries()]
+    .filter(([, seconds]) => seconds > 0)
+    .map(([key, seconds]) => ({ key, seconds }));
+}
+
+/**
+ * Tracked time per task, most time first
+ */
+export function getTaskTotals(entries: TimeEntry[], now: Date = new Date()): TimeTotal[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.taskId, (totals.get(entry.taskId) ?? 0) + getEntrySeconds(entry, now));
+  }
+  return toTotals(totals).sort((a, b) => b.seconds - a.seconds);
+}
+
+/**
+ * Tracked time per task category, most time first. Entries for tasks that no longer
+ * exist are left out.
+ */
+export function getCategoryTotals(
+  entries: TimeEntry[],
+  tasks: Task[],
+  now: Date = new Date()
+): TimeTotal<TaskCategory>[] {
+  const categoryByTask = new Map(tasks.map(t => [t.id, t.category]));
+  const totals = new Map<TaskCategory, number>();
+  for (const entry of entries) {
+    const category = categoryByTask.get(entry.taskId);
+    if (!category) continue;
+    totals.set(category, (totals.get(category) ?? 0) + getEntrySeconds(entry, now));
+  }
+  return toTotals(totals).sort((a, b) => b.seconds - a.seconds);
+}
+
+/**
+ * Tracked time per local day (YYYY-MM-DD), newest day first. An entry counts towards the
+ * day it started on.
+ */
+export function getDailyTotals(entries: TimeEntry[], now: Date = new Date()): TimeTotal[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    const day = toLocalDateString(new Date(entry.startedAt));
+    totals.set(day, (totals.get(day) ?? 0) + getEntrySeconds(entry, now));
+  }
+  return toTotals(totals).sort((a, b) => b.key.localeCompare(a.key));
+}
+
+/**
+ * Entries that started on or after a local date (YYYY-MM-DD)
+ */
+export function getEntriesSince(entries: TimeEntry[], date: string): TimeEntry[] {
+  return entries.filter(e => toLocalDateString(new Date(e.startedAt)) >= date);
+}
+
+/**
+ * Compact duration such as "2h 05m" or "25m"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+}
+
+/**
+ * Running clock such as "12:34" or "1:02:03"
+ */
+export function formatTimer(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  if (hours === 0) return `${minutes}:${secs}`;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`;
+}
+
+/**
+ * Parse a typed duration into minutes: "90", "45m", "1.5h", "1h 30m" or "1:30".
+ * Returns null when the input isn't a positive duration.
+ */
+export function parseDuration(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+
+  let minutes: number;
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:ute)?s?)?)?$/);
+  if (clock) {
+    minutes = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  } else if (/^\d+$/.test(text)) {
+    minutes = parseInt(text, 10);
+  } else if (units && (units[1] || units[2])) {
+    minutes = Math.round(parseFloat(units[1] ?? '0') * 60) + parseInt(units[2] ?? '0', 10);
+  } else {
+    return null;
+  }
+  return minutes > 0 ? minutes : null;
+}
@@ -0,0 +1,28 @@
+import { Task } from '@/types';
+
+/**
+ * Deleted tasks stay in the trash for this long before they are purged for good
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tasks trashed before this time are due to be purged
+ */
+export function getTrashPurgeCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function isPastTrashRetention(task: Pick<Task, 'deletedAt'>, now: Date = new Date()): boolean {
+  return !!task.deletedAt && new Date(task.deletedAt) < getTrashPurgeCutoff(now);
+}
+
+/**
+ * Whole days until a trashed task is purged, never less than zero
+ */
+export function getDaysLeftInTrash(task: Pick<Task, 'deletedAt'>, now: Date = new Date()): number {
+  if (!task.deletedAt) return TRASH_RETENTION_DAYS;
+  const purgeAt = new Date(task.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
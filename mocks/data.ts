@@ -20,6 +20,11 @@ export const mockTasks: Task[] = [
     status: 'pending',
     category: 'work',
     tags: ['urgent', 'review'],
+    subtasks: [
+      { id: '1-1', title: 'Read executive summary', isCompleted: true, order: 0 },
+      { id: '1-2', title: 'Check budget estimates', isCompleted: false, order: 1 },
+      { id: '1-3', title: 'Send feedback to the team', isCompleted: false, order: 2 },
+    ],
     createdAt: '2026-01-15',
   },
   {
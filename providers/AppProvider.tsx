@@ -1,20 +1,129 @@
 import createContextHook from '@nkzw/create-context-hook';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Task, ChatMessage, Notification, TaskStatus } from '@/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Alert, AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as Haptics from 'expo-haptics';
+import {
+  Task,
+  ChatMessage,
+  Notification,
+  TaskStatus,
+  Project,
+  Category,
+  TaskBlocker,
+  SmartList,
+  BoardPreferences,
+  Friend,
+  TimeEntry,
+  TaskTemplate,
+  TaskChangeSource,
+  TaskComment,
+  TaskAttachment,
+  TaskReminder,
+  SavedPlace,
+  LocationReminder,
+  LocationTrigger,
+} from '@/types';
 import { mockTasks, mockChatMessages, mockNotifications } from '@/mocks/data';
 import { ChatService } from '@/lib/chatService';
 import { TaskService } from '@/lib/taskService';
+import { ProjectService, NewProject } from '@/lib/projectService';
+import { ProjectShareService } from '@/lib/projectShareService';
+import { CategoryService, NewCategory, DEFAULT_CATEGORIES, DEFAULT_CATEGORY_SLUG } from '@/lib/categoryService';
+import { SmartListService, NewSmartList } from '@/lib/smartListService';
+import { TimeEntryService, NewTimeEntry } from '@/lib/timeEntryService';
+import { TemplateService, NewTaskTemplate } from '@/lib/templateService';
+import { BoardService } from '@/lib/boardService';
 import { ReminderService } from '@/lib/reminderService';
+import { NotificationService } from '@/lib/notificationService';
+import { FriendService } from '@/lib/friendService';
+import { TaskShareService } from '@/lib/taskShareService';
+import { CommentService } from '@/lib/commentService';
+import { AttachmentService, PendingAttachment } from '@/lib/attachmentService';
+import { PlaceService, NewSavedPlace } from '@/lib/placeService';
+import { LocationReminderService } from '@/lib/locationReminderService';
+import { SyncService, SyncOperation } from '@/lib/syncService';
+import { GuestMigrationService, GuestImportResult } from '@/lib/guestMigrationService';
+import {
+  ConflictChoice,
+  MergeableTaskField,
+  TaskConflict,
+  pickBaseValues,
+  resolveConflicts,
+} from '@/lib/taskMerge';
+import { getNextOccurrence } from '@/lib/recurrence';
+import { collectTags, normalizeTag, renameTagInList } from '@/lib/tags';
+import { getBlockers, getUnblockedDependents, wouldCreateCycle } from '@/lib/dependencies';
+import {
+  TaskSearchResult,
+  parseSearchQuery,
+  isEmptySearchQuery,
+  matchesSearchQuery,
+  rankSearchResults,
+} from '@/lib/search';
+import { getSmartListTasks } from '@/lib/smartLists';
+import { instantiateTemplate } from '@/lib/templates';
+import { getTrashPurgeCutoff, isPastTrashRetention } from '@/lib/trash';
+import { parseMentions } from '@/lib/comments';
+import { MAX_ATTACHMENT_BYTES, NewAttachment } from '@/lib/attachments';
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/reminders';
+import { DEFAULT_BOARD_PREFERENCES } from '@/lib/board';
+import { getActiveEntry, sortEntries } from '@/lib/timeTracking';
+import {
+  DEFAULT_FOCUS_SETTINGS,
+  FocusSession,
+  FocusSettings,
+  advanceFocusSession,
+  catchUpFocusSession,
+  getPhaseMinutes,
+  getUpcomingBoundaries,
+  pauseFocusSession,
+  resumeFocusSession,
+  startFocusSession,
+} from '@/lib/focus';
+import { deriveTaskStatus, getTaskDateBucket, getTodayDateString, withDerivedStatus } from '@/lib/dateUtils';
 import { useAuth } from './AuthProvider';
 
+// Remove a task and drop it from other tasks' blockers (the server does the same in a trigger)
+function withoutTask(tasks: Task[], taskId: string): Task[] {
+  return tasks
+    .filter(t => t.id !== taskId)
+    .map(t => (t.blockedBy?.includes(taskId) ? { ...t, blockedBy: t.blockedBy.filter(id => id !== taskId) } : t));
+}
+
 const STORAGE_KEYS = {
   TASKS: 'taskify_tasks',
+  PROJECTS: 'taskify_projects',
+  CATEGORIES: 'taskify_categories',
+  SMART_LISTS: 'taskify_smart_lists',
+  BOARD_PREFERENCES: 'taskify_board_preferences',
   ONBOARDING_COMPLETE: 'taskify_onboarding_complete',
+  RECENT_SEARCHES: 'taskify_recent_searches',
+  FRIENDS: 'taskify_friends',
+  TIME_ENTRIES: 'taskify_time_entries',
+  FOCUS_SETTINGS: 'taskify_focus_settings',
+  FOCUS_SESSION: 'taskify_focus_session',
+  TEMPLATES: 'taskify_templates',
+  TRASH: 'taskify_trash',
   USER: 'taskify_user',
 };
 
+// Phase changes to schedule notifications for ahead of time
+const FOCUS_NOTIFICATION_COUNT = 8;
+
+const MAX_RECENT_SEARCHES = 10;
+
+// The last delete or completion, kept until the undo snackbar goes away
+interface UndoableAction {
+  id: string;
+  type: 'delete' | 'complete';
+  task: Task;
+  // Fields to put back when undoing a completion
+  previous?: Partial<Task>;
+}
+
 export const [AppProvider, useApp] = createContextHook(() => {
   const queryClient = useQueryClient();
   const { user, isAuthenticated } = useAuth();
@@ -22,6 +131,24 @@ export const [AppProvider, useApp] = createContextHook(() => {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>(mockNotifications);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState<boolean | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [pendingOperations, setPendingOperations] = useState<SyncOperation[]>([]);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [taskConflicts, setTaskConflicts] = useState<Record<string, TaskConflict>>({});
+  const [guestTasks, setGuestTasks] = useState<Task[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [trashedTasks, setTrashedTasks] = useState<Task[]>([]);
+  const [undoableAction, setUndoableAction] = useState<UndoableAction | null>(null);
+
+  // Re-evaluate date buckets every minute so tasks move to overdue as their due time passes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Fetch tasks from Supabase when authenticated, fallback to local storage
   const tasksQuery = useQuery({
@@ -32,13 +159,217 @@ export const [AppProvider, useApp] = createContextHook(() => {
         const stored = await AsyncStorage.getItem(STORAGE_KEYS.TASKS);
         return stored ? JSON.parse(stored) : mockTasks;
       }
-      // Fetch from Supabase
-      const tasks = await TaskService.getTasks(user.id);
-      return tasks.length > 0 ? tasks : mockTasks;
+      // Fetch from Supabase and re-apply changes that haven't been synced, including
+      // ones the server rejected that the user hasn't decided on yet
+      const [serverTasks, queue, failed] = await Promise.all([
+        TaskService.getTasks(user.id),
+        SyncService.getQueue(user.id),
+        SyncService.getFailed(user.id),
+      ]);
+      const unsynced = [...failed, ...queue];
+      if (!serverTasks) {
+        // Most likely offline: keep what we already have rather than emptying the list
+        const cached = queryClient.getQueryData<Task[]>(['tasks', user.id]);
+        return SyncService.applyPendingOperations(cached ?? [], unsynced);
+      }
+      return SyncService.applyPendingOperations(serverTasks, unsynced);
     },
     enabled: true,
   });
 
+  // Fetch projects from Supabase when authenticated, fallback to local storage
+  const projectsQuery = useQuery({
+    queryKey: ['projects', user?.id],
+    queryFn: async (): Promise<Project[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.PROJECTS);
+        return stored ? JSON.parse(stored) : [];
+      }
+      return ProjectService.getProjects(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (projectsQuery.data) {
+      setProjects(projectsQuery.data);
+    }
+  }, [projectsQuery.data]);
+
+  // Fetch categories from Supabase when authenticated, fallback to local storage
+  const categoriesQuery = useQuery({
+    queryKey: ['categories', user?.id],
+    queryFn: async (): Promise<Category[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.CATEGORIES);
+        if (stored) return JSON.parse(stored);
+        return DEFAULT_CATEGORIES.map((category, index) => ({
+          ...category,
+          id: category.slug,
+          sortOrder: index,
+          createdAt: new Date().toISOString(),
+        }));
+      }
+      return CategoryService.getCategories(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (categoriesQuery.data) {
+      setCategories(categoriesQuery.data);
+    }
+  }, [categoriesQuery.data]);
+
+  // Fetch smart lists from Supabase when authenticated, fallback to local storage
+  const smartListsQuery = useQuery({
+    queryKey: ['smartLists', user?.id],
+    queryFn: async (): Promise<SmartList[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.SMART_LISTS);
+        return stored ? JSON.parse(stored) : [];
+      }
+      return SmartListService.getSmartLists(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (smartListsQuery.data) {
+      setSmartLists(smartListsQuery.data);
+    }
+  }, [smartListsQuery.data]);
+
+  // Fetch time entries from Supabase when authenticated, fallback to local storage
+  const timeEntriesQuery = useQuery({
+    queryKey: ['timeEntries', user?.id],
+    queryFn: async (): Promise<TimeEntry[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.TIME_ENTRIES);
+        return stored ? JSON.parse(stored) : [];
+      }
+      return TimeEntryService.getTimeEntries(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (timeEntriesQuery.data) {
+      setTimeEntries(timeEntriesQuery.data);
+    }
+  }, [timeEntriesQuery.data]);
+
+  // Fetch templates (own and shared with the user) from Supabase when authenticated, fallback to local storage
+  const templatesQuery = useQuery({
+    queryKey: ['templates', user?.id],
+    queryFn: async (): Promise<TaskTemplate[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.TEMPLATES);
+        return stored ? JSON.parse(stored) : [];
+      }
+      return TemplateService.getTemplates(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (templatesQuery.data) {
+      setTemplates(templatesQuery.data);
+    }
+  }, [templatesQuery.data]);
+
+  // Fetch the trash, purging tasks that have been in it longer than the retention period
+  const trashQuery = useQuery({
+    queryKey: ['trash', user?.id],
+    queryFn: async (): Promise<Task[]> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.TRASH);
+        const trashed: Task[] = stored ? JSON.parse(stored) : [];
+        const kept = trashed.filter(t => !isPastTrashRetention(t));
+        if (kept.length !== trashed.length) {
+          await AsyncStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify(kept));
+        }
+        return kept;
+      }
+      await TaskService.purgeDeletedTasks(user.id, { before: getTrashPurgeCutoff() });
+      return TaskService.getDeletedTasks(user.id);
+    },
+  });
+
+  useEffect(() => {
+    if (trashQuery.data) {
+      setTrashedTasks(trashQuery.data);
+    }
+  }, [trashQuery.data]);
+
+  // Friends are cached on the device so @mentions in quick add still resolve offline
+  const friendsQuery = useQuery({
+    queryKey: ['friends', user?.id],
+    queryFn: async (): Promise<Friend[]> => {
+      if (!user?.id || !isAuthenticated) return [];
+      const friends = await FriendService.getFriends(user.id);
+      if (friends.length > 0) {
+        await AsyncStorage.setItem(STORAGE_KEYS.FRIENDS, JSON.stringify(friends));
+        return friends;
+      }
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.FRIENDS);
+      return stored ? JSON.parse(stored) : [];
+    },
+  });
+
+  const friends = useMemo(() => friendsQuery.data ?? [], [friendsQuery.data]);
+
+  // Comments from others the user hasn't read yet, by task id; comments need an account
+  const unreadCommentsQuery = useQuery({
+    queryKey: ['unreadComments', user?.id],
+    queryFn: async (): Promise<Record<string, number>> => {
+      if (!user?.id || !isAuthenticated) return {};
+      return CommentService.getUnreadCounts();
+    },
+  });
+
+  const unreadCommentCounts = useMemo(() => unreadCommentsQuery.data ?? {}, [unreadCommentsQuery.data]);
+
+  // Saved places and location reminders live on the server, so they need an account
+  const placesQuery = useQuery({
+    queryKey: ['places', user?.id],
+    queryFn: async (): Promise<SavedPlace[]> => {
+      if (!user?.id || !isAuthenticated) return [];
+      return PlaceService.getPlaces(user.id);
+    },
+  });
+
+  const places = useMemo(() => placesQuery.data ?? [], [placesQuery.data]);
+
+  const locationRemindersQuery = useQuery({
+    queryKey: ['locationReminders', user?.id],
+    queryFn: async (): Promise<LocationReminder[]> => {
+      if (!user?.id || !isAuthenticated) return [];
+      return ReminderService.getLocationReminders(user.id);
+    },
+  });
+
+  const locationReminders = useMemo(() => locationRemindersQuery.data ?? [], [locationRemindersQuery.data]);
+
+  const reminderDefaultsQuery = useQuery({
+    queryKey: ['reminderDefaults', user?.id],
+    queryFn: async (): Promise<number[]> => {
+      if (!user?.id || !isAuthenticated) return DEFAULT_REMINDER_OFFSETS;
+      return ReminderService.getDefaultOffsets(user.id);
+    },
+  });
+
+  const defaultReminderOffsets = reminderDefaultsQuery.data ?? DEFAULT_REMINDER_OFFSETS;
+
+  // Board view settings follow the user across devices; guests keep them on this device
+  const boardPreferencesQuery = useQuery({
+    queryKey: ['boardPreferences', user?.id],
+    queryFn: async (): Promise<BoardPreferences> => {
+      if (!user?.id || !isAuthenticated) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.BOARD_PREFERENCES);
+        return stored ? { ...DEFAULT_BOARD_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_BOARD_PREFERENCES;
+      }
+      return (await BoardService.getPreferences(user.id)) ?? DEFAULT_BOARD_PREFERENCES;
+    },
+  });
+
+  const boardPreferences = boardPreferencesQuery.data ?? DEFAULT_BOARD_PREFERENCES;
+
   // Fetch chat messages from Supabase when user is authenticated
   const chatMessagesQuery = useQuery({
     queryKey: ['chatMessages', user?.id],
@@ -64,6 +395,36 @@ export const [AppProvider, useApp] = createContextHook(() => {
     },
   });
 
+  const recentSearchesQuery = useQuery({
+    queryKey: ['recentSearches'],
+    queryFn: async () => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_SEARCHES);
+      return stored ? (JSON.parse(stored) as string[]) : [];
+    },
+  });
+
+  const recentSearches = useMemo(() => recentSearchesQuery.data ?? [], [recentSearchesQuery.data]);
+
+  // Focus mode is per device: its settings and the session in progress
+  const focusSettingsQuery = useQuery({
+    queryKey: ['focusSettings'],
+    queryFn: async (): Promise<FocusSettings> => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.FOCUS_SETTINGS);
+      return stored ? { ...DEFAULT_FOCUS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_FOCUS_SETTINGS;
+    },
+  });
+
+  const focusSessionQuery = useQuery({
+    queryKey: ['focusSession'],
+    queryFn: async (): Promise<FocusSession | null> => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.FOCUS_SESSION);
+      return stored ? JSON.parse(stored) : null;
+    },
+  });
+
+  const focusSettings = focusSettingsQuery.data ?? DEFAULT_FOCUS_SETTINGS;
+  const focusSession = focusSessionQuery.data ?? null;
+
   useEffect(() => {
     if (tasksQuery.data) {
       setTasks(tasksQuery.data);
@@ -97,47 +458,93 @@ export const [AppProvider, useApp] = createContextHook(() => {
     },
   });
 
+  const { mutate: saveRecentSearches } = useMutation({
+    mutationFn: async (searches: string[]) => {
+      await AsyncStorage.setItem(STORAGE_KEYS.RECENT_SEARCHES, JSON.stringify(searches));
+      return searches;
+    },
+    onSuccess: (searches) => {
+      queryClient.setQueryData(['recentSearches'], searches);
+    },
+  });
+
+  // Creates tasks in one go so a batch (e.g. from a template) can't race on local storage
   const addTaskMutation = useMutation({
-    mutationFn: async (task: Omit<Task, 'id' | 'createdAt'>) => {
+    mutationFn: async ({ newTasks, source }: { newTasks: Omit<Task, 'id' | 'createdAt'>[]; source: TaskChangeSource }): Promise<Task[]> => {
       if (!user?.id || !isAuthenticated) {
         // Fallback to local storage
-        const newTask: Task = {
+        const createdAt = new Date().toISOString();
+        const localTasks: Task[] = newTasks.map(task => ({
           ...task,
-          id: Date.now().toString(),
-          createdAt: new Date().toISOString(),
-        };
-        const updated = [newTask, ...tasks];
+          id: Crypto.randomUUID(),
+          createdAt,
+        }));
+        const updated = [...localTasks, ...tasks];
         await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updated));
-        return newTask;
-      }
-      // Create in Supabase
-      const created = await TaskService.createTask(user.id, task);
-      if (!created) {
-        // Fallback to local
-        return {
-          ...task,
-          id: Date.now().toString(),
-          createdAt: new Date().toISOString(),
-        } as Task;
+        return localTasks;
       }
-      // Create reminders if due date exists
-      if (task.dueDate) {
-        await ReminderService.createDefaultReminders(user.id, created.id, task.dueDate, task.dueTime);
+      const createdTasks: Task[] = [];
+      for (const task of newTasks) {
+        // Create in Supabase
+        const created = await TaskService.createTask(user.id, task, source);
+        if (!created) {
+          // Queue the create and keep a local copy under a temporary id until it syncs
+          const localTask: Task = {
+            ...task,
+            id: SyncService.createTemporaryId(),
+            createdAt: new Date().toISOString(),
+          };
+          setPendingOperations(await SyncService.enqueue(user.id, {
+            type: 'create',
+            taskId: localTask.id,
+            payload: task,
+          }));
+          createdTasks.push(localTask);
+          continue;
+        }
+        // Friends assigned to the task need a share to see it
+        if (created.assignedTo?.length) {
+          await TaskShareService.shareWithAssignees(user.id, created);
+        }
+        // Create reminders if due date exists
+        if (task.dueDate) {
+          await ReminderService.createDefaultReminders(
+            user.id,
+            created.id,
+            task.dueDate,
+            task.dueTime,
+            task.isRecurring ? 'recurring' : 'due_date'
+          );
+        }
+        createdTasks.push(created);
       }
-      return created;
+      return createdTasks;
     },
-    onSuccess: (newTask) => {
-      setTasks(prev => [newTask, ...prev]);
+    onSuccess: (newTasks) => {
+      setTasks(prev => [...newTasks, ...prev]);
       queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
     },
   });
 
-  const addTask = useCallback((task: Omit<Task, 'id' | 'createdAt'>) => {
-    addTaskMutation.mutate(task);
+  const addTask = useCallback((task: Omit<Task, 'id' | 'createdAt'>, source: TaskChangeSource = 'manual') => {
+    addTaskMutation.mutate({ newTasks: [{ ...task, status: deriveTaskStatus(task) }], source });
+  }, [addTaskMutation]);
+
+  const addTasks = useCallback(async (newTasks: Omit<Task, 'id' | 'createdAt'>[], source: TaskChangeSource = 'manual') => {
+    if (newTasks.length === 0) return [];
+    return addTaskMutation.mutateAsync({
+      newTasks: newTasks.map(task => ({ ...task, status: deriveTaskStatus(task) })),
+      source,
+    });
   }, [addTaskMutation]);
 
+  // Updates to a task go out one at a time, each expecting the version the previous one
+  // saved, so quick successive edits aren't mistaken for someone else's change
+  const taskWrites = useRef(new Map<string, Promise<Task | null>>());
+  const savedVersions = useRef(new Map<string, string>());
+
   const updateTaskMutation = useMutation({
-    mutationFn: async ({ taskId, updates }: { taskId: string; updates: Partial<Task> }) => {
+    mutationFn: async ({ taskId, updates, source }: { taskId: string; updates: Partial<Task>; source: TaskChangeSource }) => {
       if (!user?.id || !isAuthenticated) {
         // Fallback to local storage
         const updated = tasks.map(task =>
@@ -146,13 +553,54 @@ export const [AppProvider, useApp] = createContextHook(() => {
         await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updated));
         return updated.find(t => t.id === taskId)!;
       }
-      const updated = await TaskService.updateTask(user.id, taskId, updates);
-      if (!updated) {
-        // Fallback to local update
-        const localUpdated = tasks.find(t => t.id === taskId);
-        return localUpdated ? { ...localUpdated, ...updates } : null;
+      const userId = user.id;
+      // Updates carry the version we last saw so they can't clobber someone else's edit
+      const current = tasks.find(t => t.id === taskId);
+      const base = current ? pickBaseValues(current, updates) : {};
+
+      const push = async (): Promise<Task | null> => {
+        const saved = savedVersions.current.get(taskId);
+        const expectedUpdatedAt = saved && (!current?.updatedAt || saved > current.updatedAt)
+          ? saved
+          : current?.updatedAt;
+
+        // Updates must not overtake queued changes to the same task
+        const queue = await SyncService.getQueue(userId);
+        const result = SyncService.hasPendingOperations(queue, taskId)
+          ? null
+          : await SyncService.pushUpdate(userId, taskId, updates, base, expectedUpdatedAt, source);
+
+        if (!result || result.status === 'failed') {
+          // Queue the update and apply it locally
+          setPendingOperations(await SyncService.enqueue(userId, {
+            type: 'update',
+            taskId,
+            payload: updates,
+            base,
+            baseUpdatedAt: expectedUpdatedAt,
+          }));
+          return current ? { ...current, ...updates } : null;
+        }
+
+        if (result.task.updatedAt) {
+          savedVersions.current.set(taskId, result.task.updatedAt);
+        }
+        const conflict = result.conflict;
+        if (conflict) {
+          setTaskConflicts(prev => ({ ...prev, [taskId]: conflict }));
+        }
+        return result.task;
+      };
+
+      const write = (taskWrites.current.get(taskId) ?? Promise.resolve(null))
+        .catch(() => null)
+        .then(push);
+      taskWrites.current.set(taskId, write);
+      try {
+        return await write;
+      } finally {
+        if (taskWrites.current.get(taskId) === write) taskWrites.current.delete(taskId);
       }
-      return updated;
     },
     onSuccess: (updatedTask) => {
       if (updatedTask) {
@@ -162,164 +610,1693 @@ export const [AppProvider, useApp] = createContextHook(() => {
     },
   });
 
-  const updateTask = useCallback((taskId: string, updates: Partial<Task>) => {
-    updateTaskMutation.mutate({ taskId, updates });
-  }, [updateTaskMutation]);
+  const updateTask = useCallback((taskId: string, updates: Partial<Task>, source: TaskChangeSource = 'manual') => {
+    // Keep the stored status in line with the deadline whenever it could have changed
+    const current = tasks.find(t => t.id === taskId);
+    if (current && ('status' in updates || 'dueDate' in updates || 'dueTime' in updates)) {
+      updates = { ...updates, status: deriveTaskStatus({ ...current, ...updates }) };
+    }
+    updateTaskMutation.mutate({ taskId, updates, source });
+  }, [tasks, updateTaskMutation]);
+
+  const saveLocalTrash = useCallback(async (updated: Task[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify(updated));
+    return updated;
+  }, []);
 
+  // Deleting moves a task to the trash; it is only removed for good from there
   const deleteTaskMutation = useMutation({
-    mutationFn: async (taskId: string) => {
+    mutationFn: async ({ task, source }: { task: Task; source: TaskChangeSource }) => {
       if (!user?.id || !isAuthenticated) {
         // Fallback to local storage
-        const updated = tasks.filter(task => task.id !== taskId);
+        const updated = tasks.filter(t => t.id !== task.id);
         await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updated));
+        await saveLocalTrash([task, ...trashedTasks.filter(t => t.id !== task.id)]);
         return true;
       }
-      return await TaskService.deleteTask(user.id, taskId);
+      const hasQueuedChanges = SyncService.hasPendingOperations(pendingOperations, task.id);
+      const deleted = !hasQueuedChanges && await TaskService.deleteTask(user.id, task.id, source);
+      if (!deleted) {
+        setPendingOperations(await SyncService.enqueue(user.id, { type: 'delete', taskId: task.id }));
+      }
+      return true;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['trash', user?.id] });
+    },
+  });
+
+  const restoreTaskMutation = useMutation({
+    mutationFn: async (task: Task): Promise<Task> => {
+      const restored: Task = { ...task, deletedAt: undefined };
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const updated = [restored, ...tasks.filter(t => t.id !== task.id)];
+        await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updated));
+        await saveLocalTrash(trashedTasks.filter(t => t.id !== task.id));
+        return restored;
+      }
+      if (SyncService.isTemporaryId(task.id)) {
+        // Its queued create was dropped with the delete, so queue it again
+        const { id, createdAt, ...payload } = restored;
+        setPendingOperations(await SyncService.enqueue(user.id, { type: 'create', taskId: id, payload }));
+        return restored;
+      }
+      const hasQueuedChanges = SyncService.hasPendingOperations(pendingOperations, task.id);
+      const result = hasQueuedChanges ? null : await TaskService.restoreTask(user.id, task.id);
+      if (!result) {
+        setPendingOperations(await SyncService.enqueue(user.id, { type: 'restore', taskId: task.id, payload: restored }));
+        return restored;
+      }
+      await ReminderService.scheduleTaskNotifications(user.id, task.id);
+      return result;
+    },
+    onSuccess: (restored) => {
+      setTasks(prev => [restored, ...prev.filter(t => t.id !== restored.id)]);
+      queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['trash', user?.id] });
     },
   });
 
-  const deleteTask = useCallback((taskId: string) => {
-    deleteTaskMutation.mutate(taskId);
+  const restoreTask = useCallback((task: Task) => {
+    restoreTaskMutation.mutate(task);
+    setTrashedTasks(prev => prev.filter(t => t.id !== task.id));
+    setTasks(prev => (prev.some(t => t.id === task.id) ? prev : [{ ...task, deletedAt: undefined }, ...prev]));
+  }, [restoreTaskMutation]);
+
+  const deleteTask = useCallback((taskId: string, source: TaskChangeSource = 'manual') => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const trashed: Task = { ...task, deletedAt: new Date().toISOString() };
+    deleteTaskMutation.mutate({ task: trashed, source });
     setTasks(prev => prev.filter(t => t.id !== taskId));
-  }, [deleteTaskMutation]);
+    setTrashedTasks(prev => [trashed, ...prev.filter(t => t.id !== taskId)]);
+    NotificationService.cancelTaskNotifications(taskId);
+    setUndoableAction({ id: Crypto.randomUUID(), type: 'delete', task: trashed });
+  }, [tasks, deleteTaskMutation]);
+
+  // Remove tasks from the trash for good
+  const purgeTrashMutation = useMutation({
+    mutationFn: async (taskIds: string[]) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage, dropping the tasks from blockers like the server does
+        const updated = taskIds.reduce(withoutTask, tasks);
+        await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updated));
+        await saveLocalTrash(trashedTasks.filter(t => !taskIds.includes(t.id)));
+        return true;
+      }
+      return TaskService.purgeDeletedTasks(user.id, { taskIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['trash', user?.id] });
+    },
+  });
 
-  const toggleTaskComplete = useCallback((taskId: string) => {
+  const deleteTaskForever = useCallback((taskId: string) => {
+    purgeTrashMutation.mutate([taskId]);
+    setTrashedTasks(prev => prev.filter(t => t.id !== taskId));
+    setTasks(prev => withoutTask(prev, taskId));
+  }, [purgeTrashMutation]);
+
+  const emptyTrash = useCallback(() => {
+    const taskIds = trashedTasks.map(t => t.id);
+    if (taskIds.length === 0) return;
+    purgeTrashMutation.mutate(taskIds);
+    setTrashedTasks([]);
+    setTasks(prev => taskIds.reduce(withoutTask, prev));
+  }, [trashedTasks, purgeTrashMutation]);
+
+  const toggleTaskComplete = useCallback((
+    taskId: string,
+    extraUpdates?: Partial<Task>,
+    source: TaskChangeSource = 'manual'
+  ) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
     
     const newStatus: TaskStatus = task.status === 'completed' ? 'pending' : 'completed';
     const updates: Partial<Task> = {
+      ...extraUpdates,
       status: newStatus,
       completedAt: newStatus === 'completed' ? new Date().toISOString() : undefined,
     };
-    updateTask(taskId, updates);
-  }, [tasks, updateTask]);
+    updateTask(taskId, updates, source);
 
-  // Mutation to add chat message to Supabase
-  const addMessageMutation = useMutation({
-    mutationFn: async ({ content, role, taskId }: { content: string; role: 'user' | 'assistant'; taskId?: string }) => {
-      if (!user?.id) {
-        // Fallback to local state if not authenticated
-        return {
-          id: Date.now().toString(),
-          content,
-          role,
-          timestamp: new Date().toISOString(),
-        } as ChatMessage;
-      }
-      const message = await ChatService.addMessage(user.id, content, role, taskId);
-      if (!message) {
-        // Fallback if Supabase insert fails
-        return {
-          id: Date.now().toString(),
-          content,
-          role,
-          timestamp: new Date().toISOString(),
-        } as ChatMessage;
+    if (newStatus === 'completed') {
+      const previous: Partial<Task> = { status: task.status, completedAt: task.completedAt };
+      if (extraUpdates?.subtasks) previous.subtasks = task.subtasks;
+      setUndoableAction({ id: Crypto.randomUUID(), type: 'complete', task, previous });
+    }
+
+    // Completing a recurring task schedules its next occurrence
+    if (newStatus === 'completed' && task.isRecurring && task.recurringPattern) {
+      const fromDate = task.dueDate || getTodayDateString();
+      const next = getNextOccurrence(task.recurringPattern, fromDate);
+      const alreadyScheduled = next && tasks.some(t =>
+        t.id !== task.id &&
+        t.status !== 'completed' &&
+        t.title === task.title &&
+        t.dueDate === next.dueDate
+      );
+
+      if (next && !alreadyScheduled) {
+        addTask({
+          title: task.title,
+          description: task.description,
+          dueDate: next.dueDate,
+          dueTime: task.dueTime,
+          priority: task.priority,
+          status: 'pending',
+          category: task.category,
+          tags: task.tags,
+          assignedTo: task.assignedTo,
+          isRecurring: true,
+          recurringPattern: next.recurringPattern,
+          subtasks: task.subtasks?.map(s => ({ ...s, id: Crypto.randomUUID(), isCompleted: false })),
+        }, 'recurrence');
       }
-      return message;
-    },
-    onSuccess: (message) => {
-      setChatMessages(prev => [...prev, message]);
-      queryClient.invalidateQueries({ queryKey: ['chatMessages', user?.id] });
-    },
-  });
+    }
+  }, [tasks, updateTask, addTask]);
 
-  const addChatMessage = useCallback((content: string, role: 'user' | 'assistant', taskId?: string) => {
-    addMessageMutation.mutate({ content, role, taskId });
-  }, [addMessageMutation]);
+  // Undo the last delete or completion. A recurring task's next occurrence is kept;
+  // completing the task again won't schedule a second one.
+  const undoLastAction = useCallback(() => {
+    if (!undoableAction) return;
+    setUndoableAction(null);
+    if (undoableAction.type === 'delete') {
+      restoreTask(undoableAction.task);
+    } else if (undoableAction.previous) {
+      updateTask(undoableAction.task.id, undoableAction.previous);
+    }
+  }, [undoableAction, restoreTask, updateTask]);
 
-  const markNotificationRead = useCallback((notificationId: string) => {
-    setNotifications(prev =>
-      prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n)
-    );
+  const dismissUndo = useCallback(() => {
+    setUndoableAction(null);
   }, []);
 
-  const completeOnboarding = useCallback(() => {
-    completeOnboardingMutate();
-  }, [completeOnboardingMutate]);
+  // Toggle a subtask; when it completes the checklist, optionally complete the parent in the same update
+  const toggleSubtask = useCallback((taskId: string, subtaskId: string, options?: { completeParent?: boolean }) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task?.subtasks) return;
 
-  const todayTasks = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return tasks.filter(task => task.dueDate === today && task.status !== 'completed');
-  }, [tasks]);
+    const subtasks = task.subtasks.map(s =>
+      s.id === subtaskId ? { ...s, isCompleted: !s.isCompleted } : s
+    );
+    const allDone = subtasks.every(s => s.isCompleted);
 
-  const upcomingTasks = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return tasks.filter(task => task.dueDate && task.dueDate > today && task.status !== 'completed');
-  }, [tasks]);
+    if (options?.completeParent && allDone && task.status !== 'completed') {
+      toggleTaskComplete(taskId, { subtasks });
+    } else {
+      updateTask(taskId, { subtasks });
+    }
+  }, [tasks, updateTask, toggleTaskComplete]);
 
-  const completedTasks = useMemo(() => {
-    return tasks.filter(task => task.status === 'completed');
-  }, [tasks]);
+  // Move a task to another day or time; its reminders keep their offset from the deadline
+  const rescheduleTask = useCallback((taskId: string, dueDate: string, dueTime?: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || (task.dueDate === dueDate && task.dueTime === dueTime)) return;
 
-  const overdueTasks = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return tasks.filter(task => task.dueDate && task.dueDate < today && task.status !== 'completed');
-  }, [tasks]);
+    updateTask(taskId, { dueDate, dueTime });
 
-  const unreadNotificationsCount = useMemo(() => {
-    return notifications.filter(n => !n.isRead).length;
-  }, [notifications]);
+    // Queued tasks get their reminders when they sync
+    if (user?.id && isAuthenticated && !SyncService.isTemporaryId(taskId)) {
+      ReminderService.rescheduleTaskReminders(
+        user.id,
+        taskId,
+        { dueDate: task.dueDate, dueTime: task.dueTime },
+        { dueDate, dueTime }
+      ).then(() => queryClient.invalidateQueries({ queryKey: ['taskReminders', taskId] }));
+    }
+  }, [tasks, updateTask, user?.id, isAuthenticated, queryClient]);
 
-  // Set up real-time subscription for chat messages
-  useEffect(() => {
-    if (!user?.id || !isAuthenticated) return;
+  // Apply the user's pick for each field that was edited on both sides
+  const resolveTaskConflict = useCallback((
+    taskId: string,
+    choices: Partial<Record<MergeableTaskField, ConflictChoice>>
+  ) => {
+    const conflict = taskConflicts[taskId];
+    if (!conflict) return;
 
-    const unsubscribe = ChatService.subscribeToMessages(user.id, (newMessage) => {
-      setChatMessages(prev => {
-        // Avoid duplicates
-        if (prev.some(m => m.id === newMessage.id)) {
-          return prev;
-        }
-        return [...prev, newMessage];
-      });
+    setTaskConflicts(prev => {
+      const next = { ...prev };
+      delete next[taskId];
+      return next;
     });
 
-    return () => {
-      unsubscribe();
-    };
-  }, [user?.id, isAuthenticated]);
-
-  // Set up real-time subscription for tasks
-  useEffect(() => {
-    if (!user?.id || !isAuthenticated) return;
+    const updates = resolveConflicts(conflict, choices);
+    if (Object.keys(updates).length > 0) {
+      updateTask(taskId, updates);
+    }
+  }, [taskConflicts, updateTask]);
 
-    const unsubscribe = TaskService.subscribeToTasks(user.id, {
-      onInsert: (newTask) => {
-        setTasks(prev => {
-          if (prev.some(t => t.id === newTask.id)) {
-            return prev;
-          }
-          return [newTask, ...prev];
-        });
-      },
-      onUpdate: (updatedTask) => {
-        setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
-      },
-      onDelete: (taskId) => {
-        setTasks(prev => prev.filter(t => t.id !== taskId));
-      },
-    });
+  const saveLocalProjects = useCallback(async (updated: Project[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.PROJECTS, JSON.stringify(updated));
+    return updated;
+  }, []);
 
-    return () => {
-      unsubscribe();
-    };
-  }, [user?.id, isAuthenticated]);
+  const addProjectMutation = useMutation({
+    mutationFn: async (project: NewProject): Promise<Project | null> => {
+      const sortOrder = projects.filter(p => !p.permission).length;
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const newProject: Project = {
+          ...project,
+          id: Crypto.randomUUID(),
+          sortOrder,
+          isArchived: false,
+          createdAt: new Date().toISOString(),
+        };
+        await saveLocalProjects([...projects, newProject]);
+        return newProject;
+      }
+      return await ProjectService.createProject(user.id, project, sortOrder);
+    },
+    onSuccess: (newProject) => {
+      if (newProject) {
+        setProjects(prev => [...prev, newProject]);
+        queryClient.invalidateQueries({ queryKey: ['projects', user?.id] });
+      }
+    },
+  });
+
+  const addProject = useCallback((project: NewProject) => {
+    return addProjectMutation.mutateAsync(project);
+  }, [addProjectMutation]);
+
+  const updateProjectMutation = useMutation({
+    mutationFn: async ({ projectId, updates }: { projectId: string; updates: Partial<Project> }) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const updated = projects.map(p => (p.id === projectId ? { ...p, ...updates } : p));
+        await saveLocalProjects(updated);
+        return updated.find(p => p.id === projectId) ?? null;
+      }
+      return await ProjectService.updateProject(user.id, projectId, updates);
+    },
+    onSuccess: (updatedProject) => {
+      if (updatedProject) {
+        setProjects(prev => prev.map(p => (p.id === updatedProject.id ? updatedProject : p)));
+        queryClient.invalidateQueries({ queryKey: ['projects', user?.id] });
+      }
+    },
+  });
+
+  const updateProject = useCallback((projectId: string, updates: Partial<Project>) => {
+    updateProjectMutation.mutate({ projectId, updates });
+  }, [updateProjectMutation]);
+
+  const deleteProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage; tasks stay but leave the project
+        await saveLocalProjects(projects.filter(p => p.id !== projectId));
+        const updatedTasks = tasks.map(t => (t.projectId === projectId ? { ...t, projectId: undefined } : t));
+        await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updatedTasks));
+        return true;
+      }
+      return await ProjectService.deleteProject(user.id, projectId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+    },
+  });
+
+  const deleteProject = useCallback((projectId: string) => {
+    deleteProjectMutation.mutate(projectId);
+    setProjects(prev => prev.filter(p => p.id !== projectId));
+    setTasks(prev => prev.map(t => (t.projectId === projectId ? { ...t, projectId: undefined } : t)));
+  }, [deleteProjectMutation]);
+
+  // Stop seeing a project someone else shared with us
+  const leaveProject = useCallback(async (projectId: string) => {
+    if (!user?.id || !isAuthenticated) return false;
+    const left = await ProjectShareService.leaveProject(user.id, projectId);
+    if (left) {
+      setProjects(prev => prev.filter(p => p.id !== projectId));
+      queryClient.invalidateQueries({ queryKey: ['projects', user.id] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', user.id] });
+    }
+    return left;
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  const reorderProjects = useCallback(async (orderedIds: string[]) => {
+    const reordered = projects.map(p => {
+      const index = orderedIds.indexOf(p.id);
+      return index === -1 ? p : { ...p, sortOrder: index };
+    });
+    setProjects(reordered);
+
+    if (!user?.id || !isAuthenticated) {
+      await saveLocalProjects(reordered);
+      return;
+    }
+    await ProjectService.reorderProjects(user.id, orderedIds);
+    queryClient.invalidateQueries({ queryKey: ['projects', user.id] });
+  }, [projects, user?.id, isAuthenticated, saveLocalProjects, queryClient]);
+
+  const saveLocalCategories = useCallback(async (updated: Category[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.CATEGORIES, JSON.stringify(updated));
+    return updated;
+  }, []);
+
+  const addCategoryMutation = useMutation({
+    mutationFn: async (category: NewCategory): Promise<Category | null> => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const newCategory: Category = {
+          ...category,
+          id: Crypto.randomUUID(),
+          slug: CategoryService.createSlug(category.name, categories),
+          sortOrder: categories.length,
+          createdAt: new Date().toISOString(),
+        };
+        await saveLocalCategories([...categories, newCategory]);
+        return newCategory;
+      }
+      return await CategoryService.createCategory(user.id, category, categories);
+    },
+    onSuccess: (newCategory) => {
+      if (newCategory) {
+        setCategories(prev => [...prev, newCategory]);
+        queryClient.invalidateQueries({ queryKey: ['categories', user?.id] });
+      }
+    },
+  });
+
+  const addCategory = useCallback((category: NewCategory) => {
+    return addCategoryMutation.mutateAsync(category);
+  }, [addCategoryMutation]);
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: async ({ categoryId, updates }: { categoryId: string; updates: Partial<NewCategory> }) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const updated = categories.map(c => (c.id === categoryId ? { ...c, ...updates } : c));
+        await saveLocalCategories(updated);
+        return updated.find(c => c.id === categoryId) ?? null;
+      }
+      return await CategoryService.updateCategory(user.id, categoryId, updates);
+    },
+    onSuccess: (updatedCategory) => {
+      if (updatedCategory) {
+        setCategories(prev => prev.map(c => (c.id === updatedCategory.id ? updatedCategory : c)));
+        queryClient.invalidateQueries({ queryKey: ['categories', user?.id] });
+      }
+    },
+  });
+
+  const updateCategory = useCallback((categoryId: string, updates: Partial<NewCategory>) => {
+    updateCategoryMutation.mutate({ categoryId, updates });
+  }, [updateCategoryMutation]);
+
+  // Delete a category after moving its tasks to another one; merging is the same operation
+  const deleteCategory = useCallback(async (categoryId: string, reassignTo: string) => {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category || category.slug === reassignTo) return false;
+
+    if (!user?.id || !isAuthenticated) {
+      const updatedTasks = tasks.map(t => (t.category === category.slug ? { ...t, category: reassignTo } : t));
+      await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updatedTasks));
+      await saveLocalCategories(categories.filter(c => c.id !== categoryId));
+    } else {
+      const deleted = await CategoryService.deleteCategory(user.id, category, reassignTo);
+      if (!deleted) return false;
+    }
+
+    setCategories(prev => prev.filter(c => c.id !== categoryId));
+    setTasks(prev => prev.map(t => (t.category === category.slug ? { ...t, category: reassignTo } : t)));
+    queryClient.invalidateQueries({ queryKey: ['categories', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+    return true;
+  }, [categories, tasks, user?.id, isAuthenticated, saveLocalCategories, queryClient]);
+
+  const saveLocalSmartLists = useCallback(async (updated: SmartList[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.SMART_LISTS, JSON.stringify(updated));
+    return updated;
+  }, []);
+
+  const addSmartListMutation = useMutation({
+    mutationFn: async (list: NewSmartList): Promise<SmartList | null> => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const newList: SmartList = {
+          ...list,
+          id: Crypto.randomUUID(),
+          sortOrder: smartLists.length,
+          createdAt: new Date().toISOString(),
+        };
+        await saveLocalSmartLists([...smartLists, newList]);
+        return newList;
+      }
+      return await SmartListService.createSmartList(user.id, list, smartLists.length);
+    },
+    onSuccess: (newList) => {
+      if (newList) {
+        setSmartLists(prev => [...prev, newList]);
+        queryClient.invalidateQueries({ queryKey: ['smartLists', user?.id] });
+      }
+    },
+  });
+
+  const addSmartList = useCallback((list: NewSmartList) => {
+    return addSmartListMutation.mutateAsync(list);
+  }, [addSmartListMutation]);
+
+  const updateSmartListMutation = useMutation({
+    mutationFn: async ({ listId, updates }: { listId: string; updates: Partial<SmartList> }) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const updated = smartLists.map(l => (l.id === listId ? { ...l, ...updates } : l));
+        await saveLocalSmartLists(updated);
+        return updated.find(l => l.id === listId) ?? null;
+      }
+      return await SmartListService.updateSmartList(user.id, listId, updates);
+    },
+    onSuccess: (updatedList) => {
+      if (updatedList) {
+        setSmartLists(prev => prev.map(l => (l.id === updatedList.id ? updatedList : l)));
+        queryClient.invalidateQueries({ queryKey: ['smartLists', user?.id] });
+      }
+    },
+  });
+
+  const updateSmartList = useCallback((listId: string, updates: Partial<SmartList>) => {
+    updateSmartListMutation.mutate({ listId, updates });
+  }, [updateSmartListMutation]);
+
+  const deleteSmartListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        await saveLocalSmartLists(smartLists.filter(l => l.id !== listId));
+        return true;
+      }
+      return await SmartListService.deleteSmartList(user.id, listId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smartLists', user?.id] });
+    },
+  });
+
+  const deleteSmartList = useCallback((listId: string) => {
+    deleteSmartListMutation.mutate(listId);
+    setSmartLists(prev => prev.filter(l => l.id !== listId));
+  }, [deleteSmartListMutation]);
+
+  const saveLocalTemplates = useCallback(async (updated: TaskTemplate[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(updated));
+    return updated;
+  }, []);
+
+  const addTemplateMutation = useMutation({
+    mutationFn: async (template: NewTaskTemplate): Promise<TaskTemplate | null> => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const newTemplate: TaskTemplate = {
+          ...template,
+          id: Crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+        };
+        await saveLocalTemplates([...templates, newTemplate]);
+        return newTemplate;
+      }
+      return await TemplateService.createTemplate(user.id, template);
+    },
+    onSuccess: (newTemplate) => {
+      if (newTemplate) {
+        setTemplates(prev => [...prev, newTemplate]);
+        queryClient.invalidateQueries({ queryKey: ['templates', user?.id] });
+      }
+    },
+  });
+
+  const addTemplate = useCallback((template: NewTaskTemplate) => {
+    return addTemplateMutation.mutateAsync(template);
+  }, [addTemplateMutation]);
+
+  const updateTemplateMutation = useMutation({
+    mutationFn: async ({ templateId, updates }: { templateId: string; updates: Partial<NewTaskTemplate> }) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        const updated = templates.map(t => (t.id === templateId ? { ...t, ...updates } : t));
+        await saveLocalTemplates(updated);
+        return updated.find(t => t.id === templateId) ?? null;
+      }
+      return await TemplateService.updateTemplate(user.id, templateId, updates);
+    },
+    onSuccess: (updatedTemplate) => {
+      if (updatedTemplate) {
+        setTemplates(prev => prev.map(t => (t.id === updatedTemplate.id ? updatedTemplate : t)));
+        queryClient.invalidateQueries({ queryKey: ['templates', user?.id] });
+      }
+    },
+  });
+
+  const updateTemplate = useCallback((templateId: string, updates: Partial<NewTaskTemplate>) => {
+    return updateTemplateMutation.mutateAsync({ templateId, updates });
+  }, [updateTemplateMutation]);
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      if (!user?.id || !isAuthenticated) {
+        // Fallback to local storage
+        await saveLocalTemplates(templates.filter(t => t.id !== templateId));
+        return true;
+      }
+      const template = templates.find(t => t.id === templateId);
+      // Removing a shared template only drops the share
+      return template?.isShared
+        ? await TemplateService.unshareTemplate(templateId, user.id)
+        : await TemplateService.deleteTemplate(user.id, templateId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates', user?.id] });
+    },
+  });
+
+  const deleteTemplate = useCallback((templateId: string) => {
+    deleteTemplateMutation.mutate(templateId);
+    setTemplates(prev => prev.filter(t => t.id !== templateId));
+  }, [deleteTemplateMutation]);
+
+  // Create every task in a template, due relative to the anchor date, with their reminders
+  const applyTemplate = useCallback(async (
+    templateId: string,
+    anchorDate: string,
+    projectId?: string,
+    source: TaskChangeSource = 'manual'
+  ) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return [];
+    const categorySlugs = categories.map(c => c.slug);
+    const newTasks = instantiateTemplate(template, anchorDate, {
+      categorySlugs,
+      // Fall back to the first category if the default one was deleted
+      fallbackCategory: categorySlugs.includes(DEFAULT_CATEGORY_SLUG) ? DEFAULT_CATEGORY_SLUG : categorySlugs[0] ?? DEFAULT_CATEGORY_SLUG,
+      projectId,
+    });
+    return addTasks(newTasks, source);
+  }, [templates, categories, addTasks]);
+
+  const saveLocalTimeEntries = useCallback(async (updated: TimeEntry[]) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.TIME_ENTRIES, JSON.stringify(updated));
+    return updated;
+  }, []);
+
+  const activeTimeEntry = useMemo(() => getActiveEntry(timeEntries), [timeEntries]);
+
+  // Only one timer runs at a time: starting one stops whichever was running
+  const startTimer = useCallback(async (taskId: string): Promise<boolean> => {
+    const running = activeTimeEntry;
+    if (running?.taskId === taskId) return true;
+
+    const startedAt = new Date().toISOString();
+    const stopRunning = (entries: TimeEntry[]) =>
+      entries.map(e => (e.id === running?.id ? { ...e, endedAt: startedAt } : e));
+
+    if (!user?.id || !isAuthenticated) {
+      const entry: TimeEntry = { id: Crypto.randomUUID(), taskId, source: 'timer', startedAt, createdAt: startedAt };
+      await saveLocalTimeEntries([entry, ...stopRunning(timeEntries)]);
+      setTimeEntries(prev => [entry, ...stopRunning(prev)]);
+      return true;
+    }
+
+    // Entries reference the task on the server, so a task created offline has to sync first
+    if (SyncService.isTemporaryId(taskId)) return false;
+    if (running && !(await TimeEntryService.updateTimeEntry(user.id, running.id, { endedAt: startedAt }))) {
+      return false;
+    }
+    const entry = await TimeEntryService.createTimeEntry(user.id, { taskId, source: 'timer', startedAt });
+    setTimeEntries(prev => (entry ? [entry, ...stopRunning(prev)] : stopRunning(prev)));
+    if (!entry) {
+      // Most likely a timer started on another device; pick it up
+      queryClient.invalidateQueries({ queryKey: ['timeEntries', user.id] });
+    }
+    return !!entry;
+  }, [activeTimeEntry, timeEntries, user?.id, isAuthenticated, saveLocalTimeEntries, queryClient]);
+
+  const addTimeEntries = useCallback(async (entries: NewTimeEntry[]): Promise<boolean> => {
+    if (!user?.id || !isAuthenticated) {
+      const createdAt = new Date().toISOString();
+      const created: TimeEntry[] = entries.map(entry => ({ ...entry, id: Crypto.randomUUID(), createdAt }));
+      await saveLocalTimeEntries([...created, ...timeEntries]);
+      setTimeEntries(prev => [...created, ...prev]);
+      return true;
+    }
+
+    if (entries.some(entry => SyncService.isTemporaryId(entry.taskId))) return false;
+    const userId = user.id;
+    const results = await Promise.all(entries.map(entry => TimeEntryService.createTimeEntry(userId, entry)));
+    const created = results.filter((entry): entry is TimeEntry => entry !== null);
+    setTimeEntries(prev => [...created, ...prev]);
+    return created.length === entries.length;
+  }, [timeEntries, user?.id, isAuthenticated, saveLocalTimeEntries]);
+
+  const addTimeEntry = useCallback((entry: NewTimeEntry) => {
+    return addTimeEntries([entry]);
+  }, [addTimeEntries]);
+
+  const updateTimeEntry = useCallback(async (
+    entryId: string,
+    updates: Partial<Pick<TimeEntry, 'startedAt' | 'endedAt' | 'note'>>
+  ): Promise<boolean> => {
+    if (!user?.id || !isAuthenticated) {
+      const updated = timeEntries.map(e => (e.id === entryId ? { ...e, ...updates } : e));
+      await saveLocalTimeEntries(updated);
+      setTimeEntries(updated);
+      return true;
+    }
+
+    const saved = await TimeEntryService.updateTimeEntry(user.id, entryId, updates);
+    if (!saved) return false;
+    setTimeEntries(prev => prev.map(e => (e.id === saved.id ? saved : e)));
+    return true;
+  }, [timeEntries, user?.id, isAuthenticated, saveLocalTimeEntries]);
+
+  const stopTimer = useCallback(async (): Promise<boolean> => {
+    if (!activeTimeEntry) return true;
+    return updateTimeEntry(activeTimeEntry.id, { endedAt: new Date().toISOString() });
+  }, [activeTimeEntry, updateTimeEntry]);
+
+  const deleteTimeEntry = useCallback(async (entryId: string): Promise<boolean> => {
+    if (!user?.id || !isAuthenticated) {
+      await saveLocalTimeEntries(timeEntries.filter(e => e.id !== entryId));
+    } else if (!(await TimeEntryService.deleteTimeEntry(user.id, entryId))) {
+      return false;
+    }
+    setTimeEntries(prev => prev.filter(e => e.id !== entryId));
+    return true;
+  }, [timeEntries, user?.id, isAuthenticated, saveLocalTimeEntries]);
+
+  const updateBoardPreferences = useCallback(async (updates: Partial<BoardPreferences>) => {
+    const updated = { ...boardPreferences, ...updates };
+    queryClient.setQueryData(['boardPreferences', user?.id], updated);
+
+    if (!user?.id || !isAuthenticated) {
+      await AsyncStorage.setItem(STORAGE_KEYS.BOARD_PREFERENCES, JSON.stringify(updated));
+      return;
+    }
+    await BoardService.savePreferences(user.id, updated);
+  }, [boardPreferences, user?.id, isAuthenticated, queryClient]);
+
+  // Rename a tag on every task; renaming onto an existing tag merges the two
+  const renameTag = useCallback(async (from: string, to: string) => {
+    const target = normalizeTag(to);
+    if (!target || target === from) return false;
+
+    if (!user?.id || !isAuthenticated) {
+      const updatedTasks = tasks.map(t => (t.tags ? { ...t, tags: renameTagInList(t.tags, from, target) } : t));
+      await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(updatedTasks));
+    } else {
+      const changed = await TaskService.renameTag(from, target);
+      if (changed === null) return false;
+    }
+
+    setTasks(prev => prev.map(t => (t.tags ? { ...t, tags: renameTagInList(t.tags, from, target) } : t)));
+    queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
+    return true;
+  }, [tasks, user?.id, isAuthenticated, queryClient]);
+
+  // Mutation to add chat message to Supabase
+  const addMessageMutation = useMutation({
+    mutationFn: async ({ content, role, taskId }: { content: string; role: 'user' | 'assistant'; taskId?: string }) => {
+      if (!user?.id) {
+        // Fallback to local state if not authenticated
+        return {
+          id: Date.now().toString(),
+          content,
+          role,
+          timestamp: new Date().toISOString(),
+        } as ChatMessage;
+      }
+      const message = await ChatService.addMessage(user.id, content, role, taskId);
+      if (!message) {
+        // Fallback if Supabase insert fails
+        return {
+          id: Date.now().toString(),
+          content,
+          role,
+          timestamp: new Date().toISOString(),
+        } as ChatMessage;
+      }
+      return message;
+    },
+    onSuccess: (message) => {
+      setChatMessages(prev => [...prev, message]);
+      queryClient.invalidateQueries({ queryKey: ['chatMessages', user?.id] });
+    },
+  });
+
+  const addChatMessage = useCallback((content: string, role: 'user' | 'assistant', taskId?: string) => {
+    addMessageMutation.mutate({ content, role, taskId });
+  }, [addMessageMutation]);
+
+  const addPlaceMutation = useMutation({
+    mutationFn: async (place: NewSavedPlace) => {
+      if (!user?.id || !isAuthenticated) return null;
+      return await PlaceService.createPlace(user.id, place);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['places', user?.id] });
+    },
+  });
+
+  const addPlace = useCallback((place: NewSavedPlace) => {
+    return addPlaceMutation.mutateAsync(place);
+  }, [addPlaceMutation]);
+
+  const updatePlaceMutation = useMutation({
+    mutationFn: async ({ placeId, updates }: { placeId: string; updates: Partial<NewSavedPlace> }) => {
+      if (!user?.id || !isAuthenticated) return null;
+      return await PlaceService.updatePlace(user.id, placeId, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['places', user?.id] });
+    },
+  });
+
+  const updatePlace = useCallback((placeId: string, updates: Partial<NewSavedPlace>) => {
+    return updatePlaceMutation.mutateAsync({ placeId, updates });
+  }, [updatePlaceMutation]);
+
+  const deletePlaceMutation = useMutation({
+    mutationFn: async (placeId: string) => {
+      if (!user?.id || !isAuthenticated) return false;
+      return await PlaceService.deletePlace(user.id, placeId);
+    },
+    onSuccess: () => {
+      // The place's reminders are deleted with it
+      queryClient.invalidateQueries({ queryKey: ['places', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['locationReminders', user?.id] });
+    },
+  });
+
+  const deletePlace = useCallback((placeId: string) => {
+    return deletePlaceMutation.mutateAsync(placeId);
+  }, [deletePlaceMutation]);
+
+  // Reminders are stored against the server task, so tasks waiting to sync can't have one yet
+  const addLocationReminderMutation = useMutation({
+    mutationFn: async ({ taskId, placeId, triggerOn }: { taskId: string; placeId: string; triggerOn: LocationTrigger }) => {
+      if (!user?.id || !isAuthenticated || SyncService.isTemporaryId(taskId)) return null;
+      return await ReminderService.createLocationReminder(user.id, taskId, placeId, triggerOn);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locationReminders', user?.id] });
+    },
+  });
+
+  const addLocationReminder = useCallback((taskId: string, placeId: string, triggerOn: LocationTrigger) => {
+    return addLocationReminderMutation.mutateAsync({ taskId, placeId, triggerOn });
+  }, [addLocationReminderMutation]);
+
+  const deleteLocationReminderMutation = useMutation({
+    mutationFn: async (reminderId: string) => {
+      if (!user?.id || !isAuthenticated) return false;
+      return await ReminderService.deleteReminder(user.id, reminderId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locationReminders', user?.id] });
+    },
+  });
+
+  const deleteLocationReminder = useCallback((reminderId: string) => {
+    return deleteLocationReminderMutation.mutateAsync(reminderId);
+  }, [deleteLocationReminderMutation]);
+
+  // Timed reminders, like location ones, belong to the server task
+  const addReminderMutation = useMutation({
+    mutationFn: async ({ taskId, remindAt, isRelative }: { taskId: string; remindAt: string; isRelative: boolean }) => {
+      if (!user?.id || !isAuthenticated || SyncService.isTemporaryId(taskId)) return null;
+      return await ReminderService.scheduleReminder(user.id, taskId, remindAt, isRelative ? 'due_date' : 'custom');
+    },
+    onSuccess: (_reminder, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ['taskReminders', taskId] });
+    },
+  });
+
+  const addReminder = useCallback((taskId: string, remindAt: string, isRelative: boolean) => {
+    return addReminderMutation.mutateAsync({ taskId, remindAt, isRelative });
+  }, [addReminderMutation]);
+
+  const updateReminderMutation = useMutation({
+    mutationFn: async ({ reminder, remindAt, isRelative }: { reminder: TaskReminder; remindAt: string; isRelative: boolean }) => {
+      if (!user?.id || !isAuthenticated) return null;
+      return await ReminderService.updateReminder(user.id, reminder, remindAt, isRelative);
+    },
+    onSuccess: (_reminder, { reminder }) => {
+      queryClient.invalidateQueries({ queryKey: ['taskReminders', reminder.taskId] });
+    },
+  });
+
+  const updateReminder = useCallback((reminder: TaskReminder, remindAt: string, isRelative: boolean) => {
+    return updateReminderMutation.mutateAsync({ reminder, remindAt, isRelative });
+  }, [updateReminderMutation]);
+
+  const deleteReminderMutation = useMutation({
+    mutationFn: async (reminder: TaskReminder) => {
+      if (!user?.id || !isAuthenticated) return false;
+      return await ReminderService.deleteReminder(user.id, reminder.id);
+    },
+    onSuccess: (_deleted, reminder) => {
+      queryClient.invalidateQueries({ queryKey: ['taskReminders', reminder.taskId] });
+    },
+  });
+
+  const deleteReminder = useCallback((reminder: TaskReminder) => {
+    return deleteReminderMutation.mutateAsync(reminder);
+  }, [deleteReminderMutation]);
+
+  const updateDefaultRemindersMutation = useMutation({
+    mutationFn: async (offsets: number[]) => {
+      if (!user?.id || !isAuthenticated) return false;
+      return await NotificationService.updateSettings(user.id, { default_reminder_offsets: offsets });
+    },
+    onMutate: (offsets) => {
+      queryClient.setQueryData(['reminderDefaults', user?.id], offsets);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminderDefaults', user?.id] });
+    },
+  });
+
+  const updateDefaultReminders = useCallback((offsets: number[]) => {
+    return updateDefaultRemindersMutation.mutateAsync([...offsets].sort((a, b) => b - a));
+  }, [updateDefaultRemindersMutation]);
+
+  // Put a comment into a task's loaded thread, if that thread has been loaded
+  const addCommentToCache = useCallback((comment: TaskComment) => {
+    queryClient.setQueryData<TaskComment[]>(['taskComments', comment.taskId], prev =>
+      prev && !prev.some(c => c.id === comment.id) ? [...prev, comment] : prev
+    );
+  }, [queryClient]);
+
+  const addCommentMutation = useMutation({
+    mutationFn: async ({ taskId, content, parentId }: { taskId: string; content: string; parentId?: string }) => {
+      if (!user?.id || !isAuthenticated) return null;
+      const mentions = parseMentions(content, friends).filter(id => id !== user.id);
+      return await CommentService.addComment(user.id, { taskId, content, parentId, mentions });
+    },
+    onSuccess: (comment) => {
+      if (comment) {
+        addCommentToCache(comment);
+        queryClient.invalidateQueries({ queryKey: ['taskComments', comment.taskId] });
+      }
+    },
+  });
+
+  const addComment = useCallback((taskId: string, content: string, parentId?: string) => {
+    return addCommentMutation.mutateAsync({ taskId, content: content.trim(), parentId });
+  }, [addCommentMutation]);
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (comment: TaskComment) => {
+      if (!user?.id || !isAuthenticated) return false;
+      return await CommentService.deleteComment(user.id, comment.id);
+    },
+    onSuccess: (_deleted, comment) => {
+      queryClient.invalidateQueries({ queryKey: ['taskComments', comment.taskId] });
+    },
+  });
+
+  const deleteComment = useCallback((comment: TaskComment) => {
+    return deleteCommentMutation.mutateAsync(comment);
+  }, [deleteCommentMutation]);
+
+  // Clear a task's unread badge once its comments have been seen
+  const markCommentsRead = useCallback(async (taskId: string) => {
+    if (!user?.id || !isAuthenticated) return;
+    queryClient.setQueryData<Record<string, number>>(['unreadComments', user.id], prev =>
+      prev?.[taskId] ? { ...prev, [taskId]: 0 } : prev
+    );
+    await CommentService.markRead(user.id, taskId);
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  // Upload right away when possible; files for offline tasks, or that fail to upload,
+  // wait on the device and go up with the next sync
+  const addAttachment = useCallback(async (
+    taskId: string,
+    file: NewAttachment
+  ): Promise<'uploaded' | 'queued' | 'too_large' | 'quota_exceeded' | 'failed'> => {
+    if (!user?.id || !isAuthenticated) return 'failed';
+    if (file.sizeBytes > MAX_ATTACHMENT_BYTES) return 'too_large';
+
+    if (!SyncService.isTemporaryId(taskId)) {
+      const result = await AttachmentService.uploadAttachment(user.id, taskId, file);
+      if (result.status === 'quota_exceeded') return 'quota_exceeded';
+      if (result.status === 'uploaded') {
+        queryClient.setQueryData<TaskAttachment[]>(['taskAttachments', taskId], prev =>
+          prev ? [...prev, result.attachment] : prev
+        );
+        queryClient.invalidateQueries({ queryKey: ['attachmentQuota', user.id] });
+        return 'uploaded';
+      }
+    }
+
+    try {
+      setPendingAttachments(await AttachmentService.queueUpload(user.id, taskId, file));
+      return 'queued';
+    } catch (error) {
+      console.error('[AppProvider] Error queueing attachment:', error);
+      return 'failed';
+    }
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  const deleteAttachment = useCallback(async (attachment: TaskAttachment) => {
+    if (!user?.id || !isAuthenticated) return false;
+    if (attachment.isPending) {
+      setPendingAttachments(await AttachmentService.removePendingUpload(user.id, attachment.id));
+      return true;
+    }
+
+    const deleted = await AttachmentService.deleteAttachment(attachment.id);
+    if (deleted) {
+      queryClient.setQueryData<TaskAttachment[]>(['taskAttachments', attachment.taskId], prev =>
+        prev?.filter(a => a.id !== attachment.id)
+      );
+      queryClient.invalidateQueries({ queryKey: ['attachmentQuota', user.id] });
+    }
+    return deleted;
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  // Queued files shown next to a task's uploaded ones
+  const getPendingAttachments = useCallback((taskId: string): TaskAttachment[] => {
+    if (!user?.id) return [];
+    return pendingAttachments
+      .filter(p => p.taskId === taskId)
+      .map(p => AttachmentService.toAttachment(user.id, p));
+  }, [pendingAttachments, user?.id]);
+
+  const markNotificationRead = useCallback((notificationId: string) => {
+    setNotifications(prev =>
+      prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n)
+    );
+  }, []);
+
+  const completeOnboarding = useCallback(() => {
+    completeOnboardingMutate();
+  }, [completeOnboardingMutate]);
+
+  // Tasks with status derived from their deadline in the user's local timezone
+  const derivedTasks = useMemo(() => {
+    return tasks.map(task => withDerivedStatus(task, now));
+  }, [tasks, now]);
+
+  const todayTasks = useMemo(() => {
+    return derivedTasks.filter(task => getTaskDateBucket(task, now) === 'today');
+  }, [derivedTasks, now]);
+
+  const upcomingTasks = useMemo(() => {
+    return derivedTasks.filter(task => getTaskDateBucket(task, now) === 'upcoming');
+  }, [derivedTasks, now]);
+
+  const completedTasks = useMemo(() => {
+    return derivedTasks.filter(task => task.status === 'completed');
+  }, [derivedTasks]);
+
+  const overdueTasks = useMemo(() => {
+    return derivedTasks.filter(task => getTaskDateBucket(task, now) === 'overdue');
+  }, [derivedTasks, now]);
+
+  const pendingSyncTaskIds = useMemo(() => {
+    return new Set(pendingOperations.map(op => op.taskId));
+  }, [pendingOperations]);
+
+  // Own projects in the user's order, then projects shared with them
+  const sortedProjects = useMemo(() => {
+    return [...projects].sort((a, b) =>
+      Number(!!a.permission) - Number(!!b.permission) || a.sortOrder - b.sortOrder
+    );
+  }, [projects]);
+
+  const activeProjects = useMemo(() => {
+    return sortedProjects.filter(p => !p.isArchived);
+  }, [sortedProjects]);
+
+  // Projects tasks can be added to or moved into; view-only shares are left out
+  const editableProjects = useMemo(() => {
+    return activeProjects.filter(ProjectService.canAddTasks);
+  }, [activeProjects]);
+
+  const allTags = useMemo(() => collectTags(derivedTasks), [derivedTasks]);
+
+  const tasksById = useMemo(() => new Map(derivedTasks.map(t => [t.id, t])), [derivedTasks]);
+
+  // Blockers that aren't in the user's own list, e.g. behind a task someone shared with them
+  const hiddenBlockerIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (const task of derivedTasks) {
+      for (const id of task.blockedBy ?? []) {
+        if (!tasksById.has(id) && !SyncService.isTemporaryId(id)) ids.add(id);
+      }
+    }
+    return Array.from(ids).sort();
+  }, [derivedTasks, tasksById]);
+
+  const hiddenBlockersQuery = useQuery({
+    queryKey: ['hiddenBlockers', user?.id, hiddenBlockerIds.join(',')],
+    queryFn: () => TaskService.getHiddenBlockers(hiddenBlockerIds),
+    enabled: !!isAuthenticated && hiddenBlockerIds.length > 0,
+  });
+
+  const hiddenBlockers = useMemo(() => {
+    return new Map((hiddenBlockersQuery.data ?? []).map(b => [b.id, b]));
+  }, [hiddenBlockersQuery.data]);
+
+  const getTaskBlockers = useCallback((taskId: string): TaskBlocker[] => {
+    const task = tasksById.get(taskId);
+    return task ? getBlockers(task, tasksById, hiddenBlockers) : [];
+  }, [tasksById, hiddenBlockers]);
+
+  // Open blockers for every blocked task, for list views
+  const openBlockersByTaskId = useMemo(() => {
+    const result = new Map<string, TaskBlocker[]>();
+    for (const task of derivedTasks) {
+      if (!task.blockedBy || task.status === 'completed') continue;
+      const open = getBlockers(task, tasksById, hiddenBlockers).filter(b => !b.isCompleted);
+      if (open.length > 0) result.set(task.id, open);
+    }
+    return result;
+  }, [derivedTasks, tasksById, hiddenBlockers]);
+
+  // Returns false when the link would make the tasks wait on each other
+  const addTaskBlocker = useCallback((taskId: string, blockerId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.blockedBy?.includes(blockerId)) return false;
+    if (wouldCreateCycle(tasks, taskId, blockerId)) return false;
+
+    updateTask(taskId, { blockedBy: [...(task.blockedBy ?? []), blockerId] });
+    return true;
+  }, [tasks, updateTask]);
+
+  const removeTaskBlocker = useCallback((taskId: string, blockerId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task?.blockedBy) return;
+    updateTask(taskId, { blockedBy: task.blockedBy.filter(id => id !== blockerId) });
+  }, [tasks, updateTask]);
+
+  // Let the user know when someone else finishes the last task blocking one of theirs
+  const blockerCompletion = useRef<Map<string, boolean> | null>(null);
+  useEffect(() => {
+    const completion = new Map<string, boolean>();
+    for (const task of derivedTasks) completion.set(task.id, task.status === 'completed');
+    for (const blocker of hiddenBlockers.values()) completion.set(blocker.id, blocker.isCompleted);
+
+    const previous = blockerCompletion.current;
+    blockerCompletion.current = completion;
+    if (!previous || !user?.id || !isAuthenticated) return;
+
+    const isOpen = (id: string) => completion.get(id) === false;
+    for (const [blockerId, isCompleted] of completion) {
+      if (!isCompleted || previous.get(blockerId) !== false) continue;
+
+      const blocker = tasksById.get(blockerId);
+      // Completed from this account; the user already knows
+      if (blocker && (!blocker.updatedById || blocker.updatedById === user.id || pendingSyncTaskIds.has(blockerId))) continue;
+
+      const blockerTitle = blocker?.title ?? hiddenBlockers.get(blockerId)?.title ?? 'A task';
+      const dependents = getUnblockedDependents(derivedTasks, blockerId, isOpen);
+      if (dependents.length === 0) continue;
+
+      (async () => {
+        const updater = blocker?.updatedById ? await FriendService.getUserById(blocker.updatedById) : null;
+        const updaterName = updater?.name || 'A collaborator';
+        for (const dependent of dependents) {
+          await NotificationService.sendSharedTaskUpdateNotification(
+            user.id,
+            dependent.id,
+            dependent.title,
+            updaterName,
+            {
+              title: 'Task Unblocked',
+              body: `${updaterName} completed "${blockerTitle}", so "${dependent.title}" can start`,
+            }
+          );
+        }
+      })().catch(error => console.error('[AppProvider] Error sending unblocked notification:', error));
+    }
+  }, [derivedTasks, tasksById, hiddenBlockers, pendingSyncTaskIds, user?.id, isAuthenticated]);
+
+  const sortedCategories = useMemo(() => {
+    return [...categories].sort((a, b) => a.sortOrder - b.sortOrder);
+  }, [categories]);
+
+  // The user's own templates first, then those shared with them
+  const sortedTemplates = useMemo(() => {
+    return [...templates].sort((a, b) => Number(!!a.isShared) - Number(!!b.isShared) || a.name.localeCompare(b.name));
+  }, [templates]);
+
+  // Search loaded tasks and, when signed in, everything else the user can see on the server
+  const searchTasks = useCallback(async (input: string): Promise<TaskSearchResult> => {
+    const context = { projects: sortedProjects, categories: sortedCategories, userId: user?.id, now };
+    const query = parseSearchQuery(input, context);
+    if (isEmptySearchQuery(query)) return { query, tasks: [] };
+
+    const localMatches = derivedTasks.filter(t => matchesSearchQuery(t, query, context));
+    const serverMatches = user?.id && isAuthenticated ? await TaskService.searchTasks(user.id, query, 100, now) : null;
+
+    // Prefer the loaded copy of a task, which includes edits still waiting to sync
+    const merged = new Map<string, Task>();
+    for (const task of serverMatches ?? []) {
+      merged.set(task.id, tasksById.get(task.id) ?? withDerivedStatus(task, now));
+    }
+    for (const task of localMatches) {
+      merged.set(task.id, task);
+    }
+
+    return { query, tasks: rankSearchResults(Array.from(merged.values()), query) };
+  }, [sortedProjects, sortedCategories, now, derivedTasks, tasksById, user?.id, isAuthenticated]);
+
+  const addRecentSearch = useCallback((input: string) => {
+    const search = input.trim();
+    if (!search) return;
+    saveRecentSearches(
+      [search, ...recentSearches.filter(s => s !== search)].slice(0, MAX_RECENT_SEARCHES)
+    );
+  }, [recentSearches, saveRecentSearches]);
+
+  const clearRecentSearches = useCallback(() => {
+    saveRecentSearches([]);
+  }, [saveRecentSearches]);
+
+  const sortedSmartLists = useMemo(() => {
+    return [...smartLists].sort((a, b) => a.sortOrder - b.sortOrder);
+  }, [smartLists]);
+
+  // Live contents of every smart list, recomputed as tasks change
+  const smartListTasks = useMemo(() => {
+    const context = { projects: sortedProjects, categories: sortedCategories, userId: user?.id, now };
+    return new Map(sortedSmartLists.map(list => [list.id, getSmartListTasks(derivedTasks, list, context)]));
+  }, [sortedSmartLists, derivedTasks, sortedProjects, sortedCategories, user?.id, now]);
+
+  // Entries of deleted tasks stay on the device for guests; the server cascades the delete
+  const sortedTimeEntries = useMemo(() => {
+    return sortEntries(timeEntries.filter(e => tasksById.has(e.taskId)));
+  }, [timeEntries, tasksById]);
+
+  const updateFocusSettings = useCallback(async (updates: Partial<FocusSettings>) => {
+    const updated = { ...focusSettings, ...updates };
+    queryClient.setQueryData(['focusSettings'], updated);
+    await AsyncStorage.setItem(STORAGE_KEYS.FOCUS_SETTINGS, JSON.stringify(updated));
+  }, [focusSettings, queryClient]);
+
+  // Store the session and line up notifications for its next phase changes, so they
+  // still arrive while the app is in the background
+  const saveFocusSession = useCallback(async (session: FocusSession | null) => {
+    queryClient.setQueryData(['focusSession'], session);
+    if (session) {
+      await AsyncStorage.setItem(STORAGE_KEYS.FOCUS_SESSION, JSON.stringify(session));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.FOCUS_SESSION);
+    }
+
+    await NotificationService.cancelFocusNotifications();
+    if (!session) return;
+    const title = tasksById.get(session.taskId)?.title ?? 'your task';
+    await NotificationService.scheduleFocusNotifications(
+      getUpcomingBoundaries(session, FOCUS_NOTIFICATION_COUNT).map(boundary => ({
+        at: boundary.at,
+        title: boundary.phase === 'work' ? 'Break over' : 'Focus session done',
+        body: boundary.phase === 'work'
+          ? `Back to "${title}" for ${session.settings.workMinutes} minutes`
+          : `Take a ${getPhaseMinutes(session.settings, boundary.phase)} minute break`,
+      }))
+    );
+  }, [queryClient, tasksById]);
+
+  const startFocus = useCallback(async (taskId: string, overrides?: Partial<FocusSettings>) => {
+    // A running timer would count the same time twice
+    if (activeTimeEntry) await stopTimer();
+    await saveFocusSession(startFocusSession(taskId, { ...focusSettings, ...overrides }));
+  }, [activeTimeEntry, stopTimer, focusSettings, saveFocusSession]);
+
+  const pauseFocus = useCallback(async () => {
+    if (focusSession) await saveFocusSession(pauseFocusSession(focusSession));
+  }, [focusSession, saveFocusSession]);
+
+  const resumeFocus = useCallback(async () => {
+    if (focusSession) await saveFocusSession(resumeFocusSession(focusSession));
+  }, [focusSession, saveFocusSession]);
+
+  // Skipping a work phase ends it early without logging it
+  const skipFocusPhase = useCallback(async () => {
+    if (focusSession) await saveFocusSession(advanceFocusSession(focusSession));
+  }, [focusSession, saveFocusSession]);
+
+  const stopFocus = useCallback(async () => {
+    await saveFocusSession(null);
+  }, [saveFocusSession]);
+
+  // Move on from phases that have ended and log the completed work phases against the task
+  const catchUpFocus = useCallback(async () => {
+    // Read the cache rather than state so a timeout and an app resume can't both log a phase
+    const current = queryClient.getQueryData<FocusSession | null>(['focusSession']);
+    if (!current) return;
+    const { session, completedWork } = catchUpFocusSession(current);
+    if (session === current) return;
+
+    await saveFocusSession(session);
+    if (AppState.currentState === 'active') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    if (completedWork.length > 0) {
+      await addTimeEntries(completedWork.map(work => ({ ...work, taskId: session.taskId, source: 'focus' as const })));
+    }
+  }, [queryClient, saveFocusSession, addTimeEntries]);
+
+  useEffect(() => {
+    if (!focusSession || focusSession.pausedRemaining !== undefined) return;
+
+    catchUpFocus();
+    const delay = new Date(focusSession.phaseEndsAt).getTime() - Date.now();
+    const timeout = setTimeout(catchUpFocus, Math.max(0, delay) + 250);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        catchUpFocus();
+      }
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      subscription.remove();
+    };
+  }, [focusSession, catchUpFocus]);
+
+  const unreadNotificationsCount = useMemo(() => {
+    return notifications.filter(n => !n.isRead).length;
+  }, [notifications]);
+
+  // Ask what to do with changes the server wouldn't accept; they stay on the device until then
+  const promptFailedOperations = useCallback((count: number) => {
+    if (!user?.id) return;
+    const userId = user.id;
+
+    Alert.alert(
+      'Changes Not Saved',
+      `${count === 1 ? 'A change' : `${count} changes`} to your tasks couldn't be saved to your account. Try again, or discard ${count === 1 ? 'it' : 'them'} and keep what's saved.`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await SyncService.discardFailed(userId);
+            queryClient.invalidateQueries({ queryKey: ['tasks', userId] });
+          },
+        },
+        {
+          text: 'Try Again',
+          onPress: async () => {
+            setPendingOperations(await SyncService.retryFailed(userId));
+            syncPendingOperationsRef.current?.();
+          },
+        },
+      ]
+    );
+  }, [user?.id, queryClient]);
+
+  // Replay the offline outbox and swap temporary ids for the server ones
+  const syncPendingOperations = useCallback(async () => {
+    if (!user?.id || !isAuthenticated) return;
+
+    const result = await SyncService.replay(user.id);
+    const idMap = result.idMap;
+    if (Object.keys(idMap).length > 0) {
+      setTasks(prev => prev.map(t => ({
+        ...t,
+        id: idMap[t.id] ?? t.id,
+        blockedBy: t.blockedBy?.map(id => idMap[id] ?? id),
+      })));
+    }
+    setPendingOperations(await SyncService.getQueue(user.id));
+
+    // Attachments go after tasks so files for tasks created offline have a server id
+    const uploads = await AttachmentService.uploadPending(user.id);
+    setPendingAttachments(await AttachmentService.getPendingUploads(user.id));
+    if (uploads.uploaded > 0) {
+      queryClient.invalidateQueries({ queryKey: ['taskAttachments'] });
+      queryClient.invalidateQueries({ queryKey: ['attachmentQuota', user.id] });
+    }
+    if (uploads.rejected.length > 0) {
+      Alert.alert(
+        'Attachments Not Uploaded',
+        `${uploads.rejected.map(p => p.name).join(', ')} didn't fit in your storage. Remove some attachments or upgrade your plan to add more.`
+      );
+    }
+
+    if (result.conflicts.length > 0) {
+      setTaskConflicts(prev => {
+        const next = { ...prev };
+        for (const conflict of result.conflicts) {
+          next[idMap[conflict.taskId] ?? conflict.taskId] = conflict;
+        }
+        return next;
+      });
+    }
+
+    if (result.synced > 0) {
+      queryClient.invalidateQueries({ queryKey: ['tasks', user.id] });
+      queryClient.invalidateQueries({ queryKey: ['trash', user.id] });
+      queryClient.invalidateQueries({ queryKey: ['chatMessages', user.id] });
+    }
+
+    if (result.failed.length > 0) {
+      promptFailedOperations(result.failed.length);
+    }
+  }, [user?.id, isAuthenticated, queryClient, promptFailedOperations]);
+
+  // The failed-changes prompt is created before the sync it triggers, so it goes through a ref
+  const syncPendingOperationsRef = useRef(syncPendingOperations);
+  syncPendingOperationsRef.current = syncPendingOperations;
+
+  // Load the outbox on sign-in and retry whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) {
+      setPendingOperations([]);
+      setPendingAttachments([]);
+      return;
+    }
+
+    syncPendingOperations();
+    // Changes rejected in an earlier session still need an answer
+    SyncService.getFailed(user.id).then(failed => {
+      if (failed.length > 0) promptFailedOperations(failed.length);
+    });
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncPendingOperations();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [user?.id, isAuthenticated, syncPendingOperations, promptFailedOperations]);
+
+  // Keep retrying while there is something to sync
+  useEffect(() => {
+    if (pendingOperations.length === 0 && pendingAttachments.length === 0) return;
+    const interval = setInterval(syncPendingOperations, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [pendingOperations.length, pendingAttachments.length, syncPendingOperations]);
+
+  // Tasks created as a guest on this device, offered for import after sign-in
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) {
+      setGuestTasks([]);
+      return;
+    }
+
+    AsyncStorage.getItem(STORAGE_KEYS.TASKS)
+      .then(stored => {
+        const local: Task[] = stored ? JSON.parse(stored) : [];
+        // The sample tasks shown to guests are not worth importing
+        setGuestTasks(local.filter(task => !mockTasks.some(mock => mock.id === task.id)));
+      })
+      .catch(error => console.error('[AppProvider] Error reading guest tasks:', error));
+  }, [user?.id, isAuthenticated]);
+
+  const importGuestTasks = useCallback(async (): Promise<GuestImportResult | null> => {
+    if (!user?.id || !isAuthenticated || guestTasks.length === 0) return null;
+
+    const result = await GuestMigrationService.importTasks(user.id, guestTasks);
+    if (result.failed.length > 0) {
+      await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(result.failed));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.TASKS);
+    }
+    setGuestTasks(result.failed);
+    queryClient.invalidateQueries({ queryKey: ['tasks', user.id] });
+    return result;
+  }, [user?.id, isAuthenticated, guestTasks, queryClient]);
+
+  const discardGuestTasks = useCallback(async () => {
+    await AsyncStorage.removeItem(STORAGE_KEYS.TASKS);
+    setGuestTasks([]);
+  }, []);
+
+  // Set up real-time subscription for chat messages
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) return;
+
+    const unsubscribe = ChatService.subscribeToMessages(user.id, (newMessage) => {
+      setChatMessages(prev => {
+        // Avoid duplicates
+        if (prev.some(m => m.id === newMessage.id)) {
+          return prev;
+        }
+        return [...prev, newMessage];
+      });
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user?.id, isAuthenticated]);
+
+  // Set up real-time subscription for tasks
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) return;
+
+    const unsubscribe = TaskService.subscribeToTasks(user.id, {
+      onInsert: (newTask) => {
+        setTasks(prev => {
+          if (prev.some(t => t.id === newTask.id)) {
+            return prev;
+          }
+          return [newTask, ...prev];
+        });
+      },
+      onUpdate: (updatedTask) => {
+        setTasks(prev => {
+          // Moving a task in or out of the trash is an update too
+          if (updatedTask.deletedAt) return prev.filter(t => t.id !== updatedTask.id);
+          if (!prev.some(t => t.id === updatedTask.id)) return [updatedTask, ...prev];
+          return prev.map(t => t.id === updatedTask.id ? updatedTask : t);
+        });
+        setTrashedTasks(prev => {
+          const others = prev.filter(t => t.id !== updatedTask.id);
+          return updatedTask.deletedAt ? [updatedTask, ...others] : others;
+        });
+      },
+      onDelete: (taskId) => {
+        setTasks(prev => prev.filter(t => t.id !== taskId));
+        setTrashedTasks(prev => prev.filter(t => t.id !== taskId));
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user?.id, isAuthenticated]);
+
+  // Watch the places of reminders on open tasks. Keyed on content since the task list
+  // changes far more often than what needs watching.
+  const monitoredReminders = useMemo(
+    () => LocationReminderService.getMonitoredReminders(locationReminders, places, tasksById),
+    [locationReminders, places, tasksById]
+  );
+  const monitoredKey = JSON.stringify([monitoredReminders, places]);
+  const monitoredRef = useRef({ places, monitoredReminders });
+  monitoredRef.current = { places, monitoredReminders };
+
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated || !locationRemindersQuery.isSuccess) return;
+
+    const { places: watchedPlaces, monitoredReminders: watched } = monitoredRef.current;
+    LocationReminderService.syncMonitoring(user.id, watchedPlaces, watched)
+      .then(() => LocationReminderService.checkCurrentLocation())
+      .then(sent => {
+        if (sent > 0) queryClient.invalidateQueries({ queryKey: ['locationReminders', user.id] });
+      });
+  }, [monitoredKey, user?.id, isAuthenticated, locationRemindersQuery.isSuccess, queryClient]);
+
+  // Check for arrivals and departures when the app comes back to the foreground, and
+  // drop reminders that fired in the background
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) return;
+
+    const subscription = AppState.addEventListener('change', async (state) => {
+      if (state !== 'active') return;
+      await LocationReminderService.checkCurrentLocation();
+      queryClient.invalidateQueries({ queryKey: ['locationReminders', user.id] });
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  // Snooze actions on reminder notifications bring the reminder back later
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) return;
+
+    ReminderService.registerSnoozeActions();
+
+    return NotificationService.setupListeners(
+      () => {},
+      async (response) => {
+        const taskId = await ReminderService.handleSnoozeAction(user.id, response);
+        if (taskId) queryClient.invalidateQueries({ queryKey: ['taskReminders', taskId] });
+      }
+    );
+  }, [user?.id, isAuthenticated, queryClient]);
+
+  // Realtime comments arrive after the task list has loaded; a ref keeps titles current
+  // without resubscribing on every task change
+  const tasksByIdRef = useRef(tasksById);
+  tasksByIdRef.current = tasksById;
+
+  // Set up real-time subscription for comments on tasks the user can see
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) return;
+
+    const notifyForComment = async (comment: TaskComment) => {
+      let reason: 'mention' | 'reply' | null = comment.mentions.includes(user.id) ? 'mention' : null;
+      if (!reason && comment.parentId) {
+        const thread = queryClient.getQueryData<TaskComment[]>(['taskComments', comment.taskId]);
+        const parent = thread?.find(c => c.id === comment.parentId) ?? await CommentService.getComment(comment.parentId);
+        if (parent?.authorId === user.id) reason = 'reply';
+      }
+      if (!reason) return;
+
+      const taskTitle = tasksByIdRef.current.get(comment.taskId)?.title ?? 'a task';
+      const authorName = comment.authorName || 'A collaborator';
+      await NotificationService.sendSharedTaskUpdateNotification(
+        user.id,
+        comment.taskId,
+        taskTitle,
+        authorName,
+        reason === 'mention'
+          ? { title: 'New Mention', body: `${authorName} mentioned you on "${taskTitle}": ${comment.content}` }
+          : { title: 'New Reply', body: `${authorName} replied to your comment on "${taskTitle}": ${comment.content}` }
+      );
+    };
+
+    const unsubscribe = CommentService.subscribeToComments(user.id, {
+      onInsert: (comment) => {
+        addCommentToCache(comment);
+        if (comment.authorId === user.id) return;
+
+        queryClient.setQueryData<Record<string, number>>(['unreadComments', user.id], prev => ({
+          ...prev,
+          [comment.taskId]: (prev?.[comment.taskId] ?? 0) + 1,
+        }));
+        notifyForComment(comment).catch(error =>
+          console.error('[AppProvider] Error sending comment notification:', error)
+        );
+      },
+      onDelete: () => {
+        // Deletes only carry the comment id, so refresh whatever is loaded
+        queryClient.invalidateQueries({ queryKey: ['taskComments'] });
+        queryClient.invalidateQueries({ queryKey: ['unreadComments', user.id] });
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user?.id, isAuthenticated, queryClient, addCommentToCache]);
 
   return {
-    tasks,
+    tasks: derivedTasks,
     todayTasks,
     upcomingTasks,
     completedTasks,
     overdueTasks,
     addTask,
+    addTasks,
     updateTask,
     deleteTask,
+    trashedTasks,
+    restoreTask,
+    deleteTaskForever,
+    emptyTrash,
+    undoableAction,
+    undoLastAction,
+    dismissUndo,
     toggleTaskComplete,
+    toggleSubtask,
+    rescheduleTask,
+    pendingSyncTaskIds,
+    syncPendingOperations,
+    taskConflicts,
+    resolveTaskConflict,
+    guestTasks,
+    importGuestTasks,
+    discardGuestTasks,
+    projects: sortedProjects,
+    activeProjects,
+    editableProjects,
+    addProject,
+    updateProject,
+    deleteProject,
+    leaveProject,
+    reorderProjects,
+    categories: sortedCategories,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    allTags,
+    renameTag,
+    friends,
+    unreadCommentCounts,
+    addComment,
+    deleteComment,
+    markCommentsRead,
+    addAttachment,
+    deleteAttachment,
+    getPendingAttachments,
+    places,
+    addPlace,
+    updatePlace,
+    deletePlace,
+    locationReminders,
+    addLocationReminder,
+    deleteLocationReminder,
+    addReminder,
+    updateReminder,
+    deleteReminder,
+    defaultReminderOffsets,
+    updateDefaultReminders,
+    boardPreferences,
+    updateBoardPreferences,
+    smartLists: sortedSmartLists,
+    smartListTasks,
+    addSmartList,
+    updateSmartList,
+    deleteSmartList,
+    templates: sortedTemplates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    applyTemplate,
+    timeEntries: sortedTimeEntries,
+    activeTimeEntry,
+    startTimer,
+    stopTimer,
+    addTimeEntry,
+    updateTimeEntry,
+    deleteTimeEntry,
+    focusSettings,
+    updateFocusSettings,
+    focusSession,
+    startFocus,
+    pauseFocus,
+    resumeFocus,
+    skipFocusPhase,
+    stopFocus,
+    searchTasks,
+    recentSearches,
+    addRecentSearch,
+    clearRecentSearches,
+    getTaskBlockers,
+    openBlockersByTaskId,
+    addTaskBlocker,
+    removeTaskBlocker,
     chatMessages,
     addChatMessage,
     notifications,
@@ -5,6 +5,7 @@ import { useMutation } from '@tanstack/react-query';
 import * as AppleAuthentication from 'expo-apple-authentication';
 import * as Crypto from 'expo-crypto';
 import { supabase } from '@/lib/supabase';
+import { LocationReminderService } from '@/lib/locationReminderService';
 import { User as SupabaseUser, Session } from '@supabase/supabase-js';
 
 export interface AuthUser {
@@ -290,6 +291,9 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
         isAuthenticated: false,
       });
       
+      // Location reminders belong to the account, so stop watching its places
+      await LocationReminderService.stopMonitoring();
+
       // Sign out from Supabase
       const { error } = await supabase.auth.signOut();
       if (error) {
@@ -22,7 +22,7 @@ interface ExtractedTask {
   dueDate?: string;
   dueTime?: string;
   priority: 'high' | 'medium' | 'low' | 'none';
-  category?: 'work' | 'personal' | 'health' | 'shopping' | 'other';
+  category?: string; // slug of one of the user's categories
   isRecurring?: boolean;
   recurringPattern?: string;
   reminders?: string[];
@@ -35,6 +35,20 @@ interface AIResponse {
   requiresConfirmation?: boolean;
 }
 
+interface CategoryOption {
+  slug: string;
+  name: string;
+}
+
+// Used when the user's categories can't be loaded
+const DEFAULT_CATEGORIES: CategoryOption[] = [
+  { slug: 'work', name: 'Work' },
+  { slug: 'personal', name: 'Personal' },
+  { slug: 'health', name: 'Health' },
+  { slug: 'shopping', name: 'Shopping' },
+  { slug: 'other', name: 'Other' },
+];
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -83,6 +97,18 @@ serve(async (req) => {
       );
     }
 
+    // Load the user's own categories so extracted tasks use them
+    const { data: categoryRows } = await supabaseClient
+      .from('categories')
+      .select('slug, name')
+      .eq('user_id', userId)
+      .order('sort_order', { ascending: true });
+
+    const categories: CategoryOption[] =
+      categoryRows && categoryRows.length > 0 ? categoryRows : DEFAULT_CATEGORIES;
+    const categorySlugs = categories.map((c) => c.slug).join('|');
+    const categoryList = categories.map((c) => `${c.slug} (${c.name})`).join(', ');
+
     // Prepare prompt for AI
     const systemPrompt = `You are a helpful task management assistant. Your job is to:
 1. Understand user messages about tasks
@@ -97,16 +123,17 @@ serve(async (req) => {
     "dueDate": "YYYY-MM-DD format",
     "dueTime": "HH:MM format",
     "priority": "high|medium|low|none",
-    "category": "work|personal|health|shopping|other",
+    "category": "${categorySlugs}",
     "isRecurring": false,
-    "recurringPattern": "daily|weekly|monthly",
+    "recurringPattern": "RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE or FREQ=MONTHLY;BYDAY=2TU;COUNT=6",
     "reminders": ["ISO datetime strings"],
     "collaborators": ["email addresses or names"]
   }],
   "requiresConfirmation": true/false
 }
 
-Extract task information from natural language. Be smart about dates (today, tomorrow, next week, etc.).`;
+Extract task information from natural language. Be smart about dates (today, tomorrow, next week, etc.).
+The user's categories are: ${categoryList}. Always use one of these slugs for "category".`;
 
     const conversationContext = conversationHistory
       .slice(-5) // Last 5 messages for context
@@ -105,6 +105,7 @@ ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "Users can view own messages" ON chat_messages;
 DROP POLICY IF EXISTS "Users can insert own messages" ON chat_messages;
 DROP POLICY IF EXISTS "Users can delete own messages" ON chat_messages;
+DROP POLICY IF EXISTS "Users can update own messages" ON chat_messages;
 
 -- Create policies for chat_messages
 CREATE POLICY "Users can view own messages"
@@ -119,6 +120,12 @@ CREATE POLICY "Users can delete own messages"
   ON chat_messages FOR DELETE
   USING (auth.uid() = user_id);
 
+-- Needed to re-link messages to a task once an offline-created task is synced
+CREATE POLICY "Users can update own messages"
+  ON chat_messages FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
 -- 3. Create tasks table
 CREATE TABLE IF NOT EXISTS tasks (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -129,13 +136,14 @@ CREATE TABLE IF NOT EXISTS tasks (
   due_time TIME,
   priority TEXT NOT NULL CHECK (priority IN ('high', 'medium', 'low', 'none')) DEFAULT 'medium',
   status TEXT NOT NULL CHECK (status IN ('pending', 'completed', 'overdue')) DEFAULT 'pending',
-  category TEXT NOT NULL CHECK (category IN ('work', 'personal', 'health', 'shopping', 'other')) DEFAULT 'personal',
+  category TEXT NOT NULL DEFAULT 'personal',
   tags TEXT[],
   assigned_to TEXT[],
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   completed_at TIMESTAMPTZ,
   is_recurring BOOLEAN DEFAULT FALSE,
   recurring_pattern TEXT,
+  subtasks JSONB NOT NULL DEFAULT '[]'::jsonb,
   created_by_id UUID REFERENCES auth.users(id),
   updated_by_id UUID REFERENCES auth.users(id),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -638,7 +646,918 @@ END $$;
 
 -- 20. Enable Real-time for tables
 -- Note: Real-time must be enabled through Supabase dashboard
--- Go to Database > Replication and enable for: chat_messages, tasks, friend_relationships, task_shares, system_settings
+-- Go to Database > Replication and enable for: chat_messages, tasks, friend_relationships, task_shares, system_settings, projects, categories, smart_lists, time_entries
+
+-- 21. Add subtasks checklist to tasks
+-- Each entry: { "id": text, "title": text, "is_completed": boolean, "sort_order": integer }
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS subtasks JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 22. Create projects table (user-defined lists that group tasks)
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#4CAF50',
+  icon TEXT NOT NULL DEFAULT 'folder',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+-- 23. Create project_shares table (same view/edit model as task_shares)
+CREATE TABLE IF NOT EXISTS project_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  shared_by_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_with_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission TEXT NOT NULL CHECK (permission IN ('view', 'edit')) DEFAULT 'view',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(project_id, shared_with_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_shares_project_id ON project_shares(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_shares_shared_with ON project_shares(shared_with_id);
+
+ALTER TABLE project_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project shares" ON project_shares;
+DROP POLICY IF EXISTS "Users can share projects" ON project_shares;
+DROP POLICY IF EXISTS "Users can update project shares" ON project_shares;
+DROP POLICY IF EXISTS "Users can delete project shares" ON project_shares;
+
+CREATE POLICY "Users can view project shares"
+  ON project_shares FOR SELECT
+  USING (auth.uid() = shared_by_id OR auth.uid() = shared_with_id);
+
+CREATE POLICY "Users can share projects"
+  ON project_shares FOR INSERT
+  WITH CHECK (auth.uid() = shared_by_id);
+
+CREATE POLICY "Users can update project shares"
+  ON project_shares FOR UPDATE
+  USING (auth.uid() = shared_by_id);
+
+CREATE POLICY "Users can delete project shares"
+  ON project_shares FOR DELETE
+  USING (auth.uid() = shared_by_id OR auth.uid() = shared_with_id);
+
+DROP POLICY IF EXISTS "Users can manage own projects" ON projects;
+DROP POLICY IF EXISTS "Members can view shared projects" ON projects;
+
+CREATE POLICY "Users can manage own projects"
+  ON projects FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Members can view shared projects"
+  ON projects FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_shares
+      WHERE project_shares.project_id = projects.id
+        AND project_shares.shared_with_id = auth.uid()
+    )
+  );
+
+-- 24. Link tasks to projects; the project's owner and members see its tasks, the owner and
+-- editors can change them and add new ones
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+
+DROP POLICY IF EXISTS "Project owners can view project tasks" ON tasks;
+DROP POLICY IF EXISTS "Project owners can update project tasks" ON tasks;
+DROP POLICY IF EXISTS "Project members can view project tasks" ON tasks;
+DROP POLICY IF EXISTS "Project editors can update project tasks" ON tasks;
+DROP POLICY IF EXISTS "Tasks can only be added to editable projects" ON tasks;
+
+CREATE POLICY "Project owners can view project tasks"
+  ON tasks FOR SELECT
+  USING (
+    project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = tasks.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Project owners can update project tasks"
+  ON tasks FOR UPDATE
+  USING (
+    project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = tasks.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Project members can view project tasks"
+  ON tasks FOR SELECT
+  USING (
+    project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM project_shares
+      WHERE project_shares.project_id = tasks.project_id
+        AND project_shares.shared_with_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Project editors can update project tasks"
+  ON tasks FOR UPDATE
+  USING (
+    project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM project_shares
+      WHERE project_shares.project_id = tasks.project_id
+        AND project_shares.shared_with_id = auth.uid()
+        AND project_shares.permission = 'edit'
+    )
+  );
+
+-- Restrictive, so it narrows "Users can insert own tasks": view-only members can't add tasks
+CREATE POLICY "Tasks can only be added to editable projects"
+  ON tasks AS RESTRICTIVE FOR INSERT
+  WITH CHECK (
+    project_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = tasks.project_id
+        AND projects.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM project_shares
+      WHERE project_shares.project_id = tasks.project_id
+        AND project_shares.shared_with_id = auth.uid()
+        AND project_shares.permission = 'edit'
+    )
+  );
+
+-- 25. Create categories table (user-editable task categories, referenced from tasks by slug)
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own categories" ON categories;
+
+CREATE POLICY "Users can manage own categories"
+  ON categories FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Seed the former fixed categories for existing users (the app seeds new users on first load)
+INSERT INTO categories (user_id, slug, name, color, sort_order)
+SELECT users.id, defaults.slug, defaults.name, defaults.color, defaults.sort_order
+FROM auth.users AS users
+CROSS JOIN (VALUES
+  ('work', 'Work', '#3B82F6', 0),
+  ('personal', 'Personal', '#4CAF50', 1),
+  ('health', 'Health', '#EF4444', 2),
+  ('shopping', 'Shopping', '#F59E0B', 3),
+  ('other', 'Other', '#6B7280', 4)
+) AS defaults(slug, name, color, sort_order)
+ON CONFLICT (user_id, slug) DO NOTHING;
+
+-- Tasks may now use any of the user's category slugs
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_category_check;
+CREATE INDEX IF NOT EXISTS idx_tasks_category ON tasks(user_id, category);
+
+-- 26. Tag filtering and rename/merge across a user's tasks
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON tasks USING GIN (tags);
+
+-- Runs with the caller's rights, so RLS limits it to their own tasks
+CREATE OR REPLACE FUNCTION rename_task_tag(old_tag TEXT, new_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE tasks
+  SET tags = (
+        SELECT array_agg(DISTINCT tag)
+        FROM unnest(array_replace(tasks.tags, old_tag, new_tag)) AS tag
+      ),
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND old_tag = ANY(tags);
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 27. Task dependencies: a task lists the tasks that block it
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS blocked_by UUID[] NOT NULL DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_tasks_blocked_by ON tasks USING GIN (blocked_by);
+
+-- Drop a deleted task from every blocked_by list so dependents don't stay blocked
+CREATE OR REPLACE FUNCTION remove_deleted_blocker()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tasks
+  SET blocked_by = array_remove(blocked_by, OLD.id)
+  WHERE OLD.id = ANY(blocked_by);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_remove_deleted_blocker ON tasks;
+CREATE TRIGGER trigger_remove_deleted_blocker
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_deleted_blocker();
+
+-- Whether a given user can see a task: they own it, it's shared with them, or it's in a
+-- project they own or that's shared with them. Runs as definer since direct shares don't grant SELECT on tasks.
+CREATE OR REPLACE FUNCTION can_user_view_task(task_uuid UUID, viewer_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE tasks.id = task_uuid
+      AND (
+        tasks.user_id = viewer_id
+        OR EXISTS (
+          SELECT 1 FROM task_shares
+          WHERE task_shares.task_id = tasks.id
+            AND task_shares.shared_with_id = viewer_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM project_shares
+          WHERE project_shares.project_id = tasks.project_id
+            AND project_shares.shared_with_id = viewer_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM projects
+          WHERE projects.id = tasks.project_id
+            AND projects.user_id = viewer_id
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A task can only be blocked by tasks the writer can see. Entries already in the list are
+-- left alone, so losing access to a blocker doesn't stop the dependent task being edited.
+CREATE OR REPLACE FUNCTION check_task_blockers()
+RETURNS TRIGGER AS $$
+DECLARE
+  previous UUID[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    previous := OLD.blocked_by;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.blocked_by) AS blocker_id
+    WHERE blocker_id <> ALL(previous)
+      AND NOT can_user_view_task(blocker_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Task cannot be blocked by a task you cannot view' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_task_blockers ON tasks;
+CREATE TRIGGER trigger_check_task_blockers
+  BEFORE INSERT OR UPDATE OF blocked_by ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_blockers();
+
+-- Title and status of blockers the caller can't read directly, limited to blockers
+-- of tasks the caller can see (own, shared with them, or in a project they own or share)
+-- that the dependent task's owner can see too
+CREATE OR REPLACE FUNCTION get_task_blockers(blocker_ids UUID[])
+RETURNS TABLE (id UUID, title TEXT, status TEXT) AS $$
+  SELECT blocker.id, blocker.title, blocker.status
+  FROM tasks AS blocker
+  WHERE blocker.id = ANY(blocker_ids)
+    AND EXISTS (
+      SELECT 1 FROM tasks AS dependent
+      WHERE blocker.id = ANY(dependent.blocked_by)
+        AND can_user_view_task(blocker.id, dependent.user_id)
+        AND (
+          dependent.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM task_shares
+            WHERE task_shares.task_id = dependent.id
+              AND task_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM project_shares
+            WHERE project_shares.project_id = dependent.project_id
+              AND project_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM projects
+            WHERE projects.id = dependent.project_id
+              AND projects.user_id = auth.uid()
+          )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 28. Full-text search over task titles (weighted higher) and descriptions
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING GIN (search_vector);
+
+-- 29. Create smart_lists table (saved task filters written in the search query language)
+CREATE TABLE IF NOT EXISTS smart_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  sort TEXT NOT NULL CHECK (sort IN ('due', 'priority', 'created', 'title')) DEFAULT 'due',
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_lists_user_id ON smart_lists(user_id);
+
+ALTER TABLE smart_lists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own smart lists" ON smart_lists;
+
+CREATE POLICY "Users can manage own smart lists"
+  ON smart_lists FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 30. Create board_preferences table (home screen list/board view settings, one row per user)
+CREATE TABLE IF NOT EXISTS board_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  view TEXT NOT NULL CHECK (view IN ('list', 'board')) DEFAULT 'list',
+  group_by TEXT NOT NULL CHECK (group_by IN ('status', 'priority', 'category', 'project')) DEFAULT 'status',
+  collapsed_columns TEXT[] NOT NULL DEFAULT '{}',
+  wip_limits JSONB NOT NULL DEFAULT '{}'::jsonb, -- column key -> max open tasks, e.g. {"priority:high": 3}
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE board_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own board preferences" ON board_preferences;
+
+CREATE POLICY "Users can manage own board preferences"
+  ON board_preferences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 31. Time tracking: estimates on tasks and a time_entries table
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER CHECK (estimated_minutes > 0);
+
+CREATE TABLE IF NOT EXISTS time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ, -- NULL while the timer is running
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_id ON time_entries(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id);
+-- Only one running timer per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running ON time_entries(user_id) WHERE ended_at IS NULL;
+
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own time entries" ON time_entries;
+
+CREATE POLICY "Users can manage own time entries"
+  ON time_entries FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 32. Record where a time entry came from: the task timer, manual entry or a focus session
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS source TEXT NOT NULL
+  CHECK (source IN ('timer', 'manual', 'focus')) DEFAULT 'timer';
+
+-- 33. Create task_templates table (reusable bundles of tasks) and task_template_shares
+-- Each entry in tasks: { "title": text, "description": text, "due_offset_days": integer, "due_time": text,
+--   "priority": text, "category": text, "tags": [text], "subtasks": [text], "estimated_minutes": integer }
+-- Due dates are stored as days after the date the template is used
+CREATE TABLE IF NOT EXISTS task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  tasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_user_id ON task_templates(user_id);
+
+-- Friends a template is shared with can use it; only the owner can change it
+CREATE TABLE IF NOT EXISTS task_template_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  shared_by_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_with_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(template_id, shared_with_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_shares_shared_with ON task_template_shares(shared_with_id);
+
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_template_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own templates" ON task_templates;
+DROP POLICY IF EXISTS "Friends can view shared templates" ON task_templates;
+DROP POLICY IF EXISTS "Users can view template shares" ON task_template_shares;
+DROP POLICY IF EXISTS "Owners can share templates" ON task_template_shares;
+DROP POLICY IF EXISTS "Users can delete template shares" ON task_template_shares;
+
+CREATE POLICY "Users can manage own templates"
+  ON task_templates FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Friends can view shared templates"
+  ON task_templates FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM task_template_shares
+      WHERE task_template_shares.template_id = task_templates.id
+        AND task_template_shares.shared_with_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view template shares"
+  ON task_template_shares FOR SELECT
+  USING (auth.uid() = shared_by_id OR auth.uid() = shared_with_id);
+
+CREATE POLICY "Owners can share templates"
+  ON task_template_shares FOR INSERT
+  WITH CHECK (
+    auth.uid() = shared_by_id
+    AND EXISTS (
+      SELECT 1 FROM task_templates
+      WHERE task_templates.id = task_template_shares.template_id
+        AND task_templates.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete template shares"
+  ON task_template_shares FOR DELETE
+  USING (auth.uid() = shared_by_id OR auth.uid() = shared_with_id);
+
+-- 34. Trash: deleting a task sets deleted_at; it is removed for good 30 days later
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed blockers no longer block; they come back if the task is restored
+CREATE OR REPLACE FUNCTION get_task_blockers(blocker_ids UUID[])
+RETURNS TABLE (id UUID, title TEXT, status TEXT) AS $$
+  SELECT blocker.id, blocker.title, blocker.status
+  FROM tasks AS blocker
+  WHERE blocker.id = ANY(blocker_ids)
+    AND blocker.deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM tasks AS dependent
+      WHERE blocker.id = ANY(dependent.blocked_by)
+        AND can_user_view_task(blocker.id, dependent.user_id)
+        AND (
+          dependent.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM task_shares
+            WHERE task_shares.task_id = dependent.id
+              AND task_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM project_shares
+            WHERE project_shares.project_id = dependent.project_id
+              AND project_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM projects
+            WHERE projects.id = dependent.project_id
+              AND projects.user_id = auth.uid()
+          )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The app purges a user's expired trash when it loads it. With pg_cron enabled, this
+-- also purges trash for users who don't open the app:
+-- SELECT cron.schedule('purge-task-trash', '0 3 * * *',
+--   $$DELETE FROM tasks WHERE deleted_at < NOW() - INTERVAL '30 days'$$);
+
+-- 35. Task activity: an append-only history of changes to each task.
+-- Clients send change_source with a write to say where it came from (the app, the assistant,
+-- offline sync or a recurring task); the trigger records it and clears it so it can't leak
+-- into the next write.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS change_source TEXT
+  CHECK (change_source IN ('manual', 'assistant', 'sync', 'recurrence'));
+
+CREATE TABLE IF NOT EXISTS task_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Deferred so the trigger can log a task before the insert that creates it finishes
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT, -- profile name at the time, since friends can't read each other's profiles
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'restored')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'assistant', 'sync', 'recurrence')),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- { column: { from, to } }
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task_id ON task_activity(task_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION log_task_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  tracked TEXT[] := ARRAY[
+    'title', 'description', 'due_date', 'due_time', 'priority', 'status', 'category', 'tags',
+    'assigned_to', 'is_recurring', 'recurring_pattern', 'subtasks', 'project_id', 'blocked_by',
+    'estimated_minutes'
+  ];
+  activity_action TEXT := 'updated';
+  diff JSONB := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    activity_action := 'created';
+  ELSIF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    activity_action := 'deleted';
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    activity_action := 'restored';
+  ELSE
+    SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_each(to_jsonb(NEW)) AS n
+    JOIN jsonb_each(to_jsonb(OLD)) AS o USING (key)
+    WHERE n.key = ANY(tracked) AND n.value IS DISTINCT FROM o.value;
+
+    -- Overdue is derived from the due date, so moving between it and pending isn't news
+    IF OLD.status IN ('pending', 'overdue') AND NEW.status IN ('pending', 'overdue') THEN
+      diff := diff - 'status';
+    END IF;
+  END IF;
+
+  IF activity_action <> 'updated' OR diff <> '{}'::jsonb THEN
+    INSERT INTO task_activity (task_id, actor_id, actor_name, action, source, changes)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      (SELECT name FROM profiles WHERE id = auth.uid()),
+      activity_action,
+      COALESCE(NEW.change_source, 'manual'),
+      diff
+    );
+  END IF;
+
+  NEW.change_source := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_log_task_activity ON tasks;
+CREATE TRIGGER trigger_log_task_activity
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION log_task_activity();
+
+ALTER TABLE task_activity ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see a task can read its history; only the trigger writes it
+DROP POLICY IF EXISTS "Users can view activity of visible tasks" ON task_activity;
+
+CREATE POLICY "Users can view activity of visible tasks"
+  ON task_activity FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_activity.task_id
+        AND (
+          tasks.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM task_shares
+            WHERE task_shares.task_id = tasks.id
+              AND task_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM project_shares
+            WHERE project_shares.project_id = tasks.project_id
+              AND project_shares.shared_with_id = auth.uid()
+          )
+          OR EXISTS (
+            SELECT 1 FROM projects
+            WHERE projects.id = tasks.project_id
+              AND projects.user_id = auth.uid()
+          )
+        )
+    )
+  );
+
+-- 36. Task comments: threaded discussion on a task, with @mentions and per-user read markers
+CREATE TABLE IF NOT EXISTS task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_name TEXT, -- filled in by a trigger, since friends can't read each other's profiles
+  parent_id UUID REFERENCES task_comments(id) ON DELETE CASCADE, -- the comment this replies to
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  mentions UUID[] NOT NULL DEFAULT '{}', -- ids of friends mentioned with @name
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments(task_id, created_at);
+
+CREATE TABLE IF NOT EXISTS task_comment_reads (
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+CREATE OR REPLACE FUNCTION set_comment_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.author_name := (SELECT name FROM profiles WHERE id = NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_comment_author ON task_comments;
+CREATE TRIGGER trigger_set_comment_author
+  BEFORE INSERT ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_author();
+
+-- Whether the caller can see a task (see can_user_view_task in section 27)
+CREATE OR REPLACE FUNCTION can_view_task(task_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT can_user_view_task(task_uuid, auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Task history is visible to the same people (replaces the section 35 policy)
+DROP POLICY IF EXISTS "Users can view activity of visible tasks" ON task_activity;
+
+CREATE POLICY "Users can view activity of visible tasks"
+  ON task_activity FOR SELECT
+  USING (can_view_task(task_id));
+
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_comment_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view comments on visible tasks" ON task_comments;
+DROP POLICY IF EXISTS "Users can comment on visible tasks" ON task_comments;
+DROP POLICY IF EXISTS "Users can delete own comments" ON task_comments;
+DROP POLICY IF EXISTS "Users can manage own comment reads" ON task_comment_reads;
+
+-- Anyone who can see a task can read and add comments
+CREATE POLICY "Users can view comments on visible tasks"
+  ON task_comments FOR SELECT
+  USING (can_view_task(task_id));
+
+CREATE POLICY "Users can comment on visible tasks"
+  ON task_comments FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND can_view_task(task_id));
+
+CREATE POLICY "Users can delete own comments"
+  ON task_comments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own comment reads"
+  ON task_comment_reads FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Comments from others since the caller last opened each task's thread
+CREATE OR REPLACE FUNCTION get_unread_comment_counts()
+RETURNS TABLE (task_id UUID, unread_count BIGINT) AS $$
+  SELECT c.task_id, COUNT(*)
+  FROM task_comments AS c
+  LEFT JOIN task_comment_reads AS r
+    ON r.task_id = c.task_id AND r.user_id = auth.uid()
+  WHERE c.user_id <> auth.uid()
+    AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at)
+  GROUP BY c.task_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE task_comments;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 37. Task attachments: photos and documents stored in the task-attachments bucket.
+-- Files live at {task_id}/{uploader_id}/{file}; each counts against the uploader's plan quota.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 26214400) -- 25 MB per file
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- uploader
+  name TEXT NOT NULL,
+  mime_type TEXT NOT NULL DEFAULT 'application/octet-stream',
+  size_bytes BIGINT NOT NULL DEFAULT 0, -- taken from the stored object by a trigger
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task_id ON task_attachments(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_attachments_user_id ON task_attachments(user_id);
+
+-- Storage allowed per plan, in bytes
+CREATE OR REPLACE FUNCTION attachment_quota_bytes(plan_name TEXT)
+RETURNS BIGINT AS $$
+  SELECT CASE plan_name
+    WHEN 'max' THEN 10737418240 -- 10 GB
+    WHEN 'pro' THEN 2147483648 -- 2 GB
+    ELSE 104857600 -- 100 MB
+  END::BIGINT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The caller's plan, storage used by their uploads and their quota
+CREATE OR REPLACE FUNCTION get_attachment_quota()
+RETURNS TABLE (plan TEXT, used_bytes BIGINT, quota_bytes BIGINT) AS $$
+  WITH user_plan AS (
+    SELECT COALESCE((SELECT ai_usage.plan FROM ai_usage WHERE ai_usage.user_id = auth.uid()), 'free') AS plan
+  )
+  SELECT
+    user_plan.plan,
+    COALESCE((SELECT SUM(size_bytes) FROM task_attachments WHERE task_attachments.user_id = auth.uid()), 0)::BIGINT,
+    attachment_quota_bytes(user_plan.plan)
+  FROM user_plan;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record the real size of the uploaded file and enforce the uploader's quota
+CREATE OR REPLACE FUNCTION check_attachment_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  object_size BIGINT;
+  used BIGINT;
+  user_plan TEXT;
+BEGIN
+  IF NEW.storage_path NOT LIKE NEW.task_id::text || '/' || NEW.user_id::text || '/%' THEN
+    RAISE EXCEPTION 'Attachment path does not match its task and uploader';
+  END IF;
+
+  SELECT (metadata->>'size')::BIGINT INTO object_size
+  FROM storage.objects
+  WHERE bucket_id = 'task-attachments' AND name = NEW.storage_path;
+
+  IF object_size IS NULL THEN
+    RAISE EXCEPTION 'Attachment file has not been uploaded';
+  END IF;
+  NEW.size_bytes := object_size;
+
+  SELECT COALESCE(SUM(size_bytes), 0) INTO used FROM task_attachments WHERE user_id = NEW.user_id;
+  SELECT COALESCE((SELECT plan FROM ai_usage WHERE user_id = NEW.user_id), 'free') INTO user_plan;
+
+  IF used + object_size > attachment_quota_bytes(user_plan) THEN
+    RAISE EXCEPTION 'Attachment storage quota exceeded' USING ERRCODE = '53400';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_attachment_quota ON task_attachments;
+CREATE TRIGGER trigger_check_attachment_quota
+  BEFORE INSERT ON task_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_attachment_quota();
+
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view attachments on visible tasks" ON task_attachments;
+DROP POLICY IF EXISTS "Users can attach files to visible tasks" ON task_attachments;
+DROP POLICY IF EXISTS "Uploaders and task owners can delete attachments" ON task_attachments;
+
+-- Anyone who can see a task can see and add attachments; the uploader or the task's
+-- owner can remove them
+CREATE POLICY "Users can view attachments on visible tasks"
+  ON task_attachments FOR SELECT
+  USING (can_view_task(task_id));
+
+CREATE POLICY "Users can attach files to visible tasks"
+  ON task_attachments FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND can_view_task(task_id));
+
+CREATE POLICY "Uploaders and task owners can delete attachments"
+  ON task_attachments FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_attachments.task_id AND tasks.user_id = auth.uid())
+  );
+
+-- The task an object in the bucket belongs to, or NULL for a path that isn't {task_id}/...
+CREATE OR REPLACE FUNCTION attachment_object_task_id(object_name TEXT)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN (storage.foldername(object_name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN ((storage.foldername(object_name))[1])::UUID
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP POLICY IF EXISTS "Users can read attachments of visible tasks" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload attachments to visible tasks" ON storage.objects;
+DROP POLICY IF EXISTS "Uploaders and task owners can delete attachment files" ON storage.objects;
+
+CREATE POLICY "Users can read attachments of visible tasks"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'task-attachments' AND can_view_task(attachment_object_task_id(name)));
+
+CREATE POLICY "Users can upload attachments to visible tasks"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'task-attachments'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND can_view_task(attachment_object_task_id(name))
+  );
+
+CREATE POLICY "Uploaders and task owners can delete attachment files"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'task-attachments'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM tasks
+        WHERE tasks.id = attachment_object_task_id(name) AND tasks.user_id = auth.uid()
+      )
+    )
+  );
+
+-- 38. Location reminders: saved places, and reminders that fire on arriving at or leaving one
+CREATE TABLE IF NOT EXISTS saved_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('home', 'office', 'store', 'other')) DEFAULT 'other',
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_meters INTEGER NOT NULL CHECK (radius_meters BETWEEN 50 AND 5000) DEFAULT 150,
+  address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_places_user_id ON saved_places(user_id);
+
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own places" ON saved_places;
+
+CREATE POLICY "Users can manage own places"
+  ON saved_places FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Location reminders have a place and a trigger instead of a time
+ALTER TABLE reminders ALTER COLUMN reminder_time DROP NOT NULL;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES saved_places(id) ON DELETE CASCADE;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS trigger_on TEXT CHECK (trigger_on IN ('arrive', 'leave'));
+
+ALTER TABLE reminders DROP CONSTRAINT IF EXISTS reminders_reminder_type_check;
+ALTER TABLE reminders ADD CONSTRAINT reminders_reminder_type_check
+  CHECK (reminder_type IN ('due_date', 'custom', 'recurring', 'location'));
+
+ALTER TABLE reminders DROP CONSTRAINT IF EXISTS reminders_location_check;
+ALTER TABLE reminders ADD CONSTRAINT reminders_location_check CHECK (
+  CASE WHEN reminder_type = 'location'
+    THEN place_id IS NOT NULL AND trigger_on IS NOT NULL
+    ELSE reminder_time IS NOT NULL
+  END
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_place_id ON reminders(place_id);
+
+-- 39. Reminder management: default reminders per user
+-- Minutes before a task's due time; 1 day before, 1 hour before and at the due time unless changed
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS default_reminder_offsets INTEGER[] NOT NULL DEFAULT '{1440,60,0}';
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_default_reminder_offsets_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_default_reminder_offsets_check CHECK (
+  cardinality(default_reminder_offsets) <= 10
+  AND 0 <= ALL (default_reminder_offsets)
+  AND 43200 >= ALL (default_reminder_offsets)
+);
 
 -- Success message (this won't execute but shows the script completed)
 -- All tables created successfully!
@@ -1,6 +1,14 @@
 export type Priority = 'high' | 'medium' | 'low' | 'none';
 export type TaskStatus = 'pending' | 'completed' | 'overdue';
-export type TaskCategory = 'work' | 'personal' | 'health' | 'shopping' | 'other';
+// Slug of one of the user's categories, e.g. 'work'
+export type TaskCategory = string;
+
+export interface Subtask {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  order: number;
+}
 
 export interface Task {
   id: string;
@@ -17,11 +25,196 @@ export interface Task {
   completedAt?: string;
   isRecurring?: boolean;
   recurringPattern?: string;
+  subtasks?: Subtask[];
+  projectId?: string;
+  // Ids of tasks that must be completed before this one can start
+  blockedBy?: string[];
+  estimatedMinutes?: number;
+  // Set while the task is in the trash
+  deletedAt?: string;
+  // Owner of the task; differs from the current user for tasks shared with them
+  ownerId?: string;
   createdById?: string;
   updatedById?: string;
   updatedAt?: string;
 }
 
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+}
+
+// Where a change to a task came from, for its activity history
+export type TaskChangeSource = 'manual' | 'assistant' | 'sync' | 'recurrence';
+
+export type TaskActivityAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+export interface TaskFieldChange {
+  field: keyof Task;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  actorId?: string;
+  actorName?: string;
+  action: TaskActivityAction;
+  source: TaskChangeSource;
+  changes: TaskFieldChange[];
+  createdAt: string;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  authorName?: string;
+  // Set on replies; replies to a reply join the same thread
+  parentId?: string;
+  content: string;
+  // Ids of friends mentioned with @name
+  mentions: string[];
+  createdAt: string;
+}
+
+export type AttachmentKind = 'image' | 'document';
+
+export interface TaskAttachment {
+  id: string;
+  taskId: string;
+  uploadedBy: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  kind: AttachmentKind;
+  // Signed URL for uploaded files, or the file on this device while it waits to upload
+  uri: string;
+  isPending?: boolean;
+  createdAt: string;
+}
+
+export interface TaskReminder {
+  id: string;
+  taskId: string;
+  remindAt: string;
+  // Relative reminders keep their offset when the task's due date moves; absolute ones stay put
+  isRelative: boolean;
+  createdAt: string;
+}
+
+export type PlaceKind = 'home' | 'office' | 'store' | 'other';
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  kind: PlaceKind;
+  latitude: number;
+  longitude: number;
+  // Geofence around the place, in meters
+  radiusMeters: number;
+  address?: string;
+  createdAt: string;
+}
+
+export type LocationTrigger = 'arrive' | 'leave';
+
+export interface LocationReminder {
+  id: string;
+  taskId: string;
+  placeId: string;
+  triggerOn: LocationTrigger;
+  createdAt: string;
+}
+
+export type SharePermission = 'view' | 'edit';
+
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  sortOrder: number;
+  isArchived: boolean;
+  createdAt: string;
+  ownerId?: string;
+  // Set when the project is shared with the current user rather than owned by them
+  permission?: SharePermission;
+}
+
+export interface Category {
+  id: string;
+  slug: TaskCategory;
+  name: string;
+  color: string;
+  sortOrder: number;
+  createdAt: string;
+}
+
+export type SmartListSort = 'due' | 'priority' | 'created' | 'title';
+
+export interface SmartList {
+  id: string;
+  name: string;
+  // Search query language, see lib/search.ts
+  query: string;
+  sort: SmartListSort;
+  isPinned: boolean;
+  sortOrder: number;
+  createdAt: string;
+}
+
+export type TaskView = 'list' | 'board';
+export type BoardGroupBy = 'status' | 'priority' | 'category' | 'project';
+
+export interface BoardPreferences {
+  view: TaskView;
+  groupBy: BoardGroupBy;
+  // Column keys such as 'priority:high' or 'project:none'
+  collapsedColumns: string[];
+  wipLimits: Record<string, number>;
+}
+
+export type TimeEntrySource = 'timer' | 'manual' | 'focus';
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  source: TimeEntrySource;
+  startedAt: string;
+  // Unset while the timer is running
+  endedAt?: string;
+  note?: string;
+  createdAt: string;
+}
+
+// One task in a template; dates are relative to the day the template is used
+export interface TemplateTask {
+  title: string;
+  description?: string;
+  // Days after the anchor date the task is due; unset for no due date
+  dueOffsetDays?: number;
+  dueTime?: string;
+  priority: Priority;
+  category: TaskCategory;
+  tags?: string[];
+  subtasks?: string[];
+  estimatedMinutes?: number;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  tasks: TemplateTask[];
+  createdAt: string;
+  ownerId?: string;
+  // Set when a friend shared the template with the current user; shared templates can be used but not edited
+  isShared?: boolean;
+}
+
 export interface User {
   id: string;
   name: string;